@@ -0,0 +1,51 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { withAuth, apiSuccess, apiError, withRetry } from '@/lib/api-helpers'
+import {
+  DEFAULT_ACTIVITY_PAGE_SIZE,
+  MAX_ACTIVITY_PAGE_SIZE,
+  decodeActivityCursor,
+  listActivity
+} from '@/lib/activity'
+import { User } from '@supabase/supabase-js'
+
+// GET /api/activity?cursor=...&limit=20
+// The user's saves, watchlist changes, chat sessions, portfolio changes and profile
+// updates, newest first
+export const GET = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limitParam = searchParams.get('limit')
+    const limit = limitParam ? parseInt(limitParam) : DEFAULT_ACTIVITY_PAGE_SIZE
+    const cursorParam = searchParams.get('cursor')
+    const cursor = cursorParam ? decodeActivityCursor(cursorParam) : null
+
+    if (isNaN(limit) || limit <= 0 || limit > MAX_ACTIVITY_PAGE_SIZE) {
+      return apiError(`Limit must be between 1 and ${MAX_ACTIVITY_PAGE_SIZE}`, 400, null, 'INVALID_LIMIT')
+    }
+
+    if (cursorParam && !cursor) {
+      return apiError('Invalid cursor', 400, null, 'INVALID_CURSOR')
+    }
+
+    const supabase = await createClient()
+
+    // Wrap database operation with retry logic
+    const page = await withRetry(
+      () => listActivity(supabase, user.id, { limit, cursor }),
+      3, // max retries
+      1000, // initial delay
+      'Fetch user activity'
+    )
+
+    return apiSuccess(page, `Retrieved ${page.items.length} activity items`)
+  } catch (error) {
+    console.error('Error in GET /api/activity:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to fetch activity from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to fetch activity', 500, error instanceof Error ? error.message : error)
+  }
+})
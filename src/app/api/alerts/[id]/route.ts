@@ -0,0 +1,94 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import {
+  withAuth,
+  apiSuccess,
+  apiError,
+  validateBody,
+  withRetry,
+  UpdateAlertRequest,
+  isValidUpdateAlertRequest
+} from '@/lib/api-helpers'
+import { deleteAlert, updateAlert } from '@/lib/alerts'
+import { User } from '@supabase/supabase-js'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// PUT /api/alerts/[id] - Change the threshold, pause, or re-arm an alert that fired
+export const PUT = withAuth(async (user: User, request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params
+
+    // Validate request body
+    const validation = await validateBody(
+      request,
+      isValidUpdateAlertRequest,
+      'Invalid alert update. Provide a positive "threshold" and/or "is_active".'
+    )
+
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const updates: UpdateAlertRequest = validation.data
+    const supabase = await createClient()
+
+    const result = await withRetry(
+      () => updateAlert(supabase, user.id, id, updates),
+      3, // max retries
+      1000, // initial delay
+      'Update alert'
+    )
+
+    if (result.type === 'not_found') {
+      return apiError('Alert not found', 404, null, 'ALERT_NOT_FOUND')
+    }
+
+    if (result.type === 'invalid_threshold') {
+      return apiError('Threshold does not fit this alert type', 400, null, 'INVALID_THRESHOLD')
+    }
+
+    if (result.type !== 'ok') {
+      return apiError('Failed to update alert', 500)
+    }
+
+    return apiSuccess(result.alert, 'Alert updated successfully')
+  } catch (error) {
+    console.error('Error in PUT /api/alerts/[id]:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to update alert in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to update alert', 500, error instanceof Error ? error.message : error)
+  }
+})
+
+// DELETE /api/alerts/[id]
+export const DELETE = withAuth(async (user: User, _request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    const deleted = await withRetry(
+      () => deleteAlert(supabase, user.id, id),
+      3, // max retries
+      1000, // initial delay
+      'Delete alert'
+    )
+
+    if (!deleted) {
+      return apiError('Alert not found', 404, null, 'ALERT_NOT_FOUND')
+    }
+
+    return apiSuccess({ id }, 'Alert deleted successfully')
+  } catch (error) {
+    console.error('Error in DELETE /api/alerts/[id]:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to delete alert from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to delete alert', 500, error instanceof Error ? error.message : error)
+  }
+})
@@ -0,0 +1,71 @@
+/**
+ * Alert Evaluation Route
+ *
+ * Checks every active watchlist alert against current quotes and newly published
+ * ideas, and notifies the owners of the ones that fired. Then notifies users with
+ * email notifications enabled about new ideas mentioning tickers on their watchlists.
+ * A scheduled job should call it every few minutes during market hours; repeated
+ * calls do not repeat notifications.
+ *
+ * Required Environment Variables:
+ * - ADMIN_API_SECRET: sent as "Authorization: Bearer <secret>"
+ * - SUPABASE_SERVICE_ROLE_KEY: reads every user's alerts and writes notifications
+ * - QUOTE_PROVIDER (optional): quote source for price alerts, defaults to "fixture"
+ * - NOTIFICATION_SENDER (optional): email/push delivery, defaults to "log"
+ */
+
+import { NextRequest } from 'next/server'
+import { createServiceClient } from '@/lib/supabase-server'
+import { apiSuccess, apiError, withAdminAuth } from '@/lib/api-helpers'
+import { evaluateAlerts } from '@/lib/alerts'
+import { getQuoteProvider } from '@/lib/quotes'
+import { getNotificationSender } from '@/lib/notifications'
+import { notifyWatchlistMatches } from '@/lib/watchlist-matching'
+
+export const POST = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const dryRun = searchParams.get('dry_run') === 'true'
+
+    const supabase = createServiceClient()
+    const quoteProvider = getQuoteProvider()
+    const sender = getNotificationSender()
+
+    // Not retried: a failure after notifications went out would send them twice
+    const result = await evaluateAlerts(supabase, { quoteProvider, sender, dryRun })
+    // After alerts, so ideas already reported by an idea_mention alert are skipped
+    const matches = await notifyWatchlistMatches(supabase, { sender, dryRun })
+
+    return apiSuccess(
+      {
+        alertsEvaluated: result.alertsEvaluated,
+        triggered: result.triggered.map(({ alert, notification }) => ({
+          alertId: alert.id,
+          userId: alert.user_id,
+          ticker: alert.ticker,
+          alertType: alert.alert_type,
+          title: notification.title
+        })),
+        notificationsSent: result.notificationsSent,
+        watchlistMatches: {
+          ideasScanned: matches.ideasScanned,
+          notifications: matches.notifications.length,
+          notificationsSent: matches.notificationsSent
+        },
+        quoteError: result.quoteError,
+        quoteProvider: quoteProvider.name,
+        sender: sender.name
+      },
+      `${dryRun ? 'Would trigger' : 'Triggered'} ${result.triggered.length} of ${result.alertsEvaluated} alerts ` +
+      `and ${matches.notifications.length} watchlist match notifications`
+    )
+  } catch (error) {
+    console.error('Error in POST /api/alerts/evaluate:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to evaluate alerts in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to evaluate alerts', 500, error instanceof Error ? error.message : error)
+  }
+})
@@ -0,0 +1,84 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import {
+  withAuth,
+  apiSuccess,
+  apiError,
+  validateBody,
+  withRetry,
+  CreateAlertRequest,
+  isValidCreateAlertRequest
+} from '@/lib/api-helpers'
+import { MAX_ALERTS_PER_USER, createAlert, describeAlert, listAlerts } from '@/lib/alerts'
+import { User } from '@supabase/supabase-js'
+
+// GET /api/alerts?ticker=AAPL - The user's alerts, oldest first, optionally for one ticker
+export const GET = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const ticker = searchParams.get('ticker')
+    const supabase = await createClient()
+
+    // Wrap database operation with retry logic
+    const alerts = await withRetry(
+      () => listAlerts(supabase, user.id, { ticker }),
+      3, // max retries
+      1000, // initial delay
+      'Fetch alerts'
+    )
+
+    return apiSuccess(alerts, `Retrieved ${alerts.length} alerts`)
+  } catch (error) {
+    console.error('Error in GET /api/alerts:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to fetch alerts from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to fetch alerts', 500, error instanceof Error ? error.message : error)
+  }
+})
+
+// POST /api/alerts - { "ticker": "AAPL", "alert_type": "price_above", "threshold": 250 }
+export const POST = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    // Validate request body
+    const validation = await validateBody(
+      request,
+      isValidCreateAlertRequest,
+      'Invalid alert. Provide a ticker, an alert_type and a positive threshold (none for idea_mention, at most 100 for percent_move).'
+    )
+
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const body: CreateAlertRequest = validation.data
+    const supabase = await createClient()
+
+    const result = await withRetry(
+      () => createAlert(supabase, user.id, body),
+      3, // max retries
+      1000, // initial delay
+      'Create alert'
+    )
+
+    if (result.type === 'limit_reached') {
+      return apiError(`You can have at most ${MAX_ALERTS_PER_USER} alerts`, 409, null, 'ALERT_LIMIT_REACHED')
+    }
+
+    if (result.type !== 'ok') {
+      return apiError('Failed to create alert', 500)
+    }
+
+    return apiSuccess(result.alert, `Alert set: ${describeAlert(result.alert)}`, 201)
+  } catch (error) {
+    console.error('Error in POST /api/alerts:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to create alert in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to create alert', 500, error instanceof Error ? error.message : error)
+  }
+})
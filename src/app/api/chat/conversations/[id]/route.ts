@@ -0,0 +1,117 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import {
+  withAuth,
+  apiSuccess,
+  apiError,
+  validateBody,
+  withRetry,
+  MAX_CONVERSATION_TITLE_LENGTH,
+  RenameConversationRequest,
+  isValidRenameConversationRequest
+} from '@/lib/api-helpers'
+import { deleteConversation, getConversation, renameConversation } from '@/lib/chat-conversations'
+import { User } from '@supabase/supabase-js'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/chat/conversations/[id] - The conversation with its messages, oldest first
+export const GET = withAuth(async (user: User, _request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Wrap database operation with retry logic
+    const result = await withRetry(
+      () => getConversation(supabase, user.id, id),
+      3, // max retries
+      1000, // initial delay
+      'Fetch conversation'
+    )
+
+    if (!result) {
+      return apiError('Conversation not found', 404, null, 'CONVERSATION_NOT_FOUND')
+    }
+
+    return apiSuccess(result, `Retrieved ${result.messages.length} messages`)
+  } catch (error) {
+    console.error('Error in GET /api/chat/conversations/[id]:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to fetch conversation from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to fetch conversation', 500, error instanceof Error ? error.message : error)
+  }
+})
+
+// PUT /api/chat/conversations/[id] - { "title": "NVDA earnings research" }
+export const PUT = withAuth(async (user: User, request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params
+
+    // Validate request body
+    const validation = await validateBody(
+      request,
+      isValidRenameConversationRequest,
+      `Invalid title. Provide a non-empty "title" of at most ${MAX_CONVERSATION_TITLE_LENGTH} characters.`
+    )
+
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { title }: RenameConversationRequest = validation.data
+    const supabase = await createClient()
+
+    const conversation = await withRetry(
+      () => renameConversation(supabase, user.id, id, title),
+      3, // max retries
+      1000, // initial delay
+      'Rename conversation'
+    )
+
+    if (!conversation) {
+      return apiError('Conversation not found', 404, null, 'CONVERSATION_NOT_FOUND')
+    }
+
+    return apiSuccess(conversation, 'Conversation renamed successfully')
+  } catch (error) {
+    console.error('Error in PUT /api/chat/conversations/[id]:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to rename conversation in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to rename conversation', 500, error instanceof Error ? error.message : error)
+  }
+})
+
+// DELETE /api/chat/conversations/[id] - Removes the conversation and its messages
+export const DELETE = withAuth(async (user: User, _request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    const deleted = await withRetry(
+      () => deleteConversation(supabase, user.id, id),
+      3, // max retries
+      1000, // initial delay
+      'Delete conversation'
+    )
+
+    if (!deleted) {
+      return apiError('Conversation not found', 404, null, 'CONVERSATION_NOT_FOUND')
+    }
+
+    return apiSuccess({ id }, 'Conversation deleted successfully')
+  } catch (error) {
+    console.error('Error in DELETE /api/chat/conversations/[id]:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to delete conversation from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to delete conversation', 500, error instanceof Error ? error.message : error)
+  }
+})
@@ -0,0 +1,42 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { withAuth, apiSuccess, apiError, withRetry } from '@/lib/api-helpers'
+import {
+  DEFAULT_CONVERSATION_PAGE_SIZE,
+  MAX_CONVERSATION_PAGE_SIZE,
+  listConversations
+} from '@/lib/chat-conversations'
+import { User } from '@supabase/supabase-js'
+
+// GET /api/chat/conversations?limit=20 - The user's conversations, most recently active first
+export const GET = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limitParam = searchParams.get('limit')
+    const limit = limitParam ? parseInt(limitParam) : DEFAULT_CONVERSATION_PAGE_SIZE
+
+    if (isNaN(limit) || limit <= 0 || limit > MAX_CONVERSATION_PAGE_SIZE) {
+      return apiError(`Limit must be between 1 and ${MAX_CONVERSATION_PAGE_SIZE}`, 400, null, 'INVALID_LIMIT')
+    }
+
+    const supabase = await createClient()
+
+    // Wrap database operation with retry logic
+    const conversations = await withRetry(
+      () => listConversations(supabase, user.id, { limit }),
+      3, // max retries
+      1000, // initial delay
+      'Fetch conversations'
+    )
+
+    return apiSuccess(conversations, `Retrieved ${conversations.length} conversations`)
+  } catch (error) {
+    console.error('Error in GET /api/chat/conversations:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to fetch conversations from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to fetch conversations', 500, error instanceof Error ? error.message : error)
+  }
+})
@@ -1,19 +1,42 @@
 /**
- * N8N Agent Chat API Route
+ * Research Chat API Route
  * 
- * Required Environment Variables:
- * - N8N_AGENT_WEBHOOK_URL: Your N8N agent webhook URL
+ * Environment Variables:
+ * - CHAT_PROVIDER: "n8n" (default), "openai" or "mock"
+ * - N8N_AGENT_WEBHOOK_URL: Your N8N agent webhook URL (n8n provider)
+ * - OPENAI_API_KEY, OPENAI_BASE_URL, OPENAI_MODEL: OpenAI-compatible API (openai provider)
  * 
  * Features:
  * - User authentication required
- * - Rate limiting (10 requests per minute per user)
+ * - Rate limiting: CHAT_RATE_LIMIT_PER_MINUTE requests per minute plus daily and monthly
+ *   quotas by subscription (CHAT_DAILY_QUOTA_*, CHAT_MONTHLY_QUOTA_*), counted in the
+ *   RATE_LIMIT_STORE and reported in RateLimit-* headers; refusals are 429 with
+ *   Retry-After (RATE_LIMIT_EXCEEDED per minute, QUOTA_EXCEEDED per day or month)
  * - Trading context support (ideas, watchlist, user profile)
  * - Input validation and sanitization
- * - Error handling with fallback responses
- * - N8N agent integration for financial research
+ * - Timeouts and a circuit breaker: the agent must answer within CHAT_AGENT_TIMEOUT_MS
+ *   (streams must not stall for longer); after CHAT_BREAKER_FAILURE_THRESHOLD failures in
+ *   a row it is skipped for CHAT_BREAKER_COOLDOWN_MS. Failures are 504 AGENT_TIMEOUT or
+ *   503 AGENT_UNAVAILABLE, never a stand-in reply; a client that disconnects cancels the
+ *   agent request
+ * - Pluggable backends: an N8N agent workflow, an OpenAI-compatible API, or a mock;
+ *   `maxTokens` and `temperature` are passed through to the provider
+ * - Conversations: messages and replies are stored; pass `conversationId` to continue one
+ * - History: earlier turns go to the agent within CHAT_HISTORY_TOKEN_BUDGET, older ones
+ *   summarized, together with the CHAT_SYSTEM_PROMPT instructions
+ * - Streaming: with `stream: true` the reply is sent as server-sent events
+ *   (`delta` chunks, then `done` or `error`), whether or not the agent itself streams
+ * - Tools: providers that support tool calling (openai, mock) research with web/news
+ *   search, quotes and the user's watchlists, portfolio and saved ideas; the calls and
+ *   results come back as `message.toolCalls` (streamed as `tool_call`/`tool_result`
+ *   events). Disable with CHAT_TOOLS=false
+ * - Usage metering: every request is recorded with its provider, latency, token counts,
+ *   outcome and error code (see GET /api/usage)
+ * - Structured replies: `message` carries the content, cited `sources` (title and URL),
+ *   the agent's `confidence` (0-1, or null), the tool trace and a timestamp
  */
 
-import { NextRequest } from 'next/server'
+import { NextRequest, NextResponse } from 'next/server'
 import { 
   withAuth, 
   apiSuccess, 
@@ -22,45 +45,46 @@ import {
   withRetry,
   validators 
 } from '@/lib/api-helpers'
-import { User } from '@supabase/supabase-js'
+import { createClient, createServiceClient } from '@/lib/supabase-server'
+import { recordActivity } from '@/lib/activity'
+import { ChatStreamEvent, SSE_HEADERS, encodeStreamEvent } from '@/lib/agent-stream'
+import {
+  ChatCompletionRequest,
+  ChatProvider,
+  ChatReplyDetails,
+  ChatUsage,
+  agentErrorCode,
+  checkChatProviders,
+  getChatProvider
+} from '@/lib/chat-providers'
+import {
+  appendMessage,
+  conversationTitle,
+  createConversation,
+  findConversation,
+  listRecentMessages
+} from '@/lib/chat-conversations'
+import { MAX_HISTORY_MESSAGES, buildAgentHistory, systemPrompt } from '@/lib/chat-history'
+import { AgentToolContext, ToolTraceEntry, createToolContext } from '@/lib/agent-tools'
+import { runResearchAgent, supportsTools } from '@/lib/research-agent'
+import { RateLimitResult, rateLimitHeaders } from '@/lib/rate-limit'
+import { SubscriptionTier, consumeChatQuota } from '@/lib/chat-quotas'
+import { ChatUsageStatus, recordChatUsage } from '@/lib/chat-usage'
+import { config } from '@/lib/config'
+import { normalizeSources } from '@/lib/chat-sources'
+import { ChatReplyMessage } from '@/types/api'
+import { ChatConversation } from '@/types/user'
+import { SupabaseClient, User } from '@supabase/supabase-js'
 
-// Rate limiting store (in production, use Redis or database)
-const rateLimitStore = new Map<string, { count: number; resetTime: number }>()
+// What the client is told when the agent fails before answering
+const AGENT_ERRORS = {
+  AGENT_TIMEOUT: { message: 'The research service took too long to answer. Please try again.', status: 504 },
+  AGENT_UNAVAILABLE: { message: 'The research service is unavailable right now. Please try again shortly.', status: 503 }
+} as const
 
-// Rate limiting configuration
-const RATE_LIMIT = {
-  maxRequests: 10, // requests per window
-  windowMs: 60 * 1000, // 1 minute
-}
-
-// N8N Agent integration
-async function callN8NAgent(userMessage: string, tradingContext: any): Promise<string | any> {
-  try {
-    const response = await fetch(process.env.N8N_AGENT_WEBHOOK_URL!, {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({ 
-        message: userMessage,
-        context: tradingContext 
-      })
-    })
-    
-    if (!response.ok) {
-      throw new Error(`N8N agent responded with status: ${response.status}`)
-    }
-    
-    // Try to parse as JSON first, fallback to text
-    const contentType = response.headers.get('content-type')
-    if (contentType && contentType.includes('application/json')) {
-      return await response.json()
-    } else {
-      return await response.text()
-    }
-  } catch (error) {
-    console.error('N8N agent call failed:', error)
-    return 'I apologize, but I cannot access current financial data right now. Please try again or check financial websites directly.'
-  }
-}
+// Generation settings accepted from clients
+const MAX_TOKENS_LIMIT = 4000
+const MAX_TEMPERATURE = 2
 
 // Message interface
 interface ChatMessage {
@@ -73,7 +97,7 @@ interface ChatRequest {
   messages: ChatMessage[]
   tradingContext?: {
     idea?: {
-      id: number
+      key: string
       theme: string
       analysis: string
       tickers: string
@@ -84,8 +108,11 @@ interface ChatRequest {
       investmentGoals?: string
     }
   }
+  // Omit to start a new conversation
+  conversationId?: string
   maxTokens?: number
   temperature?: number
+  stream?: boolean
 }
 
 // Validation function
@@ -106,8 +133,16 @@ function isValidChatRequest(body: unknown): body is ChatRequest {
   }
   
   // Validate optional fields
-  if (requestBody.maxTokens !== undefined && !validators.isNumber(requestBody.maxTokens)) return false
-  if (requestBody.temperature !== undefined && !validators.isNumber(requestBody.temperature)) return false
+  if (requestBody.maxTokens !== undefined) {
+    if (!validators.isNumber(requestBody.maxTokens) || !Number.isInteger(requestBody.maxTokens)) return false
+    if (requestBody.maxTokens < 1 || requestBody.maxTokens > MAX_TOKENS_LIMIT) return false
+  }
+  if (requestBody.temperature !== undefined) {
+    if (!validators.isNumber(requestBody.temperature)) return false
+    if (requestBody.temperature < 0 || requestBody.temperature > MAX_TEMPERATURE) return false
+  }
+  if (requestBody.stream !== undefined && !validators.isBoolean(requestBody.stream)) return false
+  if (requestBody.conversationId !== undefined && !validators.isNonEmptyString(requestBody.conversationId)) return false
   
   // Validate trading context if provided
   if (requestBody.tradingContext !== undefined) {
@@ -118,7 +153,7 @@ function isValidChatRequest(body: unknown): body is ChatRequest {
     if (context.idea !== undefined) {
       if (!validators.isObject(context.idea)) return false
       const idea = context.idea as Record<string, unknown>
-      if (!validators.isNumber(idea.id)) return false
+      if (!validators.isNonEmptyString(idea.key)) return false
       if (!validators.isNonEmptyString(idea.theme)) return false
       if (!validators.isNonEmptyString(idea.analysis)) return false
       if (!validators.isNonEmptyString(idea.tickers)) return false
@@ -135,27 +170,35 @@ function isValidChatRequest(body: unknown): body is ChatRequest {
   return true
 }
 
-// Rate limiting function
-function checkRateLimit(userId: string): { allowed: boolean; resetTime?: number } {
-  const now = Date.now()
-  const userLimit = rateLimitStore.get(userId)
-  
-  if (!userLimit || now > userLimit.resetTime) {
-    // Reset or initialize rate limit
-    rateLimitStore.set(userId, {
-      count: 1,
-      resetTime: now + RATE_LIMIT.windowMs
-    })
-    return { allowed: true }
-  }
-  
-  if (userLimit.count >= RATE_LIMIT.maxRequests) {
-    return { allowed: false, resetTime: userLimit.resetTime }
+function rateLimitCode(result: RateLimitResult): string {
+  return result.binding.period === 'minute' ? 'RATE_LIMIT_EXCEEDED' : 'QUOTA_EXCEEDED'
+}
+
+// The refusal for a request over its rate limit or quota, with the RateLimit headers
+function rateLimitExceeded(result: RateLimitResult & { tier: SubscriptionTier }): NextResponse {
+  const { period, limit, resetAt } = result.binding
+  const resetTime = resetAt.getTime()
+  const waitTime = Math.max(Math.ceil((resetTime - Date.now()) / 1000), 0)
+  const details = { tier: result.tier, period, limit, resetTime, waitTime }
+
+  const response = period === 'minute'
+    ? apiError(`Rate limit exceeded. Please try again in ${waitTime} seconds.`, 429, details, rateLimitCode(result))
+    : apiError(
+        `You have used all ${limit} chat requests of your ${result.tier} plan for this ${period}. ` +
+        `The quota resets at ${resetAt.toISOString()}.`,
+        429,
+        details,
+        rateLimitCode(result)
+      )
+
+  return withHeaders(response, rateLimitHeaders(result))
+}
+
+function withHeaders(response: NextResponse, headers: Record<string, string>): NextResponse {
+  for (const [name, value] of Object.entries(headers)) {
+    response.headers.set(name, value)
   }
-  
-  // Increment count
-  userLimit.count++
-  return { allowed: true }
+  return response
 }
 
 
@@ -168,21 +211,201 @@ function sanitizeMessage(message: ChatMessage): ChatMessage {
 }
 
 
+// Everything needed to answer and store one user message
+interface ChatTurn {
+  supabase: SupabaseClient
+  userId: string
+  conversation: ChatConversation
+  isNewConversation: boolean
+  messages: ChatMessage[]
+  tradingContext: ChatRequest['tradingContext']
+  provider: ChatProvider
+  completion: ChatCompletionRequest
+  // Set when the provider answers through the tool loop
+  toolContext: AgentToolContext | null
+  streamed: boolean
+  // When the request arrived, for usage metering
+  startedAt: number
+  // Service role client usage is recorded with; null when usage cannot be recorded
+  usageClient: SupabaseClient | null
+}
+
+// Users may read their chat usage but not write it, so it is recorded with the service
+// role. Without SUPABASE_SERVICE_ROLE_KEY requests are still answered, just not metered.
+function createUsageClient(): SupabaseClient | null {
+  try {
+    return createServiceClient()
+  } catch (error) {
+    console.error('Chat usage will not be recorded:', error instanceof Error ? error.message : error)
+    return null
+  }
+}
+
+// Records the request in chat usage metering
+async function meterTurn(
+  turn: ChatTurn,
+  status: ChatUsageStatus,
+  { errorCode, usage, toolCalls = [] }: { errorCode?: string; usage?: ChatUsage; toolCalls?: ToolTraceEntry[] } = {}
+) {
+  if (!turn.usageClient) return
+  await recordChatUsage(turn.usageClient, {
+    userId: turn.userId,
+    conversationId: turn.conversation.id,
+    provider: turn.provider.name,
+    model: turn.provider.model,
+    status,
+    errorCode,
+    streamed: turn.streamed,
+    latencyMs: Date.now() - turn.startedAt,
+    usage,
+    toolCalls: toolCalls.length
+  })
+}
+
+function replyMessage(content: string, details: ChatReplyDetails, toolCalls: ToolTraceEntry[]): ChatReplyMessage {
+  return {
+    role: 'assistant',
+    content,
+    sources: normalizeSources(details.sources),
+    confidence: details.confidence ?? null,
+    toolCalls,
+    timestamp: new Date().toISOString()
+  }
+}
+
+// Stores the reply with its sources, confidence and tool trace and, for a new
+// conversation, records the chat session in the activity stream
+async function completeTurn(turn: ChatTurn, reply: ChatReplyMessage, metadata?: Record<string, unknown>) {
+  await appendMessage(turn.supabase, turn.userId, turn.conversation.id, {
+    role: 'assistant',
+    content: reply.content,
+    model: turn.provider.model,
+    metadata: {
+      ...metadata,
+      ...(reply.sources.length > 0 ? { sources: reply.sources } : {}),
+      ...(reply.confidence !== null ? { confidence: reply.confidence } : {}),
+      ...(reply.toolCalls.length > 0 ? { tool_calls: reply.toolCalls } : {})
+    }
+  })
+
+  if (!turn.isNewConversation) return
+
+  await recordActivity(turn.supabase, turn.userId, 'chat_session', {
+    preview: turn.messages[turn.messages.length - 1].content.slice(0, 120),
+    conversation_id: turn.conversation.id,
+    idea_key: turn.tradingContext?.idea?.key,
+    idea_theme: turn.tradingContext?.idea?.theme
+  })
+}
+
+// Relays the agent reply as server-sent events. Agents that answer in one piece arrive
+// as a single delta, as do answers from the tool loop after its tool events; sources
+// and confidence come with `done`. An agent that fails before answering ends the stream
+// with an AGENT_TIMEOUT or AGENT_UNAVAILABLE `error` event.
+function streamAgentReply(turn: ChatTurn): NextResponse {
+  const encoder = new TextEncoder()
+  const upstream = new AbortController()
+  let cancelled = false
+
+  const body = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: ChatStreamEvent) => {
+        if (!cancelled) controller.enqueue(encoder.encode(encodeStreamEvent(event)))
+      }
+      const toolCalls: ToolTraceEntry[] = []
+      let details: ChatReplyDetails = {}
+      let content = ''
+      const save = async (reply: ChatReplyMessage, metadata?: Record<string, unknown>) => {
+        try {
+          await completeTurn(turn, reply, metadata)
+        } catch (error) {
+          console.error('Failed to store chat reply:', error)
+        }
+      }
+
+      send({ event: 'conversation', data: { id: turn.conversation.id, title: turn.conversation.title } })
+
+      try {
+        if (turn.toolContext) {
+          const answer = await runResearchAgent(turn.provider, turn.completion, turn.toolContext, {
+            signal: upstream.signal,
+            onToolCall: call => send({ event: 'tool_call', data: call }),
+            onToolResult: entry => {
+              toolCalls.push(entry)
+              send({ event: 'tool_result', data: entry })
+            }
+          })
+          content = answer.content
+          details = { sources: answer.sources, confidence: answer.confidence, usage: answer.usage }
+          if (content) send({ event: 'delta', data: { content } })
+        } else {
+          for await (const part of turn.provider.stream(turn.completion, { signal: upstream.signal })) {
+            if (typeof part !== 'string') {
+              details = { ...details, ...part }
+              continue
+            }
+            content += part
+            send({ event: 'delta', data: { content: part } })
+          }
+        }
+      } catch (error) {
+        if (cancelled) {
+          if (content) await save(replyMessage(content, details, toolCalls), { interrupted: true })
+          await meterTurn(turn, 'cancelled', { errorCode: 'CLIENT_CLOSED', usage: details.usage, toolCalls })
+          return
+        }
+        console.error(`Chat provider "${turn.provider.name}" stream failed:`, error)
+
+        if (content) {
+          await save(replyMessage(content, details, toolCalls), { interrupted: true })
+          await meterTurn(turn, 'error', { errorCode: 'STREAM_INTERRUPTED', usage: details.usage, toolCalls })
+          send({
+            event: 'error',
+            data: { error: 'The research service stopped before finishing its answer.', code: 'STREAM_INTERRUPTED' }
+          })
+          controller.close()
+          return
+        }
+
+        const code = agentErrorCode(error) || 'AGENT_UNAVAILABLE'
+        await meterTurn(turn, 'error', { errorCode: code, usage: details.usage, toolCalls })
+        send({ event: 'error', data: { error: AGENT_ERRORS[code].message, code } })
+        controller.close()
+        return
+      }
+
+      if (!content.trim()) {
+        await meterTurn(turn, 'error', { errorCode: 'EMPTY_RESPONSE', usage: details.usage, toolCalls })
+        send({ event: 'error', data: { error: 'Agent service returned an empty response. Please try again.', code: 'EMPTY_RESPONSE' } })
+      } else {
+        const message = replyMessage(content, details, toolCalls)
+        await save(message)
+        await meterTurn(turn, 'success', { usage: details.usage, toolCalls })
+
+        send({ event: 'done', data: { message, model: turn.provider.model, conversationId: turn.conversation.id } })
+      }
+
+      if (!cancelled) controller.close()
+    },
+    cancel() {
+      // The client went away; stop reading from the agent
+      cancelled = true
+      upstream.abort()
+    }
+  })
+
+  return new NextResponse(body, { headers: SSE_HEADERS })
+}
+
 // POST handler
 export const POST = withAuth(async (user: User, request: NextRequest) => {
+  const startedAt = Date.now()
+  const usageClient = createUsageClient()
+  let streamed = false
+
   try {
-    // Rate limiting check
-    const rateLimitResult = checkRateLimit(user.id)
-    if (!rateLimitResult.allowed) {
-      const resetTime = rateLimitResult.resetTime || Date.now()
-      const waitTime = Math.ceil((resetTime - Date.now()) / 1000)
-      return apiError(
-        `Rate limit exceeded. Please try again in ${waitTime} seconds.`,
-        429,
-        { resetTime, waitTime },
-        'RATE_LIMIT_EXCEEDED'
-      )
-    }
+    // Created up front: a streamed reply finishes after this handler has returned
+    const supabase = await createClient()
 
     // Validate request body
     const validation = await validateBody(
@@ -195,7 +418,16 @@ export const POST = withAuth(async (user: User, request: NextRequest) => {
       return validation.response
     }
 
-    const { messages, tradingContext, maxTokens = 500, temperature = 0.7 }: ChatRequest = validation.data
+    const {
+      messages,
+      tradingContext,
+      conversationId,
+      maxTokens = 500,
+      temperature = 0.7,
+      stream = false
+    }: ChatRequest = validation.data
+    streamed = stream
+    const provider = getChatProvider()
 
     // Sanitize messages
     const sanitizedMessages = messages.map(sanitizeMessage)
@@ -213,44 +445,158 @@ export const POST = withAuth(async (user: User, request: NextRequest) => {
       )
     }
 
-    // Call N8N agent and normalize response format
-    const rawResponse = await callN8NAgent(lastMessage.content, tradingContext)
-
-    // Handle different N8N response formats
-    let agentContent = '';
-    if (typeof rawResponse === 'string') {
-      agentContent = rawResponse;
-    } else if (rawResponse && typeof rawResponse === 'object') {
-      // Handle structured N8N response
-      agentContent = rawResponse.response || rawResponse.content || rawResponse.message || JSON.stringify(rawResponse);
-    } else {
-      agentContent = 'I apologize, but I received an unexpected response format. Please try again.';
+    // A conversation being continued must belong to the user
+    const existingConversation = conversationId
+      ? await withRetry(
+          () => findConversation(supabase, user.id, conversationId),
+          3, // max retries
+          1000, // initial delay
+          'Fetch conversation'
+        )
+      : null
+
+    if (conversationId && !existingConversation) {
+      return apiError('Conversation not found', 404, null, 'CONVERSATION_NOT_FOUND')
     }
 
-    if (!agentContent || agentContent.trim() === '') {
-      return apiError(
+    // Rate limit and subscription quotas, counted only for requests that passed validation;
+    // an unreachable counter store lets the request through
+    let limitHeaders: Record<string, string> = {}
+    try {
+      const rateLimit = await consumeChatQuota(supabase, user.id)
+      if (!rateLimit.allowed) {
+        if (usageClient) {
+          await recordChatUsage(usageClient, {
+            userId: user.id,
+            provider: config.chat.provider,
+            status: 'rejected',
+            errorCode: rateLimitCode(rateLimit),
+            latencyMs: Date.now() - startedAt
+          })
+        }
+        return rateLimitExceeded(rateLimit)
+      }
+      limitHeaders = rateLimitHeaders(rateLimit)
+    } catch (rateLimitError) {
+      console.error('Chat rate limit check failed:', rateLimitError)
+    }
+
+    // Continue the given conversation, or start one titled after this message
+    const conversation = existingConversation || await createConversation(supabase, user.id, {
+      title: conversationTitle(lastMessage.content, tradingContext?.idea),
+      idea: tradingContext?.idea
+    })
+
+    // Earlier turns: the stored conversation when continuing one, otherwise what the client sent
+    const previousMessages = conversationId
+      ? (await withRetry(
+          () => listRecentMessages(supabase, conversation.id, MAX_HISTORY_MESSAGES),
+          3, // max retries
+          1000, // initial delay
+          'Fetch conversation history'
+        )).map(({ role, content }) => ({ role, content }))
+      : sanitizedMessages.slice(0, -1)
+    const { history, summary } = buildAgentHistory(previousMessages)
+
+    // A new conversation keeps the turns the client sent with it, so later questions
+    // are answered with the same history as this one
+    const newMessages = conversationId
+      ? [lastMessage]
+      : [...previousMessages.filter(message => message.role !== 'system' && message.content.trim()), lastMessage]
+    for (const message of newMessages) {
+      await appendMessage(supabase, user.id, conversation.id, { role: message.role, content: message.content })
+    }
+
+    const turn: ChatTurn = {
+      supabase,
+      userId: user.id,
+      conversation,
+      isNewConversation: !conversationId,
+      messages: sanitizedMessages,
+      tradingContext,
+      provider,
+      toolContext: supportsTools(provider) ? createToolContext(supabase, user.id) : null,
+      streamed: stream,
+      startedAt,
+      usageClient,
+      completion: {
+        message: lastMessage.content,
+        context: tradingContext || {},
+        systemPrompt: systemPrompt(),
+        history,
+        historySummary: summary,
+        maxTokens,
+        temperature
+      }
+    }
+
+    if (stream) {
+      return withHeaders(streamAgentReply(turn), limitHeaders)
+    }
+
+    // A client that disconnects cancels the agent request through request.signal
+    let reply: ChatReplyMessage
+    let usage: ChatUsage | undefined
+    const toolCalls: ToolTraceEntry[] = []
+    try {
+      const { content, ...details } = turn.toolContext
+        ? await runResearchAgent(provider, turn.completion, turn.toolContext, {
+            signal: request.signal,
+            onToolResult: entry => toolCalls.push(entry)
+          })
+        : await provider.complete(turn.completion, { signal: request.signal })
+      reply = replyMessage(content, details, toolCalls)
+      usage = details.usage
+    } catch (providerError) {
+      if (request.signal.aborted) {
+        await meterTurn(turn, 'cancelled', { errorCode: 'CLIENT_CLOSED', toolCalls })
+        return withHeaders(apiError('Request cancelled by the client', 499, null, 'CLIENT_CLOSED'), limitHeaders)
+      }
+
+      console.error(`Chat provider "${provider.name}" failed:`, providerError)
+      const code = agentErrorCode(providerError) || 'AGENT_UNAVAILABLE'
+      await meterTurn(turn, 'error', { errorCode: code, toolCalls })
+      return withHeaders(apiError(AGENT_ERRORS[code].message, AGENT_ERRORS[code].status, null, code), limitHeaders)
+    }
+
+    if (!reply.content || reply.content.trim() === '') {
+      await meterTurn(turn, 'error', { errorCode: 'EMPTY_RESPONSE', usage, toolCalls })
+      return withHeaders(apiError(
         'Agent service returned an empty response. Please try again.',
         500,
         null,
         'EMPTY_RESPONSE'
-      )
+      ), limitHeaders)
     }
 
-    // Log usage for monitoring (in production, consider async logging)
-    console.log(`N8N Agent API usage - User: ${user.id}`)
+    await completeTurn(turn, reply)
+    await meterTurn(turn, 'success', { usage, toolCalls })
 
     // Return successful response
-    return apiSuccess({
-      message: {
-        role: 'assistant',
-        content: agentContent,
-        timestamp: new Date().toISOString()
-      },
-      model: 'n8n-agent'
-    }, 'Chat response generated successfully')
+    return withHeaders(apiSuccess({
+      message: reply,
+      model: provider.model,
+      conversation: { id: conversation.id, title: conversation.title }
+    }, 'Chat response generated successfully'), limitHeaders)
 
   } catch (error) {
     console.error('Error in POST /api/chat:', error)
+    const isDatabaseError = error instanceof Error && error.message.includes('Database error')
+
+    if (usageClient) {
+      await recordChatUsage(usageClient, {
+        userId: user.id,
+        provider: config.chat.provider,
+        status: 'error',
+        errorCode: isDatabaseError ? 'DATABASE_ERROR' : 'CHAT_ERROR',
+        streamed,
+        latencyMs: Date.now() - startedAt
+      })
+    }
+
+    if (isDatabaseError) {
+      return apiError('Failed to store the conversation. Please try again.', 500, error.message, 'DATABASE_ERROR')
+    }
 
     // Generic error handling
     return apiError(
@@ -262,24 +608,29 @@ export const POST = withAuth(async (user: User, request: NextRequest) => {
   }
 })
 
-// GET handler for testing/health check
+// GET handler for testing/health check - Health of every provider; 503 when the active one is unavailable
 export async function GET() {
   try {
-    // Check if N8N webhook URL is configured
-    const webhookUrl = process.env.N8N_AGENT_WEBHOOK_URL
-    if (!webhookUrl) {
+    const providers = await checkChatProviders()
+    const active = providers.find(provider => provider.active)
+
+    if (!active || active.status !== 'healthy') {
       return apiError(
-        'N8N agent webhook URL is not configured',
-        500,
-        null,
-        'MISSING_WEBHOOK_URL'
+        `Chat provider "${active?.name || 'unknown'}" is not available`,
+        503,
+        { providers },
+        'PROVIDER_UNAVAILABLE'
       )
     }
 
     return apiSuccess({
       status: 'healthy',
-      model: 'n8n-agent',
-      rateLimit: RATE_LIMIT,
+      provider: active.name,
+      model: active.model,
+      providers,
+      streaming: true,
+      tools: supportsTools(getChatProvider()),
+      rateLimits: config.rateLimits.chat,
       timestamp: new Date().toISOString()
     }, 'Chat API is operational')
   } catch (error) {
@@ -0,0 +1,50 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { apiSuccess, apiError, withRetry } from '@/lib/api-helpers'
+import { findIdeasByKeys } from '@/lib/ideas-repository'
+import { getIdeaPerformance } from '@/lib/idea-performance'
+import { parseIdeaKey } from '@/lib/idea-parser'
+import { config } from '@/lib/config'
+import { IdeaPerformance } from '@/types/api'
+
+// Public: reference prices and 1d/1w/1m returns against the benchmark for one idea
+export async function GET(_request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: ideaKey } = await params
+
+    if (!parseIdeaKey(ideaKey)) {
+      return apiError('Invalid idea key format', 400, null, 'INVALID_IDEA_KEY')
+    }
+
+    const supabase = await createClient()
+
+    // Wrap database operations with retry logic
+    const performance = await withRetry(
+      async (): Promise<IdeaPerformance | null> => {
+        const idea = (await findIdeasByKeys(supabase, [ideaKey])).get(ideaKey)
+        if (!idea) {
+          return null
+        }
+
+        return await getIdeaPerformance(supabase, idea, config.prices.benchmark)
+      },
+      3, // max retries
+      1000, // initial delay
+      'Fetch idea performance'
+    )
+
+    if (!performance) {
+      return apiError('Idea not found', 404, null, 'IDEA_NOT_FOUND')
+    }
+
+    return apiSuccess(performance, 'Idea performance retrieved successfully')
+  } catch (error) {
+    console.error('Error in GET /api/ideas/[id]/performance:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to fetch idea performance from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to fetch idea performance', 500, error instanceof Error ? error.message : error)
+  }
+}
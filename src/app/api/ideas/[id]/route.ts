@@ -0,0 +1,86 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { apiSuccess, apiError, withRetry } from '@/lib/api-helpers'
+import { findIdeasByKeys, findRelatedIdeas } from '@/lib/ideas-repository'
+import { countInteractions } from '@/lib/idea-interactions'
+import { parseIdeaKey } from '@/lib/idea-parser'
+import { config } from '@/lib/config'
+import { IdeaDetail } from '@/types/api'
+
+// Public: ideas are shareable, the user's own interactions are only added when signed in
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { id: ideaKey } = await params
+
+    if (!parseIdeaKey(ideaKey)) {
+      return apiError('Invalid idea key format', 400, null, 'INVALID_IDEA_KEY')
+    }
+
+    const supabase = await createClient()
+
+    // Wrap database operations with retry logic
+    const detail = await withRetry(
+      async (): Promise<Omit<IdeaDetail, 'shareUrl'> | null> => {
+        const ideas = await findIdeasByKeys(supabase, [ideaKey])
+        const idea = ideas.get(ideaKey)
+        if (!idea) {
+          return null
+        }
+
+        const related = await findRelatedIdeas(supabase, idea)
+        const counts = (await countInteractions(supabase, [ideaKey]))[ideaKey]
+
+        const { data: { user } } = await supabase.auth.getUser()
+        if (!user) {
+          return { idea, related, counts, userState: null }
+        }
+
+        const { data: interactions, error: interactionsError } = await supabase
+          .from('user_idea_interactions')
+          .select('interaction_type, notes, portfolio_transaction_id')
+          .eq('user_id', user.id)
+          .eq('idea_key', ideaKey)
+
+        if (interactionsError) {
+          throw new Error(`Database error fetching interactions: ${interactionsError.message}`)
+        }
+
+        const saved = interactions?.find(interaction => interaction.interaction_type === 'saved')
+        const traded = interactions?.find(interaction => interaction.interaction_type === 'traded')
+
+        return {
+          idea,
+          related,
+          counts,
+          userState: {
+            saved: !!saved,
+            notes: saved?.notes || null,
+            liked: !!interactions?.some(interaction => interaction.interaction_type === 'liked'),
+            traded: !!traded,
+            portfolio_transaction_id: traded?.portfolio_transaction_id || null
+          }
+        }
+      },
+      3, // max retries
+      1000, // initial delay
+      'Fetch idea detail'
+    )
+
+    if (!detail) {
+      return apiError('Idea not found', 404, null, 'IDEA_NOT_FOUND')
+    }
+
+    const origin = config.site.url || new URL(request.url).origin
+    const shareUrl = `${origin}/ideas/${encodeURIComponent(ideaKey)}`
+
+    return apiSuccess({ ...detail, shareUrl }, 'Idea retrieved successfully')
+  } catch (error) {
+    console.error('Error in GET /api/ideas/[id]:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to fetch idea from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to fetch idea', 500, error instanceof Error ? error.message : error)
+  }
+}
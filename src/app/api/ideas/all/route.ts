@@ -1,88 +1,29 @@
-import { NextResponse } from 'next/server'
+import { NextRequest } from 'next/server'
 import { createClient } from '@/lib/supabase-server'
-import { apiSuccess, apiError, withRetry, TradingIdea } from '@/lib/api-helpers'
+import { apiSuccess, apiError, withRetry } from '@/lib/api-helpers'
+import { structureLegacyRows } from '@/lib/ideas-repository'
+import { IdeaPage, parseIdeaQuery, queryIdeas } from '@/lib/ideas-query'
+import { TradingIdea } from '@/types/api'
 
-// Function to parse combined trading ideas from a single database row
-function parseCombinedIdeas(combinedData: { id: number; created_at: string; analysis: string; tickers: string }): TradingIdea[] {
-  const { id, created_at, analysis, tickers } = combinedData
-  
-  // Split analysis by "---" separator
-  const analysisParts = analysis.split('---')
-  
-  // Split tickers by "---" separator  
-  const tickerGroups = tickers.split('---')
-  
-  const parsedIdeas: TradingIdea[] = []
-  
-  analysisParts.forEach((part: string, index: number) => {
-    const trimmedPart = part.trim()
-    if (!trimmedPart) {
-      return
-    }
-    
-    // Extract theme from "IDEA X - [theme]" pattern
-    const themeMatch = trimmedPart.match(/^IDEA\s+\d+\s*-\s*(.+?)$/m)
-    if (!themeMatch) {
-      return
-    }
-    
-    const theme = themeMatch[1].trim()
-    
-    // Extract analysis content (everything after the theme line, excluding ticker lines)
-    const lines = trimmedPart.split('\n')
-    const contentLines = lines.slice(1) // Skip the "IDEA X - theme" line
-    
-    // Filter out lines that look like ticker lists (contain only uppercase letters, commas, spaces)
-    const analysisLines = contentLines.filter(line => {
-      const trimmedLine = line.trim()
-      if (!trimmedLine) return false
-      // Skip lines that are just ticker symbols (all caps, commas, spaces)
-      return !/^[A-Z\s,]+$/.test(trimmedLine) || trimmedLine.length > 50
-    })
-    
-    const analysisContent = analysisLines.join('\n').trim()
-    
-    // Get corresponding ticker group and clean it up
-    let tickerGroup = tickerGroups[index]?.trim() || ''
-    // Remove leading comma and extra whitespace/newlines
-    tickerGroup = tickerGroup.replace(/^,\s*/, '').replace(/\s+/g, ' ').trim()
-    
-    if (theme && analysisContent) {
-      const newIdea = {
-        id: id + index, // Create unique IDs
-        created_at,
-        theme,
-        analysis: analysisContent,
-        tickers: tickerGroup
-      }
-      parsedIdeas.push(newIdea)
+// Query parameters: cursor, limit (max 50), sort (newest | oldest), from, to, ticker, theme, sector, q
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const query = parseIdeaQuery(searchParams)
+
+    if (typeof query === 'string') {
+      return apiError(query, 400, null, 'INVALID_QUERY')
     }
-  })
-  
-  return parsedIdeas
-}
 
-export async function GET() {
-  try {
-    let ideas: { id: number; created_at: string; analysis: string; tickers: string }[] | null = null
+    const isFirstUnfilteredPage = !query.cursor && Object.keys(query.filters).length === 0
+    let page: IdeaPage | null = null
 
     // Wrap database operation with retry logic
     try {
-      ideas = await withRetry(
+      page = await withRetry(
         async () => {
           const supabase = await createClient()
-          
-          const { data, error } = await supabase
-            .from('generated_ideas')
-            .select('id, created_at, theme, analysis, tickers')
-            .order('created_at', { ascending: false })
-            // No limit - get all ideas for the ideas page
-
-          if (error) {
-            throw new Error(`Database error: ${error.message}`)
-          }
-          
-          return data
+          return await queryIdeas(supabase, query)
         },
         3, // max retries
         1000, // initial delay
@@ -93,7 +34,8 @@ export async function GET() {
       // Continue to mock data fallback
     }
 
-    if (!ideas || ideas.length === 0) {
+    // Mock data only stands in for an empty database, not for a search with no results
+    if (!page || (page.ideas.length === 0 && isFirstUnfilteredPage)) {
       console.log('No ideas found in database, returning extended mock data')
       
       // Return extended mock data if no ideas in database yet
@@ -142,40 +84,12 @@ export async function GET() {
         }
       ]
       
-      return apiSuccess(mockIdeas, 'Returned extended mock trading ideas')
-    }
-
-    let processedIdeas: TradingIdea[] = []
-
-    // Check if data contains combined format (has "IDEA 1" and "---")
-    const hasCombinedFormat = ideas.some(idea => 
-      idea.analysis && 
-      idea.analysis.includes('IDEA 1') && 
-      idea.analysis.includes('---')
-    )
-
-    if (hasCombinedFormat) {
-      console.log('Processing combined format ideas')
-      // Parse combined format - process all rows that contain combined data
-      ideas.forEach(idea => {
-        if (idea.analysis && 
-            idea.analysis.includes('IDEA 1') && 
-            idea.analysis.includes('---')) {
-          const parsedFromThisRow = parseCombinedIdeas(idea)
-          processedIdeas.push(...parsedFromThisRow)
-        }
-      })
-    } else {
-      console.log('Using individual format ideas')
-      // Use individual rows as-is
-      processedIdeas = ideas as TradingIdea[]
+      const ideas = structureLegacyRows(mockIdeas)
+      return apiSuccess({ ideas, nextCursor: null, total: ideas.length }, 'Returned extended mock trading ideas')
     }
 
-    // Sort by created_at descending
-    processedIdeas.sort((a, b) => new Date(b.created_at).getTime() - new Date(a.created_at).getTime())
-    
-    console.log(`Returning ${processedIdeas.length} trading ideas`)
-    return apiSuccess(processedIdeas, `Retrieved ${processedIdeas.length} trading ideas`)
+    console.log(`Returning ${page.ideas.length} of ${page.total} trading ideas`)
+    return apiSuccess(page, `Retrieved ${page.ideas.length} of ${page.total} trading ideas`)
   } catch (error) {
     console.error('Error in GET /api/ideas/all:', error)
     return apiError(
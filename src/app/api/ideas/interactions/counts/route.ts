@@ -0,0 +1,49 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { apiSuccess, apiError, withRetry } from '@/lib/api-helpers'
+import { countInteractions } from '@/lib/idea-interactions'
+import { parseIdeaKey } from '@/lib/idea-parser'
+
+const MAX_KEYS = 100
+
+// GET /api/ideas/interactions/counts?idea_keys=gi-1-0,ti-4
+// Public: like/view/save/trade totals per idea, never who interacted
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const ideaKeys = Array.from(new Set(
+      (searchParams.get('idea_keys') || '').split(',').map(key => key.trim()).filter(Boolean)
+    ))
+
+    if (ideaKeys.length === 0) {
+      return apiError('idea_keys is required in query parameters', 400, null, 'MISSING_IDEA_KEYS')
+    }
+
+    if (ideaKeys.length > MAX_KEYS) {
+      return apiError(`At most ${MAX_KEYS} idea keys can be requested at once`, 400, null, 'TOO_MANY_IDEA_KEYS')
+    }
+
+    if (ideaKeys.some(key => !parseIdeaKey(key))) {
+      return apiError('Invalid idea key format', 400, null, 'INVALID_IDEA_KEY')
+    }
+
+    const supabase = await createClient()
+
+    const counts = await withRetry(
+      () => countInteractions(supabase, ideaKeys),
+      3, // max retries
+      1000, // initial delay
+      'Count idea interactions'
+    )
+
+    return apiSuccess(counts, `Retrieved interaction counts for ${ideaKeys.length} ideas`)
+  } catch (error) {
+    console.error('Error in GET /api/ideas/interactions/counts:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to count interactions in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to count interactions', 500, error instanceof Error ? error.message : error)
+  }
+}
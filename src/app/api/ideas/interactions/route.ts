@@ -0,0 +1,293 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import {
+  withAuth,
+  apiSuccess,
+  apiError,
+  validateBody,
+  withRetry,
+  IDEA_INTERACTION_TYPES,
+  RecordInteractionRequest,
+  isValidRecordInteractionRequest
+} from '@/lib/api-helpers'
+import { findIdeasByKeys } from '@/lib/ideas-repository'
+import { parseIdeaKey, sourceRowIdFromKey } from '@/lib/idea-parser'
+import { IdeaInteractionEntry, IdeaInteractionType } from '@/types/api'
+import { User } from '@supabase/supabase-js'
+
+const DEFAULT_LIMIT = 50
+const MAX_LIMIT = 200
+
+function isInteractionType(value: string | null): value is IdeaInteractionType {
+  return IDEA_INTERACTION_TYPES.includes(value as IdeaInteractionType)
+}
+
+// GET /api/ideas/interactions?type=liked&idea_keys=gi-1-0,ti-4&limit=50
+// Lists the user's interactions, newest first, with the ideas they point at
+export const GET = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get('type')
+    const ideaKeys = searchParams.get('idea_keys')?.split(',').map(key => key.trim()).filter(Boolean) || []
+    const limitParam = searchParams.get('limit')
+    const limit = limitParam ? parseInt(limitParam) : DEFAULT_LIMIT
+
+    if (type && !isInteractionType(type)) {
+      return apiError(`Interaction type must be one of: ${IDEA_INTERACTION_TYPES.join(', ')}`, 400, null, 'INVALID_INTERACTION_TYPE')
+    }
+
+    if (ideaKeys.some(key => !parseIdeaKey(key))) {
+      return apiError('Invalid idea key format', 400, null, 'INVALID_IDEA_KEY')
+    }
+
+    if (isNaN(limit) || limit <= 0 || limit > MAX_LIMIT) {
+      return apiError(`Limit must be between 1 and ${MAX_LIMIT}`, 400, null, 'INVALID_LIMIT')
+    }
+
+    const supabase = await createClient()
+
+    // Wrap database operations with retry logic
+    const result = await withRetry(
+      async () => {
+        let query = supabase
+          .from('user_idea_interactions')
+          .select('id, idea_key, interaction_type, notes, portfolio_transaction_id, created_at', { count: 'exact' })
+          .eq('user_id', user.id)
+          .not('idea_key', 'is', null)
+          .order('created_at', { ascending: false })
+          .limit(limit)
+
+        if (type) query = query.eq('interaction_type', type)
+        if (ideaKeys.length > 0) query = query.in('idea_key', ideaKeys)
+
+        const { data, error, count } = await query
+
+        if (error) {
+          throw new Error(`Database error: ${error.message}`)
+        }
+
+        const rows = data || []
+        const ideas = await findIdeasByKeys(supabase, rows.map(row => row.idea_key as string))
+
+        const interactions = rows.map((row): IdeaInteractionEntry => ({
+          id: row.id,
+          idea_key: row.idea_key as string,
+          interaction_type: row.interaction_type,
+          notes: row.notes || null,
+          portfolio_transaction_id: row.portfolio_transaction_id,
+          created_at: row.created_at,
+          idea: ideas.get(row.idea_key as string) || null
+        }))
+
+        return { interactions, total: count || 0 }
+      },
+      3, // max retries
+      1000, // initial delay
+      'Fetch idea interactions'
+    )
+
+    return apiSuccess(result, `Retrieved ${result.interactions.length} of ${result.total} interactions`)
+  } catch (error) {
+    console.error('Error in GET /api/ideas/interactions:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to fetch interactions from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to fetch interactions', 500, error instanceof Error ? error.message : error)
+  }
+})
+
+// POST /api/ideas/interactions - Record an interaction; idempotent unless toggle is set
+export const POST = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    // Validate request body
+    const validation = await validateBody(
+      request,
+      isValidRecordInteractionRequest,
+      'Invalid interaction request. Please provide a valid idea_key and interaction_type.'
+    )
+
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const {
+      idea_key,
+      interaction_type,
+      toggle,
+      notes,
+      portfolio_transaction_id
+    }: RecordInteractionRequest = validation.data
+    const supabase = await createClient()
+
+    // Wrap database operations with retry logic
+    const result = await withRetry(
+      async () => {
+        const ideas = await findIdeasByKeys(supabase, [idea_key])
+        if (!ideas.has(idea_key)) {
+          return { outcome: 'idea_not_found' as const, data: null }
+        }
+
+        // A traded idea can only link to the user's own ledger entries
+        if (portfolio_transaction_id) {
+          const { data: transaction, error: transactionError } = await supabase
+            .from('portfolio_transactions')
+            .select('id')
+            .eq('id', portfolio_transaction_id)
+            .eq('user_id', user.id)
+            .maybeSingle()
+
+          if (transactionError) {
+            throw new Error(`Database error checking portfolio transaction: ${transactionError.message}`)
+          }
+
+          if (!transaction) {
+            return { outcome: 'transaction_not_found' as const, data: null }
+          }
+        }
+
+        const { data: existing, error: checkError } = await supabase
+          .from('user_idea_interactions')
+          .select('*')
+          .eq('user_id', user.id)
+          .eq('idea_key', idea_key)
+          .eq('interaction_type', interaction_type)
+          .maybeSingle()
+
+        if (checkError) {
+          throw new Error(`Database error checking existing interaction: ${checkError.message}`)
+        }
+
+        if (existing && toggle) {
+          const { error: deleteError } = await supabase
+            .from('user_idea_interactions')
+            .delete()
+            .eq('id', existing.id)
+
+          if (deleteError) {
+            throw new Error(`Database error removing interaction: ${deleteError.message}`)
+          }
+
+          return { outcome: 'removed' as const, data: null }
+        }
+
+        if (existing) {
+          const updates: { notes?: string; portfolio_transaction_id?: string | null } = {}
+          if (notes !== undefined) updates.notes = notes
+          if (portfolio_transaction_id !== undefined) updates.portfolio_transaction_id = portfolio_transaction_id
+
+          if (Object.keys(updates).length === 0) {
+            return { outcome: 'unchanged' as const, data: existing }
+          }
+
+          const { data: updated, error: updateError } = await supabase
+            .from('user_idea_interactions')
+            .update(updates)
+            .eq('id', existing.id)
+            .select()
+            .single()
+
+          if (updateError) {
+            throw new Error(`Database error updating interaction: ${updateError.message}`)
+          }
+
+          return { outcome: 'unchanged' as const, data: updated }
+        }
+
+        const { data: created, error: insertError } = await supabase
+          .from('user_idea_interactions')
+          .insert([
+            {
+              user_id: user.id,
+              idea_key,
+              idea_id: sourceRowIdFromKey(idea_key),
+              interaction_type,
+              notes: notes || null,
+              portfolio_transaction_id: portfolio_transaction_id || null
+            }
+          ])
+          .select()
+          .single()
+
+        if (insertError) {
+          throw new Error(`Database error recording interaction: ${insertError.message}`)
+        }
+
+        return { outcome: 'created' as const, data: created }
+      },
+      3, // max retries
+      1000, // initial delay
+      'Record idea interaction'
+    )
+
+    switch (result.outcome) {
+      case 'idea_not_found':
+        return apiError('Idea not found', 404, null, 'IDEA_NOT_FOUND')
+      case 'transaction_not_found':
+        return apiError('Portfolio transaction not found', 404, null, 'TRANSACTION_NOT_FOUND')
+      case 'removed':
+        return apiSuccess({ active: false, interaction: null }, `Idea no longer marked as ${interaction_type}`)
+      case 'unchanged':
+        return apiSuccess({ active: true, interaction: result.data }, `Idea already marked as ${interaction_type}`)
+      case 'created':
+        return apiSuccess({ active: true, interaction: result.data }, `Idea marked as ${interaction_type}`, 201)
+    }
+  } catch (error) {
+    console.error('Error in POST /api/ideas/interactions:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to record interaction in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to record interaction', 500, error instanceof Error ? error.message : error)
+  }
+})
+
+// DELETE /api/ideas/interactions?idea_key=gi-1-0&interaction_type=liked
+export const DELETE = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const ideaKey = searchParams.get('idea_key')
+    const interactionType = searchParams.get('interaction_type')
+
+    if (!ideaKey || !parseIdeaKey(ideaKey)) {
+      return apiError('A valid idea_key is required in query parameters', 400, null, 'INVALID_IDEA_KEY')
+    }
+
+    if (!isInteractionType(interactionType)) {
+      return apiError(`Interaction type must be one of: ${IDEA_INTERACTION_TYPES.join(', ')}`, 400, null, 'INVALID_INTERACTION_TYPE')
+    }
+
+    const supabase = await createClient()
+
+    // Wrap database operation with retry logic
+    await withRetry(
+      async () => {
+        const { error: deleteError } = await supabase
+          .from('user_idea_interactions')
+          .delete()
+          .eq('user_id', user.id)
+          .eq('idea_key', ideaKey)
+          .eq('interaction_type', interactionType)
+
+        if (deleteError) {
+          throw new Error(`Database error removing interaction: ${deleteError.message}`)
+        }
+      },
+      3, // max retries
+      1000, // initial delay
+      'Remove idea interaction'
+    )
+
+    return apiSuccess(null, 'Interaction removed')
+  } catch (error) {
+    console.error('Error in DELETE /api/ideas/interactions:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to remove interaction from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to remove interaction', 500, error instanceof Error ? error.message : error)
+  }
+})
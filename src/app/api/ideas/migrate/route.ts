@@ -0,0 +1,127 @@
+/**
+ * Legacy Idea Migration Route
+ *
+ * Converts generated_ideas rows (free-text analysis, comma/"---" separated tickers)
+ * into structured trading_ideas rows. Safe to call repeatedly: rows that already
+ * have structured counterparts are skipped, so the n8n generator can call it after
+ * every run until it writes trading_ideas directly. Rows are converted in id-ordered
+ * batches, so one call covers the whole table however far it exceeds PostgREST's row limit.
+ *
+ * Also backfills idea_key on user_idea_interactions recorded before ideas had
+ * stable keys, so existing bookmarks resolve to the idea the user saved.
+ *
+ * Required Environment Variables:
+ * - ADMIN_API_SECRET: sent as "Authorization: Bearer <secret>"
+ * - SUPABASE_SERVICE_ROLE_KEY: trading_ideas is read-only for regular users
+ */
+
+import { NextRequest } from 'next/server'
+import { createServiceClient } from '@/lib/supabase-server'
+import { apiSuccess, apiError, withAdminAuth, withRetry } from '@/lib/api-helpers'
+import { GeneratedIdeaRow, ParseWarning, parseIdeaRow } from '@/lib/idea-parser'
+import { toTradingIdeaInsert } from '@/lib/idea-structure'
+import { backfillInteractionKeys } from '@/lib/idea-interactions'
+import { GENERATED_IDEA_COLUMNS } from '@/lib/ideas-repository'
+import { fetchAllRows } from '@/lib/paged-reads'
+
+// Legacy rows read, parsed and inserted at a time
+const MIGRATION_BATCH_SIZE = 200
+
+export const POST = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const dryRun = searchParams.get('dry_run') === 'true'
+    const supabase = createServiceClient()
+
+    const result = await withRetry(
+      async () => {
+        const warnings: ParseWarning[] = []
+        const preview: ReturnType<typeof toTradingIdeaInsert>[] = []
+        let rowsConverted = 0
+        let ideasCreated = 0
+
+        // Legacy rows in id order, one batch at a time, until none are left
+        let afterId = 0
+        for (;;) {
+          const { data: legacyRows, error: legacyError } = await supabase
+            .from('generated_ideas')
+            .select(GENERATED_IDEA_COLUMNS)
+            .gt('id', afterId)
+            .order('id', { ascending: true })
+            .limit(MIGRATION_BATCH_SIZE)
+
+          if (legacyError) {
+            throw new Error(`Database error fetching legacy ideas: ${legacyError.message}`)
+          }
+
+          const rows = (legacyRows || []) as GeneratedIdeaRow[]
+          if (rows.length === 0) break
+          afterId = rows[rows.length - 1].id
+
+          // Each row may already have several structured ideas, one per position
+          const migrated = await fetchAllRows<{ id: number; source_idea_id: number }>(
+            (from, to) => supabase
+              .from('trading_ideas')
+              .select('id, source_idea_id')
+              .in('source_idea_id', rows.map(row => row.id))
+              .order('id', { ascending: true })
+              .range(from, to),
+            'fetching migrated ideas'
+          )
+
+          const migratedIds = new Set(migrated.map(row => row.source_idea_id))
+          const pendingRows = rows.filter(row => !migratedIds.has(row.id))
+
+          const inserts = pendingRows.flatMap(row => {
+            const parsed = parseIdeaRow(row)
+            warnings.push(...parsed.warnings)
+            return parsed.ideas.map(toTradingIdeaInsert)
+          })
+          rowsConverted += pendingRows.length
+          ideasCreated += inserts.length
+
+          if (inserts.length === 0) continue
+          if (dryRun) {
+            preview.push(...inserts)
+            continue
+          }
+
+          const { error: insertError } = await supabase
+            .from('trading_ideas')
+            .upsert(inserts, { onConflict: 'source_idea_id,source_position', ignoreDuplicates: true })
+
+          if (insertError) {
+            throw new Error(`Database error inserting structured ideas: ${insertError.message}`)
+          }
+        }
+
+        return { rowsConverted, ideasCreated, warnings, preview }
+      },
+      3, // max retries
+      1000, // initial delay
+      'Migrate legacy ideas'
+    )
+
+    const interactions = await withRetry(
+      () => backfillInteractionKeys(supabase, { dryRun }),
+      3, // max retries
+      1000, // initial delay
+      'Backfill interaction keys'
+    )
+
+    return apiSuccess(
+      dryRun
+        ? { ...result, interactions }
+        : { rowsConverted: result.rowsConverted, ideasCreated: result.ideasCreated, warnings: result.warnings, interactions },
+      `${dryRun ? 'Would convert' : 'Converted'} ${result.rowsConverted} legacy rows into ${result.ideasCreated} ideas`
+    )
+  } catch (error) {
+    console.error('Error in POST /api/ideas/migrate:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to migrate ideas in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to migrate ideas', 500, error instanceof Error ? error.message : error)
+  }
+})
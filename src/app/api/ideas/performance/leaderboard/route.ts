@@ -0,0 +1,63 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { apiSuccess, apiError, withRetry } from '@/lib/api-helpers'
+import { PERFORMANCE_HORIZONS, getThemeLeaderboard } from '@/lib/idea-performance'
+import { config } from '@/lib/config'
+import { PerformanceHorizon } from '@/types/api'
+
+const DEFAULT_DAYS = 90
+const MAX_DAYS = 365
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+
+// GET /api/ideas/performance/leaderboard?horizon=1w&days=90&limit=20
+// Public: themes ranked by average return over the benchmark for ideas published in the window
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const horizon = (searchParams.get('horizon') || '1w') as PerformanceHorizon
+    const days = searchParams.get('days') ? parseInt(searchParams.get('days')!) : DEFAULT_DAYS
+    const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : DEFAULT_LIMIT
+
+    if (!PERFORMANCE_HORIZONS.some(entry => entry.horizon === horizon)) {
+      return apiError(
+        `Horizon must be one of: ${PERFORMANCE_HORIZONS.map(entry => entry.horizon).join(', ')}`,
+        400,
+        null,
+        'INVALID_HORIZON'
+      )
+    }
+
+    if (isNaN(days) || days <= 0 || days > MAX_DAYS) {
+      return apiError(`Days must be between 1 and ${MAX_DAYS}`, 400, null, 'INVALID_DAYS')
+    }
+
+    if (isNaN(limit) || limit <= 0 || limit > MAX_LIMIT) {
+      return apiError(`Limit must be between 1 and ${MAX_LIMIT}`, 400, null, 'INVALID_LIMIT')
+    }
+
+    const supabase = await createClient()
+    const benchmark = config.prices.benchmark
+
+    // Wrap database operations with retry logic
+    const themes = await withRetry(
+      () => getThemeLeaderboard(supabase, { benchmark, horizon, days }),
+      3, // max retries
+      1000, // initial delay
+      'Fetch theme leaderboard'
+    )
+
+    return apiSuccess(
+      { horizon, days, benchmark, themes: themes.slice(0, limit) },
+      `Ranked ${themes.length} themes`
+    )
+  } catch (error) {
+    console.error('Error in GET /api/ideas/performance/leaderboard:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to fetch leaderboard from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to fetch leaderboard', 500, error instanceof Error ? error.message : error)
+  }
+}
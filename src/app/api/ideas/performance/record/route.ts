@@ -0,0 +1,57 @@
+/**
+ * Idea Price Snapshot Route
+ *
+ * Records reference closes for newly published ideas and horizon closes for ideas
+ * whose 1d/1w/1m window has elapsed. Safe to call repeatedly; a scheduled job should
+ * call it once a day after the market close.
+ *
+ * Required Environment Variables:
+ * - ADMIN_API_SECRET: sent as "Authorization: Bearer <secret>"
+ * - SUPABASE_SERVICE_ROLE_KEY: idea_price_snapshots is read-only for regular users
+ * - PRICE_SOURCE (optional): historical price source, defaults to "fixture"
+ */
+
+import { NextRequest } from 'next/server'
+import { createServiceClient } from '@/lib/supabase-server'
+import { apiSuccess, apiError, withAdminAuth, withRetry } from '@/lib/api-helpers'
+import { recordIdeaSnapshots } from '@/lib/idea-performance'
+import { getPriceSource } from '@/lib/prices'
+import { config } from '@/lib/config'
+
+// Long enough to cover the 1m horizon plus a few missed runs
+const DEFAULT_DAYS = 45
+
+export const POST = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const dryRun = searchParams.get('dry_run') === 'true'
+    const days = searchParams.get('days') ? parseInt(searchParams.get('days')!) : DEFAULT_DAYS
+
+    if (isNaN(days) || days <= 0) {
+      return apiError('Days must be a positive number', 400, null, 'INVALID_DAYS')
+    }
+
+    const supabase = createServiceClient()
+    const source = getPriceSource()
+
+    const result = await withRetry(
+      () => recordIdeaSnapshots(supabase, source, { benchmark: config.prices.benchmark, days, dryRun }),
+      3, // max retries
+      1000, // initial delay
+      'Record idea price snapshots'
+    )
+
+    return apiSuccess(
+      { ...result, source: source.name, benchmark: config.prices.benchmark },
+      `${dryRun ? 'Would record' : 'Recorded'} ${result.snapshotsRecorded} price snapshots for ${result.ideasScanned} ideas`
+    )
+  } catch (error) {
+    console.error('Error in POST /api/ideas/performance/record:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to record price snapshots in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to record price snapshots', 500, error instanceof Error ? error.message : error)
+  }
+})
@@ -1,88 +1,65 @@
-import { NextResponse } from 'next/server'
+import { NextRequest } from 'next/server'
 import { createClient } from '@/lib/supabase-server'
-import { apiSuccess, apiError, withRetry, TradingIdea } from '@/lib/api-helpers'
+import { apiSuccess, apiError, withRetry } from '@/lib/api-helpers'
+import { loadIdeas, structureLegacyRows } from '@/lib/ideas-repository'
+import { DEFAULT_MATCH_DAYS, MAX_MATCH_DAYS, findWatchlistMatches } from '@/lib/watchlist-matching'
+import { StructuredTradingIdea, TradingIdea } from '@/types/api'
 
-// Function to parse combined trading ideas from a single database row
-function parseCombinedIdeas(combinedData: { id: number; created_at: string; analysis: string; tickers: string }): TradingIdea[] {
-  const { id, created_at, analysis, tickers } = combinedData
-  
-  // Split analysis by "---" separator
-  const analysisParts = analysis.split('---')
-  
-  // Split tickers by "---" separator  
-  const tickerGroups = tickers.split('---')
-  
-  const parsedIdeas: TradingIdea[] = []
-  
-  analysisParts.forEach((part: string, index: number) => {
-    const trimmedPart = part.trim()
-    if (!trimmedPart) {
-      return
-    }
-    
-    // Extract theme from "IDEA X - [theme]" pattern
-    const themeMatch = trimmedPart.match(/^IDEA\s+\d+\s*-\s*(.+?)$/m)
-    if (!themeMatch) {
-      return
-    }
-    
-    const theme = themeMatch[1].trim()
-    
-    // Extract analysis content (everything after the theme line, excluding ticker lines)
-    const lines = trimmedPart.split('\n')
-    const contentLines = lines.slice(1) // Skip the "IDEA X - theme" line
-    
-    // Filter out lines that look like ticker lists (contain only uppercase letters, commas, spaces)
-    const analysisLines = contentLines.filter(line => {
-      const trimmedLine = line.trim()
-      if (!trimmedLine) return false
-      // Skip lines that are just ticker symbols (all caps, commas, spaces)
-      return !/^[A-Z\s,]+$/.test(trimmedLine) || trimmedLine.length > 50
-    })
-    
-    const analysisContent = analysisLines.join('\n').trim()
-    
-    // Get corresponding ticker group and clean it up
-    let tickerGroup = tickerGroups[index]?.trim() || ''
-    // Remove leading comma and extra whitespace/newlines
-    tickerGroup = tickerGroup.replace(/^,\s*/, '').replace(/\s+/g, ' ').trim()
-    
-    if (theme && analysisContent) {
-      const newIdea = {
-        id: id + index, // Create unique IDs
-        created_at,
-        theme,
-        analysis: analysisContent,
-        tickers: tickerGroup
-      }
-      parsedIdeas.push(newIdea)
+// ?matchesWatchlist=true&days=1 - Recent ideas mentioning tickers on the signed-in
+// user's watchlists, each with the tickers it matched. Never falls back to mock ideas.
+async function getWatchlistMatches(request: NextRequest) {
+  const { searchParams } = new URL(request.url)
+  const days = searchParams.get('days') ? parseInt(searchParams.get('days')!) : DEFAULT_MATCH_DAYS
+
+  if (isNaN(days) || days <= 0 || days > MAX_MATCH_DAYS) {
+    return apiError(`Days must be between 1 and ${MAX_MATCH_DAYS}`, 400, null, 'INVALID_DAYS')
+  }
+
+  const supabase = await createClient()
+  const { data: { user } } = await supabase.auth.getUser()
+
+  if (!user) {
+    return apiError('Sign in to match ideas against your watchlists', 401, null, 'UNAUTHORIZED')
+  }
+
+  try {
+    // Wrap database operations with retry logic
+    const matches = await withRetry(
+      () => findWatchlistMatches(supabase, user.id, { days }),
+      3, // max retries
+      1000, // initial delay
+      'Match ideas against watchlists'
+    )
+
+    return apiSuccess(
+      matches,
+      `${matches.matchedTickers.length} watched tickers appear in ${matches.ideas.length} recent ideas`
+    )
+  } catch (error) {
+    console.error('Error matching ideas against watchlists:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to match ideas in database', 500, error.message, 'DATABASE_ERROR')
     }
-  })
-  
-  return parsedIdeas
+
+    return apiError('Failed to match ideas against watchlists', 500, error instanceof Error ? error.message : error)
+  }
 }
 
-export async function GET() {
+export async function GET(request: NextRequest) {
+  if (new URL(request.url).searchParams.get('matchesWatchlist') === 'true') {
+    return getWatchlistMatches(request)
+  }
+
   try {
-    let ideas: { id: number; created_at: string; analysis: string; tickers: string }[] | null = null
+    let ideas: StructuredTradingIdea[] | null = null
 
     // Wrap database operation with retry logic
     try {
       ideas = await withRetry(
         async () => {
           const supabase = await createClient()
-          
-          const { data, error } = await supabase
-            .from('generated_ideas')
-            .select('id, created_at, theme, analysis, tickers')
-            .order('created_at', { ascending: false })
-            .limit(10)
-          
-          if (error) {
-            throw new Error(`Database error: ${error.message}`)
-          }
-          
-          return data
+          return await loadIdeas(supabase, { limit: 10 })
         },
         3, // max retries
         1000, // initial delay
@@ -121,38 +98,11 @@ export async function GET() {
         }
       ]
       
-      return apiSuccess(mockIdeas, 'Returned mock trading ideas')
-    }
-
-    let processedIdeas: TradingIdea[] = []
-
-    // Check if data contains combined format (has "IDEA 1" and "---")
-    const hasCombinedFormat = ideas.some(idea => 
-      idea.analysis && 
-      idea.analysis.includes('IDEA 1') && 
-      idea.analysis.includes('---')
-    )
-
-    if (hasCombinedFormat) {
-      console.log('Processing combined format ideas')
-      // Parse combined format - typically the first row contains all combined data
-      const combinedRow = ideas.find(idea => 
-        idea.analysis && 
-        idea.analysis.includes('IDEA 1') && 
-        idea.analysis.includes('---')
-      )
-      
-      if (combinedRow) {
-        processedIdeas = parseCombinedIdeas(combinedRow)
-      }
-    } else {
-      console.log('Using individual format ideas')
-      // Use individual rows as-is
-      processedIdeas = ideas as TradingIdea[]
+      return apiSuccess(structureLegacyRows(mockIdeas), 'Returned mock trading ideas')
     }
 
     // Limit final result to 3 ideas for display
-    const finalIdeas = processedIdeas.slice(0, 3)
+    const finalIdeas = ideas.slice(0, 3)
     
     console.log(`Returning ${finalIdeas.length} trading ideas`)
     return apiSuccess(finalIdeas, `Retrieved ${finalIdeas.length} trading ideas`)
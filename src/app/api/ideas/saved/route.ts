@@ -9,6 +9,9 @@ import {
   SaveIdeaRequest,
   isValidSaveIdeaRequest
 } from '@/lib/api-helpers'
+import { findIdeasByKeys } from '@/lib/ideas-repository'
+import { parseIdeaKey, sourceRowIdFromKey } from '@/lib/idea-parser'
+import { SavedIdea } from '@/types/api'
 import { User } from '@supabase/supabase-js'
 
 export const GET = withAuth(async (user: User) => {
@@ -20,19 +23,7 @@ export const GET = withAuth(async (user: User) => {
       async () => {
         const { data, error } = await supabase
           .from('user_idea_interactions')
-          .select(`
-            id,
-            idea_id,
-            notes,
-            created_at,
-            generated_ideas (
-              id,
-              theme,
-              analysis,
-              tickers,
-              created_at
-            )
-          `)
+          .select('id, idea_key, notes, created_at')
           .eq('user_id', user.id)
           .eq('interaction_type', 'saved')
           .order('created_at', { ascending: false })
@@ -41,7 +32,19 @@ export const GET = withAuth(async (user: User) => {
           throw new Error(`Database error: ${error.message}`)
         }
 
-        return data || []
+        const interactions = data || []
+        const ideas = await findIdeasByKeys(
+          supabase,
+          interactions.map(interaction => interaction.idea_key).filter((key): key is string => !!key)
+        )
+
+        return interactions.map((interaction): SavedIdea => ({
+          id: interaction.id,
+          idea_key: interaction.idea_key,
+          notes: interaction.notes,
+          created_at: interaction.created_at,
+          idea: interaction.idea_key ? ideas.get(interaction.idea_key) || null : null
+        }))
       },
       3, // max retries
       1000, // initial delay
@@ -66,25 +69,31 @@ export const POST = withAuth(async (user: User, request: NextRequest) => {
     const validation = await validateBody(
       request, 
       isValidSaveIdeaRequest, 
-      'Invalid save idea request. Please provide a valid idea_id.'
+      'Invalid save idea request. Please provide a valid idea_key.'
     )
     
     if (!validation.success) {
       return validation.response
     }
     
-    const { idea_id, notes }: SaveIdeaRequest = validation.data
+    const { idea_key, notes }: SaveIdeaRequest = validation.data
     const supabase = await createClient()
     
     // Wrap database operations with retry logic
     const result = await withRetry(
       async () => {
+        // Only keys that resolve to an idea can be saved
+        const ideas = await findIdeasByKeys(supabase, [idea_key])
+        if (!ideas.has(idea_key)) {
+          return { notFound: true, alreadyExists: false, data: null }
+        }
+
         // Check if idea is already saved
         const { data: existingInteraction, error: checkError } = await supabase
           .from('user_idea_interactions')
           .select('id')
           .eq('user_id', user.id)
-          .eq('idea_id', idea_id)
+          .eq('idea_key', idea_key)
           .eq('interaction_type', 'saved')
           .single()
 
@@ -93,7 +102,7 @@ export const POST = withAuth(async (user: User, request: NextRequest) => {
         }
 
         if (existingInteraction) {
-          return { alreadyExists: true, data: null }
+          return { notFound: false, alreadyExists: true, data: null }
         }
 
         // Save the idea
@@ -102,7 +111,8 @@ export const POST = withAuth(async (user: User, request: NextRequest) => {
           .insert([
             {
               user_id: user.id,
-              idea_id,
+              idea_key,
+              idea_id: sourceRowIdFromKey(idea_key),
               interaction_type: 'saved',
               notes: notes || null
             }
@@ -114,13 +124,17 @@ export const POST = withAuth(async (user: User, request: NextRequest) => {
           throw new Error(`Database error saving idea: ${saveError.message}`)
         }
 
-        return { alreadyExists: false, data: savedInteraction }
+        return { notFound: false, alreadyExists: false, data: savedInteraction }
       },
       3, // max retries
       1000, // initial delay
       'Save idea interaction'
     )
 
+    if (result.notFound) {
+      return apiError('Idea not found', 404, null, 'IDEA_NOT_FOUND')
+    }
+
     if (result.alreadyExists) {
       return apiSuccess(null, 'Idea is already saved')
     }
@@ -137,18 +151,72 @@ export const POST = withAuth(async (user: User, request: NextRequest) => {
   }
 })
 
+export const PUT = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    // Validate request body
+    const validation = await validateBody(
+      request, 
+      isValidSaveIdeaRequest, 
+      'Invalid request. Please provide a valid idea_key and notes.'
+    )
+    
+    if (!validation.success) {
+      return validation.response
+    }
+    
+    const { idea_key, notes }: SaveIdeaRequest = validation.data
+    const supabase = await createClient()
+    
+    // Wrap database operation with retry logic
+    const updated = await withRetry(
+      async () => {
+        const { data, error } = await supabase
+          .from('user_idea_interactions')
+          .update({ notes: notes?.trim() || null })
+          .eq('user_id', user.id)
+          .eq('idea_key', idea_key)
+          .eq('interaction_type', 'saved')
+          .select()
+          .maybeSingle()
+
+        if (error) {
+          throw new Error(`Database error updating notes: ${error.message}`)
+        }
+
+        return data
+      },
+      3, // max retries
+      1000, // initial delay
+      'Update saved idea notes'
+    )
+
+    if (!updated) {
+      return apiError('Idea is not saved', 404, null, 'IDEA_NOT_SAVED')
+    }
+
+    return apiSuccess(updated, 'Notes updated!')
+  } catch (error) {
+    console.error('Error in PUT /api/ideas/saved:', error)
+    
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to update notes in database', 500, error.message, 'DATABASE_ERROR')
+    }
+    
+    return apiError('Failed to update notes', 500, error instanceof Error ? error.message : error)
+  }
+})
+
 export const DELETE = withAuth(async (user: User, request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url)
-    const ideaId = searchParams.get('idea_id')
+    const ideaKey = searchParams.get('idea_key')
 
-    if (!ideaId) {
-      return apiError('Idea ID is required in query parameters', 400, null, 'MISSING_IDEA_ID')
+    if (!ideaKey) {
+      return apiError('Idea key is required in query parameters', 400, null, 'MISSING_IDEA_KEY')
     }
 
-    const parsedIdeaId = parseInt(ideaId)
-    if (isNaN(parsedIdeaId) || parsedIdeaId <= 0) {
-      return apiError('Invalid idea ID format', 400, null, 'INVALID_IDEA_ID')
+    if (!parseIdeaKey(ideaKey)) {
+      return apiError('Invalid idea key format', 400, null, 'INVALID_IDEA_KEY')
     }
 
     const supabase = await createClient()
@@ -160,7 +228,7 @@ export const DELETE = withAuth(async (user: User, request: NextRequest) => {
           .from('user_idea_interactions')
           .delete()
           .eq('user_id', user.id)
-          .eq('idea_id', parsedIdeaId)
+          .eq('idea_key', ideaKey)
           .eq('interaction_type', 'saved')
 
         if (deleteError) {
@@ -0,0 +1,88 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import {
+  withAuth,
+  apiSuccess,
+  apiError,
+  validateBody,
+  withRetry,
+  MarkNotificationsReadRequest,
+  isValidMarkNotificationsReadRequest
+} from '@/lib/api-helpers'
+import {
+  DEFAULT_NOTIFICATION_PAGE_SIZE,
+  MAX_NOTIFICATION_PAGE_SIZE,
+  listNotifications,
+  markNotificationsRead
+} from '@/lib/notifications'
+import { User } from '@supabase/supabase-js'
+
+// GET /api/notifications?limit=20&unread=true - Newest first, with the unread count
+export const GET = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limitParam = searchParams.get('limit')
+    const limit = limitParam ? parseInt(limitParam) : DEFAULT_NOTIFICATION_PAGE_SIZE
+    const unreadOnly = searchParams.get('unread') === 'true'
+
+    if (isNaN(limit) || limit <= 0 || limit > MAX_NOTIFICATION_PAGE_SIZE) {
+      return apiError(`Limit must be between 1 and ${MAX_NOTIFICATION_PAGE_SIZE}`, 400, null, 'INVALID_LIMIT')
+    }
+
+    const supabase = await createClient()
+
+    // Wrap database operation with retry logic
+    const result = await withRetry(
+      () => listNotifications(supabase, user.id, { limit, unreadOnly }),
+      3, // max retries
+      1000, // initial delay
+      'Fetch notifications'
+    )
+
+    return apiSuccess(result, `Retrieved ${result.notifications.length} notifications`)
+  } catch (error) {
+    console.error('Error in GET /api/notifications:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to fetch notifications from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to fetch notifications', 500, error instanceof Error ? error.message : error)
+  }
+})
+
+// PUT /api/notifications - { "ids": [...] } marks those read; {} marks all read
+export const PUT = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    // Validate request body
+    const validation = await validateBody(
+      request,
+      isValidMarkNotificationsReadRequest,
+      'Invalid request. Provide "ids" as an array of notification ids, or an empty object to mark all read.'
+    )
+
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { ids }: MarkNotificationsReadRequest = validation.data
+    const supabase = await createClient()
+
+    const updated = await withRetry(
+      () => markNotificationsRead(supabase, user.id, ids),
+      3, // max retries
+      1000, // initial delay
+      'Mark notifications read'
+    )
+
+    return apiSuccess({ updated }, `Marked ${updated} notifications read`)
+  } catch (error) {
+    console.error('Error in PUT /api/notifications:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to update notifications in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to update notifications', 500, error instanceof Error ? error.message : error)
+  }
+})
@@ -0,0 +1,222 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import {
+  withAuth,
+  apiSuccess,
+  apiError,
+  validateBody,
+  withRetry,
+  CreatePortfolioPositionRequest,
+  UpdatePortfolioPositionRequest,
+  isValidCreatePortfolioPositionRequest,
+  isValidUpdatePortfolioPositionRequest
+} from '@/lib/api-helpers'
+import { normalizeSymbol } from '@/lib/symbols'
+import { User } from '@supabase/supabase-js'
+
+// GET /api/portfolio - List the user's positions
+export const GET = withAuth(async (user: User) => {
+  try {
+    const supabase = await createClient()
+
+    // Wrap database operation with retry logic
+    const positions = await withRetry(
+      async () => {
+        const { data, error } = await supabase
+          .from('user_portfolios')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('ticker', { ascending: true })
+
+        if (error) {
+          throw new Error(`Database error: ${error.message}`)
+        }
+
+        return data || []
+      },
+      3, // max retries
+      1000, // initial delay
+      'Fetch portfolio positions'
+    )
+
+    return apiSuccess(positions, `Retrieved ${positions.length} positions`)
+  } catch (error) {
+    console.error('Error in GET /api/portfolio:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to fetch portfolio from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to fetch portfolio', 500, error instanceof Error ? error.message : error)
+  }
+})
+
+// POST /api/portfolio - Create a position
+export const POST = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    // Validate request body
+    const validation = await validateBody(
+      request,
+      isValidCreatePortfolioPositionRequest,
+      'Invalid position. Please provide a valid ticker, shares and avg_cost.'
+    )
+
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { ticker, shares, avg_cost, purchase_date, notes }: CreatePortfolioPositionRequest = validation.data
+    const supabase = await createClient()
+
+    const cleanTicker = normalizeSymbol(ticker)
+
+    const position = await withRetry(
+      async () => {
+        const { data, error } = await supabase
+          .from('user_portfolios')
+          .insert([
+            {
+              user_id: user.id,
+              ticker: cleanTicker,
+              shares,
+              avg_cost,
+              purchase_date: purchase_date || null,
+              notes: notes || null
+            }
+          ])
+          .select()
+          .single()
+
+        if (error) {
+          throw new Error(`Database error creating position: ${error.message}`)
+        }
+
+        return data
+      },
+      3, // max retries
+      1000, // initial delay
+      'Create portfolio position'
+    )
+
+    return apiSuccess(position, `${cleanTicker} position added to your portfolio!`, 201)
+  } catch (error) {
+    console.error('Error in POST /api/portfolio:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to save position to database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to add position', 500, error instanceof Error ? error.message : error)
+  }
+})
+
+// PUT /api/portfolio - Update a position
+export const PUT = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    // Validate request body
+    const validation = await validateBody(
+      request,
+      isValidUpdatePortfolioPositionRequest,
+      'Invalid position update. Please provide the position id and the fields to change.'
+    )
+
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { id, ...updates }: UpdatePortfolioPositionRequest = validation.data
+    const supabase = await createClient()
+
+    if (updates.ticker) {
+      updates.ticker = normalizeSymbol(updates.ticker)
+    }
+
+    const position = await withRetry(
+      async () => {
+        // Scope the update to the user's own rows so ids from other accounts never match
+        const { data, error } = await supabase
+          .from('user_portfolios')
+          .update({
+            ...updates,
+            updated_at: new Date().toISOString()
+          })
+          .eq('id', id)
+          .eq('user_id', user.id)
+          .select()
+          .maybeSingle()
+
+        if (error) {
+          throw new Error(`Database error updating position: ${error.message}`)
+        }
+
+        // No row means no such position; returned rather than thrown so it is not retried
+        return data
+      },
+      3, // max retries
+      1000, // initial delay
+      'Update portfolio position'
+    )
+
+    if (!position) {
+      return apiError('Position not found', 404, null, 'POSITION_NOT_FOUND')
+    }
+
+    return apiSuccess(position, 'Position updated successfully')
+  } catch (error) {
+    console.error('Error in PUT /api/portfolio:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to update position in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to update position', 500, error instanceof Error ? error.message : error)
+  }
+})
+
+// DELETE /api/portfolio?id=... - Remove a position
+export const DELETE = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const positionId = searchParams.get('id')
+
+    if (!positionId) {
+      return apiError('Position ID is required in query parameters', 400, null, 'MISSING_POSITION_ID')
+    }
+
+    const supabase = await createClient()
+
+    const deleted = await withRetry(
+      async () => {
+        const { data, error } = await supabase
+          .from('user_portfolios')
+          .delete()
+          .eq('id', positionId)
+          .eq('user_id', user.id)
+          .select('id, ticker')
+
+        if (error) {
+          throw new Error(`Database error removing position: ${error.message}`)
+        }
+
+        return data || []
+      },
+      3, // max retries
+      1000, // initial delay
+      'Remove portfolio position'
+    )
+
+    if (deleted.length === 0) {
+      return apiError('Position not found', 404, null, 'POSITION_NOT_FOUND')
+    }
+
+    return apiSuccess(null, `${deleted[0].ticker} position removed from your portfolio!`)
+  } catch (error) {
+    console.error('Error in DELETE /api/portfolio:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to remove position from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to remove position', 500, error instanceof Error ? error.message : error)
+  }
+})
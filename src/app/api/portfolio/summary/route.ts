@@ -0,0 +1,70 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { withAuth, apiSuccess, apiError, withRetry } from '@/lib/api-helpers'
+import { summarizePortfolio, CostBasisMethod, COST_BASIS_METHODS } from '@/lib/portfolio-ledger'
+import { getQuoteProvider, Quote } from '@/lib/quotes'
+import { PortfolioTransaction } from '@/types/user'
+import { User } from '@supabase/supabase-js'
+
+// GET /api/portfolio/summary?method=fifo|average - Cost basis and P&L derived from the ledger
+export const GET = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const method = (searchParams.get('method') || 'fifo') as CostBasisMethod
+
+    if (!COST_BASIS_METHODS.includes(method)) {
+      return apiError(
+        `Invalid cost basis method. Use one of: ${COST_BASIS_METHODS.join(', ')}`,
+        400,
+        null,
+        'INVALID_METHOD'
+      )
+    }
+
+    const supabase = await createClient()
+
+    const transactions = await withRetry(
+      async () => {
+        const { data, error } = await supabase
+          .from('portfolio_transactions')
+          .select('ticker, side, shares, price, fees, executed_at')
+          .eq('user_id', user.id)
+
+        if (error) {
+          throw new Error(`Database error: ${error.message}`)
+        }
+
+        return (data || []) as PortfolioTransaction[]
+      },
+      3, // max retries
+      1000, // initial delay
+      'Fetch portfolio ledger'
+    )
+
+    const tickers = Array.from(new Set(transactions.map(tx => tx.ticker.toUpperCase())))
+
+    let quotes: Record<string, Quote> = {}
+    const quoteProvider = getQuoteProvider()
+    try {
+      quotes = tickers.length > 0 ? await quoteProvider.getQuotes(tickers) : {}
+    } catch (quoteError) {
+      // Still return cost basis and realized gains when pricing is down
+      console.error(`Quote provider "${quoteProvider.name}" failed:`, quoteError)
+    }
+
+    const summary = summarizePortfolio(transactions, quotes, method)
+
+    return apiSuccess(
+      { ...summary, quoteProvider: quoteProvider.name },
+      `Summarized ${summary.positions.length} positions`
+    )
+  } catch (error) {
+    console.error('Error in GET /api/portfolio/summary:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to fetch portfolio ledger from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to summarize portfolio', 500, error instanceof Error ? error.message : error)
+  }
+})
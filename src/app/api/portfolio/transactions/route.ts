@@ -0,0 +1,185 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import {
+  withAuth,
+  apiSuccess,
+  apiError,
+  validateBody,
+  withRetry,
+  CreatePortfolioTransactionRequest,
+  isValidPortfolioTransactionRequest
+} from '@/lib/api-helpers'
+import { normalizeSymbol } from '@/lib/symbols'
+import { PortfolioTransaction } from '@/types/user'
+import { User } from '@supabase/supabase-js'
+
+// Prefix of the error the ledger functions raise when a change would leave a ticker short
+const INSUFFICIENT_SHARES_ERROR = 'Insufficient shares'
+
+// GET /api/portfolio/transactions?ticker=... - List ledger entries, newest first
+export const GET = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const ticker = searchParams.get('ticker')
+    const supabase = await createClient()
+
+    const transactions = await withRetry(
+      async () => {
+        let query = supabase
+          .from('portfolio_transactions')
+          .select('*')
+          .eq('user_id', user.id)
+          .order('executed_at', { ascending: false })
+
+        if (ticker) {
+          query = query.eq('ticker', normalizeSymbol(ticker))
+        }
+
+        const { data, error } = await query
+
+        if (error) {
+          throw new Error(`Database error: ${error.message}`)
+        }
+
+        return data || []
+      },
+      3, // max retries
+      1000, // initial delay
+      'Fetch portfolio transactions'
+    )
+
+    return apiSuccess(transactions, `Retrieved ${transactions.length} transactions`)
+  } catch (error) {
+    console.error('Error in GET /api/portfolio/transactions:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to fetch transactions from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to fetch transactions', 500, error instanceof Error ? error.message : error)
+  }
+})
+
+// POST /api/portfolio/transactions - Record a buy or sell
+export const POST = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    const validation = await validateBody(
+      request,
+      isValidPortfolioTransactionRequest,
+      'Invalid transaction. Please provide ticker, side (buy or sell), shares and price.'
+    )
+
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { ticker, side, shares, price, fees, executed_at, notes }: CreatePortfolioTransactionRequest = validation.data
+    const supabase = await createClient()
+
+    const cleanTicker = normalizeSymbol(ticker)
+    const executedAt = executed_at ? new Date(executed_at).toISOString() : new Date().toISOString()
+
+    const result = await withRetry(
+      async () => {
+        // Inserted and checked against the replayed ledger in one database transaction,
+        // so concurrent sells cannot both spend the same shares
+        const { data, error } = await supabase.rpc('record_portfolio_transaction', {
+          tx_ticker: cleanTicker,
+          tx_side: side,
+          tx_shares: shares,
+          tx_price: price,
+          tx_fees: fees || 0,
+          tx_executed_at: executedAt,
+          tx_notes: notes || null
+        })
+
+        if (error) {
+          if (error.message.startsWith(INSUFFICIENT_SHARES_ERROR)) {
+            return { type: 'insufficient_shares' as const, warnings: [error.message], data: null }
+          }
+          throw new Error(`Database error recording transaction: ${error.message}`)
+        }
+
+        return { type: 'created' as const, warnings: [], data: data as PortfolioTransaction }
+      },
+      3, // max retries
+      1000, // initial delay
+      'Record portfolio transaction'
+    )
+
+    if (result.type === 'insufficient_shares') {
+      return apiError(
+        `Cannot sell ${shares} ${cleanTicker}: not enough shares held at that date`,
+        400,
+        result.warnings,
+        'INSUFFICIENT_SHARES'
+      )
+    }
+
+    return apiSuccess(result.data, `Recorded ${side} of ${shares} ${cleanTicker}`, 201)
+  } catch (error) {
+    console.error('Error in POST /api/portfolio/transactions:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to record transaction in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to record transaction', 500, error instanceof Error ? error.message : error)
+  }
+})
+
+// DELETE /api/portfolio/transactions?id=... - Remove a ledger entry
+export const DELETE = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const transactionId = searchParams.get('id')
+
+    if (!transactionId) {
+      return apiError('Transaction ID is required in query parameters', 400, null, 'MISSING_TRANSACTION_ID')
+    }
+
+    const supabase = await createClient()
+
+    const deleted = await withRetry(
+      async () => {
+        // Refused when later sells depend on the shares it adds
+        const { data, error } = await supabase.rpc('delete_portfolio_transaction', { transaction_id: transactionId })
+
+        if (error) {
+          if (error.message.startsWith(INSUFFICIENT_SHARES_ERROR)) {
+            return { type: 'insufficient_shares' as const, warnings: [error.message] }
+          }
+          throw new Error(`Database error removing transaction: ${error.message}`)
+        }
+
+        return { type: data ? 'removed' as const : 'not_found' as const, warnings: [] }
+      },
+      3, // max retries
+      1000, // initial delay
+      'Remove portfolio transaction'
+    )
+
+    if (deleted.type === 'not_found') {
+      return apiError('Transaction not found', 404, null, 'TRANSACTION_NOT_FOUND')
+    }
+
+    if (deleted.type === 'insufficient_shares') {
+      return apiError(
+        'Cannot remove this transaction: later sells depend on its shares',
+        409,
+        deleted.warnings,
+        'INSUFFICIENT_SHARES'
+      )
+    }
+
+    return apiSuccess(null, 'Transaction removed')
+  } catch (error) {
+    console.error('Error in DELETE /api/portfolio/transactions:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to remove transaction from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to remove transaction', 500, error instanceof Error ? error.message : error)
+  }
+})
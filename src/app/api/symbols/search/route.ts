@@ -0,0 +1,36 @@
+import { NextRequest } from 'next/server'
+import { apiSuccess, apiError } from '@/lib/api-helpers'
+import { searchSymbols } from '@/lib/symbols'
+
+const DEFAULT_LIMIT = 10
+const MAX_LIMIT = 50
+const MAX_QUERY_LENGTH = 50
+
+// GET /api/symbols/search?q=berk&limit=10
+// Public autocomplete over the bundled symbol directory; matches symbols and company names
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url)
+    const query = searchParams.get('q')?.trim() || ''
+    const limit = searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : DEFAULT_LIMIT
+
+    if (!query) {
+      return apiError('Query parameter "q" is required', 400, null, 'MISSING_QUERY')
+    }
+
+    if (query.length > MAX_QUERY_LENGTH) {
+      return apiError(`Query must be at most ${MAX_QUERY_LENGTH} characters`, 400, null, 'INVALID_QUERY')
+    }
+
+    if (isNaN(limit) || limit <= 0 || limit > MAX_LIMIT) {
+      return apiError(`Limit must be between 1 and ${MAX_LIMIT}`, 400, null, 'INVALID_LIMIT')
+    }
+
+    const results = searchSymbols(query, limit)
+
+    return apiSuccess({ query, results }, `Found ${results.length} symbols`)
+  } catch (error) {
+    console.error('Error in GET /api/symbols/search:', error)
+    return apiError('Failed to search symbols', 500, error instanceof Error ? error.message : error)
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Admin Chat Usage Route
+ *
+ * Chat usage across all users: requests, errors, tokens, estimated cost and latency by
+ * day and by provider/model, plus the heaviest users.
+ *
+ * Required Environment Variables:
+ * - ADMIN_API_SECRET: sent as "Authorization: Bearer <secret>"
+ * - SUPABASE_SERVICE_ROLE_KEY: chat_usage_events is private to each user
+ */
+
+import { NextRequest } from 'next/server'
+import { createServiceClient } from '@/lib/supabase-server'
+import { apiSuccess, apiError, withAdminAuth } from '@/lib/api-helpers'
+import {
+  DEFAULT_TOP_USERS,
+  DEFAULT_USAGE_DAYS,
+  MAX_TOP_USERS,
+  MAX_USAGE_DAYS,
+  getChatUsageReport,
+  getChatUsageTopUsers
+} from '@/lib/chat-usage'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// GET /api/usage/admin?days=30&users=20
+export const GET = withAdminAuth(async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const days = searchParams.get('days') ? parseInt(searchParams.get('days')!) : DEFAULT_USAGE_DAYS
+    const users = searchParams.get('users') ? parseInt(searchParams.get('users')!) : DEFAULT_TOP_USERS
+
+    if (isNaN(days) || days <= 0 || days > MAX_USAGE_DAYS) {
+      return apiError(`Days must be between 1 and ${MAX_USAGE_DAYS}`, 400, null, 'INVALID_DAYS')
+    }
+    if (isNaN(users) || users <= 0 || users > MAX_TOP_USERS) {
+      return apiError(`Users must be between 1 and ${MAX_TOP_USERS}`, 400, null, 'INVALID_LIMIT')
+    }
+
+    const supabase = createServiceClient()
+    const to = new Date()
+    const from = new Date(to.getTime() - days * DAY_MS)
+
+    const [usage, topUsers] = await Promise.all([
+      getChatUsageReport(supabase, from, to),
+      getChatUsageTopUsers(supabase, from, to, users)
+    ])
+
+    return apiSuccess(
+      { ...usage, topUsers },
+      `Chat usage for the last ${days} days: ${usage.totals.requests} requests`
+    )
+  } catch (error) {
+    console.error('Error in GET /api/usage/admin:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to fetch usage from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to fetch usage', 500, error instanceof Error ? error.message : error)
+  }
+})
@@ -0,0 +1,60 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { withAuth, apiSuccess, apiError, withRetry } from '@/lib/api-helpers'
+import { DEFAULT_USAGE_DAYS, MAX_USAGE_DAYS, getChatUsageReport } from '@/lib/chat-usage'
+import { chatQuotaStatus } from '@/lib/chat-quotas'
+import { User } from '@supabase/supabase-js'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// GET /api/usage?days=30 - The user's chat usage over the last `days` days, by day and
+// model, and where they stand against their rate limit and quotas
+export const GET = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const daysParam = searchParams.get('days')
+    const days = daysParam ? parseInt(daysParam) : DEFAULT_USAGE_DAYS
+
+    if (isNaN(days) || days <= 0 || days > MAX_USAGE_DAYS) {
+      return apiError(`Days must be between 1 and ${MAX_USAGE_DAYS}`, 400, null, 'INVALID_DAYS')
+    }
+
+    const supabase = await createClient()
+    const now = new Date()
+
+    const [usage, quota] = await Promise.all([
+      withRetry(
+        () => getChatUsageReport(supabase, new Date(now.getTime() - days * DAY_MS), now),
+        3, // max retries
+        1000, // initial delay
+        'Fetch chat usage'
+      ),
+      withRetry(
+        () => chatQuotaStatus(supabase, user.id, now),
+        3, // max retries
+        1000, // initial delay
+        'Fetch chat quota'
+      )
+    ])
+
+    return apiSuccess({
+      tier: quota.tier,
+      quotas: quota.windows.map(({ period, limit, remaining, resetAt }) => ({
+        period,
+        limit,
+        used: limit - remaining,
+        remaining,
+        resetAt: resetAt.toISOString()
+      })),
+      usage
+    }, `Retrieved chat usage for the last ${days} days`)
+  } catch (error) {
+    console.error('Error in GET /api/usage:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to fetch usage from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to fetch usage', 500, error instanceof Error ? error.message : error)
+  }
+})
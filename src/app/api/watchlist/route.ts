@@ -1,4 +1,4 @@
-import { NextResponse, NextRequest } from 'next/server'
+import { NextRequest } from 'next/server'
 import { createClient } from '@/lib/supabase-server'
 import { 
   withAuth, 
@@ -9,6 +9,14 @@ import {
   AddToWatchlistRequest,
   isValidWatchlistRequest
 } from '@/lib/api-helpers'
+import {
+  DEFAULT_WATCHLIST_NAME,
+  createWatchlist,
+  listWatchlists,
+  resolveWatchlist,
+  updateWatchlistTickers
+} from '@/lib/watchlists'
+import { normalizeSymbol } from '@/lib/symbols'
 import { User } from '@supabase/supabase-js'
 
 export const GET = withAuth(async (user: User) => {
@@ -17,19 +25,7 @@ export const GET = withAuth(async (user: User) => {
     
     // Wrap database operation with retry logic
     const watchlists = await withRetry(
-      async () => {
-        const { data, error } = await supabase
-          .from('user_watchlists')
-          .select('*')
-          .eq('user_id', user.id)
-          .order('created_at', { ascending: false })
-
-        if (error) {
-          throw new Error(`Database error: ${error.message}`)
-        }
-
-        return data || []
-      },
+      () => listWatchlists(supabase, user.id),
       3, // max retries
       1000, // initial delay
       'Fetch user watchlists'
@@ -60,91 +56,69 @@ export const POST = withAuth(async (user: User, request: NextRequest) => {
       return validation.response
     }
     
-    const { ticker, watchlist_name }: AddToWatchlistRequest = validation.data
+    const { ticker, watchlist_id, watchlist_name }: AddToWatchlistRequest = validation.data
     const supabase = await createClient()
     
-    const cleanTicker = ticker.toUpperCase().trim()
-    const watchlistName = watchlist_name || 'Default Watchlist'
+    const cleanTicker = normalizeSymbol(ticker)
 
     // Wrap database operations with retry logic
     const result = await withRetry(
       async () => {
-        // Check if user has a default watchlist or the specified watchlist
-        const { data: existingWatchlist, error: fetchError } = await supabase
-          .from('user_watchlists')
-          .select('*')
-          .eq('user_id', user.id)
-          .eq('name', watchlistName)
-          .single()
-
-        if (fetchError && fetchError.code !== 'PGRST116') {
-          throw new Error(`Database error checking existing watchlist: ${fetchError.message}`)
-        }
+        const existingWatchlist = await resolveWatchlist(supabase, user.id, { id: watchlist_id, name: watchlist_name })
 
-        if (existingWatchlist) {
-          // Check if ticker already exists in watchlist
-          if (existingWatchlist.tickers.includes(cleanTicker)) {
-            return { 
-              type: 'already_exists', 
-              message: `${cleanTicker} is already in your ${watchlistName}`,
-              data: existingWatchlist
-            }
+        if (!existingWatchlist) {
+          // Named lists are created through /api/watchlists; only a user's first list is implicit
+          if (watchlist_id || watchlist_name) {
+            return { type: 'not_found' as const }
           }
 
-          // Add ticker to existing watchlist
-          const updatedTickers = [...existingWatchlist.tickers, cleanTicker]
-          
-          const { data: updatedWatchlist, error: updateError } = await supabase
-            .from('user_watchlists')
-            .update({ 
-              tickers: updatedTickers,
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', existingWatchlist.id)
-            .select()
-            .single()
-
-          if (updateError) {
-            throw new Error(`Database error updating watchlist: ${updateError.message}`)
+          const created = await createWatchlist(supabase, user.id, {
+            name: DEFAULT_WATCHLIST_NAME,
+            description: 'My default watchlist',
+            tickers: [cleanTicker]
+          })
+
+          if (created.type !== 'ok') {
+            throw new Error('Database error creating default watchlist')
           }
 
           return {
-            type: 'updated',
-            message: `${cleanTicker} added to ${watchlistName}!`,
-            data: updatedWatchlist
-          }
-        } else {
-          // Create new watchlist with the ticker
-          const { data: newWatchlist, error: createError } = await supabase
-            .from('user_watchlists')
-            .insert([
-              {
-                user_id: user.id,
-                name: watchlistName,
-                description: watchlistName === 'Default Watchlist' ? 'My default watchlist' : undefined,
-                tickers: [cleanTicker],
-                is_default: watchlistName === 'Default Watchlist'
-              }
-            ])
-            .select()
-            .single()
-
-          if (createError) {
-            throw new Error(`Database error creating watchlist: ${createError.message}`)
+            type: 'created' as const,
+            message: `Created ${DEFAULT_WATCHLIST_NAME} and added ${cleanTicker}!`,
+            data: created.watchlist
           }
+        }
 
-          return {
-            type: 'created',
-            message: `Created ${watchlistName} and added ${cleanTicker}!`,
-            data: newWatchlist
+        // Added in one statement, so concurrent requests cannot overwrite each other
+        const updated = await updateWatchlistTickers(supabase, user.id, existingWatchlist.id, { add: [cleanTicker] })
+
+        if (!updated) {
+          return { type: 'not_found' as const }
+        }
+
+        if (updated.results[0]?.status === 'already_present') {
+          return { 
+            type: 'already_exists' as const, 
+            message: `${cleanTicker} is already in your ${existingWatchlist.name}`,
+            data: updated.watchlist
           }
         }
+
+        return {
+          type: 'updated' as const,
+          message: `${cleanTicker} added to ${existingWatchlist.name}!`,
+          data: updated.watchlist
+        }
       },
       3, // max retries
       1000, // initial delay
       'Add ticker to watchlist'
     )
 
+    if (result.type === 'not_found') {
+      return apiError('Watchlist not found', 404, null, 'WATCHLIST_NOT_FOUND')
+    }
+
     const status = result.type === 'created' ? 201 : 200
     return apiSuccess(result.data, result.message, status)
   } catch (error) {
@@ -162,63 +136,44 @@ export const DELETE = withAuth(async (user: User, request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url)
     const ticker = searchParams.get('ticker')
-    const watchlistName = searchParams.get('watchlist_name') || 'Default Watchlist'
+    const watchlistId = searchParams.get('watchlist_id')
+    const watchlistName = searchParams.get('watchlist_name')
 
     if (!ticker) {
       return apiError('Ticker is required in query parameters', 400, null, 'MISSING_TICKER')
     }
 
     const supabase = await createClient()
-    const tickerUpper = ticker.toUpperCase().trim()
+    const tickerUpper = normalizeSymbol(ticker)
 
     // Wrap database operations with retry logic
     const result = await withRetry(
       async () => {
         // Find the watchlist
-        const { data: watchlist, error: fetchError } = await supabase
-          .from('user_watchlists')
-          .select('*')
-          .eq('user_id', user.id)
-          .eq('name', watchlistName)
-          .single()
-
-        if (fetchError) {
-          if (fetchError.code === 'PGRST116') {
-            throw new Error('WATCHLIST_NOT_FOUND')
-          }
-          throw new Error(`Database error fetching watchlist: ${fetchError.message}`)
+        const watchlist = await resolveWatchlist(supabase, user.id, { id: watchlistId, name: watchlistName })
+
+        if (!watchlist) {
+          throw new Error('WATCHLIST_NOT_FOUND')
         }
 
-        // Check if ticker exists in watchlist
-        if (!watchlist.tickers.includes(tickerUpper)) {
+        const updated = await updateWatchlistTickers(supabase, user.id, watchlist.id, { remove: [tickerUpper] })
+
+        if (!updated) {
+          throw new Error('WATCHLIST_NOT_FOUND')
+        }
+
+        if (updated.results[0]?.status !== 'removed') {
           return {
             type: 'not_found',
-            message: `${tickerUpper} is not in your ${watchlistName}`,
-            data: watchlist
+            message: `${tickerUpper} is not in your ${watchlist.name}`,
+            data: updated.watchlist
           }
         }
 
-        // Remove ticker from watchlist
-        const updatedTickers = watchlist.tickers.filter((t: string) => t !== tickerUpper)
-        
-        const { data: updatedWatchlist, error: updateError } = await supabase
-          .from('user_watchlists')
-          .update({ 
-            tickers: updatedTickers,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', watchlist.id)
-          .select()
-          .single()
-
-        if (updateError) {
-          throw new Error(`Database error updating watchlist: ${updateError.message}`)
-        }
-
         return {
           type: 'removed',
-          message: `${tickerUpper} removed from ${watchlistName}!`,
-          data: updatedWatchlist
+          message: `${tickerUpper} removed from ${watchlist.name}!`,
+          data: updated.watchlist
         }
       },
       3, // max retries
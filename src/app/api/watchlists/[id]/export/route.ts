@@ -0,0 +1,53 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { withAuth, apiError, withRetry } from '@/lib/api-helpers'
+import { findWatchlist } from '@/lib/watchlists'
+import { exportFileName, watchlistToCsv, watchlistToJson } from '@/lib/watchlist-import'
+import { User } from '@supabase/supabase-js'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/watchlists/[id]/export?format=csv|json - Downloads the list as a file
+export const GET = withAuth(async (user: User, request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params
+    const format = new URL(request.url).searchParams.get('format') || 'csv'
+
+    if (format !== 'csv' && format !== 'json') {
+      return apiError('format must be "csv" or "json"', 400, null, 'INVALID_EXPORT_FORMAT')
+    }
+
+    const supabase = await createClient()
+
+    // Wrap database operation with retry logic
+    const watchlist = await withRetry(
+      () => findWatchlist(supabase, user.id, id),
+      3, // max retries
+      1000, // initial delay
+      'Export watchlist'
+    )
+
+    if (!watchlist) {
+      return apiError('Watchlist not found', 404, null, 'WATCHLIST_NOT_FOUND')
+    }
+
+    const body = format === 'csv'
+      ? watchlistToCsv(watchlist)
+      : JSON.stringify(watchlistToJson(watchlist), null, 2)
+
+    return new NextResponse(body, {
+      headers: {
+        'Content-Type': format === 'csv' ? 'text/csv; charset=utf-8' : 'application/json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${exportFileName(watchlist, format)}"`
+      }
+    })
+  } catch (error) {
+    console.error('Error in GET /api/watchlists/[id]/export:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to export watchlist from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to export watchlist', 500, error instanceof Error ? error.message : error)
+  }
+})
@@ -0,0 +1,116 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { withAuth, apiSuccess, apiError, withRetry, validators, MAX_BULK_TICKERS } from '@/lib/api-helpers'
+import { findWatchlist, updateWatchlistTickers } from '@/lib/watchlists'
+import { MAX_IMPORT_BYTES, parseTickerList } from '@/lib/watchlist-import'
+import { User } from '@supabase/supabase-js'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// The request body as text; null when it is larger than maxBytes. Oversized uploads are
+// refused from their Content-Length, and reading stops once the limit is passed.
+async function readBodyText(request: NextRequest, maxBytes: number): Promise<string | null> {
+  if (Number(request.headers.get('content-length')) > maxBytes) return null
+  if (!request.body) return ''
+
+  const reader = request.body.getReader()
+  const decoder = new TextDecoder()
+  let text = ''
+  let size = 0
+
+  while (true) {
+    const { done, value } = await reader.read()
+    if (done) return text + decoder.decode()
+
+    size += value.byteLength
+    if (size > maxBytes) {
+      await reader.cancel()
+      return null
+    }
+    text += decoder.decode(value, { stream: true })
+  }
+}
+
+// The upload from a text/csv or text/plain body, JSON { "content": "..." }, or a JSON
+// export from GET /api/watchlists/[id]/export
+function importContent(body: string, contentType: string): string | null {
+  if (!contentType.includes('application/json')) return body
+
+  try {
+    const parsed = JSON.parse(body)
+    if (!validators.isObject(parsed)) return null
+
+    const { content, tickers } = parsed as Record<string, unknown>
+    if (validators.isString(content)) return content
+    if (validators.isArray(tickers) && tickers.every(validators.isString)) return tickers.join('\n')
+    return null
+  } catch {
+    return null
+  }
+}
+
+// POST /api/watchlists/[id]/import?mode=merge|replace
+// Imports a symbol list or broker CSV export; "replace" also removes tickers missing from the file
+export const POST = withAuth(async (user: User, request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params
+    const mode = new URL(request.url).searchParams.get('mode') || 'merge'
+
+    if (mode !== 'merge' && mode !== 'replace') {
+      return apiError('mode must be "merge" or "replace"', 400, null, 'INVALID_IMPORT_MODE')
+    }
+
+    const body = await readBodyText(request, MAX_IMPORT_BYTES)
+
+    if (body === null) {
+      return apiError(`Import file must be at most ${MAX_IMPORT_BYTES / 1024} KB`, 413, null, 'IMPORT_TOO_LARGE')
+    }
+
+    const content = importContent(body, request.headers.get('content-type') || '')
+
+    if (!content || !content.trim()) {
+      return apiError('Import file is empty', 400, null, 'EMPTY_IMPORT')
+    }
+
+    const parsed = parseTickerList(content)
+
+    if (parsed.tickers.length > MAX_BULK_TICKERS) {
+      return apiError(`Import files may list at most ${MAX_BULK_TICKERS} tickers`, 400, null, 'TOO_MANY_TICKERS')
+    }
+
+    const supabase = await createClient()
+
+    const result = await withRetry(
+      async () => {
+        const watchlist = await findWatchlist(supabase, user.id, id)
+        if (!watchlist) return null
+
+        const imported = new Set(parsed.tickers)
+        const remove = mode === 'replace' ? watchlist.tickers.filter(ticker => !imported.has(ticker)) : []
+        return await updateWatchlistTickers(supabase, user.id, id, { add: parsed.tickers, remove })
+      },
+      3, // max retries
+      1000, // initial delay
+      'Import watchlist tickers'
+    )
+
+    if (!result) {
+      return apiError('Watchlist not found', 404, null, 'WATCHLIST_NOT_FOUND')
+    }
+
+    const added = result.results.filter(entry => entry.status === 'added').length
+
+    return apiSuccess(
+      { ...result, format: parsed.format, rejected: parsed.rejected },
+      `Imported ${added} new tickers into ${result.watchlist.name}`
+    )
+  } catch (error) {
+    console.error('Error in POST /api/watchlists/[id]/import:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to import into watchlist in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to import watchlist', 500, error instanceof Error ? error.message : error)
+  }
+})
@@ -0,0 +1,56 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import { withAuth, apiSuccess, apiError, withRetry } from '@/lib/api-helpers'
+import { findWatchlist } from '@/lib/watchlists'
+import { Quote, getQuoteProvider } from '@/lib/quotes'
+import { User } from '@supabase/supabase-js'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/watchlists/[id]/quotes
+// Last price, daily change and volume per ticker, in list order; null where the
+// provider has no quote
+export const GET = withAuth(async (user: User, _request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Wrap database operation with retry logic
+    const watchlist = await withRetry(
+      () => findWatchlist(supabase, user.id, id),
+      3, // max retries
+      1000, // initial delay
+      'Fetch watchlist'
+    )
+
+    if (!watchlist) {
+      return apiError('Watchlist not found', 404, null, 'WATCHLIST_NOT_FOUND')
+    }
+
+    const quoteProvider = getQuoteProvider()
+    let quotes: Record<string, Quote>
+    try {
+      quotes = watchlist.tickers.length > 0 ? await quoteProvider.getQuotes(watchlist.tickers) : {}
+    } catch (quoteError) {
+      console.error(`Quote provider "${quoteProvider.name}" failed:`, quoteError)
+      return apiError('Quotes are temporarily unavailable', 503, null, 'QUOTES_UNAVAILABLE')
+    }
+
+    return apiSuccess(
+      {
+        watchlist_id: watchlist.id,
+        quoteProvider: quoteProvider.name,
+        quotes: watchlist.tickers.map(ticker => ({ ticker, quote: quotes[ticker] || null }))
+      },
+      `Priced ${Object.keys(quotes).length} of ${watchlist.tickers.length} tickers`
+    )
+  } catch (error) {
+    console.error('Error in GET /api/watchlists/[id]/quotes:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to fetch watchlist from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to fetch watchlist quotes', 500, error instanceof Error ? error.message : error)
+  }
+})
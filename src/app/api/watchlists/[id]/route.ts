@@ -0,0 +1,120 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import {
+  withAuth,
+  apiSuccess,
+  apiError,
+  validateBody,
+  withRetry,
+  UpdateWatchlistRequest,
+  isValidUpdateWatchlistRequest
+} from '@/lib/api-helpers'
+import { deleteWatchlist, findWatchlist, updateWatchlist } from '@/lib/watchlists'
+import { User } from '@supabase/supabase-js'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// GET /api/watchlists/[id]
+export const GET = withAuth(async (user: User, _request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    // Wrap database operation with retry logic
+    const watchlist = await withRetry(
+      () => findWatchlist(supabase, user.id, id),
+      3, // max retries
+      1000, // initial delay
+      'Fetch watchlist'
+    )
+
+    if (!watchlist) {
+      return apiError('Watchlist not found', 404, null, 'WATCHLIST_NOT_FOUND')
+    }
+
+    return apiSuccess(watchlist, 'Watchlist retrieved successfully')
+  } catch (error) {
+    console.error('Error in GET /api/watchlists/[id]:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to fetch watchlist from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to fetch watchlist', 500, error instanceof Error ? error.message : error)
+  }
+})
+
+// PUT /api/watchlists/[id] - Rename, describe or make the default list
+export const PUT = withAuth(async (user: User, request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params
+
+    // Validate request body
+    const validation = await validateBody(
+      request,
+      isValidUpdateWatchlistRequest,
+      'Invalid watchlist update. Provide a name, description or "is_default": true.'
+    )
+
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const updates: UpdateWatchlistRequest = validation.data
+    const supabase = await createClient()
+
+    const result = await withRetry(
+      () => updateWatchlist(supabase, user.id, id, updates),
+      3, // max retries
+      1000, // initial delay
+      'Update watchlist'
+    )
+
+    if (result.type === 'not_found') {
+      return apiError('Watchlist not found', 404, null, 'WATCHLIST_NOT_FOUND')
+    }
+
+    if (result.type === 'name_taken') {
+      return apiError(`You already have a watchlist named "${updates.name?.trim()}"`, 409, null, 'WATCHLIST_NAME_TAKEN')
+    }
+
+    return apiSuccess(result.watchlist, 'Watchlist updated successfully')
+  } catch (error) {
+    console.error('Error in PUT /api/watchlists/[id]:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to update watchlist in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to update watchlist', 500, error instanceof Error ? error.message : error)
+  }
+})
+
+// DELETE /api/watchlists/[id]
+export const DELETE = withAuth(async (user: User, _request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params
+    const supabase = await createClient()
+
+    const deleted = await withRetry(
+      () => deleteWatchlist(supabase, user.id, id),
+      3, // max retries
+      1000, // initial delay
+      'Delete watchlist'
+    )
+
+    if (!deleted) {
+      return apiError('Watchlist not found', 404, null, 'WATCHLIST_NOT_FOUND')
+    }
+
+    return apiSuccess({ id: deleted.id }, `Deleted ${deleted.name}`)
+  } catch (error) {
+    console.error('Error in DELETE /api/watchlists/[id]:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to delete watchlist from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to delete watchlist', 500, error instanceof Error ? error.message : error)
+  }
+})
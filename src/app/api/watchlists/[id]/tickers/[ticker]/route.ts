@@ -0,0 +1,58 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import {
+  withAuth,
+  apiSuccess,
+  apiError,
+  validateBody,
+  withRetry,
+  MAX_WATCHLIST_NOTES_LENGTH,
+  UpdateWatchlistItemRequest,
+  isValidUpdateWatchlistItemRequest
+} from '@/lib/api-helpers'
+import { updateWatchlistItemNotes } from '@/lib/watchlists'
+import { User } from '@supabase/supabase-js'
+
+type RouteContext = { params: Promise<{ id: string; ticker: string }> }
+
+// PUT /api/watchlists/[id]/tickers/[ticker] - { "notes": "..." }, null clears them
+export const PUT = withAuth(async (user: User, request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id, ticker } = await params
+
+    // Validate request body
+    const validation = await validateBody(
+      request,
+      isValidUpdateWatchlistItemRequest,
+      `Invalid notes. Provide "notes" as text of at most ${MAX_WATCHLIST_NOTES_LENGTH} characters, or null.`
+    )
+
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { notes }: UpdateWatchlistItemRequest = validation.data
+    const supabase = await createClient()
+
+    const item = await withRetry(
+      () => updateWatchlistItemNotes(supabase, user.id, id, ticker, notes),
+      3, // max retries
+      1000, // initial delay
+      'Update watchlist item notes'
+    )
+
+    if (!item) {
+      return apiError('Ticker is not in this watchlist', 404, null, 'WATCHLIST_ITEM_NOT_FOUND')
+    }
+
+    return apiSuccess(item, `Notes for ${item.ticker} updated`)
+  } catch (error) {
+    console.error('Error in PUT /api/watchlists/[id]/tickers/[ticker]:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to update watchlist item in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to update watchlist item notes', 500, error instanceof Error ? error.message : error)
+  }
+})
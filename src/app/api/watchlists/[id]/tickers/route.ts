@@ -0,0 +1,106 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import {
+  withAuth,
+  apiSuccess,
+  apiError,
+  validateBody,
+  withRetry,
+  BulkWatchlistTickersRequest,
+  MAX_BULK_TICKERS,
+  ReorderWatchlistTickersRequest,
+  isValidBulkWatchlistTickersRequest,
+  isValidReorderWatchlistTickersRequest
+} from '@/lib/api-helpers'
+import { reorderWatchlistTickers, updateWatchlistTickers } from '@/lib/watchlists'
+import { User } from '@supabase/supabase-js'
+
+type RouteContext = { params: Promise<{ id: string }> }
+
+// POST /api/watchlists/[id]/tickers - { "add": ["AAPL", ...], "remove": ["TSLA", ...] }
+// Responds with the updated list and a result per ticker
+export const POST = withAuth(async (user: User, request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params
+
+    // Validate request body
+    const validation = await validateBody(
+      request,
+      isValidBulkWatchlistTickersRequest,
+      `Invalid bulk request. Provide "add" and/or "remove" arrays of at most ${MAX_BULK_TICKERS} tickers.`
+    )
+
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const body: BulkWatchlistTickersRequest = validation.data
+    const supabase = await createClient()
+
+    const result = await withRetry(
+      () => updateWatchlistTickers(supabase, user.id, id, body),
+      3, // max retries
+      1000, // initial delay
+      'Bulk update watchlist tickers'
+    )
+
+    if (!result) {
+      return apiError('Watchlist not found', 404, null, 'WATCHLIST_NOT_FOUND')
+    }
+
+    const added = result.results.filter(entry => entry.status === 'added').length
+    const removed = result.results.filter(entry => entry.status === 'removed').length
+
+    return apiSuccess(result, `Added ${added} and removed ${removed} tickers`)
+  } catch (error) {
+    console.error('Error in POST /api/watchlists/[id]/tickers:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to update watchlist in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to update watchlist tickers', 500, error instanceof Error ? error.message : error)
+  }
+})
+
+// PUT /api/watchlists/[id]/tickers - { "order": ["NVDA", "AAPL", ...] }
+export const PUT = withAuth(async (user: User, request: NextRequest, { params }: RouteContext) => {
+  try {
+    const { id } = await params
+
+    // Validate request body
+    const validation = await validateBody(
+      request,
+      isValidReorderWatchlistTickersRequest,
+      `Invalid reorder request. Provide "order" as an array of at most ${MAX_BULK_TICKERS} tickers.`
+    )
+
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { order }: ReorderWatchlistTickersRequest = validation.data
+    const supabase = await createClient()
+
+    const watchlist = await withRetry(
+      () => reorderWatchlistTickers(supabase, user.id, id, order),
+      3, // max retries
+      1000, // initial delay
+      'Reorder watchlist tickers'
+    )
+
+    if (!watchlist) {
+      return apiError('Watchlist not found', 404, null, 'WATCHLIST_NOT_FOUND')
+    }
+
+    return apiSuccess(watchlist, 'Watchlist reordered successfully')
+  } catch (error) {
+    console.error('Error in PUT /api/watchlists/[id]/tickers:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to reorder watchlist in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to reorder watchlist tickers', 500, error instanceof Error ? error.message : error)
+  }
+})
@@ -0,0 +1,124 @@
+import { NextRequest } from 'next/server'
+import { createClient } from '@/lib/supabase-server'
+import {
+  withAuth,
+  apiSuccess,
+  apiError,
+  validateBody,
+  withRetry,
+  CreateWatchlistRequest,
+  ReorderWatchlistsRequest,
+  isValidCreateWatchlistRequest,
+  isValidReorderWatchlistsRequest
+} from '@/lib/api-helpers'
+import { createWatchlist, listWatchlists, reorderWatchlists } from '@/lib/watchlists'
+import { User } from '@supabase/supabase-js'
+
+// GET /api/watchlists - The user's watchlists in display order
+export const GET = withAuth(async (user: User) => {
+  try {
+    const supabase = await createClient()
+
+    // Wrap database operation with retry logic
+    const watchlists = await withRetry(
+      () => listWatchlists(supabase, user.id),
+      3, // max retries
+      1000, // initial delay
+      'Fetch watchlists'
+    )
+
+    return apiSuccess(watchlists, `Retrieved ${watchlists.length} watchlists`)
+  } catch (error) {
+    console.error('Error in GET /api/watchlists:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to fetch watchlists from database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to fetch watchlists', 500, error instanceof Error ? error.message : error)
+  }
+})
+
+// POST /api/watchlists - Create a watchlist, optionally with tickers
+export const POST = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    // Validate request body
+    const validation = await validateBody(
+      request,
+      isValidCreateWatchlistRequest,
+      'Invalid watchlist. Please provide a name of at most 50 characters and valid ticker symbols.'
+    )
+
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const body: CreateWatchlistRequest = validation.data
+    const supabase = await createClient()
+
+    const result = await withRetry(
+      () => createWatchlist(supabase, user.id, body),
+      3, // max retries
+      1000, // initial delay
+      'Create watchlist'
+    )
+
+    if (result.type === 'name_taken') {
+      return apiError(`You already have a watchlist named "${body.name.trim()}"`, 409, null, 'WATCHLIST_NAME_TAKEN')
+    }
+
+    if (result.type !== 'ok') {
+      return apiError('Failed to create watchlist', 500)
+    }
+
+    return apiSuccess(result.watchlist, `Created ${result.watchlist.name}`, 201)
+  } catch (error) {
+    console.error('Error in POST /api/watchlists:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to create watchlist in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to create watchlist', 500, error instanceof Error ? error.message : error)
+  }
+})
+
+// PUT /api/watchlists - Reorder lists: { "order": [id, id, ...] }
+export const PUT = withAuth(async (user: User, request: NextRequest) => {
+  try {
+    // Validate request body
+    const validation = await validateBody(
+      request,
+      isValidReorderWatchlistsRequest,
+      'Invalid reorder request. Please provide an order array of distinct watchlist ids.'
+    )
+
+    if (!validation.success) {
+      return validation.response
+    }
+
+    const { order }: ReorderWatchlistsRequest = validation.data
+    const supabase = await createClient()
+
+    const watchlists = await withRetry(
+      () => reorderWatchlists(supabase, user.id, order),
+      3, // max retries
+      1000, // initial delay
+      'Reorder watchlists'
+    )
+
+    if (!watchlists) {
+      return apiError('Watchlist not found', 404, null, 'WATCHLIST_NOT_FOUND')
+    }
+
+    return apiSuccess(watchlists, 'Watchlists reordered')
+  } catch (error) {
+    console.error('Error in PUT /api/watchlists:', error)
+
+    if (error instanceof Error && error.message.includes('Database error')) {
+      return apiError('Failed to reorder watchlists in database', 500, error.message, 'DATABASE_ERROR')
+    }
+
+    return apiError('Failed to reorder watchlists', 500, error instanceof Error ? error.message : error)
+  }
+})
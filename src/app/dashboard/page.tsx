@@ -22,17 +22,140 @@ import {
   MessageCircle,
   BarChart3,
   PanelLeftClose,
-  PanelLeftOpen
+  PanelLeftOpen,
+  Wallet,
+  UserCog,
+  Pencil,
+  Bell,
+  Wrench
 } from 'lucide-react'
 import { useState, useEffect, useRef } from 'react'
 import Link from 'next/link'
+import { useIdeaViewTracking } from '@/hooks/useIdeaViewTracking'
 
 interface TradingIdea {
-  id: number
+  key: string
   created_at: string
   theme: string
   analysis: string
-  tickers: string
+  tickers: string[]
+  direction: 'long' | 'short' | 'neutral'
+}
+
+interface WatchlistItem {
+  ticker: string
+  position: number
+  notes: string | null
+  added_at: string
+  name: string | null
+  exchange: string | null
+}
+
+interface WatchlistQuote {
+  price: number
+  change?: number
+  changePercent?: number
+  volume?: number
+}
+
+type AlertType = 'price_above' | 'price_below' | 'percent_move' | 'idea_mention'
+
+interface WatchlistAlert {
+  id: string
+  ticker: string
+  alert_type: AlertType
+  threshold: number | null
+  is_active: boolean
+  last_triggered_at: string | null
+}
+
+const ALERT_LABELS: Record<AlertType, string> = {
+  price_above: 'Price above',
+  price_below: 'Price below',
+  percent_move: 'Daily move ≥ %',
+  idea_mention: 'New idea mentions it'
+}
+
+interface UserNotification {
+  id: string
+  kind: 'price_alert' | 'idea_alert' | 'watchlist_match'
+  title: string
+  body: string
+  link: string | null
+  read_at: string | null
+  created_at: string
+}
+
+interface WatchlistMatches {
+  ideas: (TradingIdea & { matchedTickers: string[] })[]
+  matchedTickers: string[]
+}
+
+interface SymbolSuggestion {
+  symbol: string
+  name: string
+  exchange: string
+}
+
+interface Watchlist {
+  id: string
+  name: string
+  description?: string
+  tickers: string[]
+  items: WatchlistItem[]
+  is_default: boolean
+  position: number
+}
+
+interface WatchlistTickerResult {
+  ticker: string
+  action: 'add' | 'remove'
+  status: 'added' | 'already_present' | 'removed' | 'not_present' | 'invalid'
+}
+
+interface PortfolioTotals {
+  costBasis: number
+  marketValue: number
+  realizedGain: number
+  unrealizedGain: number
+}
+
+interface ActivityItem {
+  id: string
+  type: 'idea_saved' | 'watchlist_added' | 'watchlist_removed' | 'chat_session' | 'portfolio_transaction' | 'portfolio_position' | 'profile_updated'
+  title: string
+  description: string | null
+  link: string
+  created_at: string
+}
+
+type DashboardPanel = 'stats' | 'ideas' | 'watchlist' | 'conversations' | 'notifications' | 'activity'
+
+const DASHBOARD_PANELS: DashboardPanel[] = ['stats', 'ideas', 'watchlist', 'conversations', 'notifications', 'activity']
+
+const ACTIVITY_ICONS: Record<ActivityItem['type'], typeof Clock> = {
+  idea_saved: BookmarkCheck,
+  watchlist_added: Star,
+  watchlist_removed: Star,
+  chat_session: MessageCircle,
+  portfolio_transaction: Wallet,
+  portfolio_position: Wallet,
+  profile_updated: UserCog
+}
+
+// A research tool the agent called; result and durationMs arrive once it finishes
+interface ChatToolCall {
+  id: string
+  name: string
+  arguments: Record<string, unknown>
+  result?: unknown
+  error?: string
+  durationMs?: number
+}
+
+interface ChatSource {
+  title: string
+  url: string
 }
 
 interface ChatMessage {
@@ -41,6 +164,102 @@ interface ChatMessage {
   content: string
   timestamp: Date
   typing?: boolean
+  toolCalls?: ChatToolCall[]
+  sources?: ChatSource[]
+  // 0 to 1; null when the agent did not say
+  confidence?: number | null
+}
+
+// Confidence levels shown next to an answer
+function confidenceLevel(confidence: number): { label: string; className: string } {
+  if (confidence >= 0.7) return { label: 'High', className: 'bg-green-100 text-green-800' }
+  if (confidence >= 0.4) return { label: 'Medium', className: 'bg-yellow-100 text-yellow-800' }
+  return { label: 'Low', className: 'bg-red-100 text-red-800' }
+}
+
+interface ChatConversation {
+  id: string
+  title: string
+  idea_key: string | null
+  idea_context: { key?: string; theme: string; analysis: string; tickers: string } | null
+  message_count: number
+  last_message_at: string
+}
+
+interface StoredChatMessage {
+  id: string
+  role: 'user' | 'assistant' | 'system'
+  content: string
+  metadata: { tool_calls?: ChatToolCall[]; sources?: ChatSource[]; confidence?: number }
+  created_at: string
+}
+
+// Messages sent along with each question; the route accepts at most 20
+const CHAT_CONTEXT_MESSAGES = 20
+
+// Reads the chat route's server-sent events, reporting the reply text as it grows and
+// the agent's tool calls as they start and finish. Resolves with the final text, its
+// sources and confidence and, if the stream ended early, the error it sent.
+async function readChatStream(
+  response: Response,
+  { onContent, onConversation, onToolCalls }: {
+    onContent: (content: string) => void
+    onConversation: (conversation: { id: string; title: string }) => void
+    onToolCalls: (toolCalls: ChatToolCall[]) => void
+  }
+): Promise<{ content: string; sources?: ChatSource[]; confidence?: number | null; error?: string }> {
+  const reader = response.body!.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let content = ''
+  let toolCalls: ChatToolCall[] = []
+
+  while (true) {
+    let chunk: ReadableStreamReadResult<Uint8Array>
+    try {
+      chunk = await reader.read()
+    } catch (error) {
+      // Keep what already arrived; with nothing to show, fall back to the usual error handling
+      if (!content) throw error
+      return { content, error: 'The connection was interrupted before the answer finished.' }
+    }
+
+    const { done, value } = chunk
+    buffer += done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+    const events = buffer.split('\n\n')
+    buffer = done ? '' : events.pop() || ''
+
+    for (const block of events) {
+      const event = block.match(/^event: (.*)$/m)?.[1]
+      const data = block.match(/^data: (.*)$/m)?.[1]
+      if (!event || !data) continue
+
+      const payload = JSON.parse(data)
+      if (event === 'conversation') {
+        onConversation(payload)
+      } else if (event === 'tool_call') {
+        toolCalls = [...toolCalls, payload]
+        onToolCalls(toolCalls)
+      } else if (event === 'tool_result') {
+        toolCalls = toolCalls.map(call => call.id === payload.id ? payload : call)
+        onToolCalls(toolCalls)
+      } else if (event === 'delta') {
+        content += payload.content
+        onContent(content)
+      } else if (event === 'done') {
+        return {
+          content: payload.message?.content || content,
+          sources: payload.message?.sources,
+          confidence: payload.message?.confidence
+        }
+      } else if (event === 'error') {
+        return { content, error: payload.error }
+      }
+    }
+
+    if (done) return { content, error: content ? undefined : 'The research service closed the connection.' }
+  }
 }
 
 // Chat state management hook
@@ -49,30 +268,121 @@ function useChatState() {
   const [isTyping, setIsTyping] = useState(false)
   const [input, setInput] = useState('')
   const [selectedIdea, setSelectedIdea] = useState<TradingIdea | null>(null)
+  const [conversationId, setConversationId] = useState<string | null>(null)
+  const [conversations, setConversations] = useState<ChatConversation[]>([])
+  const [conversationsError, setConversationsError] = useState('')
+  const [loadingConversation, setLoadingConversation] = useState(false)
 
-  // Load messages from localStorage on mount
-  useEffect(() => {
-    const savedMessages = localStorage.getItem('chat-messages')
-    if (savedMessages) {
-      try {
-        const parsed = JSON.parse(savedMessages)
-        const messagesWithDates = parsed.map((msg: { id: string; role: string; content: string; timestamp: string; typing?: boolean }) => ({
-          ...msg,
-          timestamp: new Date(msg.timestamp)
-        }))
-        setMessages(messagesWithDates)
-      } catch (error) {
-        console.error('Failed to load saved messages:', error)
+  const fetchConversations = async () => {
+    setConversationsError('')
+    try {
+      const response = await fetch('/api/chat/conversations?limit=50')
+      const result = await response.json()
+
+      if (response.ok && result.data) {
+        setConversations(result.data)
+      } else {
+        setConversationsError(result.error || 'Failed to fetch conversations')
       }
+    } catch {
+      setConversationsError('Network error occurred')
     }
-  }, [])
+  }
 
-  // Save messages to localStorage whenever messages change
+  // Switches the chat to a stored conversation, restoring the idea it was about
+  const openConversation = async (id: string) => {
+    setLoadingConversation(true)
+    try {
+      const response = await fetch(`/api/chat/conversations/${encodeURIComponent(id)}`)
+      const result = await response.json()
+
+      if (!response.ok || !result.data) {
+        if (response.status === 404) localStorage.removeItem('chat-conversation-id')
+        setConversationsError(result.error || 'Failed to open conversation')
+        return
+      }
+
+      const { conversation, messages: stored } = result.data as { conversation: ChatConversation; messages: StoredChatMessage[] }
+      const idea = conversation.idea_context
+      setConversationId(conversation.id)
+      localStorage.setItem('chat-conversation-id', conversation.id)
+      setSelectedIdea(idea ? {
+        key: idea.key || conversation.idea_key || '',
+        created_at: conversation.last_message_at,
+        theme: idea.theme,
+        analysis: idea.analysis,
+        tickers: idea.tickers.split(',').map(ticker => ticker.trim()).filter(Boolean),
+        direction: 'neutral'
+      } : null)
+      setMessages(stored
+        .filter(message => message.role !== 'system')
+        .map(message => ({
+          id: message.id,
+          role: message.role as ChatMessage['role'],
+          content: message.content,
+          timestamp: new Date(message.created_at),
+          toolCalls: message.metadata?.tool_calls,
+          sources: message.metadata?.sources,
+          confidence: message.metadata?.confidence ?? null
+        })))
+    } catch {
+      setConversationsError('Network error occurred')
+    } finally {
+      setLoadingConversation(false)
+    }
+  }
+
+  // Open the conversation linked with /dashboard?conversation=<id>, or resume the last one
+  // on this device; other devices pick it from the list
   useEffect(() => {
-    if (messages.length > 0) {
-      localStorage.setItem('chat-messages', JSON.stringify(messages))
+    // Chat history used to be kept only in this browser
+    localStorage.removeItem('chat-messages')
+
+    fetchConversations()
+    const linkedConversationId = new URLSearchParams(window.location.search).get('conversation')
+    const lastConversationId = linkedConversationId || localStorage.getItem('chat-conversation-id')
+    if (lastConversationId) openConversation(lastConversationId)
+  }, [])
+
+  const rememberConversation = (conversation: { id: string; title: string }) => {
+    setConversationId(conversation.id)
+    localStorage.setItem('chat-conversation-id', conversation.id)
+  }
+
+  const renameConversation = async (id: string, title: string) => {
+    try {
+      const response = await fetch(`/api/chat/conversations/${encodeURIComponent(id)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ title })
+      })
+      const result = await response.json()
+
+      if (response.ok && result.data) {
+        setConversations(prev => prev.map(conversation => conversation.id === id ? result.data : conversation))
+      } else {
+        setConversationsError(result.error || 'Failed to rename conversation')
+      }
+    } catch {
+      setConversationsError('Network error occurred')
+    }
+  }
+
+  const deleteConversation = async (id: string) => {
+    try {
+      const response = await fetch(`/api/chat/conversations/${encodeURIComponent(id)}`, { method: 'DELETE' })
+      const result = await response.json()
+
+      if (response.ok) {
+        setConversations(prev => prev.filter(conversation => conversation.id !== id))
+        if (id === conversationId) clearMessages()
+      } else {
+        setConversationsError(result.error || 'Failed to delete conversation')
+      }
+    } catch {
+      setConversationsError('Network error occurred')
     }
-  }, [messages])
+  }
 
   const addMessage = (message: Omit<ChatMessage, 'id' | 'timestamp'>) => {
     const newMessage: ChatMessage = {
@@ -102,16 +412,21 @@ function useChatState() {
     try {
       // Prepare request body with selected idea context for N8N agent
       const requestBody = {
-        messages: [...messages, { role: 'user' as const, content: content.trim() }],
+        messages: [
+          ...messages.filter(message => !message.typing && message.content).slice(-(CHAT_CONTEXT_MESSAGES - 1)),
+          { role: 'user' as const, content: content.trim() }
+        ].map(({ role, content }) => ({ role, content })),
+        conversationId: conversationId || undefined,
         tradingContext: {
-          idea: selectedIdea ? {
-            id: selectedIdea.id,
+          idea: selectedIdea?.key ? {
+            key: selectedIdea.key,
             theme: selectedIdea.theme,
             analysis: selectedIdea.analysis,
-            tickers: selectedIdea.tickers
+            tickers: selectedIdea.tickers.join(', ')
           } : undefined,
           watchlist: watchlistData.length > 0 ? watchlistData : undefined,
-        }
+        },
+        stream: true
       }
 
       // Call the N8N Agent API
@@ -123,9 +438,35 @@ function useChatState() {
         body: JSON.stringify(requestBody)
       })
 
+      // Streamed replies render as they arrive; errors and older deployments answer with JSON
+      if (response.ok && response.body && response.headers.get('content-type')?.includes('text/event-stream')) {
+        const streamed = await readChatStream(response, {
+          onContent: partial => updateMessage(typingId, { content: partial, typing: false }),
+          onConversation: rememberConversation,
+          onToolCalls: toolCalls => updateMessage(typingId, { toolCalls })
+        })
+        fetchConversations()
+
+        setIsTyping(false)
+        updateMessage(typingId, {
+          content: streamed.error
+            ? `${streamed.content}${streamed.content ? '\n\n' : ''}⚠️ ${streamed.error}`
+            : streamed.content,
+          typing: false,
+          sources: streamed.sources,
+          confidence: streamed.confidence
+        })
+        return
+      }
+
       const result = await response.json()
 
       if (response.ok) {
+        if (result.data?.conversation) {
+          rememberConversation(result.data.conversation)
+          fetchConversations()
+        }
+
         // Handle N8N agent response format
         let agentResponse = '';
         if (result.data?.message?.content) {
@@ -147,7 +488,10 @@ function useChatState() {
         setIsTyping(false)
         updateMessage(typingId, {
           content: agentResponse,
-          typing: false
+          typing: false,
+          toolCalls: result.data?.message?.toolCalls,
+          sources: result.data?.message?.sources,
+          confidence: result.data?.message?.confidence
         })
       } else {
         // Handle N8N agent errors gracefully
@@ -161,11 +505,16 @@ function useChatState() {
           errorMessage = 'The research service is temporarily unavailable. Please try again in a moment.'
         } else if (result.error?.includes('webhook') || result.error?.includes('N8N')) {
           errorMessage = 'There was an issue with the research service. Please try again.'
+        } else if (result.code === 'CONVERSATION_NOT_FOUND') {
+          // Deleted on another device; the next message starts a new conversation
+          setConversationId(null)
+          localStorage.removeItem('chat-conversation-id')
+          errorMessage = 'This conversation no longer exists. Send your message again to start a new one.'
         }
         
         // Add trading idea context if available
         if (selectedIdea) {
-          errorMessage += ` However, I can tell you that the trading idea &quot;${selectedIdea.theme}&quot; focuses on ${selectedIdea.tickers.split(',').slice(0, 3).join(', ')}.`
+          errorMessage += ` However, I can tell you that the trading idea &quot;${selectedIdea.theme}&quot; focuses on ${selectedIdea.tickers.slice(0, 3).join(', ')}.`
         } else {
           errorMessage += ' Please try again later.'
         }
@@ -190,7 +539,7 @@ function useChatState() {
       
       // Add trading idea context if available
       if (selectedIdea) {
-        fallbackMessage += ` In the meantime, you can review the &quot;${selectedIdea.theme}&quot; trading idea which involves ${selectedIdea.tickers.split(',').slice(0, 3).join(', ')}.`
+        fallbackMessage += ` In the meantime, you can review the &quot;${selectedIdea.theme}&quot; trading idea which involves ${selectedIdea.tickers.slice(0, 3).join(', ')}.`
       } else {
         fallbackMessage += ' Please try again in a moment.'
       }
@@ -202,9 +551,11 @@ function useChatState() {
     }
   }
 
+  // Starts a new conversation; the current one stays in the conversation list
   const clearMessages = () => {
     setMessages([])
-    localStorage.removeItem('chat-messages')
+    setConversationId(null)
+    localStorage.removeItem('chat-conversation-id')
   }
 
   const selectIdea = (idea: TradingIdea) => {
@@ -215,7 +566,7 @@ function useChatState() {
     setTimeout(() => {
       addMessage({
         role: 'assistant',
-        content: `Great! I&apos;m now focused on the &quot;${idea.theme}&quot; trading idea. This idea involves ${idea.tickers.split(',').slice(0, 3).map(t => t.trim().replace(/[\[\]&quot;]/g, '')).join(', ')}. 
+        content: `Great! I&apos;m now focused on the &quot;${idea.theme}&quot; trading idea. This idea involves ${idea.tickers.slice(0, 3).join(', ')}. 
 
 What would you like to know about this trading opportunity? I can help you understand the analysis, discuss the risks, or explore how it might fit into your portfolio.`
       })
@@ -243,7 +594,15 @@ What would you like to know about this trading opportunity? I can help you under
     clearMessages,
     selectedIdea,
     selectIdea,
-    clearSelectedIdea
+    clearSelectedIdea,
+    conversationId,
+    conversations,
+    conversationsError,
+    loadingConversation,
+    fetchConversations,
+    openConversation,
+    renameConversation,
+    deleteConversation
   }
 }
 
@@ -256,16 +615,38 @@ function DashboardContent() {
   const [expandedIdea, setExpandedIdea] = useState<number | null>(null)
   const [, setAddingToWatchlist] = useState<string | null>(null)
   const [watchlistMessage, setWatchlistMessage] = useState('')
-  const [watchlist, setWatchlist] = useState<string[]>([])
+  const [watchlists, setWatchlists] = useState<Watchlist[]>([])
+  const [selectedWatchlistId, setSelectedWatchlistId] = useState<string | null>(null)
+  const [newWatchlistName, setNewWatchlistName] = useState('')
+  const [showNewWatchlist, setShowNewWatchlist] = useState(false)
+  const [bulkTickers, setBulkTickers] = useState('')
+  const [symbolSuggestions, setSymbolSuggestions] = useState<SymbolSuggestion[]>([])
+  const [updatingTickers, setUpdatingTickers] = useState(false)
+  const importInputRef = useRef<HTMLInputElement>(null)
+  const [editingNote, setEditingNote] = useState<{ ticker: string; value: string } | null>(null)
+  const [editingConversation, setEditingConversation] = useState<{ id: string; title: string } | null>(null)
+  const [watchlistQuotes, setWatchlistQuotes] = useState<Record<string, WatchlistQuote | null>>({})
+  const [alerts, setAlerts] = useState<WatchlistAlert[]>([])
+  const [alertForm, setAlertForm] = useState<{ ticker: string; alert_type: AlertType; threshold: string } | null>(null)
   const [watchlistError, setWatchlistError] = useState('')
-  const [savedIdeas, setSavedIdeas] = useState<number[]>([])
-  const [savingIdea, setSavingIdea] = useState<number | null>(null)
+  const [watchlistMatches, setWatchlistMatches] = useState<WatchlistMatches | null>(null)
+  const [savedIdeas, setSavedIdeas] = useState<string[]>([])
+  const [savingIdea, setSavingIdea] = useState<string | null>(null)
   const [savedIdeasCount, setSavedIdeasCount] = useState(0)
+  const [viewedIdeasCount, setViewedIdeasCount] = useState(0)
+  const { recordView, observeIdea } = useIdeaViewTracking(() => setViewedIdeasCount(prev => prev + 1))
+  const [portfolioTotals, setPortfolioTotals] = useState<PortfolioTotals | null>(null)
+  const [activity, setActivity] = useState<ActivityItem[]>([])
+  const [activityCursor, setActivityCursor] = useState<string | null>(null)
+  const [activityError, setActivityError] = useState('')
+  const [notifications, setNotifications] = useState<UserNotification[]>([])
+  const [unreadNotifications, setUnreadNotifications] = useState(0)
+  const [notificationsError, setNotificationsError] = useState('')
   
   // Chat and sidebar state
   const chat = useChatState()
   const [sidebarOpen, setSidebarOpen] = useState(true)
-  const [activePanel, setActivePanel] = useState<'stats' | 'ideas' | 'watchlist' | 'activity' | null>('stats')
+  const [activePanel, setActivePanel] = useState<DashboardPanel | null>('stats')
   const messagesEndRef = useRef<HTMLDivElement>(null)
   const inputRef = useRef<HTMLInputElement>(null)
 
@@ -303,15 +684,11 @@ function DashboardContent() {
     setLoading('watchlist', true)
     setWatchlistError('')
     try {
-      const response = await fetch('/api/watchlist')
+      const response = await fetch('/api/watchlists')
       const result = await response.json()
       
-      if (response.ok && result.data && result.data.length > 0) {
-        // Get all tickers from all watchlists
-        const allTickers = result.data.reduce((acc: string[], watchlist: { tickers: string[] }) => {
-          return [...acc, ...(watchlist.tickers as string[])]
-        }, [] as string[])
-        setWatchlist(Array.from(new Set(allTickers))) // Remove duplicates
+      if (response.ok && result.data) {
+        setWatchlists(result.data)
       } else if (!response.ok) {
         setWatchlistError(result.error || 'Failed to fetch watchlist')
       }
@@ -326,6 +703,303 @@ function DashboardContent() {
     fetchWatchlist()
   }, [])
 
+  // The panel shows one list at a time; stats and chat context use every list's tickers
+  const selectedWatchlist = watchlists.find(list => list.id === selectedWatchlistId)
+    || watchlists.find(list => list.is_default)
+    || watchlists[0]
+    || null
+  const watchlist = Array.from(new Set(watchlists.flatMap(list => list.tickers)))
+  const watchedTickers = watchlist.join(',')
+
+  // Flags today's ideas that mention watched tickers; refreshed whenever the lists change
+  useEffect(() => {
+    if (!watchedTickers) {
+      setWatchlistMatches(null)
+      return
+    }
+
+    const fetchWatchlistMatches = async () => {
+      try {
+        const response = await fetch('/api/ideas?matchesWatchlist=true&days=1')
+        const result = await response.json()
+        if (response.ok && result.data) {
+          setWatchlistMatches(result.data)
+        }
+      } catch {
+        // The banner is optional; the ideas panel still works without it
+      }
+    }
+
+    fetchWatchlistMatches()
+  }, [watchedTickers])
+
+  const matchedTickers = new Set(watchlistMatches?.matchedTickers || [])
+
+  const replaceWatchlist = (updated: Watchlist) => {
+    setWatchlists(prev => prev.some(list => list.id === updated.id)
+      ? prev.map(list => list.id === updated.id ? updated : list)
+      : [...prev, updated])
+  }
+
+  // Summarizes per-ticker results from bulk adds and imports, e.g. "Added 3 · 1 already listed · Invalid: 12345"
+  const describeTickerResults = (results: WatchlistTickerResult[], rejected: string[] = []) => {
+    const added = results.filter(result => result.status === 'added').length
+    const present = results.filter(result => result.status === 'already_present').length
+    const invalid = [...results.filter(result => result.status === 'invalid').map(result => result.ticker), ...rejected]
+    const parts = [`Added ${added}`]
+    if (present > 0) parts.push(`${present} already listed`)
+    if (invalid.length > 0) parts.push(`Invalid: ${invalid.slice(0, 5).join(', ')}${invalid.length > 5 ? '…' : ''}`)
+    return parts.join(' · ')
+  }
+
+  // Autocompletes the symbol being typed at the end of the bulk add input
+  useEffect(() => {
+    const query = bulkTickers.split(/[\s,;]+/).pop() || ''
+    if (!query) {
+      setSymbolSuggestions([])
+      return
+    }
+
+    const timer = setTimeout(async () => {
+      try {
+        const response = await fetch(`/api/symbols/search?${new URLSearchParams({ q: query, limit: '8' })}`)
+        if (response.ok) {
+          const result = await response.json()
+          setSymbolSuggestions(result.data.results)
+        }
+      } catch {
+        setSymbolSuggestions([])
+      }
+    }, 200)
+
+    return () => clearTimeout(timer)
+  }, [bulkTickers])
+
+  const addTickersInBulk = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const tickers = bulkTickers.split(/[\s,;]+/).filter(Boolean)
+    if (!selectedWatchlist || tickers.length === 0) return
+
+    setUpdatingTickers(true)
+    try {
+      const response = await fetch(`/api/watchlists/${selectedWatchlist.id}/tickers`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ add: tickers })
+      })
+
+      const result = await response.json()
+
+      if (response.ok) {
+        replaceWatchlist(result.data.watchlist)
+        setBulkTickers('')
+        setWatchlistMessage(describeTickerResults(result.data.results))
+        setTimeout(() => setWatchlistMessage(''), 5000)
+      } else {
+        setWatchlistMessage(result.error || 'Failed to add tickers')
+        setTimeout(() => setWatchlistMessage(''), 5000)
+      }
+    } catch {
+      setWatchlistMessage('Network error occurred')
+      setTimeout(() => setWatchlistMessage(''), 5000)
+    } finally {
+      setUpdatingTickers(false)
+    }
+  }
+
+  // Prices for the list on screen; refetched when its tickers change
+  const quotedWatchlistId = selectedWatchlist?.id
+  const quotedTickers = selectedWatchlist?.tickers.join(',') || ''
+  useEffect(() => {
+    if (!quotedWatchlistId || !quotedTickers) {
+      setWatchlistQuotes({})
+      return
+    }
+
+    const fetchQuotes = async () => {
+      try {
+        const response = await fetch(`/api/watchlists/${quotedWatchlistId}/quotes`)
+        if (response.ok) {
+          const result = await response.json()
+          const quotes: Record<string, WatchlistQuote | null> = {}
+          for (const entry of result.data.quotes) quotes[entry.ticker] = entry.quote
+          setWatchlistQuotes(quotes)
+        }
+      } catch (err) {
+        console.error('Failed to fetch watchlist quotes:', err)
+      }
+    }
+
+    fetchQuotes()
+  }, [quotedWatchlistId, quotedTickers])
+
+  const fetchAlerts = async () => {
+    try {
+      const response = await fetch('/api/alerts')
+      if (response.ok) {
+        const result = await response.json()
+        setAlerts(result.data || [])
+      }
+    } catch (err) {
+      console.error('Failed to fetch alerts:', err)
+    }
+  }
+
+  useEffect(() => {
+    fetchAlerts()
+  }, [])
+
+  const createAlert = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!alertForm) return
+
+    try {
+      const response = await fetch('/api/alerts', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          ticker: alertForm.ticker,
+          alert_type: alertForm.alert_type,
+          threshold: alertForm.alert_type === 'idea_mention' ? undefined : parseFloat(alertForm.threshold)
+        })
+      })
+
+      const result = await response.json()
+
+      if (response.ok) {
+        setAlerts(prev => [...prev, result.data])
+        setAlertForm({ ...alertForm, threshold: '' })
+        setWatchlistMessage(result.message)
+        setTimeout(() => setWatchlistMessage(''), 3000)
+      } else {
+        setWatchlistMessage(result.error || 'Failed to create alert')
+        setTimeout(() => setWatchlistMessage(''), 5000)
+      }
+    } catch {
+      setWatchlistMessage('Network error occurred')
+      setTimeout(() => setWatchlistMessage(''), 5000)
+    }
+  }
+
+  const deleteAlert = async (id: string) => {
+    try {
+      const response = await fetch(`/api/alerts/${id}`, { method: 'DELETE' })
+      if (response.ok) {
+        setAlerts(prev => prev.filter(alert => alert.id !== id))
+      }
+    } catch (err) {
+      console.error('Failed to delete alert:', err)
+    }
+  }
+
+  const formatQuoteChange = (quote: WatchlistQuote) =>
+    quote.changePercent !== undefined ? `${quote.changePercent >= 0 ? '+' : ''}${quote.changePercent.toFixed(2)}%` : ''
+
+  const formatVolume = (volume: number) =>
+    volume >= 1_000_000 ? `${(volume / 1_000_000).toFixed(1)}M` : `${Math.round(volume / 1000)}K`
+
+  const saveItemNotes = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!editingNote || !selectedWatchlist) return
+
+    const { ticker, value } = editingNote
+    try {
+      const response = await fetch(`/api/watchlists/${selectedWatchlist.id}/tickers/${encodeURIComponent(ticker)}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ notes: value.trim() || null })
+      })
+
+      const result = await response.json()
+
+      if (response.ok) {
+        replaceWatchlist({
+          ...selectedWatchlist,
+          items: selectedWatchlist.items.map(item => item.ticker === ticker ? result.data : item)
+        })
+        setEditingNote(null)
+      } else {
+        setWatchlistMessage(result.error || 'Failed to save notes')
+        setTimeout(() => setWatchlistMessage(''), 5000)
+      }
+    } catch {
+      setWatchlistMessage('Network error occurred')
+      setTimeout(() => setWatchlistMessage(''), 5000)
+    }
+  }
+
+  const importWatchlistFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file || !selectedWatchlist) return
+
+    setUpdatingTickers(true)
+    try {
+      const response = await fetch(`/api/watchlists/${selectedWatchlist.id}/import`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': file.name.toLowerCase().endsWith('.json') ? 'application/json' : 'text/plain',
+        },
+        body: await file.text()
+      })
+
+      const result = await response.json()
+
+      if (response.ok) {
+        replaceWatchlist(result.data.watchlist)
+        const rejected = result.data.rejected.map((entry: { value: string }) => entry.value)
+        setWatchlistMessage(describeTickerResults(result.data.results, rejected))
+        setTimeout(() => setWatchlistMessage(''), 5000)
+      } else {
+        setWatchlistMessage(result.error || 'Failed to import watchlist')
+        setTimeout(() => setWatchlistMessage(''), 5000)
+      }
+    } catch {
+      setWatchlistMessage('Network error occurred')
+      setTimeout(() => setWatchlistMessage(''), 5000)
+    } finally {
+      setUpdatingTickers(false)
+    }
+  }
+
+  const createWatchlist = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!newWatchlistName.trim()) return
+
+    try {
+      const response = await fetch('/api/watchlists', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ name: newWatchlistName.trim() })
+      })
+
+      const result = await response.json()
+
+      if (response.ok) {
+        replaceWatchlist(result.data)
+        setSelectedWatchlistId(result.data.id)
+        setNewWatchlistName('')
+        setShowNewWatchlist(false)
+        setWatchlistMessage(result.message || 'Watchlist created!')
+        setTimeout(() => setWatchlistMessage(''), 3000)
+      } else {
+        setWatchlistMessage(result.error || 'Failed to create watchlist')
+        setTimeout(() => setWatchlistMessage(''), 5000)
+      }
+    } catch {
+      setWatchlistMessage('Network error occurred')
+      setTimeout(() => setWatchlistMessage(''), 5000)
+    }
+  }
+
   const fetchSavedIdeas = async () => {
     setLoading('savedIdeas', true)
     try {
@@ -333,8 +1007,10 @@ function DashboardContent() {
       const result = await response.json()
       
       if (response.ok && result.data) {
-        const savedIdeaIds = result.data.map((interaction: { idea_id: number }) => interaction.idea_id)
-        setSavedIdeas(savedIdeaIds)
+        const savedIdeaKeys = result.data
+          .map((interaction: { idea_key: string | null }) => interaction.idea_key)
+          .filter(Boolean)
+        setSavedIdeas(savedIdeaKeys)
         setSavedIdeasCount(result.data.length)
       }
     } catch (err) {
@@ -348,6 +1024,128 @@ function DashboardContent() {
     fetchSavedIdeas()
   }, [])
 
+  const fetchViewedIdeasCount = async () => {
+    try {
+      const response = await fetch('/api/ideas/interactions?type=viewed&limit=1')
+      const result = await response.json()
+      
+      if (response.ok && result.data) {
+        setViewedIdeasCount(result.data.total)
+      }
+    } catch (err) {
+      console.error('Failed to fetch viewed ideas count:', err)
+    }
+  }
+
+  useEffect(() => {
+    fetchViewedIdeasCount()
+  }, [])
+
+  const fetchPortfolioSummary = async () => {
+    setLoading('portfolio', true)
+    try {
+      const response = await fetch('/api/portfolio/summary')
+      const result = await response.json()
+      
+      if (response.ok && result.data && result.data.positions.length > 0) {
+        setPortfolioTotals(result.data.totals)
+      }
+    } catch (err) {
+      console.error('Failed to fetch portfolio summary:', err)
+    } finally {
+      setLoading('portfolio', false)
+    }
+  }
+
+  useEffect(() => {
+    fetchPortfolioSummary()
+  }, [])
+
+  // Activity deep links open a panel with /dashboard?panel=watchlist
+  useEffect(() => {
+    const panel = new URLSearchParams(window.location.search).get('panel') as DashboardPanel | null
+    if (panel && DASHBOARD_PANELS.includes(panel)) {
+      setActivePanel(panel)
+    }
+  }, [])
+
+  const fetchActivity = async (cursor: string | null = null) => {
+    setLoading(cursor ? 'moreActivity' : 'activity', true)
+    setActivityError('')
+    try {
+      const params = new URLSearchParams({ limit: '20' })
+      if (cursor) params.set('cursor', cursor)
+
+      const response = await fetch(`/api/activity?${params}`)
+      const result = await response.json()
+
+      if (response.ok && result.data) {
+        setActivity(prev => cursor ? [...prev, ...result.data.items] : result.data.items)
+        setActivityCursor(result.data.nextCursor)
+      } else {
+        setActivityError(result.error || 'Failed to fetch activity')
+      }
+    } catch {
+      setActivityError('Network error occurred')
+    } finally {
+      setLoading(cursor ? 'moreActivity' : 'activity', false)
+    }
+  }
+
+  const fetchNotifications = async () => {
+    setNotificationsError('')
+    try {
+      const response = await fetch('/api/notifications?limit=20')
+      const result = await response.json()
+
+      if (response.ok && result.data) {
+        setNotifications(result.data.notifications)
+        setUnreadNotifications(result.data.unread)
+      } else {
+        setNotificationsError(result.error || 'Failed to fetch notifications')
+      }
+    } catch {
+      setNotificationsError('Network error occurred')
+    }
+  }
+
+  const markNotificationsRead = async () => {
+    try {
+      const response = await fetch('/api/notifications', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({})
+      })
+      if (response.ok) {
+        const readAt = new Date().toISOString()
+        setNotifications(prev => prev.map(notification => ({ ...notification, read_at: notification.read_at || readAt })))
+        setUnreadNotifications(0)
+      }
+    } catch (err) {
+      console.error('Failed to mark notifications read:', err)
+    }
+  }
+
+  // Loaded on mount for the unread badge, and again whenever the panel is opened
+  useEffect(() => {
+    fetchNotifications()
+  }, [])
+
+  useEffect(() => {
+    if (activePanel === 'notifications') {
+      fetchNotifications()
+    }
+  }, [activePanel])
+
+  // Refresh whenever the panel is opened so recent saves and trades show up
+  useEffect(() => {
+    if (activePanel === 'activity') {
+      fetchActivity()
+    }
+  }, [activePanel])
+
   const formatTime = (dateString: string) => {
     const date = new Date(dateString)
     const now = new Date()
@@ -360,6 +1158,11 @@ function DashboardContent() {
     return date.toLocaleDateString()
   }
 
+  const formatCurrency = (value: number) => {
+    const sign = value < 0 ? '-' : ''
+    return `${sign}$${Math.abs(value).toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`
+  }
+
   const formatChatTime = (date: Date) => {
     return date.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })
   }
@@ -374,7 +1177,7 @@ function DashboardContent() {
         headers: {
           'Content-Type': 'application/json',
         },
-        body: JSON.stringify({ ticker })
+        body: JSON.stringify({ ticker, watchlist_id: selectedWatchlist?.id })
       })
 
       const result = await response.json()
@@ -382,7 +1185,7 @@ function DashboardContent() {
       if (response.ok) {
         setWatchlistMessage(result.message || `${ticker} added to watchlist!`)
         // Refresh watchlist to show new ticker
-        setWatchlist(prev => [...new Set([...prev, ticker])])
+        if (result.data) replaceWatchlist(result.data)
         setTimeout(() => setWatchlistMessage(''), 3000) // Clear message after 3 seconds
       } else {
         setWatchlistMessage(result.error || 'Failed to add to watchlist')
@@ -400,23 +1203,23 @@ function DashboardContent() {
     setExpandedIdea(expandedIdea === ideaId ? null : ideaId)
   }
 
-  const toggleSaveIdea = async (ideaId: number) => {
-    setSavingIdea(ideaId)
+  const toggleSaveIdea = async (ideaKey: string) => {
+    setSavingIdea(ideaKey)
     setWatchlistMessage('')
     
-    const isCurrentlySaved = savedIdeas.includes(ideaId)
+    const isCurrentlySaved = savedIdeas.includes(ideaKey)
     
     try {
       if (isCurrentlySaved) {
         // Unsave the idea
-        const response = await fetch(`/api/ideas/saved?idea_id=${ideaId}`, {
+        const response = await fetch(`/api/ideas/saved?idea_key=${encodeURIComponent(ideaKey)}`, {
           method: 'DELETE'
         })
 
         const result = await response.json()
         
         if (response.ok) {
-          setSavedIdeas(prev => prev.filter(id => id !== ideaId))
+          setSavedIdeas(prev => prev.filter(key => key !== ideaKey))
           setSavedIdeasCount(prev => prev - 1)
           setWatchlistMessage(result.message || 'Idea removed from saved!')
           setTimeout(() => setWatchlistMessage(''), 3000)
@@ -431,13 +1234,13 @@ function DashboardContent() {
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ idea_id: ideaId })
+          body: JSON.stringify({ idea_key: ideaKey })
         })
 
         const result = await response.json()
         
         if (response.ok) {
-          setSavedIdeas(prev => [...prev, ideaId])
+          setSavedIdeas(prev => [...prev, ideaKey])
           setSavedIdeasCount(prev => prev + 1)
           setWatchlistMessage(result.message || 'Idea saved!')
           setTimeout(() => setWatchlistMessage(''), 3000)
@@ -494,6 +1297,23 @@ function DashboardContent() {
 
         {/* Sidebar Content */}
         <div className="flex-1 overflow-y-auto">
+          {/* Watchlist Matches Banner */}
+          {watchlistMatches && watchlistMatches.matchedTickers.length > 0 && (
+            <button
+              onClick={() => setActivePanel('ideas')}
+              className="w-full p-3 text-left bg-green-50 border-b border-green-100 hover:bg-green-100 transition-colors"
+            >
+              <p className="text-xs font-medium text-green-900">
+                {watchlistMatches.matchedTickers.length === 1
+                  ? "1 of your watched tickers appears in today's ideas"
+                  : `${watchlistMatches.matchedTickers.length} of your watched tickers appear in today's ideas`}
+              </p>
+              <p className="text-xs text-green-700 mt-0.5 truncate">
+                {watchlistMatches.matchedTickers.join(', ')}
+              </p>
+            </button>
+          )}
+
           {/* Stats Panel */}
           <div className="border-b border-gray-200">
             <button
@@ -522,7 +1342,7 @@ function DashboardContent() {
                       <div className="flex items-center justify-between">
                         <div>
                           <p className="text-xs font-medium text-blue-600">Ideas Viewed</p>
-                          <p className="text-lg font-bold text-blue-900">0</p>
+                          <p className="text-lg font-bold text-blue-900">{viewedIdeasCount}</p>
                         </div>
                         <Eye className="h-5 w-5 text-blue-500" />
                       </div>
@@ -548,6 +1368,32 @@ function DashboardContent() {
                       </div>
                     </div>
 
+                    {portfolioTotals && (
+                      <div className="bg-gray-50 rounded-lg p-3 border border-gray-200">
+                        <div className="flex items-center justify-between">
+                          <div>
+                            <p className="text-xs font-medium text-gray-600">Portfolio Value</p>
+                            <p className="text-lg font-bold text-gray-900">{formatCurrency(portfolioTotals.marketValue)}</p>
+                          </div>
+                          <Wallet className="h-5 w-5 text-gray-500" />
+                        </div>
+                        <div className="mt-2 grid grid-cols-2 gap-2 text-xs">
+                          <div>
+                            <p className="text-gray-500">Unrealized</p>
+                            <p className={`font-medium ${portfolioTotals.unrealizedGain >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                              {formatCurrency(portfolioTotals.unrealizedGain)}
+                            </p>
+                          </div>
+                          <div>
+                            <p className="text-gray-500">Realized</p>
+                            <p className={`font-medium ${portfolioTotals.realizedGain >= 0 ? 'text-green-700' : 'text-red-700'}`}>
+                              {formatCurrency(portfolioTotals.realizedGain)}
+                            </p>
+                          </div>
+                        </div>
+                      </div>
+                    )}
+
                     <div className="bg-purple-50 rounded-lg p-3 border border-purple-100">
                       <div className="flex items-center justify-between">
                         <div>
@@ -600,10 +1446,12 @@ function DashboardContent() {
                 ) : (
                   <div className="space-y-3 max-h-96 overflow-y-auto">
                     {ideas.slice(0, 3).map((idea) => {
-                      const isSelected = chat.selectedIdea?.id === idea.id
+                      const isSelected = chat.selectedIdea?.key === idea.key
                       return (
                         <div 
-                          key={idea.id} 
+                          key={idea.key} 
+                          ref={observeIdea}
+                          data-idea-key={idea.key}
                           className={`rounded-lg p-3 border transition-all ${
                             isSelected 
                               ? 'bg-blue-50 border-blue-200 ring-2 ring-blue-100' 
@@ -617,17 +1465,17 @@ function DashboardContent() {
                               {isSelected && '🎯 '}{idea.theme}
                             </h4>
                             <button
-                              onClick={() => toggleSaveIdea(idea.id)}
-                              disabled={savingIdea === idea.id}
+                              onClick={() => toggleSaveIdea(idea.key)}
+                              disabled={savingIdea === idea.key}
                               className={`ml-2 p-1 rounded transition-colors ${
-                                savedIdeas.includes(idea.id)
+                                savedIdeas.includes(idea.key)
                                   ? 'text-yellow-600 bg-yellow-50'
                                   : 'text-gray-400 hover:text-yellow-600'
                               } disabled:opacity-50`}
                             >
-                              {savingIdea === idea.id ? (
+                              {savingIdea === idea.key ? (
                                 <div className="h-3 w-3 border border-gray-300 border-t-yellow-600 rounded-full animate-spin"></div>
-                              ) : savedIdeas.includes(idea.id) ? (
+                              ) : savedIdeas.includes(idea.key) ? (
                                 <BookmarkCheck className="h-3 w-3" />
                               ) : (
                                 <Bookmark className="h-3 w-3" />
@@ -636,23 +1484,23 @@ function DashboardContent() {
                           </div>
                           <p className="text-xs text-gray-600 mb-2 line-clamp-2">{idea.analysis}</p>
                           <div className="flex flex-wrap gap-1 mb-2">
-                            {idea.tickers.split(',').slice(0, 3).map((ticker, index) => {
-                              const cleanTicker = ticker.trim().replace(/[\[\]"]/g, '')
-                              if (!cleanTicker) return null
-                              
-                              return (
-                                <span key={index} className={`px-1.5 py-0.5 text-xs rounded font-medium ${
-                                  isSelected 
-                                    ? 'bg-blue-200 text-blue-900' 
-                                    : 'bg-blue-100 text-blue-800'
-                                }`}>
-                                  {cleanTicker}
-                                </span>
-                              )
-                            })}
+                            {idea.tickers.slice(0, 3).map((ticker) => (
+                              <span key={ticker} className={`px-1.5 py-0.5 text-xs rounded font-medium ${
+                                matchedTickers.has(ticker)
+                                  ? 'bg-green-100 text-green-800 ring-1 ring-green-300'
+                                  : isSelected 
+                                  ? 'bg-blue-200 text-blue-900' 
+                                  : 'bg-blue-100 text-blue-800'
+                              }`} title={matchedTickers.has(ticker) ? 'On your watchlist' : undefined}>
+                                {ticker}
+                              </span>
+                            ))}
                           </div>
                           <button
-                            onClick={() => chat.selectIdea(idea)}
+                            onClick={() => {
+                              recordView(idea.key)
+                              chat.selectIdea(idea)
+                            }}
                           className={`w-full text-xs font-medium py-1.5 px-2 rounded transition-colors ${
                             isSelected
                               ? 'bg-gradient-to-r from-green-600 to-red-600 text-white hover:from-green-700 hover:to-red-700'
@@ -705,39 +1553,416 @@ function DashboardContent() {
                       Retry
                     </button>
                   </div>
-                ) : watchlist.length === 0 ? (
+                ) : (
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      {watchlists.length > 0 && (
+                        <select
+                          value={selectedWatchlist?.id || ''}
+                          onChange={(e) => setSelectedWatchlistId(e.target.value)}
+                          className="flex-1 min-w-0 text-sm border border-gray-300 rounded-lg px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        >
+                          {watchlists.map(list => (
+                            <option key={list.id} value={list.id}>
+                              {list.name}{list.is_default ? ' (default)' : ''}
+                            </option>
+                          ))}
+                        </select>
+                      )}
+                      <button
+                        onClick={() => setShowNewWatchlist(!showNewWatchlist)}
+                        className="text-xs text-blue-600 hover:text-blue-700 font-medium whitespace-nowrap"
+                      >
+                        {showNewWatchlist ? 'Cancel' : 'New list'}
+                      </button>
+                    </div>
+
+                    {showNewWatchlist && (
+                      <form onSubmit={createWatchlist} className="flex gap-2">
+                        <input
+                          type="text"
+                          value={newWatchlistName}
+                          onChange={(e) => setNewWatchlistName(e.target.value)}
+                          maxLength={50}
+                          placeholder="Watchlist name"
+                          className="flex-1 min-w-0 text-sm border border-gray-300 rounded-lg px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                        />
+                        <button
+                          type="submit"
+                          disabled={!newWatchlistName.trim()}
+                          className="text-xs bg-blue-600 text-white rounded-lg px-3 py-1 hover:bg-blue-700 disabled:opacity-50"
+                        >
+                          Create
+                        </button>
+                      </form>
+                    )}
+
+                    {selectedWatchlist && (
+                      <>
+                        <form onSubmit={addTickersInBulk} className="flex gap-2">
+                          <input
+                            type="text"
+                            value={bulkTickers}
+                            onChange={(e) => setBulkTickers(e.target.value)}
+                            placeholder="Add tickers: AAPL, BRK.B, BTC-USD..."
+                            list="symbol-suggestions"
+                            className="flex-1 min-w-0 text-sm border border-gray-300 rounded-lg px-2 py-1 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                          />
+                          <button
+                            type="submit"
+                            disabled={updatingTickers || !bulkTickers.trim()}
+                            className="text-xs bg-blue-600 text-white rounded-lg px-3 py-1 hover:bg-blue-700 disabled:opacity-50"
+                          >
+                            Add
+                          </button>
+                          <datalist id="symbol-suggestions">
+                            {symbolSuggestions.map(suggestion => (
+                              <option
+                                key={suggestion.symbol}
+                                value={bulkTickers.replace(/[^\s,;]*$/, suggestion.symbol)}
+                                label={`${suggestion.name} · ${suggestion.exchange}`}
+                              />
+                            ))}
+                          </datalist>
+                        </form>
+                        <div className="flex items-center gap-3 text-xs">
+                          <button
+                            onClick={() => importInputRef.current?.click()}
+                            disabled={updatingTickers}
+                            className="text-blue-600 hover:text-blue-700 font-medium disabled:opacity-50"
+                          >
+                            Import
+                          </button>
+                          <input
+                            ref={importInputRef}
+                            type="file"
+                            accept=".csv,.txt,.json,text/csv,text/plain,application/json"
+                            onChange={importWatchlistFile}
+                            className="hidden"
+                          />
+                          <a
+                            href={`/api/watchlists/${selectedWatchlist.id}/export?format=csv`}
+                            className="text-blue-600 hover:text-blue-700 font-medium"
+                          >
+                            Export CSV
+                          </a>
+                          <a
+                            href={`/api/watchlists/${selectedWatchlist.id}/export?format=json`}
+                            className="text-blue-600 hover:text-blue-700 font-medium"
+                          >
+                            Export JSON
+                          </a>
+                        </div>
+                      </>
+                    )}
+
+                    {!selectedWatchlist || selectedWatchlist.tickers.length === 0 ? (
+                      <div className="text-center py-4">
+                        <p className="text-sm text-gray-500">No tickers in watchlist</p>
+                      </div>
+                    ) : (
+                      <div className="space-y-2 max-h-96 overflow-y-auto">
+                        <p className="text-xs text-gray-500 mb-2">
+                          {selectedWatchlist.tickers.length} ticker{selectedWatchlist.tickers.length !== 1 ? 's' : ''}
+                        </p>
+                        {selectedWatchlist.items.map(({ ticker, notes, name }) => (
+                          <div key={ticker} className="bg-blue-50 rounded-lg p-2 border border-blue-100">
+                            <div className="flex items-center justify-between">
+                              <div className="min-w-0">
+                                <span className="text-sm font-medium text-blue-900">{ticker}</span>
+                                {name && <p className="text-xs text-gray-500 truncate">{name}</p>}
+                              </div>
+                              {watchlistQuotes[ticker] && (
+                                <div className="ml-auto mr-2 text-right flex-shrink-0">
+                                  <p className="text-sm text-gray-900">${watchlistQuotes[ticker]!.price.toFixed(2)}</p>
+                                  <p className={`text-xs ${(watchlistQuotes[ticker]!.changePercent || 0) >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                                    {formatQuoteChange(watchlistQuotes[ticker]!)}
+                                    {watchlistQuotes[ticker]!.volume !== undefined && (
+                                      <span className="text-gray-400"> · {formatVolume(watchlistQuotes[ticker]!.volume!)}</span>
+                                    )}
+                                  </p>
+                                </div>
+                              )}
+                              <div className="flex items-center">
+                                <button
+                                  onClick={() => setAlertForm(alertForm?.ticker === ticker ? null : { ticker, alert_type: 'price_above', threshold: '' })}
+                                  className={`${alerts.some(alert => alert.ticker === ticker && alert.is_active) ? 'text-amber-600' : 'text-blue-600'} hover:text-blue-800 transition-colors p-1`}
+                                  title={`Alerts for ${ticker}`}
+                                >
+                                  <Bell className="h-3 w-3" />
+                                </button>
+                                <button
+                                  onClick={() => setEditingNote({ ticker, value: notes || '' })}
+                                  className="text-blue-600 hover:text-blue-800 transition-colors p-1"
+                                  title={`Edit notes for ${ticker}`}
+                                >
+                                  <Pencil className="h-3 w-3" />
+                                </button>
+                                <button
+                                  onClick={async () => {
+                                    try {
+                                      const params = new URLSearchParams({ ticker, watchlist_id: selectedWatchlist.id })
+                                      const response = await fetch(`/api/watchlist?${params}`, {
+                                        method: 'DELETE'
+                                      })
+                                      const result = await response.json()
+                                      if (response.ok) {
+                                        if (result.data) replaceWatchlist(result.data)
+                                        setWatchlistMessage(`${ticker} removed from ${selectedWatchlist.name}!`)
+                                        setTimeout(() => setWatchlistMessage(''), 3000)
+                                      }
+                                    } catch (err) {
+                                      console.error('Failed to remove ticker:', err)
+                                    }
+                                  }}
+                                  className="text-blue-600 hover:text-red-600 transition-colors p-1"
+                                  title={`Remove ${ticker}`}
+                                >
+                                  <X className="h-3 w-3" />
+                                </button>
+                              </div>
+                            </div>
+                            {editingNote?.ticker === ticker ? (
+                              <form onSubmit={saveItemNotes} className="mt-1 flex gap-1">
+                                <input
+                                  type="text"
+                                  value={editingNote.value}
+                                  onChange={(e) => setEditingNote({ ticker, value: e.target.value })}
+                                  placeholder="Why are you watching this?"
+                                  maxLength={500}
+                                  autoFocus
+                                  className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                                />
+                                <button type="submit" className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700">
+                                  Save
+                                </button>
+                                <button type="button" onClick={() => setEditingNote(null)} className="px-2 py-1 text-xs text-gray-600 hover:text-gray-800">
+                                  Cancel
+                                </button>
+                              </form>
+                            ) : notes && (
+                              <p className="mt-1 text-xs text-gray-600 whitespace-pre-wrap">{notes}</p>
+                            )}
+                            {alertForm?.ticker === ticker && (
+                              <div className="mt-2 space-y-1">
+                                {alerts.filter(alert => alert.ticker === ticker).map(alert => (
+                                  <div key={alert.id} className="flex items-center justify-between text-xs text-gray-700">
+                                    <span className={alert.is_active ? '' : 'text-gray-400 line-through'}>
+                                      {ALERT_LABELS[alert.alert_type]}{alert.threshold !== null ? ` ${alert.threshold}` : ''}
+                                    </span>
+                                    <button
+                                      onClick={() => deleteAlert(alert.id)}
+                                      className="text-gray-400 hover:text-red-600 p-1"
+                                      title="Delete alert"
+                                    >
+                                      <X className="h-3 w-3" />
+                                    </button>
+                                  </div>
+                                ))}
+                                <form onSubmit={createAlert} className="flex gap-1">
+                                  <select
+                                    value={alertForm.alert_type}
+                                    onChange={(e) => setAlertForm({ ...alertForm, alert_type: e.target.value as AlertType })}
+                                    className="flex-1 min-w-0 px-1 py-1 text-xs border border-gray-300 rounded"
+                                  >
+                                    {(Object.keys(ALERT_LABELS) as AlertType[]).map(type => (
+                                      <option key={type} value={type}>{ALERT_LABELS[type]}</option>
+                                    ))}
+                                  </select>
+                                  {alertForm.alert_type !== 'idea_mention' && (
+                                    <input
+                                      type="number"
+                                      min="0"
+                                      step="any"
+                                      value={alertForm.threshold}
+                                      onChange={(e) => setAlertForm({ ...alertForm, threshold: e.target.value })}
+                                      placeholder={alertForm.alert_type === 'percent_move' ? '%' : '$'}
+                                      required
+                                      className="w-16 px-1 py-1 text-xs border border-gray-300 rounded"
+                                    />
+                                  )}
+                                  <button type="submit" className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700">
+                                    Add
+                                  </button>
+                                </form>
+                              </div>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Conversations Panel */}
+          <div className="border-b border-gray-200">
+            <button
+              onClick={() => togglePanel('conversations')}
+              className="w-full p-4 text-left hover:bg-gray-50 flex items-center justify-between"
+            >
+              <div className="flex items-center gap-2">
+                <MessageCircle className="h-4 w-4 text-gray-600" />
+                <span className="font-medium">Conversations</span>
+              </div>
+              <ChevronDown className={`h-4 w-4 transition-transform ${activePanel === 'conversations' ? 'rotate-180' : ''}`} />
+            </button>
+
+            {activePanel === 'conversations' && (
+              <div className="px-4 pb-4">
+                {chat.conversationsError && (
+                  <div className="text-center py-2">
+                    <p className="text-sm text-red-600 mb-2">{chat.conversationsError}</p>
+                    <button
+                      onClick={chat.fetchConversations}
+                      className="text-xs text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      Retry
+                    </button>
+                  </div>
+                )}
+                <button
+                  onClick={chat.clearMessages}
+                  className="w-full mb-2 px-3 py-1.5 text-xs font-medium text-blue-600 border border-blue-200 rounded-md hover:bg-blue-50"
+                >
+                  + New Chat
+                </button>
+                {chat.conversations.length === 0 ? (
                   <div className="text-center py-4">
-                    <p className="text-sm text-gray-500">No tickers in watchlist</p>
+                    <p className="text-sm text-gray-500">No conversations yet</p>
                   </div>
                 ) : (
-                  <div className="space-y-2 max-h-96 overflow-y-auto">
-                    <p className="text-xs text-gray-500 mb-2">
-                      {watchlist.length} ticker{watchlist.length !== 1 ? 's' : ''}
-                    </p>
-                    {watchlist.map((ticker, index) => (
-                      <div key={index} className="flex items-center justify-between bg-blue-50 rounded-lg p-2 border border-blue-100">
-                        <span className="text-sm font-medium text-blue-900">{ticker}</span>
-                        <button
-                          onClick={async () => {
-                            try {
-                              const response = await fetch(`/api/watchlist?ticker=${ticker}&watchlist_name=Default Watchlist`, {
-                                method: 'DELETE'
-                              })
-                              if (response.ok) {
-                                setWatchlist(prev => prev.filter(t => t !== ticker))
-                                setWatchlistMessage(`${ticker} removed from watchlist!`)
-                                setTimeout(() => setWatchlistMessage(''), 3000)
-                              }
-                            } catch (err) {
-                              console.error('Failed to remove ticker:', err)
+                  <div className="space-y-1 max-h-96 overflow-y-auto">
+                    {chat.conversations.map(conversation => {
+                      const isCurrent = conversation.id === chat.conversationId
+                      return editingConversation?.id === conversation.id ? (
+                        <form
+                          key={conversation.id}
+                          onSubmit={(e) => {
+                            e.preventDefault()
+                            if (editingConversation.title.trim()) {
+                              chat.renameConversation(conversation.id, editingConversation.title.trim())
                             }
+                            setEditingConversation(null)
                           }}
-                          className="text-blue-600 hover:text-red-600 transition-colors p-1"
-                          title={`Remove ${ticker}`}
+                          className="flex gap-1 p-1"
                         >
-                          <X className="h-3 w-3" />
-                        </button>
-                      </div>
+                          <input
+                            type="text"
+                            value={editingConversation.title}
+                            onChange={(e) => setEditingConversation({ id: conversation.id, title: e.target.value })}
+                            maxLength={120}
+                            autoFocus
+                            className="flex-1 px-2 py-1 text-xs border border-gray-300 rounded focus:outline-none focus:ring-1 focus:ring-blue-500"
+                          />
+                          <button type="submit" className="px-2 py-1 text-xs bg-blue-600 text-white rounded hover:bg-blue-700">
+                            Save
+                          </button>
+                          <button type="button" onClick={() => setEditingConversation(null)} className="px-2 py-1 text-xs text-gray-600 hover:text-gray-800">
+                            Cancel
+                          </button>
+                        </form>
+                      ) : (
+                        <div
+                          key={conversation.id}
+                          className={`group flex items-start gap-2 rounded-lg p-2 ${isCurrent ? 'bg-blue-50' : 'hover:bg-gray-50'}`}
+                        >
+                          <button
+                            onClick={() => chat.openConversation(conversation.id)}
+                            disabled={chat.loadingConversation}
+                            className="flex-1 min-w-0 text-left disabled:opacity-50"
+                          >
+                            <p className={`text-sm truncate ${isCurrent ? 'text-blue-900 font-medium' : 'text-gray-900'}`}>
+                              {conversation.title}
+                            </p>
+                            <p className="text-xs text-gray-400">
+                              {formatTime(conversation.last_message_at)} · {conversation.message_count} messages
+                            </p>
+                          </button>
+                          <button
+                            onClick={() => setEditingConversation({ id: conversation.id, title: conversation.title })}
+                            className="text-gray-400 hover:text-gray-700 p-1"
+                            title="Rename conversation"
+                          >
+                            <Pencil className="h-3 w-3" />
+                          </button>
+                          <button
+                            onClick={() => chat.deleteConversation(conversation.id)}
+                            className="text-gray-400 hover:text-red-600 p-1"
+                            title="Delete conversation"
+                          >
+                            <X className="h-3 w-3" />
+                          </button>
+                        </div>
+                      )
+                    })}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {/* Notifications Panel */}
+          <div className="border-b border-gray-200">
+            <button
+              onClick={() => togglePanel('notifications')}
+              className="w-full p-4 text-left hover:bg-gray-50 flex items-center justify-between"
+            >
+              <div className="flex items-center gap-2">
+                <Bell className="h-4 w-4 text-gray-600" />
+                <span className="font-medium">Notifications</span>
+                {unreadNotifications > 0 && (
+                  <span className="text-xs bg-red-600 text-white rounded-full px-2 py-0.5">{unreadNotifications}</span>
+                )}
+              </div>
+              <ChevronDown className={`h-4 w-4 transition-transform ${activePanel === 'notifications' ? 'rotate-180' : ''}`} />
+            </button>
+
+            {activePanel === 'notifications' && (
+              <div className="px-4 pb-4">
+                {notificationsError && notifications.length === 0 ? (
+                  <div className="text-center py-4">
+                    <p className="text-sm text-red-600 mb-2">{notificationsError}</p>
+                    <button
+                      onClick={() => fetchNotifications()}
+                      className="text-xs text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      Retry
+                    </button>
+                  </div>
+                ) : notifications.length === 0 ? (
+                  <div className="text-center py-8">
+                    <Bell className="h-8 w-8 text-gray-400 mx-auto mb-3" />
+                    <p className="text-gray-500 text-sm">No notifications yet</p>
+                    <p className="text-xs text-gray-400 mt-1">Set alerts with the bell next to a watchlist ticker</p>
+                  </div>
+                ) : (
+                  <div className="space-y-1 max-h-96 overflow-y-auto">
+                    {unreadNotifications > 0 && (
+                      <button
+                        onClick={markNotificationsRead}
+                        className="w-full text-right text-xs text-blue-600 hover:text-blue-700 font-medium pb-1"
+                      >
+                        Mark all read
+                      </button>
+                    )}
+                    {notifications.map(notification => (
+                      <Link
+                        key={notification.id}
+                        href={notification.link || '/dashboard'}
+                        onClick={() => {
+                          // Same-page links only change the query string, so open the panel directly
+                          const panel = new URL(notification.link || '/dashboard', window.location.origin).searchParams.get('panel') as DashboardPanel | null
+                          if (panel && DASHBOARD_PANELS.includes(panel)) setActivePanel(panel)
+                        }}
+                        className={`block rounded-lg p-2 hover:bg-gray-50 ${notification.read_at ? '' : 'bg-blue-50'}`}
+                      >
+                        <p className="text-sm text-gray-900 truncate">{notification.title}</p>
+                        <p className="text-xs text-gray-500 truncate">{notification.body}</p>
+                        <p className="text-xs text-gray-400">{formatTime(notification.created_at)}</p>
+                      </Link>
                     ))}
                   </div>
                 )}
@@ -760,10 +1985,65 @@ function DashboardContent() {
             
             {activePanel === 'activity' && (
               <div className="px-4 pb-4">
-                <div className="text-center py-8">
-                  <Clock className="h-8 w-8 text-gray-400 mx-auto mb-3" />
-                  <p className="text-gray-500 text-sm">No recent activity</p>
-                </div>
+                {isLoading('activity') ? (
+                  <div className="text-center py-4">
+                    <LoadingSpinner message="Loading..." />
+                  </div>
+                ) : activityError && activity.length === 0 ? (
+                  <div className="text-center py-4">
+                    <p className="text-sm text-red-600 mb-2">{activityError}</p>
+                    <button
+                      onClick={() => fetchActivity()}
+                      className="text-xs text-blue-600 hover:text-blue-700 font-medium"
+                    >
+                      Retry
+                    </button>
+                  </div>
+                ) : activity.length === 0 ? (
+                  <div className="text-center py-8">
+                    <Clock className="h-8 w-8 text-gray-400 mx-auto mb-3" />
+                    <p className="text-gray-500 text-sm">No recent activity</p>
+                  </div>
+                ) : (
+                  <div className="space-y-1 max-h-96 overflow-y-auto">
+                    {activity.map(item => {
+                      const Icon = ACTIVITY_ICONS[item.type] || Clock
+                      return (
+                        <Link
+                          key={item.id}
+                          href={item.link}
+                          onClick={() => {
+                            // Same-page links only change the query string, so open the panel directly
+                            const params = new URL(item.link, window.location.origin).searchParams
+                            const panel = params.get('panel') as DashboardPanel | null
+                            if (panel && DASHBOARD_PANELS.includes(panel)) setActivePanel(panel)
+                            const conversation = params.get('conversation')
+                            if (conversation) chat.openConversation(conversation)
+                          }}
+                          className="flex items-start gap-2 rounded-lg p-2 hover:bg-gray-50"
+                        >
+                          <Icon className="h-4 w-4 text-gray-500 mt-0.5 flex-shrink-0" />
+                          <div className="min-w-0">
+                            <p className="text-sm text-gray-900 truncate">{item.title}</p>
+                            {item.description && (
+                              <p className="text-xs text-gray-500 truncate">{item.description}</p>
+                            )}
+                            <p className="text-xs text-gray-400">{formatTime(item.created_at)}</p>
+                          </div>
+                        </Link>
+                      )
+                    })}
+                    {activityCursor && (
+                      <button
+                        onClick={() => fetchActivity(activityCursor)}
+                        disabled={isLoading('moreActivity')}
+                        className="w-full text-xs text-blue-600 hover:text-blue-700 font-medium py-2 disabled:opacity-50"
+                      >
+                        {isLoading('moreActivity') ? 'Loading...' : 'Load more'}
+                      </button>
+                    )}
+                  </div>
+                )}
               </div>
             )}
           </div>
@@ -801,7 +2081,7 @@ function DashboardContent() {
                 {chat.selectedIdea && (
                   <div className="flex items-center gap-1 mt-1">
                     <span className="text-xs text-blue-600">
-                      {chat.selectedIdea.tickers.split(',').slice(0, 3).map(t => t.trim().replace(/[\[\]"]/g, '')).join(', ')}
+                      {chat.selectedIdea.tickers.slice(0, 3).join(', ')}
                     </span>
                   </div>
                 )}
@@ -820,7 +2100,7 @@ function DashboardContent() {
                 onClick={chat.clearMessages}
                 className="px-3 py-1.5 text-sm text-gray-600 hover:text-gray-800 hover:bg-gray-100 rounded-md transition-colors"
               >
-                Clear Chat
+                New Chat
               </button>
               <UserMenu />
             </div>
@@ -841,7 +2121,7 @@ function DashboardContent() {
                       Discussing: {chat.selectedIdea.theme}
                     </h3>
                     <p className="text-gray-600 mb-4">
-                      I&apos;m focused on this trading idea involving {chat.selectedIdea.tickers.split(',').slice(0, 3).map(t => t.trim().replace(/[\[\]&quot;]/g, '')).join(', ')}.
+                      I&apos;m focused on this trading idea involving {chat.selectedIdea.tickers.slice(0, 3).join(', ')}.
                     </p>
                     <div className="bg-gray-50 rounded-lg p-4 mb-6 text-left">
                       <p className="text-sm text-gray-700 line-clamp-3">
@@ -915,6 +2195,33 @@ function DashboardContent() {
                       ? 'bg-blue-600 text-white'
                       : 'bg-white border border-gray-200 text-gray-900'
                   }`}>
+                    {message.toolCalls && message.toolCalls.length > 0 && (
+                      <details className="mb-2 text-xs text-gray-600">
+                        <summary className="cursor-pointer select-none flex items-center gap-1 text-gray-500">
+                          <Wrench className="w-3 h-3" />
+                          {message.toolCalls.length} tool call{message.toolCalls.length === 1 ? '' : 's'}
+                        </summary>
+                        <ul className="mt-1 space-y-1">
+                          {message.toolCalls.map(call => (
+                            <li key={call.id} className="border border-gray-100 rounded p-2 bg-gray-50">
+                              <div className="flex items-center justify-between gap-2">
+                                <span className="font-mono text-gray-800">{call.name}</span>
+                                <span className={call.error ? 'text-red-600' : 'text-gray-400'}>
+                                  {call.durationMs === undefined ? 'running…' : call.error ? 'failed' : `${call.durationMs} ms`}
+                                </span>
+                              </div>
+                              <div className="font-mono text-gray-500 break-all">{JSON.stringify(call.arguments)}</div>
+                              {call.error && <div className="text-red-600">{call.error}</div>}
+                              {call.result !== undefined && (
+                                <pre className="mt-1 max-h-40 overflow-auto whitespace-pre-wrap break-all text-gray-600">
+                                  {JSON.stringify(call.result, null, 2)}
+                                </pre>
+                              )}
+                            </li>
+                          ))}
+                        </ul>
+                      </details>
+                    )}
                     {message.typing ? (
                       <div className="flex items-center space-x-1">
                         <div className="flex space-x-1">
@@ -927,10 +2234,39 @@ function DashboardContent() {
                     ) : (
                       <>
                         <div className="whitespace-pre-wrap">{message.content}</div>
-                        <div className={`text-xs mt-1 ${
+                        {message.sources && message.sources.length > 0 && (
+                          <div className="mt-2 pt-2 border-t border-gray-100">
+                            <p className="text-xs font-medium text-gray-500 mb-1">Sources</p>
+                            <ol className="space-y-0.5 text-xs">
+                              {message.sources.map((source, index) => (
+                                <li key={source.url} className="truncate">
+                                  <span className="text-gray-400 mr-1">[{index + 1}]</span>
+                                  <a
+                                    href={source.url}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-blue-600 hover:text-blue-800 hover:underline"
+                                    title={source.url}
+                                  >
+                                    {source.title}
+                                  </a>
+                                </li>
+                              ))}
+                            </ol>
+                          </div>
+                        )}
+                        <div className={`flex items-center gap-2 text-xs mt-1 ${
                           message.role === 'user' ? 'text-blue-100' : 'text-gray-500'
                         }`}>
                           {formatChatTime(message.timestamp)}
+                          {typeof message.confidence === 'number' && (
+                            <span
+                              className={`px-1.5 py-0.5 rounded-full font-medium ${confidenceLevel(message.confidence).className}`}
+                              title="Confidence reported by the research agent"
+                            >
+                              {confidenceLevel(message.confidence).label} confidence ({Math.round(message.confidence * 100)}%)
+                            </span>
+                          )}
                         </div>
                       </>
                     )}
@@ -0,0 +1,58 @@
+import type { Metadata } from 'next'
+import { headers } from 'next/headers'
+import { createClient } from '@/lib/supabase-server'
+import { findIdeasByKeys } from '@/lib/ideas-repository'
+import { parseIdeaKey } from '@/lib/idea-parser'
+import { config } from '@/lib/config'
+import IdeaDetail from '@/components/IdeaDetail'
+
+interface IdeaPageProps {
+  params: Promise<{ id: string }>
+}
+
+// Open Graph tags let shared links unfurl with the idea's theme and tickers in chat tools
+export async function generateMetadata({ params }: IdeaPageProps): Promise<Metadata> {
+  const { id: ideaKey } = await params
+  const fallback: Metadata = { title: 'Trading Idea - SpeculationAssist' }
+
+  if (!parseIdeaKey(ideaKey)) return fallback
+
+  try {
+    const supabase = await createClient()
+    const idea = (await findIdeasByKeys(supabase, [ideaKey])).get(ideaKey)
+    if (!idea) return fallback
+
+    const requestHeaders = await headers()
+    const origin = config.site.url || `${requestHeaders.get('x-forwarded-proto') || 'https'}://${requestHeaders.get('host')}`
+    const url = `${origin}/ideas/${encodeURIComponent(ideaKey)}`
+    const title = idea.tickers.length > 0 ? `${idea.theme} (${idea.tickers.join(', ')})` : idea.theme
+    const description = idea.analysis.length > 200 ? `${idea.analysis.slice(0, 197)}...` : idea.analysis
+
+    return {
+      title: `${title} - SpeculationAssist`,
+      description,
+      alternates: { canonical: url },
+      openGraph: {
+        title,
+        description,
+        url,
+        type: 'article',
+        publishedTime: idea.created_at,
+        siteName: 'SpeculationAssist',
+      },
+      twitter: {
+        card: 'summary',
+        title,
+        description,
+      },
+    }
+  } catch (error) {
+    console.error('Failed to build idea metadata:', error)
+    return fallback
+  }
+}
+
+export default async function IdeaPage({ params }: IdeaPageProps) {
+  const { id: ideaKey } = await params
+  return <IdeaDetail ideaKey={ideaKey} />
+}
@@ -1,50 +1,208 @@
 'use client'
 
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef, useCallback } from 'react'
 import { useAuth } from '@/contexts/AuthContext'
 import { AuthGuard } from '@/components/auth/AuthGuard'
 import { UserMenu } from '@/components/auth/UserMenu'
-import { TrendingUp, Clock, Plus, Bookmark, BookmarkCheck, ArrowLeft } from 'lucide-react'
+import { TrendingUp, Clock, Plus, Bookmark, BookmarkCheck, ArrowLeft, Search, Heart } from 'lucide-react'
 import Link from 'next/link'
+import { SECTORS } from '@/lib/sectors'
+import { useIdeaViewTracking } from '@/hooks/useIdeaViewTracking'
 
 interface TradingIdea {
-  id: number
+  key: string
   created_at: string
   theme: string
   analysis: string
-  tickers: string
+  tickers: string[]
+  direction: 'long' | 'short' | 'neutral'
+  time_horizon: 'intraday' | 'swing' | 'position' | 'long_term' | null
+  conviction: 'low' | 'medium' | 'high' | null
+  entry_price: number | null
+  target_price: number | null
+  stop_price: number | null
+  risk_notes: string | null
+}
+
+const directionStyles: Record<TradingIdea['direction'], string> = {
+  long: 'bg-green-100 text-green-800',
+  short: 'bg-red-100 text-red-800',
+  neutral: 'bg-gray-100 text-gray-700'
+}
+
+interface IdeaFilters {
+  q: string
+  ticker: string
+  theme: string
+  sector: string
+  from: string
+  to: string
+  sort: 'newest' | 'oldest'
+}
+
+const emptyFilters: IdeaFilters = {
+  q: '',
+  ticker: '',
+  theme: '',
+  sector: '',
+  from: '',
+  to: '',
+  sort: 'newest'
+}
+
+const PAGE_SIZE = 18
+
+const timeHorizonLabels: Record<NonNullable<TradingIdea['time_horizon']>, string> = {
+  intraday: 'Intraday',
+  swing: 'Swing',
+  position: 'Position',
+  long_term: 'Long term'
 }
 
 function IdeasContent() {
   const { user } = useAuth()
   const [ideas, setIdeas] = useState<TradingIdea[]>([])
   const [loading, setLoading] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
   const [error, setError] = useState('')
-  const [savedIdeas, setSavedIdeas] = useState<number[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [total, setTotal] = useState(0)
+  const [filterInput, setFilterInput] = useState<IdeaFilters>(emptyFilters)
+  const [filters, setFilters] = useState<IdeaFilters>(emptyFilters)
+  const loadMoreRef = useRef<HTMLDivElement>(null)
+  const [savedIdeas, setSavedIdeas] = useState<string[]>([])
   const [addingToWatchlist, setAddingToWatchlist] = useState<string | null>(null)
-  const [savingIdea, setSavingIdea] = useState<number | null>(null)
+  const [savingIdea, setSavingIdea] = useState<string | null>(null)
+  const [likedIdeas, setLikedIdeas] = useState<string[]>([])
+  const [likeCounts, setLikeCounts] = useState<Record<string, number>>({})
+  const [likingIdea, setLikingIdea] = useState<string | null>(null)
+  const { observeIdea } = useIdeaViewTracking()
   const [message, setMessage] = useState('')
 
+  // Like state and totals for a freshly loaded page of ideas
+  const fetchLikes = async (ideaKeys: string[]) => {
+    if (ideaKeys.length === 0) return
+    const keys = encodeURIComponent(ideaKeys.join(','))
+
+    try {
+      const [likedResponse, countsResponse] = await Promise.all([
+        fetch(`/api/ideas/interactions?type=liked&idea_keys=${keys}`),
+        fetch(`/api/ideas/interactions/counts?idea_keys=${keys}`)
+      ])
+      const [likedResult, countsResult] = await Promise.all([likedResponse.json(), countsResponse.json()])
+
+      if (likedResponse.ok && likedResult.data) {
+        const liked = likedResult.data.interactions.map((interaction: { idea_key: string }) => interaction.idea_key)
+        setLikedIdeas(prev => Array.from(new Set([...prev, ...liked])))
+      }
+
+      if (countsResponse.ok && countsResult.data) {
+        const counts: Record<string, { liked: number }> = countsResult.data
+        setLikeCounts(prev => ({
+          ...prev,
+          ...Object.fromEntries(Object.entries(counts).map(([key, value]) => [key, value.liked]))
+        }))
+      }
+    } catch (err) {
+      console.error('Failed to fetch likes:', err)
+    }
+  }
+
+  const fetchIdeas = useCallback(async (cursor: string | null) => {
+    const params = new URLSearchParams({ limit: String(PAGE_SIZE) })
+    for (const [name, value] of Object.entries(filters)) {
+      if (value) params.set(name, value)
+    }
+    if (cursor) params.set('cursor', cursor)
+
+    if (cursor) {
+      setLoadingMore(true)
+    } else {
+      setLoading(true)
+    }
+    setError('')
+
+    try {
+      const response = await fetch(`/api/ideas/all?${params}`)
+      const result = await response.json()
+      
+      if (response.ok) {
+        const page = result.data || { ideas: [], nextCursor: null, total: 0 }
+        setIdeas(prev => cursor ? [...prev, ...page.ideas] : page.ideas)
+        setNextCursor(page.nextCursor)
+        setTotal(page.total)
+        fetchLikes(page.ideas.map((idea: TradingIdea) => idea.key))
+      } else {
+        setError(result.error || 'Failed to fetch ideas')
+      }
+    } catch (err) {
+      setError('Network error occurred')
+    } finally {
+      setLoading(false)
+      setLoadingMore(false)
+    }
+  }, [filters])
+
   useEffect(() => {
-    const fetchAllIdeas = async () => {
-      try {
-        const response = await fetch('/api/ideas/all')
-        const result = await response.json()
-        
-        if (response.ok) {
-          setIdeas(result.data || [])
-        } else {
-          setError(result.error || 'Failed to fetch ideas')
-        }
-      } catch (err) {
-        setError('Network error occurred')
-      } finally {
-        setLoading(false)
+    fetchIdeas(null)
+  }, [fetchIdeas])
+
+  // Infinite scroll: load the next page when the sentinel below the grid comes into view
+  useEffect(() => {
+    const sentinel = loadMoreRef.current
+    if (!sentinel || !nextCursor || loadingMore) return
+
+    const observer = new IntersectionObserver((entries) => {
+      if (entries[0].isIntersecting) {
+        fetchIdeas(nextCursor)
       }
+    }, { rootMargin: '200px' })
+
+    observer.observe(sentinel)
+    return () => observer.disconnect()
+  }, [nextCursor, loadingMore, fetchIdeas])
+
+  const toggleLike = async (ideaKey: string) => {
+    setLikingIdea(ideaKey)
+
+    try {
+      const response = await fetch('/api/ideas/interactions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ idea_key: ideaKey, interaction_type: 'liked', toggle: true })
+      })
+
+      const result = await response.json()
+
+      if (response.ok) {
+        const liked = result.data.active
+        setLikedIdeas(prev => liked ? [...prev, ideaKey] : prev.filter(key => key !== ideaKey))
+        setLikeCounts(prev => ({ ...prev, [ideaKey]: Math.max(0, (prev[ideaKey] || 0) + (liked ? 1 : -1)) }))
+      } else {
+        setMessage(result.error || 'Failed to update like')
+        setTimeout(() => setMessage(''), 5000)
+      }
+    } catch (err) {
+      setMessage('Network error occurred')
+      setTimeout(() => setMessage(''), 5000)
+    } finally {
+      setLikingIdea(null)
     }
+  }
 
-    fetchAllIdeas()
-  }, [])
+  const applyFilters = (e: React.FormEvent) => {
+    e.preventDefault()
+    setFilters({ ...filterInput, ticker: filterInput.ticker.trim().toUpperCase() })
+  }
+
+  const clearFilters = () => {
+    setFilterInput(emptyFilters)
+    setFilters(emptyFilters)
+  }
+
+  const hasFilters = Object.entries(filters).some(([name, value]) => name !== 'sort' && value)
 
   useEffect(() => {
     const fetchSavedIdeas = async () => {
@@ -53,8 +211,10 @@ function IdeasContent() {
         const result = await response.json()
         
         if (response.ok && result.data) {
-          const savedIdeaIds = result.data.map((interaction: { idea_id: number }) => interaction.idea_id)
-          setSavedIdeas(savedIdeaIds)
+          const savedIdeaKeys = result.data
+            .map((interaction: { idea_key: string | null }) => interaction.idea_key)
+            .filter(Boolean)
+          setSavedIdeas(savedIdeaKeys)
         }
       } catch (err) {
         console.error('Failed to fetch saved ideas:', err)
@@ -101,7 +261,7 @@ function IdeasContent() {
         setMessage(result.error || 'Failed to add to watchlist')
         setTimeout(() => setMessage(''), 5000)
       }
-    } catch (err) {
+    } catch {
       setMessage('Network error occurred')
       setTimeout(() => setMessage(''), 5000)
     } finally {
@@ -109,22 +269,22 @@ function IdeasContent() {
     }
   }
 
-  const toggleSaveIdea = async (ideaId: number) => {
-    setSavingIdea(ideaId)
+  const toggleSaveIdea = async (ideaKey: string) => {
+    setSavingIdea(ideaKey)
     setMessage('')
     
-    const isCurrentlySaved = savedIdeas.includes(ideaId)
+    const isCurrentlySaved = savedIdeas.includes(ideaKey)
     
     try {
       if (isCurrentlySaved) {
-        const response = await fetch(`/api/ideas/saved?idea_id=${ideaId}`, {
+        const response = await fetch(`/api/ideas/saved?idea_key=${encodeURIComponent(ideaKey)}`, {
           method: 'DELETE'
         })
 
         const result = await response.json()
         
         if (response.ok) {
-          setSavedIdeas(prev => prev.filter(id => id !== ideaId))
+          setSavedIdeas(prev => prev.filter(key => key !== ideaKey))
           setMessage(result.message || 'Idea removed from saved!')
           setTimeout(() => setMessage(''), 3000)
         } else {
@@ -137,13 +297,13 @@ function IdeasContent() {
           headers: {
             'Content-Type': 'application/json',
           },
-          body: JSON.stringify({ idea_id: ideaId })
+          body: JSON.stringify({ idea_key: ideaKey })
         })
 
         const result = await response.json()
         
         if (response.ok) {
-          setSavedIdeas(prev => [...prev, ideaId])
+          setSavedIdeas(prev => [...prev, ideaKey])
           setMessage(result.message || 'Idea saved!')
           setTimeout(() => setMessage(''), 3000)
         } else {
@@ -197,6 +357,83 @@ function IdeasContent() {
           </div>
         )}
 
+        {/* Filters */}
+        <form onSubmit={applyFilters} className="mb-6 bg-white rounded-xl p-4 border border-gray-200">
+          <div className="grid md:grid-cols-2 lg:grid-cols-4 gap-3">
+            <div className="relative lg:col-span-2">
+              <Search className="h-4 w-4 text-gray-400 absolute left-3 top-1/2 -translate-y-1/2" />
+              <input
+                type="text"
+                value={filterInput.q}
+                onChange={(e) => setFilterInput(prev => ({ ...prev, q: e.target.value }))}
+                placeholder="Search analysis..."
+                className="w-full pl-9 pr-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+              />
+            </div>
+            <input
+              type="text"
+              value={filterInput.ticker}
+              onChange={(e) => setFilterInput(prev => ({ ...prev, ticker: e.target.value }))}
+              placeholder="Ticker (e.g. NVDA)"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <input
+              type="text"
+              value={filterInput.theme}
+              onChange={(e) => setFilterInput(prev => ({ ...prev, theme: e.target.value }))}
+              placeholder="Theme keyword"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <select
+              value={filterInput.sector}
+              onChange={(e) => setFilterInput(prev => ({ ...prev, sector: e.target.value }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="">All sectors</option>
+              {SECTORS.map((sector) => (
+                <option key={sector.id} value={sector.id}>{sector.name}</option>
+              ))}
+            </select>
+            <input
+              type="date"
+              value={filterInput.from}
+              onChange={(e) => setFilterInput(prev => ({ ...prev, from: e.target.value }))}
+              title="From date"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <input
+              type="date"
+              value={filterInput.to}
+              onChange={(e) => setFilterInput(prev => ({ ...prev, to: e.target.value }))}
+              title="To date"
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <select
+              value={filterInput.sort}
+              onChange={(e) => setFilterInput(prev => ({ ...prev, sort: e.target.value as IdeaFilters['sort'] }))}
+              className="px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              <option value="newest">Newest first</option>
+              <option value="oldest">Oldest first</option>
+            </select>
+          </div>
+          <div className="flex justify-end gap-2 mt-3">
+            <button
+              type="button"
+              onClick={clearFilters}
+              className="px-4 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+            >
+              Clear
+            </button>
+            <button
+              type="submit"
+              className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+            >
+              Apply filters
+            </button>
+          </div>
+        </form>
+
         {loading ? (
           <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
             {[1, 2, 3, 4, 5, 6].map((i) => (
@@ -219,23 +456,34 @@ function IdeasContent() {
           <div className="text-center py-12">
             <div className="bg-white rounded-xl p-8 border border-gray-200 max-w-md mx-auto">
               <TrendingUp className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-              <p className="text-gray-500">No trading ideas available</p>
-              <p className="text-sm text-gray-400 mt-2">
-                New ideas are generated daily. Check back soon!
-              </p>
+              {hasFilters ? (
+                <p className="text-gray-500">No trading ideas match these filters</p>
+              ) : (
+                <>
+                  <p className="text-gray-500">No trading ideas available</p>
+                  <p className="text-sm text-gray-400 mt-2">
+                    New ideas are generated daily. Check back soon!
+                  </p>
+                </>
+              )}
             </div>
           </div>
         ) : (
           <>
             <div className="mb-6">
               <p className="text-gray-600">
-                Showing {ideas.length} trading idea{ideas.length !== 1 ? 's' : ''}
+                Showing {ideas.length} of {total} trading idea{total !== 1 ? 's' : ''}
               </p>
             </div>
             
             <div className="grid md:grid-cols-2 lg:grid-cols-3 gap-6">
               {ideas.map((idea) => (
-                <div key={idea.id} className="bg-white rounded-xl p-6 border border-gray-200 hover:shadow-lg transition-all duration-200">
+                <div
+                  key={idea.key}
+                  ref={observeIdea}
+                  data-idea-key={idea.key}
+                  className="bg-white rounded-xl p-6 border border-gray-200 hover:shadow-lg transition-all duration-200"
+                >
                   <div className="flex items-start justify-between mb-4">
                     <div className="flex items-center text-sm text-gray-500">
                       <Clock className="h-4 w-4 mr-1" />
@@ -243,18 +491,31 @@ function IdeasContent() {
                     </div>
                     <div className="flex items-center gap-2">
                       <button
-                        onClick={() => toggleSaveIdea(idea.id)}
-                        disabled={savingIdea === idea.id}
+                        onClick={() => toggleLike(idea.key)}
+                        disabled={likingIdea === idea.key}
+                        className={`flex items-center gap-1 px-2 py-1 rounded-full text-sm transition-colors ${
+                          likedIdeas.includes(idea.key)
+                            ? 'text-red-600 bg-red-50 hover:bg-red-100'
+                            : 'text-gray-400 hover:text-red-600 hover:bg-red-50'
+                        } disabled:opacity-50`}
+                        title={likedIdeas.includes(idea.key) ? 'Unlike' : 'Like'}
+                      >
+                        <Heart className={`h-4 w-4 ${likedIdeas.includes(idea.key) ? 'fill-current' : ''}`} />
+                        {likeCounts[idea.key] ? <span>{likeCounts[idea.key]}</span> : null}
+                      </button>
+                      <button
+                        onClick={() => toggleSaveIdea(idea.key)}
+                        disabled={savingIdea === idea.key}
                         className={`p-2 rounded-full transition-colors ${
-                          savedIdeas.includes(idea.id)
+                          savedIdeas.includes(idea.key)
                             ? 'text-yellow-600 bg-yellow-50 hover:bg-yellow-100'
                             : 'text-gray-400 hover:text-yellow-600 hover:bg-yellow-50'
                         } disabled:opacity-50`}
-                        title={savedIdeas.includes(idea.id) ? 'Remove from saved' : 'Save idea'}
+                        title={savedIdeas.includes(idea.key) ? 'Remove from saved' : 'Save idea'}
                       >
-                        {savingIdea === idea.id ? (
+                        {savingIdea === idea.key ? (
                           <div className="h-5 w-5 border border-gray-300 border-t-yellow-600 rounded-full animate-spin"></div>
-                        ) : savedIdeas.includes(idea.id) ? (
+                        ) : savedIdeas.includes(idea.key) ? (
                           <BookmarkCheck className="h-5 w-5" />
                         ) : (
                           <Bookmark className="h-5 w-5" />
@@ -265,20 +526,58 @@ function IdeasContent() {
                   </div>
                   
                   <h3 className="text-lg font-semibold text-gray-900 mb-3">
-                    {idea.theme}
+                    <Link href={`/ideas/${idea.key}`} className="hover:text-blue-700 transition-colors">
+                      {idea.theme}
+                    </Link>
                   </h3>
                   
+                  <div className="flex flex-wrap items-center gap-2 mb-3 text-xs">
+                    <span className={`px-2 py-0.5 rounded-full font-medium capitalize ${directionStyles[idea.direction]}`}>
+                      {idea.direction}
+                    </span>
+                    {idea.time_horizon && (
+                      <span className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-700">
+                        {timeHorizonLabels[idea.time_horizon]}
+                      </span>
+                    )}
+                    {idea.conviction && (
+                      <span className="px-2 py-0.5 rounded-full bg-purple-50 text-purple-700 capitalize">
+                        {idea.conviction} conviction
+                      </span>
+                    )}
+                  </div>
+                  
                   <p className="text-gray-600 mb-4 text-sm">
                     {idea.analysis}
                   </p>
                   
+                  {(idea.entry_price !== null || idea.target_price !== null || idea.stop_price !== null) && (
+                    <div className="grid grid-cols-3 gap-2 mb-4 text-xs">
+                      <div>
+                        <p className="text-gray-500">Entry</p>
+                        <p className="font-medium text-gray-900">{idea.entry_price !== null ? `$${idea.entry_price}` : '—'}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Target</p>
+                        <p className="font-medium text-green-700">{idea.target_price !== null ? `$${idea.target_price}` : '—'}</p>
+                      </div>
+                      <div>
+                        <p className="text-gray-500">Stop</p>
+                        <p className="font-medium text-red-700">{idea.stop_price !== null ? `$${idea.stop_price}` : '—'}</p>
+                      </div>
+                    </div>
+                  )}
+                  
+                  {idea.risk_notes && (
+                    <p className="mb-4 text-xs text-amber-700 bg-amber-50 rounded-md px-2 py-1">
+                      Risk: {idea.risk_notes}
+                    </p>
+                  )}
+                  
                   <div className="flex flex-wrap gap-1">
-                    {idea.tickers.split(',').map((ticker, index) => {
-                      const cleanTicker = ticker.trim().replace(/[\[\]"]/g, '')
-                      if (!cleanTicker) return null
-                      
+                    {idea.tickers.map((cleanTicker) => {
                       return (
-                        <div key={index} className="flex items-center gap-1">
+                        <div key={cleanTicker} className="flex items-center gap-1">
                           <span className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-md font-medium">
                             {cleanTicker}
                           </span>
@@ -301,6 +600,12 @@ function IdeasContent() {
                 </div>
               ))}
             </div>
+
+            <div ref={loadMoreRef} className="py-8 flex justify-center">
+              {loadingMore && (
+                <div className="h-6 w-6 border-2 border-gray-300 border-t-blue-600 rounded-full animate-spin"></div>
+              )}
+            </div>
           </>
         )}
       </main>
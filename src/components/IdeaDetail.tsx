@@ -0,0 +1,710 @@
+'use client'
+
+import { useState, useEffect } from 'react'
+import Link from 'next/link'
+import { useAuth } from '@/contexts/AuthContext'
+import { UserMenu } from '@/components/auth/UserMenu'
+import { useIdeaViewTracking } from '@/hooks/useIdeaViewTracking'
+import { ArrowLeft, Bookmark, BookmarkCheck, CheckCircle, Clock, Heart, Link2, Plus, TrendingUp } from 'lucide-react'
+
+interface TradingIdea {
+  key: string
+  created_at: string
+  theme: string
+  analysis: string
+  tickers: string[]
+  direction: 'long' | 'short' | 'neutral'
+  time_horizon: 'intraday' | 'swing' | 'position' | 'long_term' | null
+  conviction: 'low' | 'medium' | 'high' | null
+  entry_price: number | null
+  target_price: number | null
+  stop_price: number | null
+  risk_notes: string | null
+}
+
+interface InteractionCounts {
+  viewed: number
+  liked: number
+  saved: number
+  traded: number
+}
+
+interface UserState {
+  saved: boolean
+  notes: string | null
+  liked: boolean
+  traded: boolean
+  portfolio_transaction_id: string | null
+}
+
+interface IdeaDetailData {
+  idea: TradingIdea
+  related: TradingIdea[]
+  counts: InteractionCounts
+  userState: UserState | null
+  shareUrl: string
+}
+
+interface HorizonPerformance {
+  horizon: '1d' | '1w' | '1m'
+  targetDate: string
+  status: 'pending' | 'complete' | 'unavailable'
+  ideaReturn: number | null
+  benchmarkReturn: number | null
+  excessReturn: number | null
+}
+
+interface IdeaPerformance {
+  benchmark: string
+  reference: { ticker: string; close: number; date: string }[]
+  horizons: HorizonPerformance[]
+}
+
+interface PortfolioTransaction {
+  id: string
+  ticker: string
+  side: 'buy' | 'sell'
+  shares: number
+  price: number
+  executed_at: string
+}
+
+const directionStyles: Record<TradingIdea['direction'], string> = {
+  long: 'bg-green-100 text-green-800',
+  short: 'bg-red-100 text-red-800',
+  neutral: 'bg-gray-100 text-gray-700'
+}
+
+const performanceHorizonLabels: Record<HorizonPerformance['horizon'], string> = {
+  '1d': '1 day',
+  '1w': '1 week',
+  '1m': '1 month'
+}
+
+const formatPercent = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`
+
+const timeHorizonLabels: Record<NonNullable<TradingIdea['time_horizon']>, string> = {
+  intraday: 'Intraday',
+  swing: 'Swing',
+  position: 'Position',
+  long_term: 'Long term'
+}
+
+export default function IdeaDetail({ ideaKey }: { ideaKey: string }) {
+  const { user } = useAuth()
+  const [detail, setDetail] = useState<IdeaDetailData | null>(null)
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState('')
+  const [message, setMessage] = useState('')
+  const [saving, setSaving] = useState(false)
+  const [notes, setNotes] = useState('')
+  const [savingNotes, setSavingNotes] = useState(false)
+  const [addingToWatchlist, setAddingToWatchlist] = useState<string | null>(null)
+  const [liking, setLiking] = useState(false)
+  const [showTradeForm, setShowTradeForm] = useState(false)
+  const [transactions, setTransactions] = useState<PortfolioTransaction[]>([])
+  const [selectedTransaction, setSelectedTransaction] = useState('')
+  const [markingTraded, setMarkingTraded] = useState(false)
+  const [performance, setPerformance] = useState<IdeaPerformance | null>(null)
+  const { recordView } = useIdeaViewTracking()
+
+  useEffect(() => {
+    const fetchIdea = async () => {
+      setLoading(true)
+      try {
+        const response = await fetch(`/api/ideas/${encodeURIComponent(ideaKey)}`)
+        const result = await response.json()
+
+        if (response.ok) {
+          setDetail(result.data)
+          setNotes(result.data.userState?.notes || '')
+          if (result.data.userState) recordView(ideaKey)
+        } else {
+          setError(result.error || 'Failed to fetch idea')
+        }
+      } catch {
+        setError('Network error occurred')
+      } finally {
+        setLoading(false)
+      }
+    }
+
+    fetchIdea()
+    // Re-fetch on sign in/out so the save state matches the session
+  }, [ideaKey, user?.id, recordView])
+
+  useEffect(() => {
+    const fetchPerformance = async () => {
+      try {
+        const response = await fetch(`/api/ideas/${encodeURIComponent(ideaKey)}/performance`)
+        const result = await response.json()
+
+        if (response.ok) {
+          setPerformance(result.data)
+        }
+      } catch (err) {
+        console.error('Failed to fetch idea performance:', err)
+      }
+    }
+
+    fetchPerformance()
+  }, [ideaKey])
+
+  const showMessage = (text: string, timeout: number = 3000) => {
+    setMessage(text)
+    setTimeout(() => setMessage(''), timeout)
+  }
+
+  const updateUserState = (updates: Partial<UserState>, countChanges: Partial<InteractionCounts> = {}) => {
+    setDetail(prev => {
+      if (!prev?.userState) return prev
+      const counts = { ...prev.counts }
+      for (const [type, change] of Object.entries(countChanges) as [keyof InteractionCounts, number][]) {
+        counts[type] = Math.max(0, counts[type] + change)
+      }
+      return { ...prev, counts, userState: { ...prev.userState, ...updates } }
+    })
+  }
+
+  const toggleSave = async () => {
+    if (!detail?.userState) return
+    setSaving(true)
+
+    try {
+      const response = detail.userState.saved
+        ? await fetch(`/api/ideas/saved?idea_key=${encodeURIComponent(ideaKey)}`, { method: 'DELETE' })
+        : await fetch('/api/ideas/saved', {
+            method: 'POST',
+            headers: {
+              'Content-Type': 'application/json',
+            },
+            body: JSON.stringify({ idea_key: ideaKey, notes: notes.trim() || undefined })
+          })
+
+      const result = await response.json()
+
+      if (response.ok) {
+        const saved = !detail.userState.saved
+        updateUserState({ saved, notes: saved ? notes.trim() || null : null }, { saved: saved ? 1 : -1 })
+        if (!saved) setNotes('')
+        showMessage(result.message || (saved ? 'Idea saved!' : 'Idea removed from saved!'))
+      } else {
+        showMessage(result.error || 'Failed to update saved idea', 5000)
+      }
+    } catch {
+      showMessage('Network error occurred', 5000)
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const saveNotes = async () => {
+    if (!detail?.userState?.saved) return
+    setSavingNotes(true)
+
+    try {
+      const response = await fetch('/api/ideas/saved', {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ idea_key: ideaKey, notes })
+      })
+
+      const result = await response.json()
+
+      if (response.ok) {
+        updateUserState({ notes: notes.trim() || null })
+        showMessage(result.message || 'Notes updated!')
+      } else {
+        showMessage(result.error || 'Failed to update notes', 5000)
+      }
+    } catch {
+      showMessage('Network error occurred', 5000)
+    } finally {
+      setSavingNotes(false)
+    }
+  }
+
+  const toggleLike = async () => {
+    if (!detail?.userState) return
+    setLiking(true)
+
+    try {
+      const response = await fetch('/api/ideas/interactions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ idea_key: ideaKey, interaction_type: 'liked', toggle: true })
+      })
+
+      const result = await response.json()
+
+      if (response.ok) {
+        const liked = result.data.active
+        updateUserState({ liked }, { liked: liked ? 1 : -1 })
+      } else {
+        showMessage(result.error || 'Failed to update like', 5000)
+      }
+    } catch {
+      showMessage('Network error occurred', 5000)
+    } finally {
+      setLiking(false)
+    }
+  }
+
+  const openTradeForm = async () => {
+    setShowTradeForm(true)
+
+    try {
+      const response = await fetch('/api/portfolio/transactions')
+      const result = await response.json()
+
+      if (response.ok && detail) {
+        // Only ledger entries for this idea's tickers can be linked
+        setTransactions((result.data || []).filter((transaction: PortfolioTransaction) =>
+          detail.idea.tickers.includes(transaction.ticker)
+        ))
+      }
+    } catch (err) {
+      console.error('Failed to fetch portfolio transactions:', err)
+    }
+  }
+
+  const markTraded = async () => {
+    setMarkingTraded(true)
+
+    try {
+      const response = await fetch('/api/ideas/interactions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          idea_key: ideaKey,
+          interaction_type: 'traded',
+          portfolio_transaction_id: selectedTransaction || null
+        })
+      })
+
+      const result = await response.json()
+
+      if (response.ok) {
+        updateUserState(
+          { traded: true, portfolio_transaction_id: selectedTransaction || null },
+          { traded: detail?.userState?.traded ? 0 : 1 }
+        )
+        setShowTradeForm(false)
+        showMessage(result.message || 'Idea marked as traded')
+      } else {
+        showMessage(result.error || 'Failed to mark idea as traded', 5000)
+      }
+    } catch {
+      showMessage('Network error occurred', 5000)
+    } finally {
+      setMarkingTraded(false)
+    }
+  }
+
+  const unmarkTraded = async () => {
+    setMarkingTraded(true)
+
+    try {
+      const response = await fetch(
+        `/api/ideas/interactions?idea_key=${encodeURIComponent(ideaKey)}&interaction_type=traded`,
+        { method: 'DELETE' }
+      )
+
+      const result = await response.json()
+
+      if (response.ok) {
+        updateUserState({ traded: false, portfolio_transaction_id: null }, { traded: -1 })
+        setSelectedTransaction('')
+        showMessage('Idea no longer marked as traded')
+      } else {
+        showMessage(result.error || 'Failed to update idea', 5000)
+      }
+    } catch {
+      showMessage('Network error occurred', 5000)
+    } finally {
+      setMarkingTraded(false)
+    }
+  }
+
+  const addToWatchlist = async (ticker: string) => {
+    setAddingToWatchlist(ticker)
+
+    try {
+      const response = await fetch('/api/watchlist', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ ticker })
+      })
+
+      const result = await response.json()
+
+      if (response.ok) {
+        showMessage(result.message || `${ticker} added to watchlist!`)
+      } else {
+        showMessage(result.error || 'Failed to add to watchlist', 5000)
+      }
+    } catch {
+      showMessage('Network error occurred', 5000)
+    } finally {
+      setAddingToWatchlist(null)
+    }
+  }
+
+  const copyShareLink = async () => {
+    if (!detail) return
+
+    try {
+      await navigator.clipboard.writeText(detail.shareUrl)
+      showMessage('Share link copied to clipboard!')
+    } catch {
+      showMessage(`Share link: ${detail.shareUrl}`, 8000)
+    }
+  }
+
+  const formatDate = (dateString: string) => {
+    return new Date(dateString).toLocaleString(undefined, {
+      dateStyle: 'medium',
+      timeStyle: 'short'
+    })
+  }
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      {/* Header */}
+      <header className="bg-white border-b border-gray-200">
+        <div className="container mx-auto px-4 py-4">
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-4">
+              <Link
+                href={user ? '/ideas' : '/'}
+                className="p-2 hover:bg-gray-100 rounded-lg transition-colors"
+              >
+                <ArrowLeft className="h-5 w-5 text-gray-600" />
+              </Link>
+              <h1 className="text-2xl font-bold text-gray-900">Trading Idea</h1>
+            </div>
+            {user && <UserMenu />}
+          </div>
+        </div>
+      </header>
+
+      <main className="container mx-auto px-4 py-8 max-w-4xl">
+        {message && (
+          <div className="mb-6 p-4 bg-green-50 border border-green-200 rounded-lg">
+            <p className="text-green-800 text-sm break-all">{message}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="bg-white rounded-xl p-8 border border-gray-200 animate-pulse">
+            <div className="h-8 bg-gray-200 rounded w-2/3 mb-6"></div>
+            <div className="h-4 bg-gray-200 rounded mb-2"></div>
+            <div className="h-4 bg-gray-200 rounded mb-2"></div>
+            <div className="h-4 bg-gray-200 rounded w-1/2"></div>
+          </div>
+        ) : error || !detail ? (
+          <div className="text-center py-12">
+            <div className="bg-white rounded-xl p-8 border border-gray-200 max-w-md mx-auto">
+              <p className="text-red-600 mb-2">Failed to load trading idea</p>
+              <p className="text-gray-500 text-sm">{error}</p>
+            </div>
+          </div>
+        ) : (
+          <>
+            <article className="bg-white rounded-xl p-8 border border-gray-200 mb-8">
+              <div className="flex items-start justify-between gap-4 mb-4">
+                <div className="flex items-center text-sm text-gray-500">
+                  <Clock className="h-4 w-4 mr-1" />
+                  {formatDate(detail.idea.created_at)}
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={toggleLike}
+                    disabled={!detail.userState || liking}
+                    className={`flex items-center gap-1 px-3 py-1.5 text-sm rounded-lg transition-colors ${
+                      detail.userState?.liked
+                        ? 'text-red-600 bg-red-50 hover:bg-red-100'
+                        : 'text-gray-600 hover:bg-gray-100'
+                    } disabled:cursor-default disabled:hover:bg-transparent`}
+                    title={detail.userState ? (detail.userState.liked ? 'Unlike' : 'Like') : 'Sign in to like ideas'}
+                  >
+                    <Heart className={`h-4 w-4 ${detail.userState?.liked ? 'fill-current' : ''}`} />
+                    {detail.counts.liked}
+                  </button>
+                  <button
+                    onClick={copyShareLink}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                    title="Copy share link"
+                  >
+                    <Link2 className="h-4 w-4" />
+                    Share
+                  </button>
+                  {detail.userState && (
+                    <button
+                      onClick={toggleSave}
+                      disabled={saving}
+                      className={`p-2 rounded-full transition-colors ${
+                        detail.userState.saved
+                          ? 'text-yellow-600 bg-yellow-50 hover:bg-yellow-100'
+                          : 'text-gray-400 hover:text-yellow-600 hover:bg-yellow-50'
+                      } disabled:opacity-50`}
+                      title={detail.userState.saved ? 'Remove from saved' : 'Save idea'}
+                    >
+                      {saving ? (
+                        <div className="h-5 w-5 border border-gray-300 border-t-yellow-600 rounded-full animate-spin"></div>
+                      ) : detail.userState.saved ? (
+                        <BookmarkCheck className="h-5 w-5" />
+                      ) : (
+                        <Bookmark className="h-5 w-5" />
+                      )}
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <h2 className="text-3xl font-bold text-gray-900 mb-4">{detail.idea.theme}</h2>
+
+              <div className="flex flex-wrap items-center gap-2 mb-6 text-sm">
+                <span className={`px-2 py-0.5 rounded-full font-medium capitalize ${directionStyles[detail.idea.direction]}`}>
+                  {detail.idea.direction}
+                </span>
+                {detail.idea.time_horizon && (
+                  <span className="px-2 py-0.5 rounded-full bg-blue-50 text-blue-700">
+                    {timeHorizonLabels[detail.idea.time_horizon]}
+                  </span>
+                )}
+                {detail.idea.conviction && (
+                  <span className="px-2 py-0.5 rounded-full bg-purple-50 text-purple-700 capitalize">
+                    {detail.idea.conviction} conviction
+                  </span>
+                )}
+              </div>
+
+              <p className="text-gray-700 whitespace-pre-line leading-relaxed mb-6">
+                {detail.idea.analysis}
+              </p>
+
+              {(detail.idea.entry_price !== null || detail.idea.target_price !== null || detail.idea.stop_price !== null) && (
+                <div className="grid grid-cols-3 gap-4 mb-6 p-4 bg-gray-50 rounded-lg">
+                  <div>
+                    <p className="text-sm text-gray-500">Entry</p>
+                    <p className="text-lg font-semibold text-gray-900">{detail.idea.entry_price !== null ? `$${detail.idea.entry_price}` : '—'}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-500">Target</p>
+                    <p className="text-lg font-semibold text-green-700">{detail.idea.target_price !== null ? `$${detail.idea.target_price}` : '—'}</p>
+                  </div>
+                  <div>
+                    <p className="text-sm text-gray-500">Stop</p>
+                    <p className="text-lg font-semibold text-red-700">{detail.idea.stop_price !== null ? `$${detail.idea.stop_price}` : '—'}</p>
+                  </div>
+                </div>
+              )}
+
+              {detail.idea.risk_notes && (
+                <p className="mb-6 text-sm text-amber-700 bg-amber-50 rounded-md px-3 py-2">
+                  Risk: {detail.idea.risk_notes}
+                </p>
+              )}
+
+              <div className="flex flex-wrap gap-2">
+                {detail.idea.tickers.map((ticker) => (
+                  <div key={ticker} className="flex items-center gap-1">
+                    <span className="px-2 py-1 bg-blue-100 text-blue-800 text-sm rounded-md font-medium">
+                      {ticker}
+                    </span>
+                    {user && (
+                      <button
+                        onClick={() => addToWatchlist(ticker)}
+                        disabled={addingToWatchlist === ticker}
+                        className="p-1 text-gray-400 hover:text-green-600 hover:bg-green-50 rounded-full transition-colors disabled:opacity-50"
+                        title={`Add ${ticker} to watchlist`}
+                      >
+                        {addingToWatchlist === ticker ? (
+                          <div className="h-3 w-3 border border-gray-300 border-t-green-600 rounded-full animate-spin"></div>
+                        ) : (
+                          <Plus className="h-3 w-3" />
+                        )}
+                      </button>
+                    )}
+                  </div>
+                ))}
+              </div>
+
+              {detail.userState && (
+                <div className="mt-8 pt-6 border-t border-gray-200">
+                  {detail.userState.traded ? (
+                    <div className="flex items-center justify-between gap-4">
+                      <div className="flex items-center gap-2 text-sm text-green-700">
+                        <CheckCircle className="h-4 w-4" />
+                        <span>
+                          You traded this idea
+                          {detail.userState.portfolio_transaction_id && (
+                            <> &middot; <Link href="/dashboard" className="underline hover:text-green-800">linked to your portfolio</Link></>
+                          )}
+                        </span>
+                      </div>
+                      <button
+                        onClick={unmarkTraded}
+                        disabled={markingTraded}
+                        className="text-sm text-gray-500 hover:text-gray-700 disabled:opacity-50"
+                      >
+                        Undo
+                      </button>
+                    </div>
+                  ) : showTradeForm ? (
+                    <div className="flex flex-col sm:flex-row sm:items-center gap-2">
+                      <select
+                        value={selectedTransaction}
+                        onChange={(e) => setSelectedTransaction(e.target.value)}
+                        className="flex-1 px-3 py-2 border border-gray-300 rounded-lg text-sm bg-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                      >
+                        <option value="">Don&apos;t link a portfolio entry</option>
+                        {transactions.map((transaction) => (
+                          <option key={transaction.id} value={transaction.id}>
+                            {transaction.side.toUpperCase()} {transaction.shares} {transaction.ticker} @ ${transaction.price} ({new Date(transaction.executed_at).toLocaleDateString()})
+                          </option>
+                        ))}
+                      </select>
+                      <div className="flex gap-2">
+                        <button
+                          onClick={() => setShowTradeForm(false)}
+                          className="px-4 py-2 text-sm text-gray-600 hover:bg-gray-100 rounded-lg transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          onClick={markTraded}
+                          disabled={markingTraded}
+                          className="px-4 py-2 text-sm bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors disabled:opacity-50"
+                        >
+                          {markingTraded ? 'Saving...' : 'Mark as traded'}
+                        </button>
+                      </div>
+                    </div>
+                  ) : (
+                    <button
+                      onClick={openTradeForm}
+                      className="flex items-center gap-2 text-sm text-green-700 hover:text-green-800"
+                    >
+                      <CheckCircle className="h-4 w-4" />
+                      I traded this idea
+                    </button>
+                  )}
+                  {detail.counts.traded > 0 && (
+                    <p className="mt-2 text-xs text-gray-500">
+                      {detail.counts.traded} trader{detail.counts.traded !== 1 ? 's' : ''} acted on this idea
+                    </p>
+                  )}
+                </div>
+              )}
+
+              {detail.userState?.saved && (
+                <div className="mt-8 pt-6 border-t border-gray-200">
+                  <label htmlFor="idea-notes" className="block text-sm font-medium text-gray-700 mb-2">
+                    Your notes
+                  </label>
+                  <textarea
+                    id="idea-notes"
+                    value={notes}
+                    onChange={(e) => setNotes(e.target.value)}
+                    rows={3}
+                    placeholder="Why you saved this idea, levels to watch..."
+                    className="w-full px-3 py-2 border border-gray-300 rounded-lg text-sm focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  />
+                  <div className="flex justify-end mt-2">
+                    <button
+                      onClick={saveNotes}
+                      disabled={savingNotes || notes.trim() === (detail.userState.notes || '')}
+                      className="px-4 py-2 text-sm bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    >
+                      {savingNotes ? 'Saving...' : 'Save notes'}
+                    </button>
+                  </div>
+                </div>
+              )}
+            </article>
+
+            {performance && performance.reference.length > 0 && (
+              <section className="mb-8">
+                <h3 className="text-lg font-semibold text-gray-900 mb-4">Performance since publication</h3>
+                <div className="bg-white rounded-xl p-6 border border-gray-200">
+                  <div className="grid grid-cols-3 gap-4 mb-4">
+                    {performance.horizons.map((result) => (
+                      <div key={result.horizon}>
+                        <p className="text-xs text-gray-500 mb-1">{performanceHorizonLabels[result.horizon]}</p>
+                        {result.status === 'complete' && result.ideaReturn !== null && result.excessReturn !== null ? (
+                          <>
+                            <p className={`text-xl font-semibold ${result.ideaReturn >= 0 ? 'text-green-600' : 'text-red-600'}`}>
+                              {formatPercent(result.ideaReturn)}
+                            </p>
+                            <p className="text-xs text-gray-500">
+                              {formatPercent(result.excessReturn)} vs {performance.benchmark}
+                            </p>
+                          </>
+                        ) : (
+                          <p className="text-sm text-gray-400">
+                            {result.status === 'pending' ? `After ${new Date(result.targetDate).toLocaleDateString()}` : 'No price data'}
+                          </p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                  <p className="text-xs text-gray-500">
+                    Reference closes: {performance.reference.map((entry) => `${entry.ticker} $${entry.close.toFixed(2)}`).join(', ')}
+                    {detail.idea.direction === 'short' && ' · returns are shown for the short side'}
+                  </p>
+                </div>
+              </section>
+            )}
+
+            <section>
+              <h3 className="text-lg font-semibold text-gray-900 mb-4">Related ideas</h3>
+              {detail.related.length === 0 ? (
+                <p className="text-sm text-gray-500">No other ideas mention these tickers yet.</p>
+              ) : (
+                <div className="grid md:grid-cols-2 gap-4">
+                  {detail.related.map((related) => (
+                    <Link
+                      key={related.key}
+                      href={`/ideas/${related.key}`}
+                      className="block bg-white rounded-xl p-5 border border-gray-200 hover:shadow-lg transition-shadow"
+                    >
+                      <div className="flex items-start justify-between mb-2">
+                        <h4 className="font-medium text-gray-900 line-clamp-2">{related.theme}</h4>
+                        <TrendingUp className="h-4 w-4 text-green-500 flex-shrink-0 ml-2" />
+                      </div>
+                      <p className="text-sm text-gray-600 line-clamp-2 mb-3">{related.analysis}</p>
+                      <div className="flex flex-wrap gap-1">
+                        {related.tickers.map((ticker) => (
+                          <span
+                            key={ticker}
+                            className={`px-2 py-0.5 text-xs rounded-md font-medium ${
+                              detail.idea.tickers.includes(ticker)
+                                ? 'bg-blue-100 text-blue-800'
+                                : 'bg-gray-100 text-gray-600'
+                            }`}
+                          >
+                            {ticker}
+                          </span>
+                        ))}
+                      </div>
+                    </Link>
+                  ))}
+                </div>
+              )}
+            </section>
+          </>
+        )}
+      </main>
+    </div>
+  )
+}
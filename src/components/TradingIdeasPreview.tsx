@@ -4,11 +4,11 @@ import { useState, useEffect } from 'react'
 import { TrendingUp, Clock, ArrowRight } from 'lucide-react'
 
 interface TradingIdea {
-  id: number
+  key: string
   created_at: string
   theme: string
   analysis: string
-  tickers: string
+  tickers: string[]
 }
 
 export default function TradingIdeasPreview() {
@@ -100,7 +100,7 @@ export default function TradingIdeasPreview() {
         
         <div className="grid md:grid-cols-3 gap-6 mb-8">
           {ideas.map((idea) => (
-            <div key={idea.id} className="bg-white rounded-xl p-6 border border-gray-200 hover:shadow-lg transition-shadow">
+            <div key={idea.key} className="bg-white rounded-xl p-6 border border-gray-200 hover:shadow-lg transition-shadow">
               <div className="flex items-start justify-between mb-4">
                 <div className="flex items-center text-sm text-gray-500">
                   <Clock className="h-4 w-4 mr-1" />
@@ -119,17 +119,17 @@ export default function TradingIdeasPreview() {
               
               <div className="flex items-center justify-between">
                 <div className="flex flex-wrap gap-1">
-                  {idea.tickers.split(',').slice(0, 3).map((ticker, index) => (
+                  {idea.tickers.slice(0, 3).map((ticker) => (
                     <span 
-                      key={index}
+                      key={ticker}
                       className="px-2 py-1 bg-blue-100 text-blue-800 text-xs rounded-md font-medium"
                     >
-                      {ticker.trim()}
+                      {ticker}
                     </span>
                   ))}
-                  {idea.tickers.split(',').length > 3 && (
+                  {idea.tickers.length > 3 && (
                     <span className="px-2 py-1 bg-gray-100 text-gray-600 text-xs rounded-md">
-                      +{idea.tickers.split(',').length - 3} more
+                      +{idea.tickers.length - 3} more
                     </span>
                   )}
                 </div>
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef } from 'react'
+import { useAuth } from '@/contexts/AuthContext'
+
+// Views already sent this session; the API is idempotent, this only saves requests
+const recordedViews = new Set<string>()
+
+// Records a 'viewed' interaction once an idea card is mostly on screen. Attach
+// observeIdea as the ref of any element carrying a data-idea-key attribute.
+export function useIdeaViewTracking(onViewRecorded?: (ideaKey: string) => void) {
+  const { user } = useAuth()
+  const observerRef = useRef<IntersectionObserver | null>(null)
+  const callbackRef = useRef(onViewRecorded)
+  callbackRef.current = onViewRecorded
+
+  const recordView = useCallback(async (ideaKey: string) => {
+    if (!user || recordedViews.has(ideaKey)) return
+    recordedViews.add(ideaKey)
+
+    try {
+      const response = await fetch('/api/ideas/interactions', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ idea_key: ideaKey, interaction_type: 'viewed' })
+      })
+
+      // 201 means this is the first time the user has seen the idea
+      if (response.status === 201) {
+        callbackRef.current?.(ideaKey)
+      } else if (!response.ok) {
+        recordedViews.delete(ideaKey)
+      }
+    } catch (error) {
+      recordedViews.delete(ideaKey)
+      console.error('Failed to record idea view:', error)
+    }
+  }, [user])
+
+  const recordViewRef = useRef(recordView)
+  recordViewRef.current = recordView
+
+  // Created lazily: ref callbacks run before effects on the first render
+  const observeIdea = useCallback((element: HTMLElement | null) => {
+    if (!element || typeof IntersectionObserver === 'undefined') return
+
+    if (!observerRef.current) {
+      observerRef.current = new IntersectionObserver((entries) => {
+        for (const entry of entries) {
+          const ideaKey = (entry.target as HTMLElement).dataset.ideaKey
+          if (!entry.isIntersecting || !ideaKey) continue
+
+          recordViewRef.current(ideaKey)
+          if (recordedViews.has(ideaKey)) observerRef.current?.unobserve(entry.target)
+        }
+      }, { threshold: 0.6 })
+    }
+
+    observerRef.current.observe(element)
+  }, [])
+
+  useEffect(() => {
+    return () => {
+      observerRef.current?.disconnect()
+      observerRef.current = null
+    }
+  }, [])
+
+  return { recordView, observeIdea }
+}
@@ -0,0 +1,196 @@
+/**
+ * User Activity Stream
+ *
+ * Serves GET /api/activity. Rows in user_activity are written by database triggers
+ * (saves, watchlist changes, portfolio changes, profile edits) and by the chat route
+ * (chat sessions); they only carry the facts of what happened. Titles and deep links
+ * are built here at read time so copy and routes can change without rewriting history.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { ActivityItem, ActivityPage, ActivityType, StructuredTradingIdea } from '@/types/api'
+import { Database } from '@/types/database'
+import { findIdeasByKeys, isMissingTableError } from '@/lib/ideas-repository'
+
+type ActivityRow = Database['public']['Tables']['user_activity']['Row']
+
+export interface ActivityCursor {
+  created_at: string
+  id: string
+}
+
+export const DEFAULT_ACTIVITY_PAGE_SIZE = 20
+export const MAX_ACTIVITY_PAGE_SIZE = 50
+
+// Cursor ids go into a PostgREST filter, so anything but a UUID is rejected
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const PROFILE_FIELD_LABELS: Record<string, string> = {
+  first_name: 'first name',
+  last_name: 'last name',
+  display_name: 'display name',
+  avatar_url: 'avatar',
+  is_newsletter_subscribed: 'newsletter subscription',
+  preferences: 'notification preferences'
+}
+
+export function encodeActivityCursor(row: ActivityCursor): string {
+  return Buffer.from(JSON.stringify({ created_at: row.created_at, id: row.id })).toString('base64url')
+}
+
+export function decodeActivityCursor(cursor: string): ActivityCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (typeof parsed?.created_at !== 'string' || typeof parsed?.id !== 'string') return null
+    if (isNaN(new Date(parsed.created_at).getTime())) return null
+    if (!UUID_PATTERN.test(parsed.id)) return null
+    return { created_at: parsed.created_at, id: parsed.id }
+  } catch {
+    return null
+  }
+}
+
+function text(value: unknown): string {
+  return typeof value === 'string' ? value : ''
+}
+
+function formatShares(value: unknown): string {
+  const shares = Number(value)
+  return isNaN(shares) ? '' : shares.toLocaleString(undefined, { maximumFractionDigits: 6 })
+}
+
+function describeActivity(row: ActivityRow, ideas: Map<string, StructuredTradingIdea>): ActivityItem {
+  const metadata = row.metadata || {}
+  const base = { id: row.id, type: row.activity_type as ActivityType, created_at: row.created_at, metadata }
+
+  switch (row.activity_type) {
+    case 'idea_saved': {
+      const key = text(metadata.idea_key)
+      const idea = ideas.get(key)
+      return {
+        ...base,
+        title: idea ? `Saved "${idea.theme}"` : 'Saved an idea',
+        description: idea && idea.tickers.length > 0 ? idea.tickers.join(', ') : null,
+        link: `/ideas/${encodeURIComponent(key)}`
+      }
+    }
+    case 'watchlist_added':
+    case 'watchlist_removed': {
+      const verb = row.activity_type === 'watchlist_added' ? 'Added' : 'Removed'
+      const preposition = row.activity_type === 'watchlist_added' ? 'to' : 'from'
+      return {
+        ...base,
+        title: `${verb} ${text(metadata.ticker)} ${preposition} ${text(metadata.watchlist_name) || 'watchlist'}`,
+        description: null,
+        link: '/dashboard?panel=watchlist'
+      }
+    }
+    case 'chat_session': {
+      const ideaKey = text(metadata.idea_key)
+      const conversationId = text(metadata.conversation_id)
+      return {
+        ...base,
+        title: text(metadata.idea_theme) ? `Discussed "${text(metadata.idea_theme)}" with AI` : 'Started a chat with AI',
+        description: text(metadata.preview) || null,
+        // Sessions recorded before conversations were stored link to the idea instead
+        link: conversationId
+          ? `/dashboard?panel=conversations&conversation=${encodeURIComponent(conversationId)}`
+          : ideaKey ? `/ideas/${encodeURIComponent(ideaKey)}` : '/dashboard'
+      }
+    }
+    case 'portfolio_transaction': {
+      const side = text(metadata.side) === 'sell' ? 'Sold' : 'Bought'
+      const price = Number(metadata.price)
+      return {
+        ...base,
+        title: `${side} ${formatShares(metadata.shares)} ${text(metadata.ticker)}`,
+        description: isNaN(price) ? null : `at $${price.toLocaleString(undefined, { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`,
+        link: '/dashboard?panel=stats'
+      }
+    }
+    case 'portfolio_position': {
+      const action = text(metadata.action)
+      const verb = action === 'removed' ? 'Removed' : action === 'updated' ? 'Updated' : 'Added'
+      return {
+        ...base,
+        title: `${verb} ${text(metadata.ticker)} position`,
+        description: action === 'removed' ? null : `${formatShares(metadata.shares)} shares`,
+        link: '/dashboard?panel=stats'
+      }
+    }
+    case 'profile_updated': {
+      const fields = Array.isArray(metadata.fields) ? (metadata.fields as string[]) : []
+      return {
+        ...base,
+        title: 'Updated profile',
+        description: fields.length > 0 ? `Changed ${fields.map(field => PROFILE_FIELD_LABELS[field] || field).join(', ')}` : null,
+        link: '/settings'
+      }
+    }
+    default:
+      return { ...base, title: 'Activity', description: null, link: '/dashboard' }
+  }
+}
+
+// Newest-first page of the user's activity. Rows sharing a timestamp are ordered by id
+// so the cursor never skips or repeats them.
+export async function listActivity(
+  supabase: SupabaseClient,
+  userId: string,
+  { limit, cursor }: { limit: number; cursor: ActivityCursor | null }
+): Promise<ActivityPage> {
+  let query = supabase
+    .from('user_activity')
+    .select('id, user_id, activity_type, metadata, created_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit + 1)
+
+  if (cursor) {
+    // Timestamps are quoted because they contain characters PostgREST treats as syntax
+    const createdAt = `"${cursor.created_at}"`
+    query = query.or(`created_at.lt.${createdAt},and(created_at.eq.${createdAt},id.lt.${cursor.id})`)
+  }
+
+  const { data, error } = await query
+
+  if (error) {
+    if (isMissingTableError(error)) {
+      console.warn('user_activity table not found, returning empty activity')
+      return { items: [], nextCursor: null }
+    }
+    throw new Error(`Database error fetching activity: ${error.message}`)
+  }
+
+  const rows = (data || []) as ActivityRow[]
+  const page = rows.slice(0, limit)
+
+  const ideaKeys = page
+    .filter(row => row.activity_type === 'idea_saved')
+    .map(row => text(row.metadata?.idea_key))
+    .filter(Boolean)
+  const ideas = ideaKeys.length > 0 ? await findIdeasByKeys(supabase, ideaKeys) : new Map<string, StructuredTradingIdea>()
+
+  return {
+    items: page.map(row => describeActivity(row, ideas)),
+    nextCursor: rows.length > limit ? encodeActivityCursor(page[page.length - 1]) : null
+  }
+}
+
+// Records activity that no table trigger captures. Failures are logged, never thrown:
+// the activity stream must not break the action it describes.
+export async function recordActivity(
+  supabase: SupabaseClient,
+  userId: string,
+  type: ActivityType,
+  metadata: Record<string, unknown> = {}
+): Promise<void> {
+  const { error } = await supabase
+    .from('user_activity')
+    .insert([{ user_id: userId, activity_type: type, metadata }])
+
+  if (error) {
+    console.error(`Failed to record ${type} activity:`, error.message)
+  }
+}
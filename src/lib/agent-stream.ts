@@ -0,0 +1,153 @@
+/**
+ * Agent Streaming
+ *
+ * Reads research agent replies as text deltas, whether the agent streams them
+ * (server-sent events, newline-delimited JSON or chunked plain text) or answers with a
+ * single JSON or text body, and encodes the chat route's own server-sent events.
+ */
+
+import { ChatReply, ChatStreamPart } from '@/lib/chat-providers'
+import { normalizeConfidence, normalizeSources } from '@/lib/chat-sources'
+import { normalizeUsage } from '@/lib/chat-usage'
+import { ChatReplyMessage, ToolTraceEntry } from '@/types/api'
+
+export type ChatStreamEvent =
+  | { event: 'conversation'; data: { id: string; title: string } }
+  | { event: 'tool_call'; data: Pick<ToolTraceEntry, 'id' | 'name' | 'arguments'> }
+  | { event: 'tool_result'; data: ToolTraceEntry }
+  | { event: 'delta'; data: { content: string } }
+  | {
+      event: 'done'
+      data: { message: ChatReplyMessage; model: string; conversationId: string }
+    }
+  | { event: 'error'; data: { error: string; code: string } }
+
+// Formats the agent may stream in, most preferred first
+export const AGENT_STREAM_ACCEPT = 'text/event-stream, application/x-ndjson, application/json;q=0.9, text/plain;q=0.8'
+
+export const SSE_HEADERS = {
+  'Content-Type': 'text/event-stream; charset=utf-8',
+  'Cache-Control': 'no-cache, no-transform',
+  Connection: 'keep-alive',
+  // Stops nginx-style proxies from buffering the whole reply
+  'X-Accel-Buffering': 'no'
+}
+
+export function encodeStreamEvent({ event, data }: ChatStreamEvent): string {
+  return `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`
+}
+
+// Text of a complete agent reply; n8n workflows differ in which field they answer with
+export function extractAgentContent(payload: unknown): string {
+  if (typeof payload === 'string') return payload
+  if (!payload || typeof payload !== 'object') return ''
+
+  const reply = payload as Record<string, unknown>
+  const text = reply.response || reply.content || reply.message || reply.output
+  return typeof text === 'string' ? text : JSON.stringify(payload)
+}
+
+// Text, sources, confidence and token usage of a complete agent reply (an
+// N8NAgentResponse when the workflow follows it)
+export function extractAgentReply(payload: unknown): ChatReply {
+  const reply = payload && typeof payload === 'object' ? payload as Record<string, unknown> : {}
+  return {
+    content: extractAgentContent(payload),
+    sources: normalizeSources(reply.sources),
+    confidence: normalizeConfidence(reply.confidence),
+    usage: normalizeUsage(reply.usage)
+  }
+}
+
+// Text of one streamed chunk: n8n streaming items ({ type: 'item', content }),
+// OpenAI-style deltas ({ choices: [{ delta: { content } }] }) or { delta | content | text | token }
+function chunkText(payload: unknown): string {
+  if (typeof payload === 'string') return payload
+  if (!payload || typeof payload !== 'object') return ''
+
+  const chunk = payload as Record<string, unknown>
+  if (chunk.type === 'error') {
+    throw new Error(`Agent stream error: ${typeof chunk.content === 'string' ? chunk.content : 'unknown error'}`)
+  }
+  if (chunk.type === 'begin' || chunk.type === 'end') return ''
+
+  const choices = Array.isArray(chunk.choices) ? chunk.choices as { delta?: { content?: unknown } }[] : null
+  const text = choices
+    ? choices[0]?.delta?.content
+    : chunk.delta ?? chunk.content ?? chunk.text ?? chunk.token ?? chunk.response ?? chunk.output
+
+  return typeof text === 'string' ? text : ''
+}
+
+function parseChunk(raw: string): string {
+  try {
+    return chunkText(JSON.parse(raw))
+  } catch (error) {
+    if (error instanceof SyntaxError) return raw
+    throw error
+  }
+}
+
+// Data of one server-sent event block; null for the end-of-stream marker
+function sseBlockText(block: string): string | null {
+  const data = block
+    .split(/\r?\n/)
+    .filter(line => line.startsWith('data:'))
+    .map(line => line.slice(5).replace(/^ /, ''))
+    .join('\n')
+
+  if (data === '[DONE]') return null
+  return data ? parseChunk(data) : ''
+}
+
+// Yields the reply text as it arrives. Single-shot JSON replies yield their text once,
+// followed by their sources and confidence.
+export async function* readAgentDeltas(response: Response): AsyncGenerator<ChatStreamPart> {
+  const contentType = response.headers.get('content-type') || ''
+
+  if (contentType.includes('application/json')) {
+    const { content, ...details } = extractAgentReply(await response.json())
+    if (content) yield content
+    yield details
+    return
+  }
+
+  if (!response.body) return
+
+  const isSse = contentType.includes('text/event-stream')
+  const isNdjson = contentType.includes('ndjson') || contentType.includes('jsonl')
+  const separator = isSse ? /\r?\n\r?\n/ : /\r?\n/
+  const parse = (part: string) => isSse ? sseBlockText(part) : part.trim() ? parseChunk(part) : ''
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read()
+      const chunk = done ? decoder.decode() : decoder.decode(value, { stream: true })
+
+      // Plain text is streamed through as it arrives
+      if (!isSse && !isNdjson) {
+        if (chunk) yield chunk
+        if (done) return
+        continue
+      }
+
+      buffer += chunk
+      const parts = buffer.split(separator)
+      buffer = done ? '' : parts.pop() || ''
+
+      for (const part of parts) {
+        const text = parse(part)
+        if (text === null) return
+        if (text) yield text
+      }
+
+      if (done) return
+    }
+  } finally {
+    reader.releaseLock()
+  }
+}
@@ -0,0 +1,54 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { config } from '@/lib/config'
+import { getQuoteProvider } from '@/lib/quotes'
+import { getSearchProvider } from '@/lib/search'
+import { AgentTool, AgentToolContext, ToolTraceEntry } from './types'
+import { newsSearchTool, webSearchTool } from './search-tools'
+import { quotesTool } from './market-tools'
+import { portfolioTool, savedIdeasTool, watchlistsTool } from './user-tools'
+
+export type { AgentTool, AgentToolContext, ToolTraceEntry } from './types'
+
+// Tools offered to the research agent
+export const AGENT_TOOLS: AgentTool[] = [
+  webSearchTool,
+  newsSearchTool,
+  quotesTool,
+  watchlistsTool,
+  portfolioTool,
+  savedIdeasTool
+]
+
+// Tools backed by the configured providers. Search is resolved on first use, so a
+// missing SERPAPI_API_KEY fails the search tools rather than every question.
+export function createToolContext(supabase: SupabaseClient, userId: string): AgentToolContext {
+  return {
+    supabase,
+    userId,
+    search: {
+      name: config.search.provider,
+      search: (query, options) => getSearchProvider().search(query, options)
+    },
+    quotes: getQuoteProvider()
+  }
+}
+
+// Runs one call the model asked for. Failures, including unknown tools, are recorded in
+// the trace and reported back to the model instead of ending the turn.
+export async function runToolCall(
+  call: { id: string; name: string; arguments: Record<string, unknown> },
+  context: AgentToolContext,
+  tools: AgentTool[] = AGENT_TOOLS
+): Promise<ToolTraceEntry> {
+  const started = Date.now()
+  const tool = tools.find(candidate => candidate.name === call.name)
+
+  try {
+    if (!tool) throw new Error(`Unknown tool "${call.name}"`)
+    const result = await tool.run(call.arguments, context)
+    return { ...call, result, durationMs: Date.now() - started }
+  } catch (error) {
+    console.error(`Agent tool "${call.name}" failed:`, error)
+    return { ...call, error: error instanceof Error ? error.message : String(error), durationMs: Date.now() - started }
+  }
+}
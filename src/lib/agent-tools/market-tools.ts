@@ -0,0 +1,29 @@
+import { findSymbol, isValidSymbol, normalizeSymbol } from '@/lib/symbols'
+import { AgentTool } from './types'
+
+const MAX_QUOTE_TICKERS = 20
+
+export const quotesTool: AgentTool = {
+  name: 'get_quotes',
+  description: 'Latest price, daily change and volume for up to 20 ticker symbols.',
+  parameters: {
+    type: 'object',
+    properties: {
+      tickers: { type: 'array', items: { type: 'string' }, maxItems: MAX_QUOTE_TICKERS, description: 'Ticker symbols, e.g. ["AAPL", "BRK.B"]' }
+    },
+    required: ['tickers']
+  },
+  async run(args, { quotes }) {
+    const requested = Array.isArray(args.tickers) ? args.tickers.filter((ticker): ticker is string => typeof ticker === 'string') : []
+    const tickers = Array.from(new Set(requested.map(normalizeSymbol))).filter(isValidSymbol).slice(0, MAX_QUOTE_TICKERS)
+    if (tickers.length === 0) throw new Error('tickers must list at least one valid symbol')
+
+    const found = await quotes.getQuotes(tickers)
+    return {
+      provider: quotes.name,
+      quotes: tickers.map(ticker => found[ticker]
+        ? { ...found[ticker], name: findSymbol(ticker)?.name || null }
+        : { ticker, error: 'No quote available' })
+    }
+  }
+}
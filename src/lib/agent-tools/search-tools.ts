@@ -0,0 +1,39 @@
+import { SearchKind } from '@/lib/search'
+import { AgentTool } from './types'
+
+const DEFAULT_RESULTS = 5
+const MAX_RESULTS = 10
+
+function searchTool(kind: SearchKind, name: string, description: string): AgentTool {
+  return {
+    name,
+    description,
+    parameters: {
+      type: 'object',
+      properties: {
+        query: { type: 'string', description: 'Search query' },
+        limit: { type: 'integer', minimum: 1, maximum: MAX_RESULTS, description: `Number of results (default ${DEFAULT_RESULTS})` }
+      },
+      required: ['query']
+    },
+    async run(args, { search }) {
+      const query = typeof args.query === 'string' ? args.query.trim() : ''
+      if (!query) throw new Error('query is required')
+
+      const limit = typeof args.limit === 'number' ? Math.min(Math.max(Math.floor(args.limit), 1), MAX_RESULTS) : DEFAULT_RESULTS
+      return { query, results: await search.search(query, { kind, limit }) }
+    }
+  }
+}
+
+export const webSearchTool = searchTool(
+  'web',
+  'web_search',
+  'Search the web. Use for company background, filings, analyst commentary and anything not covered by the other tools.'
+)
+
+export const newsSearchTool = searchTool(
+  'news',
+  'news_search',
+  'Search recent news articles. Use for what moved a stock, upcoming events and current market themes.'
+)
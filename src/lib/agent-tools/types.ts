@@ -0,0 +1,28 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { QuoteProvider } from '@/lib/quotes'
+import { SearchProvider } from '@/lib/search'
+
+// What tools may use while answering one user's question. Providers are injected so
+// every tool can run against mocks offline.
+export interface AgentToolContext {
+  supabase: SupabaseClient
+  userId: string
+  search: SearchProvider
+  quotes: QuoteProvider
+}
+
+export interface AgentTool {
+  name: string
+  // Shown to the model when it decides which tool to call
+  description: string
+  // JSON Schema of the arguments object
+  parameters: {
+    type: 'object'
+    properties: Record<string, unknown>
+    required?: string[]
+  }
+  run(args: Record<string, unknown>, context: AgentToolContext): Promise<unknown>
+}
+
+// One tool call as shown to the user next to the answer
+export type { ToolTraceEntry } from '@/types/api'
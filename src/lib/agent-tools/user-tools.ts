@@ -0,0 +1,95 @@
+import { listWatchlists } from '@/lib/watchlists'
+import { summarizePortfolio } from '@/lib/portfolio-ledger'
+import { findIdeasByKeys } from '@/lib/ideas-repository'
+import { Quote } from '@/lib/quotes'
+import { PortfolioTransaction } from '@/types/user'
+import { AgentTool } from './types'
+
+const MAX_SAVED_IDEAS = 20
+
+export const watchlistsTool: AgentTool = {
+  name: 'get_watchlists',
+  description: "The user's watchlists with their tickers and the user's notes on each ticker.",
+  parameters: { type: 'object', properties: {} },
+  async run(_args, { supabase, userId }) {
+    const watchlists = await listWatchlists(supabase, userId)
+    return watchlists.map(watchlist => ({
+      name: watchlist.name,
+      is_default: watchlist.is_default,
+      items: watchlist.items.map(item => ({ ticker: item.ticker, notes: item.notes }))
+    }))
+  }
+}
+
+export const portfolioTool: AgentTool = {
+  name: 'get_portfolio',
+  description: "The user's open positions with cost basis, market value and gains, from their transaction ledger.",
+  parameters: { type: 'object', properties: {} },
+  async run(_args, { supabase, userId, quotes }) {
+    const { data, error } = await supabase
+      .from('portfolio_transactions')
+      .select('ticker, side, shares, price, fees, executed_at')
+      .eq('user_id', userId)
+
+    if (error) {
+      throw new Error(`Database error fetching portfolio ledger: ${error.message}`)
+    }
+
+    const transactions = (data || []) as PortfolioTransaction[]
+    const tickers = Array.from(new Set(transactions.map(tx => tx.ticker.toUpperCase())))
+
+    let prices: Record<string, Quote> = {}
+    try {
+      prices = tickers.length > 0 ? await quotes.getQuotes(tickers) : {}
+    } catch (quoteError) {
+      // Cost basis is still useful without market prices
+      console.error(`Quote provider "${quotes.name}" failed:`, quoteError)
+    }
+
+    const summary = summarizePortfolio(transactions, prices)
+    return {
+      totals: summary.totals,
+      positions: summary.positions.map(({ lots, ...position }) => ({ ...position, openLots: lots.length })),
+      unpricedTickers: summary.unpricedTickers
+    }
+  }
+}
+
+export const savedIdeasTool: AgentTool = {
+  name: 'get_saved_ideas',
+  description: 'Trading ideas the user saved, newest first, with their tickers, direction and analysis.',
+  parameters: { type: 'object', properties: {} },
+  async run(_args, { supabase, userId }) {
+    const { data, error } = await supabase
+      .from('user_idea_interactions')
+      .select('idea_key, notes, created_at')
+      .eq('user_id', userId)
+      .eq('interaction_type', 'saved')
+      .order('created_at', { ascending: false })
+      .limit(MAX_SAVED_IDEAS)
+
+    if (error) {
+      throw new Error(`Database error fetching saved ideas: ${error.message}`)
+    }
+
+    const interactions = (data || []) as { idea_key: string | null; notes: string | null; created_at: string }[]
+    const ideas = await findIdeasByKeys(
+      supabase,
+      interactions.map(interaction => interaction.idea_key).filter((key): key is string => !!key)
+    )
+
+    return interactions.flatMap(interaction => {
+      const idea = interaction.idea_key ? ideas.get(interaction.idea_key) : undefined
+      if (!idea) return []
+      return [{
+        key: idea.key,
+        theme: idea.theme,
+        tickers: idea.tickers,
+        direction: idea.direction,
+        analysis: idea.analysis,
+        notes: interaction.notes,
+        saved_at: interaction.created_at
+      }]
+    })
+  }
+}
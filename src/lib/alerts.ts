@@ -0,0 +1,304 @@
+/**
+ * Watchlist Alerts
+ *
+ * Users set alerts on tickers: price above/below a level, a daily move of at least
+ * some percent, or a new idea mentioning the ticker. evaluateAlerts runs from
+ * POST /api/alerts/evaluate on a schedule and turns every alert that fired into a
+ * notification. Price levels fire once and switch themselves off; percent moves fire
+ * at most once per trading day; idea mentions fire once per new idea.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { CreateAlertRequest, UpdateAlertRequest, isValidAlertThreshold } from '@/lib/api-helpers'
+import { QuoteProvider, Quote } from '@/lib/quotes'
+import { NotificationDraft, NotificationSender, deliverNotifications } from '@/lib/notifications'
+import { loadIdeas } from '@/lib/ideas-repository'
+import { normalizeSymbol } from '@/lib/symbols'
+import { fetchAllRows } from '@/lib/paged-reads'
+import { StructuredTradingIdea } from '@/types/api'
+import { Database } from '@/types/database'
+import { WatchlistAlert } from '@/types/user'
+
+export const ALERT_COLUMNS =
+  'id, user_id, ticker, alert_type, threshold, is_active, last_triggered_at, last_evaluated_at, created_at, updated_at'
+
+export const MAX_ALERTS_PER_USER = 100
+
+export type AlertWriteResult =
+  | { type: 'ok'; alert: WatchlistAlert }
+  | { type: 'not_found' }
+  | { type: 'limit_reached' }
+  | { type: 'invalid_threshold' }
+
+export interface TriggeredAlert {
+  alert: WatchlistAlert
+  notification: NotificationDraft
+}
+
+export interface EvaluateAlertsResult {
+  alertsEvaluated: number
+  triggered: TriggeredAlert[]
+  notificationsSent: number
+  // Set when the quote provider failed; price alerts are retried on the next run
+  quoteError?: string
+}
+
+function formatPrice(value: number): string {
+  return `$${value.toFixed(2)}`
+}
+
+function formatPercent(value: number): string {
+  return `${value >= 0 ? '+' : ''}${value.toFixed(2)}%`
+}
+
+export function describeAlert(alert: Pick<WatchlistAlert, 'ticker' | 'alert_type' | 'threshold'>): string {
+  switch (alert.alert_type) {
+    case 'price_above':
+      return `${alert.ticker} at or above ${formatPrice(Number(alert.threshold))}`
+    case 'price_below':
+      return `${alert.ticker} at or below ${formatPrice(Number(alert.threshold))}`
+    case 'percent_move':
+      return `${alert.ticker} moves ${Number(alert.threshold)}% in a day`
+    case 'idea_mention':
+      return `New idea mentioning ${alert.ticker}`
+  }
+}
+
+export async function listAlerts(
+  supabase: SupabaseClient,
+  userId: string,
+  { ticker }: { ticker?: string | null } = {}
+): Promise<WatchlistAlert[]> {
+  let query = supabase
+    .from('watchlist_alerts')
+    .select(ALERT_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: true })
+  if (ticker) query = query.eq('ticker', normalizeSymbol(ticker))
+
+  const { data, error } = await query
+
+  if (error) {
+    throw new Error(`Database error fetching alerts: ${error.message}`)
+  }
+
+  return (data || []) as WatchlistAlert[]
+}
+
+export async function createAlert(
+  supabase: SupabaseClient,
+  userId: string,
+  request: CreateAlertRequest
+): Promise<AlertWriteResult> {
+  const { count, error: countError } = await supabase
+    .from('watchlist_alerts')
+    .select('id', { count: 'exact', head: true })
+    .eq('user_id', userId)
+
+  if (countError) {
+    throw new Error(`Database error counting alerts: ${countError.message}`)
+  }
+
+  if ((count || 0) >= MAX_ALERTS_PER_USER) return { type: 'limit_reached' }
+
+  const { data, error } = await supabase
+    .from('watchlist_alerts')
+    .insert([
+      {
+        user_id: userId,
+        ticker: normalizeSymbol(request.ticker),
+        alert_type: request.alert_type,
+        threshold: request.alert_type === 'idea_mention' ? null : request.threshold,
+        // Idea alerts start from now rather than reporting every past mention
+        last_evaluated_at: request.alert_type === 'idea_mention' ? new Date().toISOString() : null
+      }
+    ])
+    .select(ALERT_COLUMNS)
+    .single()
+
+  if (error) {
+    throw new Error(`Database error creating alert: ${error.message}`)
+  }
+
+  return { type: 'ok', alert: data as WatchlistAlert }
+}
+
+// Re-activating a price alert that already fired arms it again
+export async function updateAlert(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  updates: UpdateAlertRequest
+): Promise<AlertWriteResult> {
+  const { data: existing, error: fetchError } = await supabase
+    .from('watchlist_alerts')
+    .select('alert_type')
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (fetchError) {
+    throw new Error(`Database error fetching alert: ${fetchError.message}`)
+  }
+
+  if (!existing) return { type: 'not_found' }
+
+  if (updates.threshold !== undefined && !isValidAlertThreshold(existing.alert_type, updates.threshold)) {
+    return { type: 'invalid_threshold' }
+  }
+
+  const { data, error } = await supabase
+    .from('watchlist_alerts')
+    .update({ ...updates, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select(ALERT_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Database error updating alert: ${error.message}`)
+  }
+
+  if (!data) return { type: 'not_found' }
+  return { type: 'ok', alert: data as WatchlistAlert }
+}
+
+export async function deleteAlert(supabase: SupabaseClient, userId: string, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('watchlist_alerts')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Database error deleting alert: ${error.message}`)
+  }
+
+  return (data || []).length > 0
+}
+
+function priceNotification(alert: WatchlistAlert, quote: Quote): NotificationDraft | null {
+  const threshold = Number(alert.threshold)
+  const base = {
+    user_id: alert.user_id,
+    alert_id: alert.id,
+    kind: 'price_alert' as const,
+    link: '/dashboard?panel=watchlist',
+    metadata: { ticker: alert.ticker, price: quote.price, change_percent: quote.changePercent ?? null, as_of: quote.asOf }
+  }
+
+  if (alert.alert_type === 'price_above' && quote.price >= threshold) {
+    return { ...base, title: `${alert.ticker} rose above ${formatPrice(threshold)}`, body: `${alert.ticker} is at ${formatPrice(quote.price)}.` }
+  }
+
+  if (alert.alert_type === 'price_below' && quote.price <= threshold) {
+    return { ...base, title: `${alert.ticker} fell below ${formatPrice(threshold)}`, body: `${alert.ticker} is at ${formatPrice(quote.price)}.` }
+  }
+
+  if (alert.alert_type === 'percent_move' && quote.changePercent !== undefined && Math.abs(quote.changePercent) >= threshold) {
+    // One notification per trading day, keyed on the quote's date
+    if (alert.last_triggered_at && alert.last_triggered_at.slice(0, 10) >= quote.asOf.slice(0, 10)) return null
+    return {
+      ...base,
+      title: `${alert.ticker} moved ${formatPercent(quote.changePercent)} today`,
+      body: `${alert.ticker} is at ${formatPrice(quote.price)}, past your ${threshold}% move alert.`
+    }
+  }
+
+  return null
+}
+
+function ideaNotification(alert: WatchlistAlert, idea: StructuredTradingIdea): NotificationDraft {
+  return {
+    user_id: alert.user_id,
+    alert_id: alert.id,
+    kind: 'idea_alert',
+    title: `New idea mentioning ${alert.ticker}`,
+    body: idea.theme,
+    link: `/ideas/${idea.key}`,
+    metadata: { ticker: alert.ticker, idea_key: idea.key }
+  }
+}
+
+// Checks every active alert once. Needs a service role client: it reads all users'
+// alerts and writes notifications. With dryRun nothing is stored or sent.
+export async function evaluateAlerts(
+  supabase: SupabaseClient,
+  { quoteProvider, sender, now = new Date(), dryRun = false }: {
+    quoteProvider: QuoteProvider
+    sender: NotificationSender
+    now?: Date
+    dryRun?: boolean
+  }
+): Promise<EvaluateAlertsResult> {
+  const alerts = await fetchAllRows<WatchlistAlert>(
+    (from, to) => supabase
+      .from('watchlist_alerts')
+      .select(ALERT_COLUMNS)
+      .eq('is_active', true)
+      .order('id', { ascending: true })
+      .range(from, to),
+    'fetching active alerts'
+  )
+  const priceAlerts = alerts.filter(alert => alert.alert_type !== 'idea_mention')
+  const ideaAlerts = alerts.filter(alert => alert.alert_type === 'idea_mention')
+  const triggered: TriggeredAlert[] = []
+  let quoteError: string | undefined
+
+  if (priceAlerts.length > 0) {
+    try {
+      const quotes = await quoteProvider.getQuotes(Array.from(new Set(priceAlerts.map(alert => alert.ticker))))
+      for (const alert of priceAlerts) {
+        const quote = quotes[alert.ticker]
+        const notification = quote ? priceNotification(alert, quote) : null
+        if (notification) triggered.push({ alert, notification })
+      }
+    } catch (providerError) {
+      quoteError = providerError instanceof Error ? providerError.message : String(providerError)
+      console.error(`Quote provider "${quoteProvider.name}" failed:`, providerError)
+    }
+  }
+
+  if (ideaAlerts.length > 0) {
+    const startOf = (alert: WatchlistAlert) => new Date(alert.last_evaluated_at || alert.created_at).getTime()
+    const since = Math.min(...ideaAlerts.map(startOf))
+    const ideas = (await loadIdeas(supabase, { since: new Date(since).toISOString() })).filter(idea => {
+      const published = new Date(idea.created_at).getTime()
+      return published > since && published <= now.getTime()
+    })
+
+    for (const alert of ideaAlerts) {
+      const from = startOf(alert)
+      for (const idea of ideas) {
+        if (new Date(idea.created_at).getTime() <= from) continue
+        if (!idea.tickers.some(ticker => normalizeSymbol(ticker) === alert.ticker)) continue
+        triggered.push({ alert, notification: ideaNotification(alert, idea) })
+      }
+    }
+  }
+
+  if (dryRun) {
+    return { alertsEvaluated: alerts.length, triggered, notificationsSent: 0, quoteError }
+  }
+
+  const notifications = await deliverNotifications(supabase, sender, triggered.map(entry => entry.notification))
+
+  const timestamp = now.toISOString()
+  const markAlerts = async (ids: string[], changes: Database['public']['Tables']['watchlist_alerts']['Update']) => {
+    if (ids.length === 0) return
+    const { error: updateError } = await supabase.from('watchlist_alerts').update(changes).in('id', ids)
+    if (updateError) {
+      throw new Error(`Database error updating alerts: ${updateError.message}`)
+    }
+  }
+
+  const firedIds = Array.from(new Set(triggered.map(entry => entry.alert.id)))
+  const isPriceLevel = (id: string) => alerts.some(alert => alert.id === id && (alert.alert_type === 'price_above' || alert.alert_type === 'price_below'))
+
+  await markAlerts(firedIds.filter(isPriceLevel), { is_active: false, last_triggered_at: timestamp, updated_at: timestamp })
+  await markAlerts(firedIds.filter(id => !isPriceLevel(id)), { last_triggered_at: timestamp })
+  await markAlerts(ideaAlerts.map(alert => alert.id), { last_evaluated_at: timestamp })
+
+  return { alertsEvaluated: alerts.length, triggered, notificationsSent: notifications.length, quoteError }
+}
@@ -1,5 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { createClient } from '@/lib/supabase-server'
+import { config } from '@/lib/config'
+import { parseIdeaKey } from '@/lib/idea-parser'
+import { isValidSymbol } from '@/lib/symbols'
 import { User } from '@supabase/supabase-js'
 
 // Standard API response types
@@ -64,6 +67,26 @@ export function withAuth<T extends unknown[]>(
   }
 }
 
+// Shared-secret wrapper for automation endpoints (n8n workflows, scheduled jobs)
+export function withAdminAuth<T extends unknown[]>(
+  handler: (...args: T) => Promise<NextResponse>
+) {
+  return async (...args: T): Promise<NextResponse> => {
+    const request = args[0] as NextRequest | undefined
+
+    if (!config.admin.apiSecret) {
+      return apiError('Admin API is not configured', 503, null, 'ADMIN_API_DISABLED')
+    }
+
+    const authorization = request?.headers.get('authorization') || ''
+    if (authorization !== `Bearer ${config.admin.apiSecret}`) {
+      return apiError('Unauthorized', 401, null, 'INVALID_ADMIN_SECRET')
+    }
+
+    return handler(...args)
+  }
+}
+
 // Request body validation helper
 export async function validateBody<T>(
   request: NextRequest,
@@ -210,7 +233,7 @@ export interface TradingIdea {
 
 // Save idea validation
 export interface SaveIdeaRequest {
-  idea_id: number
+  idea_key: string
   notes?: string
 }
 
@@ -219,7 +242,7 @@ export function isValidSaveIdeaRequest(body: unknown): body is SaveIdeaRequest {
   
   const bodyObj = body as Record<string, unknown>
   
-  if (!validators.isNumber(bodyObj.idea_id) || bodyObj.idea_id <= 0) {
+  if (!validators.isString(bodyObj.idea_key) || !parseIdeaKey(bodyObj.idea_key)) {
     return false
   }
   
@@ -230,9 +253,54 @@ export function isValidSaveIdeaRequest(body: unknown): body is SaveIdeaRequest {
   return true
 }
 
+// Idea interaction validation
+export const IDEA_INTERACTION_TYPES = ['viewed', 'liked', 'saved', 'traded'] as const
+
+export interface RecordInteractionRequest {
+  idea_key: string
+  interaction_type: typeof IDEA_INTERACTION_TYPES[number]
+  // Removes the interaction instead when it already exists
+  toggle?: boolean
+  notes?: string
+  // Only for 'traded': the ledger entry that executed the idea
+  portfolio_transaction_id?: string | null
+}
+
+export function isValidRecordInteractionRequest(body: unknown): body is RecordInteractionRequest {
+  if (!validators.isObject(body)) return false
+  
+  const bodyObj = body as Record<string, unknown>
+  
+  if (!validators.isString(bodyObj.idea_key) || !parseIdeaKey(bodyObj.idea_key)) {
+    return false
+  }
+  
+  if (!IDEA_INTERACTION_TYPES.includes(bodyObj.interaction_type as RecordInteractionRequest['interaction_type'])) {
+    return false
+  }
+  
+  if (bodyObj.toggle !== undefined && !validators.isBoolean(bodyObj.toggle)) {
+    return false
+  }
+  
+  if (bodyObj.notes !== undefined && !validators.isString(bodyObj.notes)) {
+    return false
+  }
+  
+  if (bodyObj.portfolio_transaction_id !== undefined && bodyObj.portfolio_transaction_id !== null) {
+    if (bodyObj.interaction_type !== 'traded' || !validators.isNonEmptyString(bodyObj.portfolio_transaction_id)) {
+      return false
+    }
+  }
+  
+  return true
+}
+
 // Watchlist validation
 export interface AddToWatchlistRequest {
   ticker: string
+  // Target list; defaults to the user's default watchlist
+  watchlist_id?: string
   watchlist_name?: string
 }
 
@@ -245,9 +313,11 @@ export function isValidWatchlistRequest(body: unknown): body is AddToWatchlistRe
     return false
   }
   
-  // Validate ticker format (basic stock ticker validation)
-  const tickerRegex = /^[A-Za-z]{1,5}$/
-  if (!tickerRegex.test((bodyObj.ticker as string).trim())) {
+  if (!isValidSymbol(bodyObj.ticker as string)) {
+    return false
+  }
+  
+  if (bodyObj.watchlist_id !== undefined && !validators.isNonEmptyString(bodyObj.watchlist_id)) {
     return false
   }
   
@@ -258,6 +328,397 @@ export function isValidWatchlistRequest(body: unknown): body is AddToWatchlistRe
   return true
 }
 
+export const MAX_WATCHLIST_NAME_LENGTH = 50
+export const MAX_WATCHLIST_DESCRIPTION_LENGTH = 500
+
+export interface CreateWatchlistRequest {
+  name: string
+  description?: string
+  is_default?: boolean
+  tickers?: string[]
+}
+
+export interface UpdateWatchlistRequest {
+  name?: string
+  description?: string | null
+  // Only true is accepted: a list stops being the default when another one becomes it
+  is_default?: true
+}
+
+export const MAX_BULK_TICKERS = 500
+
+// Tickers are validated one by one so a bad symbol is reported instead of failing the batch
+export interface BulkWatchlistTickersRequest {
+  add?: string[]
+  remove?: string[]
+}
+
+export function isValidBulkWatchlistTickersRequest(body: unknown): body is BulkWatchlistTickersRequest {
+  if (!validators.isObject(body)) return false
+  
+  const bodyObj = body as Record<string, unknown>
+  
+  if (bodyObj.add === undefined && bodyObj.remove === undefined) {
+    return false
+  }
+  
+  for (const field of [bodyObj.add, bodyObj.remove]) {
+    if (field === undefined) continue
+    if (!validators.isArray(field) || field.length > MAX_BULK_TICKERS) return false
+    if (!field.every(ticker => validators.isString(ticker))) return false
+  }
+  
+  return true
+}
+
+export interface ReorderWatchlistsRequest {
+  // Watchlist ids in the order they should be shown
+  order: string[]
+}
+
+function isValidWatchlistName(value: unknown): value is string {
+  return validators.isNonEmptyString(value) && value.trim().length <= MAX_WATCHLIST_NAME_LENGTH
+}
+
+function isValidWatchlistDescription(value: unknown): value is string {
+  return validators.isString(value) && value.length <= MAX_WATCHLIST_DESCRIPTION_LENGTH
+}
+
+export function isValidCreateWatchlistRequest(body: unknown): body is CreateWatchlistRequest {
+  if (!validators.isObject(body)) return false
+  
+  const bodyObj = body as Record<string, unknown>
+  
+  if (!isValidWatchlistName(bodyObj.name)) {
+    return false
+  }
+  
+  if (bodyObj.description !== undefined && !isValidWatchlistDescription(bodyObj.description)) {
+    return false
+  }
+  
+  if (bodyObj.is_default !== undefined && !validators.isBoolean(bodyObj.is_default)) {
+    return false
+  }
+  
+  if (bodyObj.tickers !== undefined) {
+    if (!validators.isArray(bodyObj.tickers)) return false
+    for (const ticker of bodyObj.tickers) {
+      if (!validators.isString(ticker) || !isValidSymbol(ticker)) return false
+    }
+  }
+  
+  return true
+}
+
+export function isValidUpdateWatchlistRequest(body: unknown): body is UpdateWatchlistRequest {
+  if (!validators.isObject(body)) return false
+  
+  const bodyObj = body as Record<string, unknown>
+  const fields = ['name', 'description', 'is_default']
+  
+  if (!fields.some(field => bodyObj[field] !== undefined)) {
+    return false
+  }
+  
+  if (bodyObj.name !== undefined && !isValidWatchlistName(bodyObj.name)) {
+    return false
+  }
+  
+  if (bodyObj.description !== undefined && bodyObj.description !== null && !isValidWatchlistDescription(bodyObj.description)) {
+    return false
+  }
+  
+  if (bodyObj.is_default !== undefined && bodyObj.is_default !== true) {
+    return false
+  }
+  
+  return true
+}
+
+export function isValidReorderWatchlistsRequest(body: unknown): body is ReorderWatchlistsRequest {
+  if (!validators.isObject(body)) return false
+  
+  const bodyObj = body as Record<string, unknown>
+  
+  if (!validators.isArray(bodyObj.order) || bodyObj.order.length === 0) {
+    return false
+  }
+  
+  return bodyObj.order.every(id => validators.isNonEmptyString(id))
+    && new Set(bodyObj.order).size === bodyObj.order.length
+}
+
+export const MAX_WATCHLIST_NOTES_LENGTH = 500
+
+export interface ReorderWatchlistTickersRequest {
+  // Tickers in the order they should be shown; unlisted tickers keep their order after these
+  order: string[]
+}
+
+export interface UpdateWatchlistItemRequest {
+  notes: string | null
+}
+
+export function isValidReorderWatchlistTickersRequest(body: unknown): body is ReorderWatchlistTickersRequest {
+  if (!validators.isObject(body)) return false
+  
+  const bodyObj = body as Record<string, unknown>
+  
+  if (!validators.isArray(bodyObj.order) || bodyObj.order.length === 0 || bodyObj.order.length > MAX_BULK_TICKERS) {
+    return false
+  }
+  
+  return bodyObj.order.every(ticker => validators.isString(ticker) && isValidSymbol(ticker))
+}
+
+export function isValidUpdateWatchlistItemRequest(body: unknown): body is UpdateWatchlistItemRequest {
+  if (!validators.isObject(body)) return false
+  
+  const bodyObj = body as Record<string, unknown>
+  
+  return bodyObj.notes === null
+    || (validators.isString(bodyObj.notes) && bodyObj.notes.length <= MAX_WATCHLIST_NOTES_LENGTH)
+}
+
+// Portfolio validation
+export interface CreatePortfolioPositionRequest {
+  ticker: string
+  shares: number
+  avg_cost: number
+  purchase_date?: string
+  notes?: string
+}
+
+export interface UpdatePortfolioPositionRequest {
+  id: string
+  ticker?: string
+  shares?: number
+  avg_cost?: number
+  purchase_date?: string
+  notes?: string
+}
+
+function isValidPortfolioFields(bodyObj: Record<string, unknown>): boolean {
+  if (bodyObj.ticker !== undefined) {
+    if (!validators.isNonEmptyString(bodyObj.ticker)) return false
+    if (!isValidSymbol(bodyObj.ticker)) return false
+  }
+  
+  if (bodyObj.shares !== undefined) {
+    if (!validators.isNumber(bodyObj.shares) || !Number.isFinite(bodyObj.shares) || bodyObj.shares <= 0) {
+      return false
+    }
+  }
+  
+  if (bodyObj.avg_cost !== undefined) {
+    if (!validators.isNumber(bodyObj.avg_cost) || !Number.isFinite(bodyObj.avg_cost) || bodyObj.avg_cost < 0) {
+      return false
+    }
+  }
+  
+  if (bodyObj.purchase_date !== undefined) {
+    if (!validators.isString(bodyObj.purchase_date) || isNaN(Date.parse(bodyObj.purchase_date))) {
+      return false
+    }
+  }
+  
+  if (bodyObj.notes !== undefined && !validators.isString(bodyObj.notes)) {
+    return false
+  }
+  
+  return true
+}
+
+export function isValidCreatePortfolioPositionRequest(body: unknown): body is CreatePortfolioPositionRequest {
+  if (!validators.isObject(body)) return false
+  
+  const bodyObj = body as Record<string, unknown>
+  const validFields = ['ticker', 'shares', 'avg_cost', 'purchase_date', 'notes']
+  
+  if (!Object.keys(bodyObj).every(key => validFields.includes(key))) {
+    return false
+  }
+  
+  if (bodyObj.ticker === undefined || bodyObj.shares === undefined || bodyObj.avg_cost === undefined) {
+    return false
+  }
+  
+  return isValidPortfolioFields(bodyObj)
+}
+
+export function isValidUpdatePortfolioPositionRequest(body: unknown): body is UpdatePortfolioPositionRequest {
+  if (!validators.isObject(body)) return false
+  
+  const bodyObj = body as Record<string, unknown>
+  const validFields = ['id', 'ticker', 'shares', 'avg_cost', 'purchase_date', 'notes']
+  const bodyKeys = Object.keys(bodyObj)
+  
+  if (!bodyKeys.every(key => validFields.includes(key))) {
+    return false
+  }
+  
+  if (!validators.isNonEmptyString(bodyObj.id)) {
+    return false
+  }
+  
+  // Require at least one field to update besides the id
+  if (bodyKeys.length < 2) {
+    return false
+  }
+  
+  return isValidPortfolioFields(bodyObj)
+}
+
+// Portfolio transaction validation
+export interface CreatePortfolioTransactionRequest {
+  ticker: string
+  side: 'buy' | 'sell'
+  shares: number
+  price: number
+  fees?: number
+  executed_at?: string
+  notes?: string
+}
+
+export function isValidPortfolioTransactionRequest(body: unknown): body is CreatePortfolioTransactionRequest {
+  if (!validators.isObject(body)) return false
+  
+  const bodyObj = body as Record<string, unknown>
+  const validFields = ['ticker', 'side', 'shares', 'price', 'fees', 'executed_at', 'notes']
+  
+  if (!Object.keys(bodyObj).every(key => validFields.includes(key))) {
+    return false
+  }
+  
+  if (!validators.isNonEmptyString(bodyObj.ticker) || !isValidSymbol(bodyObj.ticker)) {
+    return false
+  }
+  
+  if (bodyObj.side !== 'buy' && bodyObj.side !== 'sell') {
+    return false
+  }
+  
+  if (!validators.isNumber(bodyObj.shares) || !Number.isFinite(bodyObj.shares) || bodyObj.shares <= 0) {
+    return false
+  }
+  
+  if (!validators.isNumber(bodyObj.price) || !Number.isFinite(bodyObj.price) || bodyObj.price < 0) {
+    return false
+  }
+  
+  if (bodyObj.fees !== undefined) {
+    if (!validators.isNumber(bodyObj.fees) || !Number.isFinite(bodyObj.fees) || bodyObj.fees < 0) {
+      return false
+    }
+  }
+  
+  if (bodyObj.executed_at !== undefined) {
+    if (!validators.isString(bodyObj.executed_at) || isNaN(Date.parse(bodyObj.executed_at))) {
+      return false
+    }
+  }
+  
+  if (bodyObj.notes !== undefined && !validators.isString(bodyObj.notes)) {
+    return false
+  }
+  
+  return true
+}
+
+// Alert validation
+export const ALERT_TYPES = ['price_above', 'price_below', 'percent_move', 'idea_mention'] as const
+
+export interface CreateAlertRequest {
+  ticker: string
+  alert_type: typeof ALERT_TYPES[number]
+  // Required for price and percent alerts, omitted for idea_mention
+  threshold?: number
+}
+
+export interface UpdateAlertRequest {
+  threshold?: number
+  is_active?: boolean
+}
+
+// Percent move thresholds are absolute daily changes, e.g. 5 for ±5%
+export function isValidAlertThreshold(alertType: string, value: unknown): boolean {
+  if (alertType === 'idea_mention') return value === undefined || value === null
+  if (!validators.isNumber(value) || !Number.isFinite(value) || value <= 0) return false
+  return alertType !== 'percent_move' || value <= 100
+}
+
+export function isValidCreateAlertRequest(body: unknown): body is CreateAlertRequest {
+  if (!validators.isObject(body)) return false
+  
+  const bodyObj = body as Record<string, unknown>
+  
+  if (!validators.isNonEmptyString(bodyObj.ticker) || !isValidSymbol(bodyObj.ticker)) {
+    return false
+  }
+  
+  if (!ALERT_TYPES.includes(bodyObj.alert_type as CreateAlertRequest['alert_type'])) {
+    return false
+  }
+  
+  return isValidAlertThreshold(bodyObj.alert_type as string, bodyObj.threshold)
+}
+
+// The threshold is checked against the stored alert's type by updateAlert
+export function isValidUpdateAlertRequest(body: unknown): body is UpdateAlertRequest {
+  if (!validators.isObject(body)) return false
+  
+  const bodyObj = body as Record<string, unknown>
+  
+  if (bodyObj.threshold === undefined && bodyObj.is_active === undefined) {
+    return false
+  }
+  
+  if (bodyObj.threshold !== undefined && (!validators.isNumber(bodyObj.threshold) || !Number.isFinite(bodyObj.threshold) || bodyObj.threshold <= 0)) {
+    return false
+  }
+  
+  if (bodyObj.is_active !== undefined && !validators.isBoolean(bodyObj.is_active)) {
+    return false
+  }
+  
+  return true
+}
+
+// Notification validation
+export interface MarkNotificationsReadRequest {
+  // Omit to mark every unread notification read
+  ids?: string[]
+}
+
+export function isValidMarkNotificationsReadRequest(body: unknown): body is MarkNotificationsReadRequest {
+  if (!validators.isObject(body)) return false
+  
+  const bodyObj = body as Record<string, unknown>
+  
+  if (bodyObj.ids === undefined) return true
+  
+  return validators.isArray(bodyObj.ids)
+    && bodyObj.ids.length > 0
+    && bodyObj.ids.length <= 100
+    && bodyObj.ids.every(id => validators.isNonEmptyString(id))
+}
+
+// Chat conversation validation
+export const MAX_CONVERSATION_TITLE_LENGTH = 120
+
+export interface RenameConversationRequest {
+  title: string
+}
+
+export function isValidRenameConversationRequest(body: unknown): body is RenameConversationRequest {
+  if (!validators.isObject(body)) return false
+  
+  const bodyObj = body as Record<string, unknown>
+  
+  return validators.isNonEmptyString(bodyObj.title) && bodyObj.title.trim().length <= MAX_CONVERSATION_TITLE_LENGTH
+}
+
 // Subscribe validation
 export interface SubscribeRequest {
   email: string
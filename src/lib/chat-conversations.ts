@@ -0,0 +1,218 @@
+/**
+ * Chat Conversations
+ *
+ * Research threads stored per user. POST /api/chat starts a conversation on the first
+ * message and appends each user and assistant message; /api/chat/conversations lists,
+ * loads, renames and deletes them. Message counts and ordering timestamps are kept
+ * current by a trigger on chat_messages.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { MAX_CONVERSATION_TITLE_LENGTH } from '@/lib/api-helpers'
+import { ChatConversation, ChatRole, StoredChatMessage } from '@/types/user'
+
+export const CONVERSATION_COLUMNS =
+  'id, user_id, title, idea_key, idea_context, model, message_count, last_message_at, created_at, updated_at'
+
+export const CHAT_MESSAGE_COLUMNS = 'id, conversation_id, role, content, model, metadata, created_at'
+
+export const DEFAULT_CONVERSATION_PAGE_SIZE = 20
+export const MAX_CONVERSATION_PAGE_SIZE = 50
+
+// Sidebar titles are cut from the first message; users can rename them later
+const GENERATED_TITLE_LENGTH = 60
+
+export interface ConversationIdea {
+  key: string
+  theme: string
+  analysis: string
+  tickers: string
+}
+
+export interface NewChatMessage {
+  role: ChatRole
+  content: string
+  model?: string | null
+  metadata?: Record<string, unknown>
+}
+
+export function conversationTitle(firstMessage: string, idea?: ConversationIdea): string {
+  const line = firstMessage.trim().split('\n')[0].replace(/\s+/g, ' ')
+  const title = line.length > GENERATED_TITLE_LENGTH ? `${line.slice(0, GENERATED_TITLE_LENGTH - 1).trimEnd()}…` : line
+  return (title || idea?.theme || 'New conversation').slice(0, MAX_CONVERSATION_TITLE_LENGTH)
+}
+
+// Most recently active first
+export async function listConversations(
+  supabase: SupabaseClient,
+  userId: string,
+  { limit = DEFAULT_CONVERSATION_PAGE_SIZE }: { limit?: number } = {}
+): Promise<ChatConversation[]> {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .select(CONVERSATION_COLUMNS)
+    .eq('user_id', userId)
+    .order('last_message_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Database error fetching conversations: ${error.message}`)
+  }
+
+  return (data || []) as ChatConversation[]
+}
+
+export async function findConversation(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string
+): Promise<ChatConversation | null> {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .select(CONVERSATION_COLUMNS)
+    .eq('id', id)
+    .eq('user_id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Database error fetching conversation: ${error.message}`)
+  }
+
+  return data as ChatConversation | null
+}
+
+// The conversation with its messages, oldest first; null when it does not exist
+export async function getConversation(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string
+): Promise<{ conversation: ChatConversation; messages: StoredChatMessage[] } | null> {
+  const conversation = await findConversation(supabase, userId, id)
+  if (!conversation) return null
+
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select(CHAT_MESSAGE_COLUMNS)
+    .eq('conversation_id', id)
+    .order('created_at', { ascending: true })
+    .order('id', { ascending: true })
+
+  if (error) {
+    throw new Error(`Database error fetching conversation messages: ${error.message}`)
+  }
+
+  return { conversation, messages: (data || []) as StoredChatMessage[] }
+}
+
+// The latest `limit` messages of a conversation, oldest first
+export async function listRecentMessages(
+  supabase: SupabaseClient,
+  conversationId: string,
+  limit: number
+): Promise<StoredChatMessage[]> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select(CHAT_MESSAGE_COLUMNS)
+    .eq('conversation_id', conversationId)
+    .order('created_at', { ascending: false })
+    .order('id', { ascending: false })
+    .limit(limit)
+
+  if (error) {
+    throw new Error(`Database error fetching conversation messages: ${error.message}`)
+  }
+
+  return ((data || []) as StoredChatMessage[]).reverse()
+}
+
+export async function createConversation(
+  supabase: SupabaseClient,
+  userId: string,
+  { title, idea }: { title: string; idea?: ConversationIdea }
+): Promise<ChatConversation> {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .insert([
+      {
+        user_id: userId,
+        title,
+        idea_key: idea?.key || null,
+        idea_context: idea ? { ...idea } : null
+      }
+    ])
+    .select(CONVERSATION_COLUMNS)
+    .single()
+
+  if (error) {
+    throw new Error(`Database error creating conversation: ${error.message}`)
+  }
+
+  return data as ChatConversation
+}
+
+export async function renameConversation(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  title: string
+): Promise<ChatConversation | null> {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .update({ title: title.trim(), updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select(CONVERSATION_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Database error renaming conversation: ${error.message}`)
+  }
+
+  return data as ChatConversation | null
+}
+
+// Messages go with it
+export async function deleteConversation(supabase: SupabaseClient, userId: string, id: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('chat_conversations')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id')
+
+  if (error) {
+    throw new Error(`Database error deleting conversation: ${error.message}`)
+  }
+
+  return (data || []).length > 0
+}
+
+// One message per insert: rows written together share created_at and would lose their order
+export async function appendMessage(
+  supabase: SupabaseClient,
+  userId: string,
+  conversationId: string,
+  message: NewChatMessage
+): Promise<StoredChatMessage> {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .insert([
+      {
+        conversation_id: conversationId,
+        user_id: userId,
+        role: message.role,
+        content: message.content,
+        model: message.model ?? null,
+        metadata: message.metadata || {}
+      }
+    ])
+    .select(CHAT_MESSAGE_COLUMNS)
+    .single()
+
+  if (error) {
+    throw new Error(`Database error storing chat message: ${error.message}`)
+  }
+
+  return data as StoredChatMessage
+}
@@ -0,0 +1,112 @@
+/**
+ * Chat History
+ *
+ * Builds the prior turns sent to the research agent with each question. The newest
+ * turns are sent verbatim up to a token budget (CHAT_HISTORY_TOKEN_BUDGET); older turns
+ * are folded into a short extractive summary so follow-up questions keep their context
+ * without the request growing with the conversation.
+ */
+
+import { config } from '@/lib/config'
+import { N8NAgentMessage } from '@/types/n8n-agent'
+
+export const DEFAULT_SYSTEM_PROMPT = [
+  'You are SpeculationAssist, a research assistant for self-directed traders.',
+  'Answer with concrete, sourced market information and say when data may be stale.',
+  'Discuss risks alongside opportunities, and never present ideas as personalized financial advice.',
+  'Use the earlier turns of the conversation to resolve follow-up questions.'
+].join(' ')
+
+// Stored turns read per question; comfortably more than any sensible budget holds verbatim
+export const MAX_HISTORY_MESSAGES = 100
+
+// Rough size of a turn in tokens: about four characters per token plus per-message overhead
+const CHARS_PER_TOKEN = 4
+const MESSAGE_OVERHEAD_TOKENS = 4
+
+// Share of the budget kept for the summary of older turns
+const SUMMARY_SHARE = 0.2
+
+// Longest excerpt of one older turn in the summary
+const SUMMARY_EXCERPT_LENGTH = 160
+
+export interface AgentHistory {
+  // Prior turns sent verbatim, oldest first
+  history: N8NAgentMessage[]
+  // Digest of the turns that did not fit, oldest first; null when nothing was left out
+  summary: string | null
+  // How many prior turns are only in the summary or were dropped entirely
+  omitted: number
+}
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN) + MESSAGE_OVERHEAD_TOKENS
+}
+
+export function systemPrompt(): string {
+  return config.chat.systemPrompt.trim() || DEFAULT_SYSTEM_PROMPT
+}
+
+function excerpt(content: string): string {
+  const text = content.replace(/\s+/g, ' ').trim()
+  const sentence = text.match(/^.+?[.!?](?=\s|$)/)?.[0] || text
+  return sentence.length > SUMMARY_EXCERPT_LENGTH
+    ? `${sentence.slice(0, SUMMARY_EXCERPT_LENGTH - 1).trimEnd()}…`
+    : sentence
+}
+
+function summarize(turns: N8NAgentMessage[], tokenBudget: number): string {
+  const lines: string[] = []
+  let used = 0
+
+  // Newest older turns are the most relevant, so they claim the summary budget first
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const line = `${turns[i].role === 'user' ? 'User asked' : 'Assistant answered'}: ${excerpt(turns[i].content)}`
+    const cost = estimateTokens(line)
+    if (used + cost > tokenBudget) break
+    lines.unshift(line)
+    used += cost
+  }
+
+  const dropped = turns.length - lines.length
+  if (dropped > 0) lines.unshift(`(${dropped} earlier messages not shown)`)
+  return lines.join('\n')
+}
+
+// Prior turns for the agent. System messages from the client are ignored; the system
+// prompt comes from configuration only.
+export function buildAgentHistory(
+  previous: N8NAgentMessage[],
+  { tokenBudget = config.chat.historyTokenBudget }: { tokenBudget?: number } = {}
+): AgentHistory {
+  const turns = previous.filter(message => message.role !== 'system' && message.content.trim())
+  const verbatimBudget = Math.floor(tokenBudget * (1 - SUMMARY_SHARE))
+  const history: N8NAgentMessage[] = []
+  let used = 0
+
+  for (let i = turns.length - 1; i >= 0; i--) {
+    const cost = estimateTokens(turns[i].content)
+
+    if (used + cost > verbatimBudget) {
+      // A long latest reply is clipped rather than dropped, so the follow-up still has it
+      if (history.length === 0 && verbatimBudget > MESSAGE_OVERHEAD_TOKENS) {
+        const chars = (verbatimBudget - MESSAGE_OVERHEAD_TOKENS) * CHARS_PER_TOKEN
+        history.unshift({ role: turns[i].role, content: `…${turns[i].content.slice(-chars + 1)}` })
+        used = verbatimBudget
+        continue
+      }
+      break
+    }
+
+    history.unshift(turns[i])
+    used += cost
+  }
+
+  const older = turns.slice(0, turns.length - history.length)
+  if (older.length === 0) {
+    return { history, summary: null, omitted: 0 }
+  }
+
+  // Whatever the verbatim turns left over goes to the summary as well
+  return { history, summary: summarize(older, tokenBudget - used), omitted: older.length }
+}
@@ -0,0 +1,117 @@
+import { CircuitBreaker } from '@/lib/circuit-breaker'
+import { ChatProvider } from './types'
+
+// Prefixes of the errors a guarded provider throws; the chat route maps them to
+// AGENT_TIMEOUT (504) and AGENT_UNAVAILABLE (503)
+export const AGENT_TIMEOUT_ERROR = 'Agent timeout'
+export const AGENT_UNAVAILABLE_ERROR = 'Agent unavailable'
+
+export function agentErrorCode(error: unknown): 'AGENT_TIMEOUT' | 'AGENT_UNAVAILABLE' | null {
+  if (!(error instanceof Error)) return null
+  if (error.message.startsWith(AGENT_TIMEOUT_ERROR)) return 'AGENT_TIMEOUT'
+  if (error.message.startsWith(AGENT_UNAVAILABLE_ERROR)) return 'AGENT_UNAVAILABLE'
+  return null
+}
+
+// Puts a timeout and a circuit breaker around a provider. Whole replies and tool steps
+// must finish within `timeoutMs`; streams must not go quiet for longer than that. The
+// caller's signal is passed through, and a call the caller cancelled does not count
+// as a failure of the backend.
+export function guardChatProvider(
+  provider: ChatProvider,
+  { timeoutMs, breaker }: { timeoutMs: number; breaker: CircuitBreaker }
+): ChatProvider {
+  const refuseWhileOpen = () => {
+    if (breaker.allowRequest()) return
+    const retryAt = breaker.retryAt()
+    throw new Error(
+      `${AGENT_UNAVAILABLE_ERROR}: chat provider "${provider.name}" failed ${breaker.failures()} times in a row` +
+      (retryAt ? `; retrying after ${retryAt.toISOString()}` : '')
+    )
+  }
+
+  const failure = (error: unknown, timedOut: boolean, signal?: AbortSignal): Error => {
+    if (signal?.aborted) {
+      breaker.recordCancelled()
+      return error instanceof Error ? error : new Error(String(error))
+    }
+
+    breaker.recordFailure()
+    if (timedOut) {
+      return new Error(`${AGENT_TIMEOUT_ERROR}: chat provider "${provider.name}" did not answer within ${timeoutMs} ms`)
+    }
+    return new Error(`${AGENT_UNAVAILABLE_ERROR}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+
+  const withTimeout = async <T>(signal: AbortSignal | undefined, run: (signal: AbortSignal) => Promise<T>): Promise<T> => {
+    refuseWhileOpen()
+    const timeout = AbortSignal.timeout(timeoutMs)
+    try {
+      const result = await run(signal ? AbortSignal.any([signal, timeout]) : timeout)
+      breaker.recordSuccess()
+      return result
+    } catch (error) {
+      throw failure(error, timeout.aborted, signal)
+    }
+  }
+
+  return {
+    name: provider.name,
+    model: provider.model,
+    complete(request, { signal } = {}) {
+      return withTimeout(signal, combined => provider.complete(request, { signal: combined }))
+    },
+    async *stream(request, { signal } = {}) {
+      refuseWhileOpen()
+      const upstream = new AbortController()
+      const cancel = () => upstream.abort(signal?.reason)
+      signal?.addEventListener('abort', cancel)
+
+      let timedOut = false
+      let settled = false
+      let timer: ReturnType<typeof setTimeout> | undefined
+      const restartTimer = () => {
+        clearTimeout(timer)
+        timer = setTimeout(() => {
+          timedOut = true
+          upstream.abort()
+        }, timeoutMs)
+      }
+
+      try {
+        restartTimer()
+        for await (const part of provider.stream(request, { signal: upstream.signal })) {
+          restartTimer()
+          yield part
+        }
+        settled = true
+        // Some providers stop quietly rather than throw when aborted
+        if (timedOut) throw new Error('stream aborted')
+        if (signal?.aborted) breaker.recordCancelled()
+        else breaker.recordSuccess()
+      } catch (error) {
+        settled = true
+        throw failure(error, timedOut, signal)
+      } finally {
+        clearTimeout(timer)
+        signal?.removeEventListener('abort', cancel)
+        // The consumer stopped reading early
+        if (!settled) breaker.recordCancelled()
+      }
+    },
+    step: provider.step
+      ? (request, rounds, tools, { signal } = {}) =>
+          withTimeout(signal, combined => provider.step!(request, rounds, tools, { signal: combined }))
+      : undefined,
+    async checkHealth() {
+      const retryAt = breaker.retryAt()
+      if (retryAt) {
+        return {
+          status: 'unavailable',
+          detail: `Circuit open after ${breaker.failures()} consecutive failures; retrying after ${retryAt.toISOString()}`
+        }
+      }
+      return provider.checkHealth()
+    }
+  }
+}
@@ -0,0 +1,73 @@
+import { config } from '@/lib/config'
+import { createCircuitBreaker } from '@/lib/circuit-breaker'
+import { ChatProvider, ChatProviderHealth } from './types'
+import { guardChatProvider } from './guarded-provider'
+import { createN8NChatProvider } from './n8n-provider'
+import { createOpenAIChatProvider } from './openai-provider'
+import { createMockChatProvider } from './mock-provider'
+
+export type {
+  ChatCompletionRequest,
+  ChatProvider,
+  ChatProviderHealth,
+  ChatReply,
+  ChatReplyDetails,
+  ChatStep,
+  ChatStreamPart,
+  ChatToolCall,
+  ChatToolRound,
+  ChatToolSpec,
+  ChatUsage
+} from './types'
+export { createN8NChatProvider } from './n8n-provider'
+export { createOpenAIChatProvider } from './openai-provider'
+export { createMockChatProvider } from './mock-provider'
+export { AGENT_TIMEOUT_ERROR, AGENT_UNAVAILABLE_ERROR, agentErrorCode, guardChatProvider } from './guarded-provider'
+
+// Registered chat backends, selected with the CHAT_PROVIDER environment variable
+const providerFactories: Record<string, () => ChatProvider> = {
+  n8n: () => createN8NChatProvider(config.chat.n8nWebhookUrl),
+  openai: () => createOpenAIChatProvider(config.chat.openai),
+  mock: () => createMockChatProvider({ delayMs: config.chat.mockDelayMs }),
+}
+
+let cachedProvider: ChatProvider | null = null
+
+// The active provider behind a timeout (CHAT_AGENT_TIMEOUT_MS) and a circuit breaker
+// (CHAT_BREAKER_FAILURE_THRESHOLD, CHAT_BREAKER_COOLDOWN_MS) kept for the life of the process
+export function getChatProvider(): ChatProvider {
+  if (cachedProvider) return cachedProvider
+
+  const factory = providerFactories[config.chat.provider]
+  if (!factory) {
+    throw new Error(
+      `Unknown CHAT_PROVIDER "${config.chat.provider}". ` +
+      `Expected one of: ${Object.keys(providerFactories).join(', ')}`
+    )
+  }
+
+  cachedProvider = guardChatProvider(factory(), {
+    timeoutMs: config.chat.timeoutMs,
+    breaker: createCircuitBreaker(config.chat.breaker)
+  })
+  return cachedProvider
+}
+
+export interface ChatProviderStatus extends ChatProviderHealth {
+  name: string
+  model: string | null
+  active: boolean
+}
+
+// Health of every registered provider; ones that cannot be created (missing keys) are unavailable
+export async function checkChatProviders(): Promise<ChatProviderStatus[]> {
+  return Promise.all(Object.entries(providerFactories).map(async ([name, factory]) => {
+    const active = name === config.chat.provider
+    try {
+      const provider = active ? getChatProvider() : factory()
+      return { name, model: provider.model, active, ...(await provider.checkHealth()) }
+    } catch (error) {
+      return { name, model: null, active, status: 'unavailable' as const, detail: error instanceof Error ? error.message : String(error) }
+    }
+  }))
+}
@@ -0,0 +1,88 @@
+import { findSymbol } from '@/lib/symbols'
+import { estimateTokens } from '@/lib/chat-history'
+import { ChatCompletionRequest, ChatProvider, ChatToolCall, ChatToolRound, ChatToolSpec, ChatUsage } from './types'
+
+// Describes what the provider received, so tests and local development can check the
+// request without a model: the question, how much history came with it, the idea in
+// focus and the generation settings
+function reply({ message, history, historySummary, context, maxTokens, temperature }: ChatCompletionRequest): string {
+  const parts = [`Mock reply to "${message}".`]
+  parts.push(`Received ${history.length} earlier messages${historySummary ? ' and a summary of older ones' : ''}.`)
+  if (context.idea) parts.push(`Discussing "${context.idea.theme}" (${context.idea.tickers}).`)
+  parts.push(`Settings: maxTokens ${maxTokens}, temperature ${temperature}.`)
+  return parts.join(' ')
+}
+
+// Reported with every reply so the confidence indicator can be checked offline
+const MOCK_CONFIDENCE = 0.5
+
+// Estimated token counts, so usage metering can be checked offline too
+function usage({ systemPrompt, history, message }: ChatCompletionRequest, content: string): ChatUsage {
+  return {
+    promptTokens: [systemPrompt, ...history.map(turn => turn.content), message]
+      .reduce((total, text) => total + estimateTokens(text), 0),
+    completionTokens: estimateTokens(content)
+  }
+}
+
+// Picks tools from keywords and known tickers in the question, so the agent loop can be
+// exercised without a model: "news" searches news, "watchlist", "portfolio" and "saved
+// ideas" read the user's data, tickers get quotes and "search" runs a web search
+function toolCalls({ message }: ChatCompletionRequest, tools: ChatToolSpec[]): ChatToolCall[] {
+  const offered = new Set(tools.map(tool => tool.name))
+  const text = message.toLowerCase()
+  const tickers = Array.from(new Set(message.match(/\b[A-Z][A-Z.]{0,5}\b/g) || [])).filter(ticker => findSymbol(ticker))
+  const calls: ChatToolCall[] = []
+  const add = (name: string, args: Record<string, unknown> = {}) => {
+    if (offered.has(name)) calls.push({ id: `mock_call_${calls.length + 1}`, name, arguments: args })
+  }
+
+  if (tickers.length > 0) add('get_quotes', { tickers })
+  if (text.includes('watchlist')) add('get_watchlists')
+  if (text.includes('portfolio')) add('get_portfolio')
+  if (text.includes('saved idea')) add('get_saved_ideas')
+  if (text.includes('news')) add('news_search', { query: message, limit: 3 })
+  if (calls.length === 0 && text.includes('search')) add('web_search', { query: message, limit: 3 })
+
+  return calls
+}
+
+function toolSummary(rounds: ChatToolRound[]): string {
+  const results = rounds.flat()
+  if (results.length === 0) return ''
+  return ` Used ${results.length} tool call${results.length === 1 ? '' : 's'}: ${results.map(({ call }) => call.name).join(', ')}.`
+}
+
+export function createMockChatProvider({ delayMs = 0 }: { delayMs?: number } = {}): ChatProvider {
+  return {
+    name: 'mock',
+    model: 'mock',
+    async complete(request) {
+      const content = reply(request)
+      return { content, confidence: MOCK_CONFIDENCE, usage: usage(request, content) }
+    },
+    // Streams word by word, optionally paced to exercise progressive rendering
+    async *stream(request, { signal } = {}) {
+      const content = reply(request)
+      for (const word of content.split(/(?<= )/)) {
+        if (signal?.aborted) return
+        if (delayMs > 0) await new Promise(resolve => setTimeout(resolve, delayMs))
+        yield word
+      }
+      yield { confidence: MOCK_CONFIDENCE, usage: usage(request, content) }
+    },
+    // Asks for tools once, then answers
+    async step(request, rounds, tools) {
+      const calls = rounds.length === 0 ? toolCalls(request, tools) : []
+      if (calls.length > 0) {
+        return { type: 'tool_calls', calls, usage: usage(request, JSON.stringify(calls)) }
+      }
+
+      const content = reply(request) + toolSummary(rounds)
+      return { type: 'answer', content, confidence: MOCK_CONFIDENCE, usage: usage(request, content) }
+    },
+    async checkHealth() {
+      return { status: 'healthy' }
+    }
+  }
+}
@@ -0,0 +1,54 @@
+import { AGENT_STREAM_ACCEPT, extractAgentReply, readAgentDeltas } from '@/lib/agent-stream'
+import { N8NAgentRequest } from '@/types/n8n-agent'
+import { ChatCompletionRequest, ChatProvider } from './types'
+
+// Hands each question to an n8n agent workflow, which owns the research tools. The
+// workflow receives an N8NAgentRequest and may answer in one piece or stream.
+export function createN8NChatProvider(webhookUrl: string): ChatProvider {
+  const request = async (completion: ChatCompletionRequest, stream: boolean, signal?: AbortSignal) => {
+    if (!webhookUrl) {
+      throw new Error('N8N_AGENT_WEBHOOK_URL must be set when CHAT_PROVIDER is "n8n"')
+    }
+
+    const body: N8NAgentRequest = { ...completion, stream }
+    const response = await fetch(webhookUrl, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Accept: stream ? AGENT_STREAM_ACCEPT : 'application/json, text/plain'
+      },
+      body: JSON.stringify(body),
+      signal
+    })
+
+    if (!response.ok) {
+      throw new Error(`N8N agent responded with status: ${response.status}`)
+    }
+
+    return response
+  }
+
+  return {
+    name: 'n8n',
+    model: 'n8n-agent',
+    async complete(completion, { signal } = {}) {
+      const response = await request(completion, false, signal)
+
+      // Try to parse as JSON first, fallback to text
+      const contentType = response.headers.get('content-type')
+      if (contentType && contentType.includes('application/json')) {
+        return extractAgentReply(await response.json())
+      }
+      return { content: await response.text() }
+    },
+    async *stream(completion, { signal } = {}) {
+      yield* readAgentDeltas(await request(completion, true, signal))
+    },
+    // The webhook runs the whole agent, so it is not called just to check health
+    async checkHealth() {
+      return webhookUrl
+        ? { status: 'healthy' }
+        : { status: 'unavailable', detail: 'N8N_AGENT_WEBHOOK_URL is not set' }
+    }
+  }
+}
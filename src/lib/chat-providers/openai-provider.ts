@@ -0,0 +1,144 @@
+import OpenAI from 'openai'
+import { normalizeUsage } from '@/lib/chat-usage'
+import { ChatCompletionRequest, ChatProvider, ChatToolCall, ChatToolRound } from './types'
+
+// How long a health check waits for the API
+const HEALTH_CHECK_TIMEOUT_MS = 5000
+
+// The system prompt plus what the n8n workflow would otherwise look up itself: the
+// idea under discussion, the watchlist and the summary of older turns
+function systemMessage({ systemPrompt, context, historySummary }: ChatCompletionRequest): string {
+  const sections = [systemPrompt]
+
+  if (context.idea) {
+    sections.push(
+      `The user is discussing the trading idea "${context.idea.theme}" (${context.idea.tickers}).\n` +
+      `Idea analysis: ${context.idea.analysis}`
+    )
+  }
+  if (context.watchlist && context.watchlist.length > 0) {
+    sections.push(`The user's watchlist: ${context.watchlist.join(', ')}`)
+  }
+  if (context.userProfile?.riskTolerance || context.userProfile?.investmentGoals) {
+    sections.push(
+      `User profile: risk tolerance ${context.userProfile.riskTolerance || 'unknown'}, ` +
+      `goals ${context.userProfile.investmentGoals || 'unknown'}`
+    )
+  }
+  if (historySummary) {
+    sections.push(`Earlier in this conversation:\n${historySummary}`)
+  }
+
+  return sections.join('\n\n')
+}
+
+function messages(request: ChatCompletionRequest): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+  return [
+    { role: 'system', content: systemMessage(request) },
+    ...request.history.map(turn => ({ role: turn.role, content: turn.content })),
+    { role: 'user', content: request.message }
+  ]
+}
+
+// Each earlier tool round as the assistant's calls followed by one tool message per result
+function toolMessages(rounds: ChatToolRound[]): OpenAI.Chat.Completions.ChatCompletionMessageParam[] {
+  return rounds.flatMap((round): OpenAI.Chat.Completions.ChatCompletionMessageParam[] => [
+    {
+      role: 'assistant',
+      content: null,
+      tool_calls: round.map(({ call }) => ({
+        id: call.id,
+        type: 'function',
+        function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+      }))
+    },
+    ...round.map(({ call, result }) => ({ role: 'tool' as const, tool_call_id: call.id, content: result }))
+  ])
+}
+
+// Malformed arguments reach the tool as an empty object, which reports what is missing
+function parseArguments(raw: string): Record<string, unknown> {
+  try {
+    const parsed = JSON.parse(raw || '{}')
+    return parsed && typeof parsed === 'object' && !Array.isArray(parsed) ? parsed : {}
+  } catch {
+    return {}
+  }
+}
+
+// Any API that speaks the OpenAI chat completions protocol: OpenAI itself, or a
+// compatible gateway or local server selected with OPENAI_BASE_URL
+export function createOpenAIChatProvider({ apiKey, baseUrl, model }: {
+  apiKey: string
+  baseUrl: string
+  model: string
+}): ChatProvider {
+  if (!apiKey) {
+    throw new Error('OPENAI_API_KEY must be set when CHAT_PROVIDER is "openai"')
+  }
+
+  const client = new OpenAI({ apiKey, baseURL: baseUrl || undefined })
+
+  return {
+    name: 'openai',
+    model,
+    async complete(request, { signal } = {}) {
+      const completion = await client.chat.completions.create(
+        { model, messages: messages(request), max_tokens: request.maxTokens, temperature: request.temperature },
+        { signal }
+      )
+      return { content: completion.choices[0]?.message?.content || '', usage: normalizeUsage(completion.usage) }
+    },
+    async *stream(request, { signal } = {}) {
+      const stream = await client.chat.completions.create(
+        {
+          model,
+          messages: messages(request),
+          max_tokens: request.maxTokens,
+          temperature: request.temperature,
+          stream: true,
+          // Token counts arrive in a last chunk without choices
+          stream_options: { include_usage: true }
+        },
+        { signal }
+      )
+      for await (const chunk of stream) {
+        const text = chunk.choices[0]?.delta?.content
+        if (text) yield text
+        if (chunk.usage) yield { usage: normalizeUsage(chunk.usage) }
+      }
+    },
+    async step(request, rounds, tools, { signal } = {}) {
+      const completion = await client.chat.completions.create(
+        {
+          model,
+          messages: [...messages(request), ...toolMessages(rounds)],
+          tools: tools.length > 0
+            ? tools.map(({ name, description, parameters }) => ({ type: 'function', function: { name, description, parameters } }))
+            : undefined,
+          max_tokens: request.maxTokens,
+          temperature: request.temperature
+        },
+        { signal }
+      )
+
+      const message = completion.choices[0]?.message
+      const calls: ChatToolCall[] = (message?.tool_calls || []).flatMap(call => call.type === 'function'
+        ? [{ id: call.id, name: call.function.name, arguments: parseArguments(call.function.arguments) }]
+        : [])
+
+      const usage = normalizeUsage(completion.usage)
+      return calls.length > 0
+        ? { type: 'tool_calls', calls, usage }
+        : { type: 'answer', content: message?.content || '', usage }
+    },
+    async checkHealth() {
+      try {
+        await client.models.retrieve(model, { timeout: HEALTH_CHECK_TIMEOUT_MS, maxRetries: 0 })
+        return { status: 'healthy' }
+      } catch (error) {
+        return { status: 'unavailable', detail: error instanceof Error ? error.message : String(error) }
+      }
+    }
+  }
+}
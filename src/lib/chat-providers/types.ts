@@ -0,0 +1,79 @@
+import { ChatSource } from '@/types/api'
+import { N8NAgentMessage, N8NAgentRequest } from '@/types/n8n-agent'
+
+// Everything a provider needs to answer one question
+export interface ChatCompletionRequest {
+  message: string
+  context: N8NAgentRequest['context']
+  systemPrompt: string
+  // Prior turns, oldest first, not including `message`
+  history: N8NAgentMessage[]
+  historySummary: string | null
+  maxTokens: number
+  temperature: number
+}
+
+// Tokens a reply used, when the backend reports them
+export interface ChatUsage {
+  promptTokens: number
+  completionTokens: number
+}
+
+// What a provider may report about a reply besides its text
+export interface ChatReplyDetails {
+  sources?: ChatSource[]
+  // 0 to 1
+  confidence?: number | null
+  usage?: ChatUsage
+}
+
+export interface ChatReply extends ChatReplyDetails {
+  content: string
+}
+
+// Streamed text, or details that arrive with it, usually once at the end
+export type ChatStreamPart = string | ChatReplyDetails
+
+// A tool offered to the model, described by a JSON Schema of its arguments
+export interface ChatToolSpec {
+  name: string
+  description: string
+  parameters: Record<string, unknown>
+}
+
+export interface ChatToolCall {
+  id: string
+  name: string
+  arguments: Record<string, unknown>
+}
+
+// The calls the model made in one step, each with its result serialized for the model
+export type ChatToolRound = { call: ChatToolCall; result: string }[]
+
+export type ChatStep =
+  | { type: 'tool_calls'; calls: ChatToolCall[]; usage?: ChatUsage }
+  | ({ type: 'answer' } & ChatReply)
+
+export interface ChatProviderHealth {
+  status: 'healthy' | 'unavailable'
+  detail?: string
+}
+
+export interface ChatProvider {
+  name: string
+  // Reported with each reply and stored on assistant messages
+  model: string
+  // Resolves with the whole reply; throws when the backend fails
+  complete(request: ChatCompletionRequest, options?: { signal?: AbortSignal }): Promise<ChatReply>
+  // Yields the reply as it is generated; backends that cannot stream yield it once
+  stream(request: ChatCompletionRequest, options?: { signal?: AbortSignal }): AsyncIterable<ChatStreamPart>
+  checkHealth(): Promise<ChatProviderHealth>
+  // Providers that can call tools: given the tool rounds so far, either asks for more
+  // tool calls or answers. Providers without it answer from the conversation alone.
+  step?(
+    request: ChatCompletionRequest,
+    rounds: ChatToolRound[],
+    tools: ChatToolSpec[],
+    options?: { signal?: AbortSignal }
+  ): Promise<ChatStep>
+}
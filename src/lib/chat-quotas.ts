@@ -0,0 +1,78 @@
+/**
+ * Chat Quotas
+ *
+ * Limits on research chat requests: a per-minute rate limit for everyone plus daily
+ * and monthly quotas that depend on the user's subscription_status. Counters live in
+ * the RATE_LIMIT_STORE so limits hold across deploys and serverless instances.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { config } from '@/lib/config'
+import {
+  RateLimitPolicy,
+  RateLimitResult,
+  RateLimitWindowStatus,
+  consumeRateLimit,
+  getRateLimitStore,
+  peekRateLimit
+} from '@/lib/rate-limit'
+import { UserProfile } from '@/types/user'
+
+export type SubscriptionTier = UserProfile['subscription_status']
+
+const CHAT_SCOPE = 'chat'
+
+// Premium and trial fall back to free once subscription_expires_at has passed
+export function subscriptionTier(
+  profile: Pick<UserProfile, 'subscription_status' | 'subscription_expires_at'> | null,
+  now: Date = new Date()
+): SubscriptionTier {
+  if (!profile || profile.subscription_status === 'free') return 'free'
+  if (profile.subscription_expires_at && new Date(profile.subscription_expires_at) <= now) return 'free'
+  return profile.subscription_status
+}
+
+export function chatRateLimitPolicies(tier: SubscriptionTier): RateLimitPolicy[] {
+  const limits = config.rateLimits.chat
+  return [
+    { period: 'minute', limit: limits.perMinute },
+    { period: 'day', limit: limits.daily[tier] },
+    { period: 'month', limit: limits.monthly[tier] }
+  ]
+}
+
+async function findTier(supabase: SupabaseClient, userId: string, now: Date): Promise<SubscriptionTier> {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('subscription_status, subscription_expires_at')
+    .eq('id', userId)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Database error fetching subscription: ${error.message}`)
+  }
+
+  return subscriptionTier(data as Pick<UserProfile, 'subscription_status' | 'subscription_expires_at'> | null, now)
+}
+
+// Counts one chat request for the user; nothing is counted when a limit is already reached
+export async function consumeChatQuota(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<RateLimitResult & { tier: SubscriptionTier }> {
+  const tier = await findTier(supabase, userId, now)
+  const result = await consumeRateLimit(getRateLimitStore(supabase), userId, CHAT_SCOPE, chatRateLimitPolicies(tier), now)
+  return { ...result, tier }
+}
+
+// The user's standing in each chat window, without counting a request
+export async function chatQuotaStatus(
+  supabase: SupabaseClient,
+  userId: string,
+  now: Date = new Date()
+): Promise<{ tier: SubscriptionTier; windows: RateLimitWindowStatus[] }> {
+  const tier = await findTier(supabase, userId, now)
+  const windows = await peekRateLimit(getRateLimitStore(supabase), userId, CHAT_SCOPE, chatRateLimitPolicies(tier), now)
+  return { tier, windows }
+}
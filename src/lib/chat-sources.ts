@@ -0,0 +1,75 @@
+/**
+ * Chat Sources
+ *
+ * Citations and confidence for research chat answers. Agents report sources in
+ * different shapes (URLs, { title, url } objects, search results) and confidence as a
+ * fraction or a percentage; these are normalized before they are returned and stored.
+ * Answers from the tool loop cite the pages its search tools returned.
+ */
+
+import { ChatSource, ToolTraceEntry } from '@/types/api'
+
+// Sources kept per answer
+export const MAX_SOURCES = 10
+
+function sourceTitle(url: string): string {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '')
+  } catch {
+    return url
+  }
+}
+
+function isHttpUrl(value: string): boolean {
+  return /^https?:\/\//i.test(value)
+}
+
+function toSource(raw: unknown): ChatSource | null {
+  if (typeof raw === 'string') {
+    const url = raw.trim()
+    return isHttpUrl(url) ? { title: sourceTitle(url), url } : null
+  }
+  if (!raw || typeof raw !== 'object') return null
+
+  const source = raw as Record<string, unknown>
+  const url = typeof source.url === 'string' ? source.url : typeof source.link === 'string' ? source.link : ''
+  if (!isHttpUrl(url)) return null
+
+  const title = typeof source.title === 'string' && source.title.trim() ? source.title.trim() : sourceTitle(url)
+  return { title, url }
+}
+
+// Distinct http(s) sources in the order given; anything else is dropped
+export function normalizeSources(...lists: unknown[]): ChatSource[] {
+  const sources: ChatSource[] = []
+  const seen = new Set<string>()
+
+  for (const list of lists) {
+    if (!Array.isArray(list)) continue
+    for (const raw of list) {
+      const source = toSource(raw)
+      if (!source || seen.has(source.url)) continue
+      seen.add(source.url)
+      sources.push(source)
+      if (sources.length === MAX_SOURCES) return sources
+    }
+  }
+
+  return sources
+}
+
+// Pages returned by the search tools, in the order they were called
+export function toolSources(toolCalls: ToolTraceEntry[]): ChatSource[] {
+  return normalizeSources(...toolCalls.map(call => {
+    const result = call.result as { results?: unknown } | undefined
+    return result?.results
+  }))
+}
+
+// A fraction between 0 and 1; percentages are scaled down, anything else is null
+export function normalizeConfidence(raw: unknown): number | null {
+  const value = typeof raw === 'string' ? parseFloat(raw) : raw
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) return null
+  if (value <= 1) return value
+  return value <= 100 ? value / 100 : null
+}
@@ -0,0 +1,249 @@
+/**
+ * Chat Usage
+ *
+ * Metering for research chat. POST /api/chat records every request after sign-in with
+ * its provider, latency, token counts (when the provider reports them), outcome and
+ * estimated cost. GET /api/usage shows users their own usage next to their quotas;
+ * GET /api/usage/admin aggregates everyone's.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { config } from '@/lib/config'
+import { ChatUsage } from '@/lib/chat-providers'
+
+export type ChatUsageStatus = 'success' | 'error' | 'rejected' | 'cancelled'
+
+export const DEFAULT_USAGE_DAYS = 30
+export const MAX_USAGE_DAYS = 90
+
+export const DEFAULT_TOP_USERS = 20
+export const MAX_TOP_USERS = 100
+
+export interface ChatUsageEvent {
+  userId: string
+  conversationId?: string | null
+  provider: string
+  model?: string | null
+  status: ChatUsageStatus
+  errorCode?: string | null
+  streamed?: boolean
+  latencyMs: number
+  usage?: ChatUsage
+  toolCalls?: number
+}
+
+// One row of chat_usage_summary
+export interface ChatUsageSummaryRow {
+  day: string
+  provider: string
+  model: string | null
+  status: ChatUsageStatus
+  requests: number
+  users: number
+  prompt_tokens: number
+  completion_tokens: number
+  cost_usd: number
+  avg_latency_ms: number | null
+}
+
+export interface ChatUsageTotals {
+  requests: number
+  errors: number
+  promptTokens: number
+  completionTokens: number
+  costUsd: number
+  avgLatencyMs: number | null
+}
+
+export interface ChatUsageReport {
+  from: string
+  to: string
+  totals: ChatUsageTotals
+  daily: (ChatUsageTotals & { day: string })[]
+  byModel: (ChatUsageTotals & { provider: string; model: string | null })[]
+  byStatus: Record<ChatUsageStatus, number>
+}
+
+export interface ChatUsageTopUser {
+  userId: string
+  requests: number
+  errors: number
+  promptTokens: number
+  completionTokens: number
+  costUsd: number
+}
+
+// Token counts in the shapes backends report them: OpenAI (prompt_tokens,
+// completion_tokens), Anthropic-style (input_tokens, output_tokens) or camelCase
+export function normalizeUsage(raw: unknown): ChatUsage | undefined {
+  if (!raw || typeof raw !== 'object') return undefined
+
+  const usage = raw as Record<string, unknown>
+  const prompt = usage.prompt_tokens ?? usage.input_tokens ?? usage.promptTokens
+  const completion = usage.completion_tokens ?? usage.output_tokens ?? usage.completionTokens
+  if (typeof prompt !== 'number' && typeof completion !== 'number') return undefined
+
+  return {
+    promptTokens: typeof prompt === 'number' ? prompt : 0,
+    completionTokens: typeof completion === 'number' ? completion : 0
+  }
+}
+
+export function addUsage(total: ChatUsage | undefined, usage: ChatUsage | undefined): ChatUsage | undefined {
+  if (!usage) return total
+  if (!total) return usage
+  return {
+    promptTokens: total.promptTokens + usage.promptTokens,
+    completionTokens: total.completionTokens + usage.completionTokens
+  }
+}
+
+// Estimated from CHAT_INPUT_COST_PER_MTOK and CHAT_OUTPUT_COST_PER_MTOK; null without token counts
+export function usageCost(usage: ChatUsage | undefined): number | null {
+  if (!usage) return null
+  const { inputPerMillion, outputPerMillion } = config.chat.pricing
+  const cost = (usage.promptTokens * inputPerMillion + usage.completionTokens * outputPerMillion) / 1_000_000
+  return Math.round(cost * 1_000_000) / 1_000_000
+}
+
+// Needs a service role client: users cannot write their own usage. Metering never fails
+// a chat request: storage errors are logged and dropped
+export async function recordChatUsage(supabase: SupabaseClient, event: ChatUsageEvent): Promise<void> {
+  const { error } = await supabase.from('chat_usage_events').insert([
+    {
+      user_id: event.userId,
+      conversation_id: event.conversationId ?? null,
+      provider: event.provider,
+      model: event.model ?? null,
+      status: event.status,
+      error_code: event.errorCode ?? null,
+      streamed: event.streamed ?? false,
+      latency_ms: Math.max(Math.round(event.latencyMs), 0),
+      prompt_tokens: event.usage?.promptTokens ?? null,
+      completion_tokens: event.usage?.completionTokens ?? null,
+      tool_calls: event.toolCalls ?? 0,
+      cost_usd: usageCost(event.usage)
+    }
+  ])
+
+  if (error) {
+    console.error('Failed to record chat usage:', error.message)
+  }
+}
+
+// Running sums behind ChatUsageTotals; latency is averaged over the rows that have it
+interface UsageAccumulator {
+  requests: number
+  errors: number
+  promptTokens: number
+  completionTokens: number
+  costUsd: number
+  latencyTotal: number
+  latencyRequests: number
+}
+
+function emptyAccumulator(): UsageAccumulator {
+  return { requests: 0, errors: 0, promptTokens: 0, completionTokens: 0, costUsd: 0, latencyTotal: 0, latencyRequests: 0 }
+}
+
+function accumulate(sums: UsageAccumulator, row: ChatUsageSummaryRow) {
+  const requests = Number(row.requests)
+  sums.requests += requests
+  if (row.status === 'error') sums.errors += requests
+  sums.promptTokens += Number(row.prompt_tokens)
+  sums.completionTokens += Number(row.completion_tokens)
+  sums.costUsd += Number(row.cost_usd)
+
+  if (row.avg_latency_ms !== null) {
+    sums.latencyTotal += Number(row.avg_latency_ms) * requests
+    sums.latencyRequests += requests
+  }
+}
+
+function totalsOf(sums: UsageAccumulator): ChatUsageTotals {
+  return {
+    requests: sums.requests,
+    errors: sums.errors,
+    promptTokens: sums.promptTokens,
+    completionTokens: sums.completionTokens,
+    costUsd: Math.round(sums.costUsd * 1_000_000) / 1_000_000,
+    avgLatencyMs: sums.latencyRequests > 0 ? Math.round(sums.latencyTotal / sums.latencyRequests) : null
+  }
+}
+
+// Usage between `from` and `to`, by day and by model. With a user's client it covers
+// that user only; with the service role it covers everyone.
+export async function getChatUsageReport(supabase: SupabaseClient, from: Date, to: Date): Promise<ChatUsageReport> {
+  const { data, error } = await supabase.rpc('chat_usage_summary', {
+    from_time: from.toISOString(),
+    to_time: to.toISOString()
+  })
+
+  if (error) {
+    throw new Error(`Database error fetching chat usage: ${error.message}`)
+  }
+
+  const rows = (data || []) as ChatUsageSummaryRow[]
+  const totals = emptyAccumulator()
+  const daily = new Map<string, UsageAccumulator>()
+  const byModel = new Map<string, { provider: string; model: string | null; sums: UsageAccumulator }>()
+  const byStatus: Record<ChatUsageStatus, number> = { success: 0, error: 0, rejected: 0, cancelled: 0 }
+
+  for (const row of rows) {
+    accumulate(totals, row)
+
+    if (!daily.has(row.day)) daily.set(row.day, emptyAccumulator())
+    accumulate(daily.get(row.day)!, row)
+
+    const modelKey = `${row.provider}|${row.model ?? ''}`
+    if (!byModel.has(modelKey)) byModel.set(modelKey, { provider: row.provider, model: row.model, sums: emptyAccumulator() })
+    accumulate(byModel.get(modelKey)!.sums, row)
+
+    byStatus[row.status] += Number(row.requests)
+  }
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    totals: totalsOf(totals),
+    daily: Array.from(daily, ([day, sums]) => ({ day, ...totalsOf(sums) })),
+    byModel: Array.from(byModel.values())
+      .map(({ provider, model, sums }) => ({ provider, model, ...totalsOf(sums) }))
+      .sort((a, b) => b.requests - a.requests),
+    byStatus
+  }
+}
+
+// Heaviest users between `from` and `to`; needs a service role client
+export async function getChatUsageTopUsers(
+  supabase: SupabaseClient,
+  from: Date,
+  to: Date,
+  limit: number = DEFAULT_TOP_USERS
+): Promise<ChatUsageTopUser[]> {
+  const { data, error } = await supabase.rpc('chat_usage_top_users', {
+    from_time: from.toISOString(),
+    to_time: to.toISOString(),
+    max_users: limit
+  })
+
+  if (error) {
+    throw new Error(`Database error fetching chat usage by user: ${error.message}`)
+  }
+
+  return ((data || []) as {
+    user_id: string
+    requests: number
+    errors: number
+    prompt_tokens: number
+    completion_tokens: number
+    cost_usd: number
+  }[]).map(row => ({
+    userId: row.user_id,
+    requests: Number(row.requests),
+    errors: Number(row.errors),
+    promptTokens: Number(row.prompt_tokens),
+    completionTokens: Number(row.completion_tokens),
+    costUsd: Number(row.cost_usd)
+  }))
+}
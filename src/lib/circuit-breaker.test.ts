@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vitest'
+import { createCircuitBreaker } from '@/lib/circuit-breaker'
+
+const COOLDOWN_MS = 30_000
+
+// A breaker on a clock the test moves by hand
+function breakerAt(start: number) {
+  let time = start
+  const breaker = createCircuitBreaker({ failureThreshold: 3, cooldownMs: COOLDOWN_MS, now: () => time })
+  return { breaker, advance: (ms: number) => { time += ms } }
+}
+
+function fail(breaker: ReturnType<typeof createCircuitBreaker>, times: number) {
+  for (let i = 0; i < times; i++) breaker.recordFailure()
+}
+
+describe('createCircuitBreaker', () => {
+  it('opens after the failure threshold and refuses calls until the cooldown ends', () => {
+    const { breaker, advance } = breakerAt(1_000_000)
+
+    fail(breaker, 2)
+    expect(breaker.state()).toBe('closed')
+    expect(breaker.allowRequest()).toBe(true)
+
+    breaker.recordFailure()
+    expect(breaker.state()).toBe('open')
+    expect(breaker.allowRequest()).toBe(false)
+    expect(breaker.retryAt()).toEqual(new Date(1_000_000 + COOLDOWN_MS))
+
+    advance(COOLDOWN_MS - 1)
+    expect(breaker.state()).toBe('open')
+
+    advance(1)
+    expect(breaker.state()).toBe('half_open')
+    expect(breaker.retryAt()).toBeNull()
+  })
+
+  it('resets the failure count on success', () => {
+    const { breaker } = breakerAt(0)
+
+    fail(breaker, 2)
+    breaker.recordSuccess()
+    fail(breaker, 2)
+
+    expect(breaker.failures()).toBe(2)
+    expect(breaker.state()).toBe('closed')
+  })
+
+  it('lets one trial call through when half open and closes on its success', () => {
+    const { breaker, advance } = breakerAt(0)
+    fail(breaker, 3)
+    advance(COOLDOWN_MS)
+
+    expect(breaker.allowRequest()).toBe(true)
+    expect(breaker.allowRequest()).toBe(false)
+
+    breaker.recordSuccess()
+    expect(breaker.state()).toBe('closed')
+    expect(breaker.failures()).toBe(0)
+    expect(breaker.allowRequest()).toBe(true)
+    expect(breaker.allowRequest()).toBe(true)
+  })
+
+  it('reopens for another cooldown when the trial call fails', () => {
+    const { breaker, advance } = breakerAt(0)
+    fail(breaker, 3)
+    advance(COOLDOWN_MS)
+
+    expect(breaker.allowRequest()).toBe(true)
+    breaker.recordFailure()
+
+    expect(breaker.state()).toBe('open')
+    expect(breaker.retryAt()).toEqual(new Date(2 * COOLDOWN_MS))
+    expect(breaker.allowRequest()).toBe(false)
+
+    advance(COOLDOWN_MS)
+    expect(breaker.allowRequest()).toBe(true)
+  })
+
+  it('frees the trial slot when the trial call is cancelled', () => {
+    const { breaker, advance } = breakerAt(0)
+    fail(breaker, 3)
+    advance(COOLDOWN_MS)
+
+    expect(breaker.allowRequest()).toBe(true)
+    breaker.recordCancelled()
+
+    expect(breaker.state()).toBe('half_open')
+    expect(breaker.allowRequest()).toBe(true)
+    expect(breaker.allowRequest()).toBe(false)
+  })
+})
@@ -0,0 +1,74 @@
+/**
+ * Circuit Breaker
+ *
+ * Stops calling an upstream service after repeated failures. After `failureThreshold`
+ * consecutive failures the circuit opens and calls are refused for `cooldownMs`; the
+ * first call after that is let through as a trial, and its outcome closes the circuit
+ * or opens it for another cooldown. State is kept per server instance.
+ */
+
+export type CircuitState = 'closed' | 'open' | 'half_open'
+
+export interface CircuitBreaker {
+  state(): CircuitState
+  // Whether a call may go ahead now; in half_open, only the one trial call may
+  allowRequest(): boolean
+  recordSuccess(): void
+  recordFailure(): void
+  // For calls that ended without saying anything about the service, e.g. cancelled by
+  // the caller; frees the trial slot so the next call can try
+  recordCancelled(): void
+  // When an open circuit lets a trial call through; null unless open
+  retryAt(): Date | null
+  failures(): number
+}
+
+export function createCircuitBreaker({
+  failureThreshold,
+  cooldownMs,
+  now = () => Date.now()
+}: {
+  failureThreshold: number
+  cooldownMs: number
+  now?: () => number
+}): CircuitBreaker {
+  let consecutiveFailures = 0
+  let openedAt: number | null = null
+  let trialInFlight = false
+
+  const state = (): CircuitState => {
+    if (openedAt === null) return 'closed'
+    return now() - openedAt >= cooldownMs ? 'half_open' : 'open'
+  }
+
+  return {
+    state,
+    allowRequest() {
+      const current = state()
+      if (current === 'closed') return true
+      if (current === 'open' || trialInFlight) return false
+      trialInFlight = true
+      return true
+    },
+    recordSuccess() {
+      consecutiveFailures = 0
+      openedAt = null
+      trialInFlight = false
+    },
+    recordFailure() {
+      consecutiveFailures++
+      // A failed trial reopens the circuit straight away
+      if (trialInFlight || consecutiveFailures >= failureThreshold) openedAt = now()
+      trialInFlight = false
+    },
+    recordCancelled() {
+      trialInFlight = false
+    },
+    retryAt() {
+      return state() === 'open' && openedAt !== null ? new Date(openedAt + cooldownMs) : null
+    },
+    failures() {
+      return consecutiveFailures
+    }
+  }
+}
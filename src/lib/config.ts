@@ -3,10 +3,97 @@ export const config = {
   supabase: {
     url: process.env.NEXT_PUBLIC_SUPABASE_URL!,
     anonKey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY!,
+    // Server-only; never expose through NEXT_PUBLIC_ variables
+    serviceRoleKey: process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  },
+  admin: {
+    // Shared secret for automation endpoints (n8n workflows, scheduled jobs)
+    apiSecret: process.env.ADMIN_API_SECRET || '',
+  },
+  site: {
+    // Public origin used in share links; falls back to the request origin when unset
+    url: process.env.NEXT_PUBLIC_SITE_URL || '',
   },
   logo: {
     url: process.env.NEXT_PUBLIC_LOGO_URL || '',
   },
+  quotes: {
+    // "fixture" (bundled snapshot) or "mock" (deterministic quotes for any symbol)
+    provider: process.env.QUOTE_PROVIDER || 'fixture',
+  },
+  notifications: {
+    // How email/push notifications leave the app: "log" (server log) or "webhook"
+    sender: process.env.NOTIFICATION_SENDER || 'log',
+    webhookUrl: process.env.NOTIFICATION_WEBHOOK_URL || '',
+    webhookSecret: process.env.NOTIFICATION_WEBHOOK_SECRET || '',
+  },
+  prices: {
+    // Historical closes used for idea performance tracking
+    source: process.env.PRICE_SOURCE || 'fixture',
+    // Ticker idea returns are compared against
+    benchmark: (process.env.IDEA_BENCHMARK_TICKER || 'SPY').toUpperCase(),
+  },
+  chat: {
+    // Backend that answers research chat: "n8n" (agent webhook), "openai" (any OpenAI-compatible API) or "mock"
+    provider: process.env.CHAT_PROVIDER || 'n8n',
+    n8nWebhookUrl: process.env.N8N_AGENT_WEBHOOK_URL || '',
+    openai: {
+      apiKey: process.env.OPENAI_API_KEY || '',
+      // Set for compatible gateways and local servers; empty uses api.openai.com
+      baseUrl: process.env.OPENAI_BASE_URL || '',
+      model: process.env.OPENAI_MODEL || 'gpt-4o-mini',
+    },
+    // Pause between streamed words of the mock provider
+    mockDelayMs: parseInt(process.env.CHAT_MOCK_DELAY_MS || '') || 0,
+    // Instructions sent to the research agent with every question; empty uses the built-in prompt
+    systemPrompt: process.env.CHAT_SYSTEM_PROMPT || '',
+    // Approximate tokens of earlier turns sent with each question; older turns are summarized
+    historyTokenBudget: parseInt(process.env.CHAT_HISTORY_TOKEN_BUDGET || '') || 3000,
+    // Let providers that support tool calling search, look up quotes and read the user's data
+    tools: process.env.CHAT_TOOLS !== 'false',
+    // Tool rounds per question before the agent must answer
+    maxToolSteps: parseInt(process.env.CHAT_MAX_TOOL_STEPS || '') || 4,
+    // How long a reply or tool step may take, and how long a stream may go quiet, before AGENT_TIMEOUT
+    timeoutMs: parseInt(process.env.CHAT_AGENT_TIMEOUT_MS || '') || 60000,
+    // Consecutive failures before chat requests are refused with AGENT_UNAVAILABLE, and for how long
+    breaker: {
+      failureThreshold: parseInt(process.env.CHAT_BREAKER_FAILURE_THRESHOLD || '') || 5,
+      cooldownMs: parseInt(process.env.CHAT_BREAKER_COOLDOWN_MS || '') || 30000,
+    },
+    // Prices in USD per million tokens, for the cost estimates in usage metering
+    pricing: {
+      inputPerMillion: parseFloat(process.env.CHAT_INPUT_COST_PER_MTOK || '') || 0,
+      outputPerMillion: parseFloat(process.env.CHAT_OUTPUT_COST_PER_MTOK || '') || 0,
+    },
+  },
+  rateLimits: {
+    // Where request counters live: "postgres" (shared by every instance) or "memory" (this process only)
+    store: process.env.RATE_LIMIT_STORE || 'postgres',
+    chat: {
+      // Chat requests per minute, whatever the subscription
+      perMinute: parseInt(process.env.CHAT_RATE_LIMIT_PER_MINUTE || '') || 10,
+      // Chat requests per UTC day and UTC month by subscription_status
+      daily: {
+        free: parseInt(process.env.CHAT_DAILY_QUOTA_FREE || '') || 50,
+        trial: parseInt(process.env.CHAT_DAILY_QUOTA_TRIAL || '') || 200,
+        premium: parseInt(process.env.CHAT_DAILY_QUOTA_PREMIUM || '') || 1000,
+      },
+      monthly: {
+        free: parseInt(process.env.CHAT_MONTHLY_QUOTA_FREE || '') || 500,
+        trial: parseInt(process.env.CHAT_MONTHLY_QUOTA_TRIAL || '') || 3000,
+        premium: parseInt(process.env.CHAT_MONTHLY_QUOTA_PREMIUM || '') || 20000,
+      },
+    },
+  },
+  search: {
+    // Web and news search for the research agent: "serpapi" or "mock"
+    provider: process.env.SEARCH_PROVIDER || 'serpapi',
+    serpApiKey: process.env.SERPAPI_API_KEY || '',
+  },
+  symbols: {
+    // Only accept symbols listed in the bundled directory, not any well-formed symbol
+    strict: process.env.SYMBOL_DIRECTORY_STRICT === 'true',
+  },
 } as const
 
 // Export individual values for easier access
@@ -0,0 +1,167 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { GeneratedIdeaRow, ParsedIdea, parseIdeaRow } from '@/lib/idea-parser'
+import { fetchAllRows } from '@/lib/paged-reads'
+import { IdeaInteractionCounts, IdeaInteractionType } from '@/types/api'
+
+// Postgres unique_violation
+const UNIQUE_VIOLATION = '23505'
+
+interface LegacyInteraction {
+  id: string
+  user_id: string
+  idea_id: number
+  interaction_type: string
+  created_at: string
+}
+
+export interface BackfillResult {
+  interactionsScanned: number
+  interactionsUpdated: number
+  // Duplicates of an interaction that already uses the resolved key
+  interactionsMerged: number
+  // More than one idea had the same synthetic id; the closest earlier idea was used
+  ambiguous: { interactionId: string; ideaId: number; chosenKey: string; candidates: string[] }[]
+  // No idea parses to the stored synthetic id any more
+  unresolved: { interactionId: string; ideaId: number }[]
+}
+
+// Picks the idea the user most likely acted on: the newest one that already existed
+// when the interaction was recorded (lists are shown newest first)
+function chooseCandidate(candidates: ParsedIdea[], interactedAt: string): ParsedIdea {
+  const existing = candidates.filter(idea => idea.created_at <= interactedAt)
+  const pool = existing.length > 0 ? existing : candidates
+  return [...pool].sort((a, b) =>
+    new Date(b.created_at).getTime() - new Date(a.created_at).getTime() || a.position - b.position
+  )[0]
+}
+
+// Assigns idea_key to interactions recorded before keys existed. Their idea_id holds
+// "row id + position", which is resolved by re-parsing the rows it could have come from.
+export async function backfillInteractionKeys(
+  supabase: SupabaseClient,
+  options: { dryRun?: boolean } = {}
+): Promise<BackfillResult> {
+  const result: BackfillResult = {
+    interactionsScanned: 0,
+    interactionsUpdated: 0,
+    interactionsMerged: 0,
+    ambiguous: [],
+    unresolved: []
+  }
+
+  const pending = await fetchAllRows<LegacyInteraction>(
+    (from, to) => supabase
+      .from('user_idea_interactions')
+      .select('id, user_id, idea_id, interaction_type, created_at')
+      .is('idea_key', null)
+      .not('idea_id', 'is', null)
+      .order('id', { ascending: true })
+      .range(from, to),
+    'fetching interactions'
+  )
+  result.interactionsScanned = pending.length
+  if (pending.length === 0) return result
+
+  // A synthetic id never exceeds the row id it came from plus its position
+  const maxIdeaId = pending.reduce((max, interaction) => Math.max(max, interaction.idea_id), 0)
+  const rows = await fetchAllRows<GeneratedIdeaRow>(
+    (from, to) => supabase
+      .from('generated_ideas')
+      .select('id, created_at, theme, analysis, tickers')
+      .lte('id', maxIdeaId)
+      .order('id', { ascending: true })
+      .range(from, to),
+    'fetching legacy ideas'
+  )
+
+  const byLegacyId = new Map<number, ParsedIdea[]>()
+  for (const row of rows) {
+    for (const idea of parseIdeaRow(row).ideas) {
+      byLegacyId.set(idea.legacyId, [...(byLegacyId.get(idea.legacyId) || []), idea])
+    }
+  }
+
+  for (const interaction of pending) {
+    const candidates = byLegacyId.get(interaction.idea_id) || []
+    if (candidates.length === 0) {
+      result.unresolved.push({ interactionId: interaction.id, ideaId: interaction.idea_id })
+      continue
+    }
+
+    const chosen = chooseCandidate(candidates, interaction.created_at)
+    if (candidates.length > 1) {
+      result.ambiguous.push({
+        interactionId: interaction.id,
+        ideaId: interaction.idea_id,
+        chosenKey: chosen.key,
+        candidates: candidates.map(idea => idea.key)
+      })
+    }
+
+    if (options.dryRun) {
+      result.interactionsUpdated++
+      continue
+    }
+
+    const { error: updateError } = await supabase
+      .from('user_idea_interactions')
+      .update({ idea_key: chosen.key, idea_id: chosen.sourceRowId })
+      .eq('id', interaction.id)
+
+    if (!updateError) {
+      result.interactionsUpdated++
+      continue
+    }
+
+    if (updateError.code !== UNIQUE_VIOLATION) {
+      throw new Error(`Database error updating interaction: ${updateError.message}`)
+    }
+
+    // The user already has this interaction under the new key
+    const { error: deleteError } = await supabase
+      .from('user_idea_interactions')
+      .delete()
+      .eq('id', interaction.id)
+
+    if (deleteError) {
+      throw new Error(`Database error removing duplicate interaction: ${deleteError.message}`)
+    }
+
+    result.interactionsMerged++
+  }
+
+  return result
+}
+
+// PostgREST code for an RPC that does not exist (migration not applied yet)
+const MISSING_FUNCTION_CODE = 'PGRST202'
+
+export function emptyInteractionCounts(): IdeaInteractionCounts {
+  return { viewed: 0, liked: 0, saved: 0, traded: 0 }
+}
+
+// Interaction totals across all users for each key; keys nobody interacted with get zeros
+export async function countInteractions(
+  supabase: SupabaseClient,
+  ideaKeys: string[]
+): Promise<Record<string, IdeaInteractionCounts>> {
+  const counts: Record<string, IdeaInteractionCounts> = {}
+  for (const key of ideaKeys) counts[key] = emptyInteractionCounts()
+  if (ideaKeys.length === 0) return counts
+
+  const { data, error } = await supabase.rpc('idea_interaction_counts', { idea_keys: ideaKeys })
+
+  if (error) {
+    if (error.code === MISSING_FUNCTION_CODE) {
+      console.warn('idea_interaction_counts function not found, returning zero counts')
+      return counts
+    }
+    throw new Error(`Database error counting interactions: ${error.message}`)
+  }
+
+  for (const row of (data || []) as { idea_key: string; interaction_type: IdeaInteractionType; total: number }[]) {
+    if (counts[row.idea_key]) counts[row.idea_key][row.interaction_type] = Number(row.total)
+  }
+
+  return counts
+}
@@ -0,0 +1,33 @@
+import { readdirSync, readFileSync } from 'node:fs'
+import { join } from 'node:path'
+import { describe, expect, it } from 'vitest'
+import { GeneratedIdeaRow, IdeaFormat, ParseWarningCode, parseIdeaRow } from '@/lib/idea-parser'
+
+interface IdeaFixture {
+  description: string
+  row: GeneratedIdeaRow
+  expected: {
+    format: IdeaFormat
+    ideas: { key: string; legacyId: number; theme: string; tickers: string[] }[]
+    warnings: ParseWarningCode[]
+  }
+}
+
+const fixturesDir = join(__dirname, 'fixtures')
+const fixtures = readdirSync(fixturesDir)
+  .filter(file => file.endsWith('.json'))
+  .map(file => [file, JSON.parse(readFileSync(join(fixturesDir, file), 'utf8')) as IdeaFixture] as const)
+
+describe('parseIdeaRow', () => {
+  it('has fixtures to check', () => {
+    expect(fixtures.length).toBeGreaterThan(0)
+  })
+
+  it.each(fixtures)('%s', (_file, { row, expected }) => {
+    const { format, ideas, warnings } = parseIdeaRow(row)
+
+    expect(format).toBe(expected.format)
+    expect(ideas.map(({ key, legacyId, theme, tickers }) => ({ key, legacyId, theme, tickers }))).toEqual(expected.ideas)
+    expect(warnings.map(warning => warning.code)).toEqual(expected.warnings)
+  })
+})
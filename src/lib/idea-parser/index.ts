@@ -0,0 +1,379 @@
+/**
+ * Trading Idea Parser
+ *
+ * Turns a generated_ideas row into individual ideas. The n8n generator has emitted
+ * several layouts over time:
+ * - combined:   "IDEA 1 - Theme" blocks separated by "---", tickers grouped the same way
+ * - markdown:   "## Theme" / "### IDEA 2: Theme" headings, one idea per section
+ * - numbered:   "1. **Theme** - analysis" list items
+ * - individual: one idea per row using the row's theme, analysis and tickers
+ *
+ * Every idea gets a key derived from its source row and position so it can be
+ * addressed across re-parses. Anything the parser had to guess is reported as a
+ * warning instead of being dropped silently.
+ */
+
+export type IdeaFormat = 'combined' | 'markdown' | 'numbered' | 'individual'
+
+export interface GeneratedIdeaRow {
+  id: number
+  created_at: string
+  theme: string
+  analysis: string
+  tickers: string
+}
+
+export interface ParsedIdea {
+  key: string
+  // id + position, the identifier used before keys existed; kept for stored interactions
+  legacyId: number
+  sourceRowId: number
+  position: number
+  created_at: string
+  theme: string
+  analysis: string
+  tickers: string[]
+}
+
+export type ParseWarningCode =
+  | 'MISSING_HEADER'
+  | 'MISSING_TICKERS'
+  | 'TICKER_GROUP_MISMATCH'
+  | 'EMPTY_ANALYSIS'
+  | 'EMPTY_ROW'
+  | 'UNRECOGNIZED_BLOCK'
+
+export interface ParseWarning {
+  code: ParseWarningCode
+  rowId: number
+  position?: number
+  message: string
+}
+
+export interface ParseResult {
+  format: IdeaFormat
+  ideas: ParsedIdea[]
+  warnings: ParseWarning[]
+}
+
+interface RawBlock {
+  position: number
+  theme: string | null
+  body: string
+}
+
+const COMBINED_HEADER = /^\s*\**IDEA\s+\d+\**\s*[-–—:]\s*(.+?)\**\s*$/im
+const MARKDOWN_HEADING = /^\s{0,3}(#{1,4})\s+(.+?)\s*#*\s*$/gm
+const NUMBERED_ITEM = /^\s{0,3}(\d{1,2})[.)]\s+(.+)$/gm
+const TICKER_LINE = /^\s*(?:tickers?|symbols?)\s*[:\-–]\s*(.+)$/im
+const TICKER_ONLY_LINE = /^[A-Z][A-Z.\-\s,]*$/
+const CASHTAG = /\$([A-Z]{1,5}(?:[.-][A-Z]{1,2})?)\b/g
+
+export type IdeaKeyParts =
+  | { source: 'generated'; rowId: number; position: number }
+  | { source: 'trading'; id: number }
+
+export function ideaKey(rowId: number, position: number): string {
+  return `gi-${rowId}-${position}`
+}
+
+// Key for ideas written natively to trading_ideas (no generated_ideas origin)
+export function tradingIdeaKey(id: number): string {
+  return `ti-${id}`
+}
+
+export function parseIdeaKey(key: string): IdeaKeyParts | null {
+  const generated = key.match(/^gi-(\d+)-(\d+)$/)
+  if (generated) {
+    return { source: 'generated', rowId: parseInt(generated[1]), position: parseInt(generated[2]) }
+  }
+
+  const trading = key.match(/^ti-(\d+)$/)
+  if (trading) {
+    return { source: 'trading', id: parseInt(trading[1]) }
+  }
+
+  return null
+}
+
+// generated_ideas row an idea came from; null for ideas written natively to trading_ideas
+export function sourceRowIdFromKey(key: string): number | null {
+  const parts = parseIdeaKey(key)
+  return parts?.source === 'generated' ? parts.rowId : null
+}
+
+// Legacy ticker strings come as "AAPL, NVDA", "[\"AAPL\",\"NVDA\"]" or with stray newlines
+export function splitTickers(tickers: string | string[] | null | undefined): string[] {
+  if (!tickers) return []
+
+  const parts = Array.isArray(tickers) ? tickers : tickers.split(/[,\n]/)
+  const cleaned = parts
+    .map(ticker => ticker.trim().replace(/[\[\]"'$]/g, '').toUpperCase())
+    .filter(ticker => ticker.length > 0)
+
+  return Array.from(new Set(cleaned))
+}
+
+// Removes numbering such as "IDEA 2:" or "2." from the start of a title
+function stripNumbering(raw: string): string {
+  return raw
+    .replace(/^\s*(\*\*)?\s*IDEA\s+\d+\s*[-–—:]\s*/i, '$1')
+    .replace(/^\s*(\*\*)?\s*\d{1,2}[.)]\s*/, '$1')
+    .trim()
+}
+
+function cleanTheme(raw: string): string {
+  return stripNumbering(raw).replace(/\*\*|__/g, '').trim()
+}
+
+function isTickerOnlyLine(line: string): boolean {
+  const trimmed = line.trim()
+  // Long all-caps lines are headlines, not ticker lists
+  return trimmed.length > 0 && trimmed.length <= 50 && TICKER_ONLY_LINE.test(trimmed)
+}
+
+// Tickers mentioned inside a block: an explicit "Tickers:" line, a ticker-only line, or cashtags
+function tickersFromBody(body: string): string[] {
+  const labelled = body.match(TICKER_LINE)
+  if (labelled) return splitTickers(labelled[1])
+
+  const tickerLine = body.split('\n').find(isTickerOnlyLine)
+  if (tickerLine) return splitTickers(tickerLine)
+
+  return splitTickers(Array.from(body.matchAll(CASHTAG), match => match[1]))
+}
+
+function cleanAnalysis(body: string): string {
+  return body
+    .split('\n')
+    .filter(line => line.trim() && !isTickerOnlyLine(line) && !TICKER_LINE.test(line))
+    .join('\n')
+    .trim()
+}
+
+export function detectFormat(row: Pick<GeneratedIdeaRow, 'analysis' | 'tickers'>): IdeaFormat {
+  const analysis = row.analysis || ''
+
+  const ideaHeaders = analysis.match(new RegExp(COMBINED_HEADER.source, 'gim')) || []
+  if (ideaHeaders.length > 1 || (ideaHeaders.length === 1 && analysis.includes('---'))) {
+    return 'combined'
+  }
+
+  if ((analysis.match(MARKDOWN_HEADING) || []).length > 1) {
+    return 'markdown'
+  }
+
+  // A numbered list is only a list of ideas when each item carries a bold title or
+  // the tickers column has one group per item; otherwise it is a list of reasons
+  const items = Array.from(analysis.matchAll(NUMBERED_ITEM))
+  if (items.length > 1) {
+    const boldTitles = items.every(item => /^\*\*[^*]+\*\*/.test(item[2].trim()))
+    const tickerGroups = (row.tickers || '').split('---').filter(group => group.trim()).length
+    if (boldTitles || tickerGroups === items.length) {
+      return 'numbered'
+    }
+  }
+
+  return 'individual'
+}
+
+function combinedBlocks(analysis: string): RawBlock[] {
+  // Older rows separate ideas with "---"; newer ones only repeat the header
+  const parts = analysis.includes('---')
+    ? analysis.split('---')
+    : analysis.split(/(?=^[ \t]*\**IDEA\s+\d+)/im)
+
+  return parts.map((part, position) => {
+    const header = part.match(COMBINED_HEADER)
+    if (!header) {
+      return { position, theme: null, body: part.trim() }
+    }
+    const body = part.slice((header.index || 0) + header[0].length)
+    return { position, theme: cleanTheme(header[1]), body: body.trim() }
+  })
+}
+
+// Splits on the shallowest heading level used more than once, so a document title
+// ("# Today's Ideas") or per-idea subsections ("### Risks") do not become ideas
+function markdownBlocks(analysis: string): RawBlock[] {
+  const counts = new Map<number, number>()
+  for (const match of analysis.matchAll(MARKDOWN_HEADING)) {
+    counts.set(match[1].length, (counts.get(match[1].length) || 0) + 1)
+  }
+
+  const level = Array.from(counts.entries())
+    .filter(([, count]) => count > 1)
+    .map(([depth]) => depth)
+    .sort((a, b) => a - b)[0]
+
+  const heading = new RegExp(`^\\s{0,3}#{${level}}\\s+(.+?)\\s*#*\\s*$`, 'gm')
+  return sectionBlocks(analysis, heading, 1)
+}
+
+function sectionBlocks(analysis: string, pattern: RegExp, titleGroup: number): RawBlock[] {
+  const matches = Array.from(analysis.matchAll(new RegExp(pattern.source, pattern.flags)))
+
+  return matches.map((match, position) => {
+    const start = (match.index || 0) + match[0].length
+    const end = position + 1 < matches.length ? matches[position + 1].index || analysis.length : analysis.length
+    let title = stripNumbering(match[titleGroup])
+    let body = analysis.slice(start, end)
+
+    // "1. **Theme** - analysis starts here" keeps the rest of the line as analysis
+    const inline = title.match(/^\*\*(.+?)\*\*\s*[-–—:]?\s*(.*)$/) || title.match(/^(.+?)\s+[-–—:]\s+(.+)$/)
+    if (inline) {
+      title = inline[1]
+      body = `${inline[2]}\n${body}`
+    }
+
+    return { position, theme: cleanTheme(title), body: body.trim() }
+  })
+}
+
+export function parseIdeaRow(row: GeneratedIdeaRow): ParseResult {
+  const warnings: ParseWarning[] = []
+  const format = detectFormat(row)
+  const analysis = row.analysis || ''
+
+  if (!analysis.trim()) {
+    warnings.push({ code: 'EMPTY_ROW', rowId: row.id, message: `Row ${row.id} has no analysis text` })
+    return { format, ideas: [], warnings }
+  }
+
+  if (format === 'individual') {
+    const theme = (row.theme || '').trim() || cleanTheme(analysis.split('\n')[0])
+    if (!row.theme?.trim()) {
+      warnings.push({
+        code: 'MISSING_HEADER',
+        rowId: row.id,
+        position: 0,
+        message: `Row ${row.id} has no theme; used the first analysis line`
+      })
+    }
+
+    let tickers = splitTickers(row.tickers)
+    if (tickers.length === 0) {
+      tickers = tickersFromBody(analysis)
+      warnings.push({
+        code: 'MISSING_TICKERS',
+        rowId: row.id,
+        position: 0,
+        message: `Row ${row.id} has an empty tickers column; ${tickers.length > 0 ? 'extracted them from the analysis' : 'none found in the analysis'}`
+      })
+    }
+
+    return {
+      format,
+      ideas: [{
+        key: ideaKey(row.id, 0),
+        legacyId: row.id,
+        sourceRowId: row.id,
+        position: 0,
+        created_at: row.created_at,
+        theme,
+        analysis: analysis.trim(),
+        tickers
+      }],
+      warnings
+    }
+  }
+
+  const blocks = format === 'combined'
+    ? combinedBlocks(analysis)
+    : format === 'markdown'
+      ? markdownBlocks(analysis)
+      : sectionBlocks(analysis, NUMBERED_ITEM, 2)
+
+  // Ticker groups line up with blocks by position when the generator split them with "---"
+  const tickerGroups = (row.tickers || '').includes('---') ? row.tickers.split('---') : null
+  const nonEmptyBlocks = blocks.filter(block => block.body || block.theme)
+
+  if (tickerGroups && tickerGroups.length !== blocks.length) {
+    warnings.push({
+      code: 'TICKER_GROUP_MISMATCH',
+      rowId: row.id,
+      message: `Row ${row.id} has ${blocks.length} idea blocks but ${tickerGroups.length} ticker groups`
+    })
+  }
+
+  const ideas: ParsedIdea[] = []
+
+  for (const block of nonEmptyBlocks) {
+    let theme = block.theme
+    let body = block.body
+
+    if (!theme) {
+      // Header-less text without tickers is a preamble or sign-off, not an idea
+      const groupTickers = tickerGroups ? splitTickers(tickerGroups[block.position]) : []
+      if (groupTickers.length === 0 && tickersFromBody(body).length === 0) {
+        warnings.push({
+          code: 'UNRECOGNIZED_BLOCK',
+          rowId: row.id,
+          position: block.position,
+          message: `Skipped block ${block.position} of row ${row.id}: no idea header and no tickers`
+        })
+        continue
+      }
+
+      // Otherwise fall back to the first line instead of dropping the block
+      const [firstLine, ...rest] = body.split('\n')
+      theme = cleanTheme(firstLine)
+      body = rest.join('\n').trim()
+      warnings.push({
+        code: 'MISSING_HEADER',
+        rowId: row.id,
+        position: block.position,
+        message: `Block ${block.position} of row ${row.id} has no "IDEA N - theme" header; used its first line as the theme`
+      })
+    }
+
+    const analysisText = cleanAnalysis(body)
+    if (!analysisText) {
+      warnings.push({
+        code: 'EMPTY_ANALYSIS',
+        rowId: row.id,
+        position: block.position,
+        message: `"${theme}" in row ${row.id} has no analysis text`
+      })
+    }
+
+    let tickers = tickerGroups
+      ? splitTickers(tickerGroups[block.position])
+      : tickersFromBody(body)
+
+    if (tickers.length === 0 && tickerGroups) {
+      tickers = tickersFromBody(body)
+    }
+
+    // Without per-idea groups, a single-idea row can fall back to the whole column
+    if (tickers.length === 0 && nonEmptyBlocks.length === 1) {
+      tickers = splitTickers(row.tickers)
+    }
+
+    if (tickers.length === 0) {
+      warnings.push({
+        code: 'MISSING_TICKERS',
+        rowId: row.id,
+        position: block.position,
+        message: `No tickers found for "${theme}" in row ${row.id}`
+      })
+    }
+
+    ideas.push({
+      key: ideaKey(row.id, block.position),
+      legacyId: row.id + block.position,
+      sourceRowId: row.id,
+      position: block.position,
+      created_at: row.created_at,
+      theme,
+      analysis: analysisText,
+      tickers
+    })
+  }
+
+  return { format, ideas, warnings }
+}
+
+export function parseIdeaRows(rows: GeneratedIdeaRow[]): ParseResult[] {
+  return rows.map(parseIdeaRow)
+}
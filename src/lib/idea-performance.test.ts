@@ -0,0 +1,235 @@
+import { describe, expect, it } from 'vitest'
+import { SupabaseClient } from '@supabase/supabase-js'
+import {
+  computeIdeaPerformance,
+  horizonTargetDate,
+  rankThemes,
+  recordIdeaSnapshots,
+  referenceDate
+} from '@/lib/idea-performance'
+import { createFixturePriceSource } from '@/lib/prices/fixture-source'
+import priceFixtures from '@/lib/prices/fixtures/prices.json'
+import { IdeaPerformance, PerformanceHorizon, StructuredTradingIdea } from '@/types/api'
+import { Database } from '@/types/database'
+
+type SnapshotRow = Database['public']['Tables']['idea_price_snapshots']['Row']
+
+const BENCHMARK = 'SPY'
+const closes = (priceFixtures as { closes: Record<string, Record<string, number>> }).closes
+const source = createFixturePriceSource()
+
+function idea(overrides: Partial<StructuredTradingIdea> = {}): StructuredTradingIdea {
+  return {
+    key: 'ti-1',
+    created_at: '2025-07-01T14:00:00Z',
+    theme: 'Megacap Software',
+    analysis: 'Cloud spending keeps growing.',
+    tickers: ['AAPL', 'MSFT'],
+    direction: 'long',
+    time_horizon: null,
+    conviction: null,
+    entry_price: null,
+    target_price: null,
+    stop_price: null,
+    risk_notes: null,
+    source: 'structured',
+    ...overrides
+  }
+}
+
+function percentReturn(from: number, to: number): number {
+  return ((to - from) / from) * 100
+}
+
+// Snapshots as recordIdeaSnapshots would store them, priced from the fixture file
+async function snapshotsFor(target: StructuredTradingIdea, horizons: PerformanceHorizon[]): Promise<SnapshotRow[]> {
+  const tickers = [...target.tickers, BENCHMARK]
+  const dates = [
+    { horizon: 'reference' as const, date: referenceDate(target) },
+    ...horizons.map(horizon => ({ horizon, date: horizonTargetDate(target, horizon) }))
+  ]
+
+  const rows: SnapshotRow[] = []
+  for (const { horizon, date } of dates) {
+    const prices = await source.getClosingPrices(tickers, date)
+    for (const price of Object.values(prices)) {
+      rows.push({
+        idea_key: target.key,
+        ticker: price.ticker,
+        horizon,
+        target_date: date,
+        price_date: price.date,
+        close: price.close,
+        source: source.name,
+        recorded_at: date
+      })
+    }
+  }
+  return rows
+}
+
+// Just enough of a Supabase client for recordIdeaSnapshots: every query resolves to the
+// rows given for its table, whatever filters are chained onto it
+function fakeSupabase(tables: Record<string, unknown[]>): SupabaseClient {
+  return {
+    from(table: string) {
+      const result = { data: tables[table] || [], error: null }
+      const query: object = new Proxy({}, {
+        get: (_target, property) =>
+          property === 'then'
+            ? (resolve: (value: typeof result) => void) => resolve(result)
+            : () => query
+      })
+      return query
+    }
+  } as unknown as SupabaseClient
+}
+
+describe('computeIdeaPerformance', () => {
+  it('averages ticker returns and compares them with the benchmark', async () => {
+    const target = idea()
+    const performance = computeIdeaPerformance(
+      target,
+      await snapshotsFor(target, ['1d']),
+      BENCHMARK,
+      new Date('2025-07-05T00:00:00Z')
+    )
+
+    const aapl = percentReturn(closes.AAPL['2025-07-01'], closes.AAPL['2025-07-02'])
+    const msft = percentReturn(closes.MSFT['2025-07-01'], closes.MSFT['2025-07-02'])
+    const spy = percentReturn(closes.SPY['2025-07-01'], closes.SPY['2025-07-02'])
+    const [oneDay, oneWeek, oneMonth] = performance.horizons
+
+    expect(oneDay.status).toBe('complete')
+    expect(oneDay.tickers.map(entry => entry.ticker)).toEqual(['AAPL', 'MSFT'])
+    expect(oneDay.ideaReturn).toBeCloseTo((aapl + msft) / 2)
+    expect(oneDay.benchmarkReturn).toBeCloseTo(spy)
+    expect(oneDay.excessReturn).toBeCloseTo((aapl + msft) / 2 - spy)
+    expect(performance.reference.map(entry => entry.ticker).sort()).toEqual(['AAPL', 'MSFT'])
+
+    // Horizons ending today or later are still open
+    expect(oneWeek.status).toBe('pending')
+    expect(oneMonth.status).toBe('pending')
+  })
+
+  it('flips the sign of ticker returns for short ideas but not the benchmark', async () => {
+    const target = idea({ tickers: ['TSLA'], direction: 'short' })
+    const [oneDay] = computeIdeaPerformance(
+      target,
+      await snapshotsFor(target, ['1d']),
+      BENCHMARK,
+      new Date('2025-07-05T00:00:00Z')
+    ).horizons
+
+    const tsla = percentReturn(closes.TSLA['2025-07-01'], closes.TSLA['2025-07-02'])
+    const spy = percentReturn(closes.SPY['2025-07-01'], closes.SPY['2025-07-02'])
+
+    expect(oneDay.ideaReturn).toBeCloseTo(-tsla)
+    expect(oneDay.benchmarkReturn).toBeCloseTo(spy)
+    expect(oneDay.excessReturn).toBeCloseTo(-tsla - spy)
+  })
+
+  it('leaves out tickers missing a close and reports horizons with none as unavailable', async () => {
+    const target = idea()
+    const snapshots = (await snapshotsFor(target, ['1d', '1w']))
+      .filter(row => !(row.ticker === 'MSFT' && row.horizon === '1d'))
+      .filter(row => !(row.horizon === '1w' && row.ticker !== BENCHMARK))
+
+    const [oneDay, oneWeek] = computeIdeaPerformance(
+      target,
+      snapshots,
+      BENCHMARK,
+      new Date('2025-07-20T00:00:00Z')
+    ).horizons
+
+    expect(oneDay.status).toBe('complete')
+    expect(oneDay.tickers.map(entry => entry.ticker)).toEqual(['AAPL'])
+    expect(oneDay.ideaReturn).toBeCloseTo(percentReturn(closes.AAPL['2025-07-01'], closes.AAPL['2025-07-02']))
+    expect(oneWeek.status).toBe('unavailable')
+    expect(oneWeek.ideaReturn).toBeNull()
+  })
+})
+
+describe('rankThemes', () => {
+  function completed(key: string, ideaReturn: number, benchmarkReturn: number): IdeaPerformance {
+    return {
+      ideaKey: key,
+      benchmark: BENCHMARK,
+      reference: [],
+      horizons: [{
+        horizon: '1w',
+        targetDate: '2025-07-08',
+        status: 'complete',
+        ideaReturn,
+        benchmarkReturn,
+        excessReturn: ideaReturn - benchmarkReturn,
+        tickers: []
+      }]
+    }
+  }
+
+  it('groups themes case-insensitively and ranks them by average excess return', () => {
+    const ideas = [
+      idea({ key: 'ti-3', theme: 'AI Infrastructure' }),
+      idea({ key: 'ti-2', theme: 'ai infrastructure ' }),
+      idea({ key: 'ti-1', theme: 'Regional Banks' }),
+      idea({ key: 'ti-0', theme: 'Not Yet Priced' })
+    ]
+    const performances = new Map([
+      ['ti-3', completed('ti-3', 6, 1)],
+      ['ti-2', completed('ti-2', -1, 1)],
+      ['ti-1', completed('ti-1', 4, 1)]
+    ])
+
+    const leaderboard = rankThemes(ideas, performances, '1w')
+
+    expect(leaderboard.map(entry => entry.theme)).toEqual(['Regional Banks', 'AI Infrastructure'])
+    expect(leaderboard[1]).toMatchObject({ ideas: 2, averageReturn: 2.5, averageExcessReturn: 1.5, hitRate: 0.5 })
+    expect(leaderboard[0]).toMatchObject({ ideas: 1, averageExcessReturn: 3, hitRate: 1 })
+  })
+
+  it('skips ideas whose horizon is not complete', () => {
+    expect(rankThemes([idea()], new Map(), '1w')).toEqual([])
+  })
+})
+
+describe('recordIdeaSnapshots', () => {
+  it('records due closes and reports targets the fixture file is too stale for', async () => {
+    const supabase = fakeSupabase({
+      trading_ideas: [{
+        id: 7,
+        created_at: '2025-10-10T15:00:00Z',
+        theme: 'Hardware Upgrade Cycle',
+        analysis: 'Device refresh lifts margins.',
+        tickers: ['AAPL'],
+        direction: 'long',
+        time_horizon: null,
+        conviction: null,
+        entry_price: null,
+        target_price: null,
+        stop_price: null,
+        risk_notes: null,
+        source_idea_id: null,
+        source_position: null
+      }],
+      generated_ideas: [],
+      idea_price_snapshots: []
+    })
+
+    const result = await recordIdeaSnapshots(supabase, source, {
+      benchmark: BENCHMARK,
+      days: 90,
+      now: new Date('2025-12-01T00:00:00Z'),
+      dryRun: true
+    })
+
+    // The fixture file ends on 2025-10-17: the one-day target (a Saturday) uses Friday's
+    // close, while the one-month target is more than five days past the last close
+    expect(result.ideasScanned).toBe(1)
+    expect(result.snapshotsRecorded).toBe(6)
+    expect(result.missing).toEqual([
+      { ideaKey: 'ti-7', ticker: 'AAPL', horizon: '1m', targetDate: '2025-11-09' },
+      { ideaKey: 'ti-7', ticker: BENCHMARK, horizon: '1m', targetDate: '2025-11-09' }
+    ])
+  })
+})
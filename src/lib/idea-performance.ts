@@ -0,0 +1,290 @@
+/**
+ * Idea Performance Tracking
+ *
+ * Every idea gets a closing price for each of its tickers and for the benchmark on
+ * the day it was published ("reference"), and again once each horizon has elapsed.
+ * Snapshots are recorded by recordIdeaSnapshots, which POST /api/ideas/performance/record
+ * runs on a schedule; returns are derived from the stored rows, so reads never hit the
+ * price source.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import {
+  HorizonPerformance,
+  IdeaPerformance,
+  PerformanceHorizon,
+  StructuredTradingIdea,
+  ThemeLeaderboardEntry
+} from '@/types/api'
+import { Database } from '@/types/database'
+import { PriceSource } from '@/lib/prices'
+import { loadIdeas } from '@/lib/ideas-repository'
+
+type SnapshotRow = Database['public']['Tables']['idea_price_snapshots']['Row']
+type SnapshotInsert = Database['public']['Tables']['idea_price_snapshots']['Insert']
+type SnapshotHorizon = SnapshotRow['horizon']
+
+export const PERFORMANCE_HORIZONS: { horizon: PerformanceHorizon; days: number }[] = [
+  { horizon: '1d', days: 1 },
+  { horizon: '1w', days: 7 },
+  { horizon: '1m', days: 30 }
+]
+
+// A close this many days older than the requested day means the source has no data
+// for it yet (e.g. a fixture file that ends earlier); the snapshot is retried next run
+const MAX_STALE_DAYS = 5
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+// Keys per .in() filter; keeps request URLs well under PostgREST limits
+const KEY_CHUNK_SIZE = 100
+
+export interface RecordSnapshotsResult {
+  ideasScanned: number
+  snapshotsRecorded: number
+  // Snapshots that were due but the price source had no usable close for
+  missing: { ideaKey: string; ticker: string; horizon: SnapshotHorizon; targetDate: string }[]
+}
+
+function toDateString(date: Date): string {
+  return date.toISOString().slice(0, 10)
+}
+
+function addDays(date: string, days: number): string {
+  return toDateString(new Date(new Date(`${date}T00:00:00Z`).getTime() + days * DAY_MS))
+}
+
+function daysBetween(from: string, to: string): number {
+  return Math.round((new Date(`${to}T00:00:00Z`).getTime() - new Date(`${from}T00:00:00Z`).getTime()) / DAY_MS)
+}
+
+// Day whose close prices an idea: the UTC date it was published
+export function referenceDate(idea: Pick<StructuredTradingIdea, 'created_at'>): string {
+  return toDateString(new Date(idea.created_at))
+}
+
+export function horizonTargetDate(idea: Pick<StructuredTradingIdea, 'created_at'>, horizon: PerformanceHorizon): string {
+  const { days } = PERFORMANCE_HORIZONS.find(entry => entry.horizon === horizon)!
+  return addDays(referenceDate(idea), days)
+}
+
+function ideaTickers(idea: StructuredTradingIdea, benchmark: string): string[] {
+  return Array.from(new Set([...idea.tickers.map(ticker => ticker.toUpperCase()), benchmark]))
+}
+
+function snapshotId(ideaKey: string, ticker: string, horizon: SnapshotHorizon): string {
+  return `${ideaKey}|${ticker}|${horizon}`
+}
+
+export async function loadSnapshots(supabase: SupabaseClient, ideaKeys: string[]): Promise<SnapshotRow[]> {
+  const rows: SnapshotRow[] = []
+
+  for (let i = 0; i < ideaKeys.length; i += KEY_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('idea_price_snapshots')
+      .select('idea_key, ticker, horizon, target_date, price_date, close, source, recorded_at')
+      .in('idea_key', ideaKeys.slice(i, i + KEY_CHUNK_SIZE))
+
+    if (error) {
+      throw new Error(`Database error fetching price snapshots: ${error.message}`)
+    }
+
+    rows.push(...((data || []) as SnapshotRow[]))
+  }
+
+  return rows
+}
+
+// Records every snapshot that is due and missing for ideas published in the last
+// `days` days. A horizon is due once its target day has closed (strictly before today).
+export async function recordIdeaSnapshots(
+  supabase: SupabaseClient,
+  source: PriceSource,
+  { benchmark, days, now = new Date(), dryRun = false }: { benchmark: string; days: number; now?: Date; dryRun?: boolean }
+): Promise<RecordSnapshotsResult> {
+  const today = toDateString(now)
+  const ideas = await loadIdeas(supabase, { since: new Date(now.getTime() - days * DAY_MS).toISOString() })
+  const existing = new Set(
+    (await loadSnapshots(supabase, ideas.map(idea => idea.key)))
+      .map(row => snapshotId(row.idea_key, row.ticker, row.horizon))
+  )
+
+  // Group what is needed by target date so each day is one price source call
+  const needed = new Map<string, { ideaKey: string; ticker: string; horizon: SnapshotHorizon }[]>()
+  const need = (targetDate: string, ideaKey: string, ticker: string, horizon: SnapshotHorizon) => {
+    if (existing.has(snapshotId(ideaKey, ticker, horizon))) return
+    if (!needed.has(targetDate)) needed.set(targetDate, [])
+    needed.get(targetDate)!.push({ ideaKey, ticker, horizon })
+  }
+
+  for (const idea of ideas) {
+    const tickers = ideaTickers(idea, benchmark)
+    const reference = referenceDate(idea)
+    if (reference >= today) continue
+
+    for (const ticker of tickers) need(reference, idea.key, ticker, 'reference')
+
+    for (const { horizon } of PERFORMANCE_HORIZONS) {
+      const targetDate = horizonTargetDate(idea, horizon)
+      if (targetDate >= today) continue
+      for (const ticker of tickers) need(targetDate, idea.key, ticker, horizon)
+    }
+  }
+
+  const inserts: SnapshotInsert[] = []
+  const missing: RecordSnapshotsResult['missing'] = []
+
+  for (const [targetDate, entries] of needed) {
+    const prices = await source.getClosingPrices(Array.from(new Set(entries.map(entry => entry.ticker))), targetDate)
+
+    for (const entry of entries) {
+      const price = prices[entry.ticker]
+      if (!price || daysBetween(price.date, targetDate) > MAX_STALE_DAYS) {
+        missing.push({ ...entry, targetDate })
+        continue
+      }
+
+      inserts.push({
+        idea_key: entry.ideaKey,
+        ticker: entry.ticker,
+        horizon: entry.horizon,
+        target_date: targetDate,
+        price_date: price.date,
+        close: price.close,
+        source: source.name
+      })
+    }
+  }
+
+  if (!dryRun && inserts.length > 0) {
+    const { error } = await supabase
+      .from('idea_price_snapshots')
+      .upsert(inserts, { onConflict: 'idea_key,ticker,horizon', ignoreDuplicates: true })
+
+    if (error) {
+      throw new Error(`Database error recording price snapshots: ${error.message}`)
+    }
+  }
+
+  return { ideasScanned: ideas.length, snapshotsRecorded: inserts.length, missing }
+}
+
+function percentReturn(from: number, to: number): number {
+  return ((to - from) / from) * 100
+}
+
+// Derives returns for one idea from its snapshots. Tickers missing either end of a
+// horizon are left out of that horizon's average rather than counted as flat.
+export function computeIdeaPerformance(
+  idea: StructuredTradingIdea,
+  snapshots: SnapshotRow[],
+  benchmark: string,
+  now: Date = new Date()
+): IdeaPerformance {
+  const today = toDateString(now)
+  const closes = new Map<string, number>()
+  for (const row of snapshots) {
+    if (row.idea_key === idea.key) closes.set(snapshotId(row.idea_key, row.ticker, row.horizon), Number(row.close))
+  }
+  const close = (ticker: string, horizon: SnapshotHorizon) => closes.get(snapshotId(idea.key, ticker, horizon))
+
+  const tickers = Array.from(new Set(idea.tickers.map(ticker => ticker.toUpperCase())))
+  const reference = snapshots
+    .filter(row => row.idea_key === idea.key && row.horizon === 'reference' && tickers.includes(row.ticker))
+    .map(row => ({ ticker: row.ticker, close: Number(row.close), date: row.price_date }))
+
+  const direction = idea.direction === 'short' ? -1 : 1
+
+  const horizons = PERFORMANCE_HORIZONS.map(({ horizon }): HorizonPerformance => {
+    const targetDate = horizonTargetDate(idea, horizon)
+    const base = { horizon, targetDate, ideaReturn: null, benchmarkReturn: null, excessReturn: null, tickers: [] }
+    if (targetDate >= today) return { ...base, status: 'pending' }
+
+    const tickerReturns = tickers.flatMap(ticker => {
+      const start = close(ticker, 'reference')
+      const end = close(ticker, horizon)
+      return start !== undefined && end !== undefined ? [{ ticker, return: direction * percentReturn(start, end) }] : []
+    })
+
+    const benchmarkStart = close(benchmark, 'reference')
+    const benchmarkEnd = close(benchmark, horizon)
+    if (tickerReturns.length === 0 || benchmarkStart === undefined || benchmarkEnd === undefined) {
+      return { ...base, status: 'unavailable' }
+    }
+
+    const ideaReturn = tickerReturns.reduce((sum, entry) => sum + entry.return, 0) / tickerReturns.length
+    const benchmarkReturn = percentReturn(benchmarkStart, benchmarkEnd)
+
+    return {
+      ...base,
+      status: 'complete',
+      ideaReturn,
+      benchmarkReturn,
+      excessReturn: ideaReturn - benchmarkReturn,
+      tickers: tickerReturns
+    }
+  })
+
+  return { ideaKey: idea.key, benchmark, reference, horizons }
+}
+
+export async function getIdeaPerformance(
+  supabase: SupabaseClient,
+  idea: StructuredTradingIdea,
+  benchmark: string
+): Promise<IdeaPerformance> {
+  const snapshots = await loadSnapshots(supabase, [idea.key])
+  return computeIdeaPerformance(idea, snapshots, benchmark)
+}
+
+// Themes ranked by average excess return at one horizon. Themes are grouped
+// case-insensitively and shown with the spelling of their most recent idea.
+export function rankThemes(
+  ideas: StructuredTradingIdea[],
+  performances: Map<string, IdeaPerformance>,
+  horizon: PerformanceHorizon
+): ThemeLeaderboardEntry[] {
+  const groups = new Map<string, { theme: string; returns: number[]; excess: number[] }>()
+
+  for (const idea of ideas) {
+    const result = performances.get(idea.key)?.horizons.find(entry => entry.horizon === horizon)
+    if (result?.status !== 'complete') continue
+
+    const groupKey = idea.theme.trim().toLowerCase()
+    if (!groups.has(groupKey)) groups.set(groupKey, { theme: idea.theme.trim(), returns: [], excess: [] })
+    const group = groups.get(groupKey)!
+    group.returns.push(result.ideaReturn!)
+    group.excess.push(result.excessReturn!)
+  }
+
+  const average = (values: number[]) => values.reduce((sum, value) => sum + value, 0) / values.length
+
+  return Array.from(groups.values())
+    .map(group => ({
+      theme: group.theme,
+      ideas: group.excess.length,
+      averageExcessReturn: average(group.excess),
+      averageReturn: average(group.returns),
+      hitRate: group.excess.filter(value => value > 0).length / group.excess.length
+    }))
+    .sort((a, b) => b.averageExcessReturn - a.averageExcessReturn || b.ideas - a.ideas)
+}
+
+export async function getThemeLeaderboard(
+  supabase: SupabaseClient,
+  { benchmark, horizon, days, now = new Date() }: { benchmark: string; horizon: PerformanceHorizon; days: number; now?: Date }
+): Promise<ThemeLeaderboardEntry[]> {
+  const ideas = await loadIdeas(supabase, { since: new Date(now.getTime() - days * DAY_MS).toISOString() })
+  const snapshotsByIdea = new Map<string, SnapshotRow[]>()
+  for (const row of await loadSnapshots(supabase, ideas.map(idea => idea.key))) {
+    if (!snapshotsByIdea.has(row.idea_key)) snapshotsByIdea.set(row.idea_key, [])
+    snapshotsByIdea.get(row.idea_key)!.push(row)
+  }
+
+  const performances = new Map<string, IdeaPerformance>()
+  for (const idea of ideas) {
+    performances.set(idea.key, computeIdeaPerformance(idea, snapshotsByIdea.get(idea.key) || [], benchmark, now))
+  }
+
+  return rankThemes(ideas, performances, horizon)
+}
@@ -0,0 +1,147 @@
+import {
+  StructuredTradingIdea,
+  IdeaDirection,
+  IdeaTimeHorizon,
+  IdeaConviction
+} from '@/types/api'
+import { Database } from '@/types/database'
+import { ParsedIdea, ideaKey, tradingIdeaKey, splitTickers } from '@/lib/idea-parser'
+
+type TradingIdeaRow = Database['public']['Tables']['trading_ideas']['Row']
+type TradingIdeaInsert = Database['public']['Tables']['trading_ideas']['Insert']
+
+export type IdeaDetails = Pick<
+  StructuredTradingIdea,
+  'direction' | 'time_horizon' | 'conviction' | 'entry_price' | 'target_price' | 'stop_price' | 'risk_notes'
+>
+
+// Reads "Label: value" lines such as "Direction: Long" or "Stop loss - $180"
+function labelledValue(text: string, labels: string[]): string | null {
+  const pattern = new RegExp(`^\\s*[-*]?\\s*\\**(?:${labels.join('|')})\\**\\s*[:\\-–]\\s*(.+)$`, 'im')
+  const match = text.match(pattern)
+  return match ? match[1].trim() : null
+}
+
+function parsePrice(text: string | null): number | null {
+  if (!text) return null
+  const match = text.match(/\$?\s*(\d{1,3}(?:,\d{3})+|\d+)(\.\d+)?/)
+  if (!match) return null
+  const value = parseFloat(`${match[1].replace(/,/g, '')}${match[2] || ''}`)
+  return Number.isFinite(value) ? value : null
+}
+
+function inferDirection(text: string): IdeaDirection {
+  const explicit = labelledValue(text, ['direction', 'bias', 'position', 'stance'])
+  const source = explicit || text
+
+  // "long-term" describes a horizon, not a direction
+  const longHits = (source.match(/\b(long(?![- ]term)|bullish|buy|upside|calls?)\b/gi) || []).length
+  const shortHits = (source.match(/\b(short|bearish|sell|downside|puts?)\b/gi) || []).length
+
+  if (explicit) {
+    if (/\b(short|bearish|sell)\b/i.test(explicit)) return 'short'
+    if (/\b(long|bullish|buy)\b/i.test(explicit)) return 'long'
+    return 'neutral'
+  }
+
+  if (longHits > shortHits) return 'long'
+  if (shortHits > longHits) return 'short'
+  return 'neutral'
+}
+
+function inferTimeHorizon(text: string): IdeaTimeHorizon | null {
+  const source = labelledValue(text, ['time horizon', 'timeframe', 'time frame', 'horizon', 'holding period']) || text
+
+  if (/\b(intraday|day[- ]trade|same[- ]day)\b/i.test(source)) return 'intraday'
+  if (/\b(long[- ]term|multi[- ]year|years?)\b/i.test(source)) return 'long_term'
+  if (/\b(months?|quarters?|position trade)\b/i.test(source)) return 'position'
+  if (/\b(swing|days|weeks?|short[- ]term)\b/i.test(source)) return 'swing'
+  return null
+}
+
+function inferConviction(text: string): IdeaConviction | null {
+  const explicit = labelledValue(text, ['conviction', 'confidence'])
+  const match = (explicit || '').match(/\b(low|medium|moderate|high)\b/i)
+    || text.match(/\b(low|medium|moderate|high)[- ]conviction\b/i)
+
+  if (!match) return null
+  const level = match[1].toLowerCase()
+  return level === 'moderate' ? 'medium' : (level as IdeaConviction)
+}
+
+function inferRiskNotes(text: string): string | null {
+  const explicit = labelledValue(text, ['risks?', 'key risks?', 'risk factors?', 'risk notes?'])
+  if (explicit) return explicit
+
+  const sentence = text
+    .split(/(?<=[.!?])\s+/)
+    .find(part => /\brisks?\b/i.test(part))
+
+  return sentence ? sentence.trim() : null
+}
+
+// Best-effort extraction of structured fields from a free-text analysis
+export function extractIdeaDetails(analysis: string): IdeaDetails {
+  return {
+    direction: inferDirection(analysis),
+    time_horizon: inferTimeHorizon(analysis),
+    conviction: inferConviction(analysis),
+    entry_price: parsePrice(labelledValue(analysis, ['entry', 'entry price', 'entry zone', 'entry point', 'buy zone'])),
+    target_price: parsePrice(labelledValue(analysis, ['target', 'price target', 'target price', 'take profit'])),
+    stop_price: parsePrice(labelledValue(analysis, ['stop', 'stop loss', 'stop-loss', 'stop price'])),
+    risk_notes: inferRiskNotes(analysis)
+  }
+}
+
+// Converts an idea parsed from a legacy generated_ideas row
+export function fromParsedIdea(idea: ParsedIdea): StructuredTradingIdea {
+  return {
+    key: idea.key,
+    created_at: idea.created_at,
+    theme: idea.theme,
+    analysis: idea.analysis,
+    tickers: idea.tickers,
+    ...extractIdeaDetails(idea.analysis),
+    source: 'legacy'
+  }
+}
+
+export function fromTradingIdeaRow(row: TradingIdeaRow): StructuredTradingIdea {
+  return {
+    // Migrated ideas keep the key they had while parsed on the fly
+    key: row.source_idea_id !== null && row.source_position !== null
+      ? ideaKey(row.source_idea_id, row.source_position)
+      : tradingIdeaKey(row.id),
+    created_at: row.created_at,
+    theme: row.theme,
+    analysis: row.analysis,
+    tickers: splitTickers(row.tickers),
+    direction: row.direction,
+    time_horizon: row.time_horizon,
+    conviction: row.conviction,
+    entry_price: row.entry_price,
+    target_price: row.target_price,
+    stop_price: row.stop_price,
+    risk_notes: row.risk_notes,
+    source: 'structured'
+  }
+}
+
+export function toTradingIdeaInsert(idea: ParsedIdea): TradingIdeaInsert {
+  const structured = fromParsedIdea(idea)
+  return {
+    created_at: structured.created_at,
+    theme: structured.theme,
+    analysis: structured.analysis,
+    tickers: structured.tickers,
+    direction: structured.direction,
+    time_horizon: structured.time_horizon,
+    conviction: structured.conviction,
+    entry_price: structured.entry_price,
+    target_price: structured.target_price,
+    stop_price: structured.stop_price,
+    risk_notes: structured.risk_notes,
+    source_idea_id: idea.sourceRowId,
+    source_position: idea.position
+  }
+}
@@ -0,0 +1,393 @@
+/**
+ * Paginated Idea Queries
+ *
+ * Serves GET /api/ideas/all. Ideas come from two places: trading_ideas, which is
+ * filtered and ordered in SQL, and generated_ideas rows that have not been migrated
+ * yet, which have to be parsed before ticker, sector or theme filters can be applied.
+ * Both are read in date-ordered batches and merged until a page is full.
+ *
+ * Pages are addressed with an opaque cursor holding the created_at and key of the
+ * last idea returned, so new ideas arriving between requests never shift a page.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { StructuredTradingIdea } from '@/types/api'
+import { Database } from '@/types/database'
+import { GeneratedIdeaRow } from '@/lib/idea-parser'
+import { fromTradingIdeaRow } from '@/lib/idea-structure'
+import {
+  GENERATED_IDEA_COLUMNS,
+  TRADING_IDEA_COLUMNS,
+  isMissingTableError,
+  structureLegacyRows
+} from '@/lib/ideas-repository'
+import { Sector, findSector } from '@/lib/sectors'
+import { normalizeSymbol } from '@/lib/symbols'
+
+export type IdeaSort = 'newest' | 'oldest'
+
+export interface IdeaFilters {
+  from?: string
+  to?: string
+  ticker?: string
+  // Ideas mentioning at least one of these; set by the server (watchlist matching), not from the URL
+  anyTicker?: string[]
+  theme?: string
+  sector?: Sector
+  q?: string
+}
+
+export interface IdeaCursor {
+  created_at: string
+  key: string
+}
+
+export interface IdeaQuery {
+  filters: IdeaFilters
+  sort: IdeaSort
+  limit: number
+  cursor: IdeaCursor | null
+}
+
+export interface IdeaPage {
+  ideas: StructuredTradingIdea[]
+  nextCursor: string | null
+  // Ideas matching the filters across all pages; approximate while legacy rows remain
+  total: number
+}
+
+export const DEFAULT_PAGE_SIZE = 20
+export const MAX_PAGE_SIZE = 50
+
+type TradingIdeaRow = Database['public']['Tables']['trading_ideas']['Row']
+
+interface SourceBatch {
+  ideas: StructuredTradingIdea[]
+  // Oldest (or newest, for ascending sorts) created_at fully read; null once the source is exhausted
+  edge: string | null
+}
+
+interface Boundary {
+  created_at: string
+  inclusive: boolean
+}
+
+export function encodeCursor(idea: StructuredTradingIdea): string {
+  return Buffer.from(JSON.stringify({ created_at: idea.created_at, key: idea.key })).toString('base64url')
+}
+
+export function decodeCursor(cursor: string): IdeaCursor | null {
+  try {
+    const parsed = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf8'))
+    if (typeof parsed?.created_at !== 'string' || typeof parsed?.key !== 'string') return null
+    if (isNaN(new Date(parsed.created_at).getTime())) return null
+    return { created_at: parsed.created_at, key: parsed.key }
+  } catch {
+    return null
+  }
+}
+
+// Builds an IdeaQuery from URL search params; returns an error message for invalid input
+export function parseIdeaQuery(searchParams: URLSearchParams): IdeaQuery | string {
+  const sort = (searchParams.get('sort') || 'newest') as IdeaSort
+  if (sort !== 'newest' && sort !== 'oldest') {
+    return 'sort must be "newest" or "oldest"'
+  }
+
+  const limitParam = searchParams.get('limit')
+  const limit = limitParam ? parseInt(limitParam) : DEFAULT_PAGE_SIZE
+  if (isNaN(limit) || limit <= 0 || limit > MAX_PAGE_SIZE) {
+    return `limit must be between 1 and ${MAX_PAGE_SIZE}`
+  }
+
+  const cursorParam = searchParams.get('cursor')
+  const cursor = cursorParam ? decodeCursor(cursorParam) : null
+  if (cursorParam && !cursor) {
+    return 'Invalid cursor'
+  }
+
+  const filters: IdeaFilters = {}
+
+  for (const name of ['from', 'to'] as const) {
+    const value = searchParams.get(name)
+    if (!value) continue
+    if (isNaN(new Date(value).getTime())) {
+      return `${name} must be a valid date`
+    }
+    // A bare "to" date includes the whole day
+    filters[name] = name === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(value)
+      ? `${value}T23:59:59.999Z`
+      : new Date(value).toISOString()
+  }
+
+  const rawTicker = searchParams.get('ticker')?.trim()
+  const ticker = rawTicker ? normalizeSymbol(rawTicker) : undefined
+  if (ticker) {
+    if (!/^[A-Z0-9.\-]{1,12}$/.test(ticker)) {
+      return 'Invalid ticker'
+    }
+    filters.ticker = ticker
+  }
+
+  const sectorId = searchParams.get('sector')
+  if (sectorId) {
+    filters.sector = findSector(sectorId)
+    if (!filters.sector) {
+      return `Unknown sector "${sectorId}"`
+    }
+  }
+
+  const theme = searchParams.get('theme')?.trim()
+  if (theme) filters.theme = theme
+
+  const q = searchParams.get('q')?.trim()
+  if (q) filters.q = q
+
+  return { filters, sort, limit, cursor }
+}
+
+// Words of a search or keyword with PostgREST filter syntax characters removed
+function searchTerms(text: string): string[] {
+  return text
+    .split(/\s+/)
+    .map(term => term.replace(/[^\w.\-$]/g, ''))
+    .filter(term => term.length > 0)
+}
+
+function compareIdeas(a: IdeaCursor, b: IdeaCursor, sort: IdeaSort): number {
+  const byDate = new Date(a.created_at).getTime() - new Date(b.created_at).getTime()
+  if (byDate !== 0) return sort === 'newest' ? -byDate : byDate
+  // Ideas generated in the same run keep their original order either way
+  return a.key.localeCompare(b.key, undefined, { numeric: true })
+}
+
+// Legacy ideas are parsed in memory, so their filters are applied here
+function matchesLegacyFilters(idea: StructuredTradingIdea, filters: IdeaFilters): boolean {
+  if (filters.ticker && !idea.tickers.includes(filters.ticker)) return false
+  if (filters.anyTicker && !idea.tickers.some(ticker => filters.anyTicker!.includes(ticker))) return false
+  if (filters.sector && !idea.tickers.some(ticker => filters.sector!.tickers.includes(ticker))) return false
+
+  if (filters.theme) {
+    const theme = idea.theme.toLowerCase()
+    if (!searchTerms(filters.theme).every(term => theme.includes(term.toLowerCase()))) return false
+  }
+
+  if (filters.q) {
+    const text = `${idea.theme} ${idea.analysis}`.toLowerCase()
+    if (!searchTerms(filters.q).every(term => text.includes(term.toLowerCase()))) return false
+  }
+
+  return true
+}
+
+type FilterableQuery = ReturnType<ReturnType<SupabaseClient['from']>['select']>
+
+function applyDateFilters(query: FilterableQuery, filters: IdeaFilters): FilterableQuery {
+  if (filters.from) query = query.gte('created_at', filters.from)
+  if (filters.to) query = query.lte('created_at', filters.to)
+  return query
+}
+
+function applyStructuredFilters(query: FilterableQuery, filters: IdeaFilters): FilterableQuery {
+  query = applyDateFilters(query, filters)
+  if (filters.ticker) query = query.contains('tickers', [filters.ticker])
+  if (filters.anyTicker) query = query.overlaps('tickers', filters.anyTicker)
+  if (filters.sector) query = query.overlaps('tickers', filters.sector.tickers)
+  for (const term of searchTerms(filters.theme || '')) {
+    query = query.ilike('theme', `%${term}%`)
+  }
+  if (filters.q) query = query.textSearch('search', filters.q, { type: 'websearch', config: 'english' })
+  return query
+}
+
+// Narrows legacy rows before parsing; split rows keep per-idea themes and tickers in
+// the analysis text, so every text filter has to look there as well
+function applyLegacyFilters(query: FilterableQuery, filters: IdeaFilters): FilterableQuery {
+  query = applyDateFilters(query, filters)
+  if (filters.ticker) query = query.or(`tickers.ilike.%${filters.ticker}%,analysis.ilike.%${filters.ticker}%`)
+  for (const term of [...searchTerms(filters.theme || ''), ...searchTerms(filters.q || '')]) {
+    query = query.or(`theme.ilike.%${term}%,analysis.ilike.%${term}%`)
+  }
+  return query
+}
+
+function applyBoundary(query: FilterableQuery, boundary: Boundary | null, sort: IdeaSort): FilterableQuery {
+  if (!boundary) return query
+  if (sort === 'newest') {
+    return boundary.inclusive ? query.lte('created_at', boundary.created_at) : query.lt('created_at', boundary.created_at)
+  }
+  return boundary.inclusive ? query.gte('created_at', boundary.created_at) : query.gt('created_at', boundary.created_at)
+}
+
+// Reads up to batchSize rows past the boundary, plus any rows sharing the last row's
+// created_at so the batch never ends partway through a timestamp
+async function readBatch<Row extends { created_at: string }>(
+  build: () => FilterableQuery,
+  boundary: Boundary | null,
+  sort: IdeaSort,
+  batchSize: number
+): Promise<{ rows: Row[]; edge: string | null }> {
+  const { data, error } = await applyBoundary(build(), boundary, sort)
+    .order('created_at', { ascending: sort === 'oldest' })
+    .limit(batchSize)
+
+  if (error) throw error
+
+  const rows = (data || []) as Row[]
+  if (rows.length < batchSize) {
+    return { rows, edge: null }
+  }
+
+  const edge = rows[rows.length - 1].created_at
+  const { data: tied, error: tiedError } = await build().eq('created_at', edge)
+  if (tiedError) throw tiedError
+
+  return {
+    rows: [...rows.filter(row => row.created_at !== edge), ...((tied || []) as Row[])],
+    edge
+  }
+}
+
+async function readStructuredBatch(
+  supabase: SupabaseClient,
+  query: IdeaQuery,
+  boundary: Boundary | null,
+  batchSize: number
+): Promise<SourceBatch | null> {
+  try {
+    const { rows, edge } = await readBatch<TradingIdeaRow>(
+      () => applyStructuredFilters(supabase.from('trading_ideas').select(TRADING_IDEA_COLUMNS), query.filters),
+      boundary,
+      query.sort,
+      batchSize
+    )
+    return { ideas: rows.map(fromTradingIdeaRow), edge }
+  } catch (error) {
+    const dbError = error as { code: string; message: string }
+    // Migration not applied yet: serve legacy ideas only
+    if (isMissingTableError(dbError)) return null
+    throw new Error(`Database error: ${dbError.message}`)
+  }
+}
+
+async function readLegacyBatch(
+  supabase: SupabaseClient,
+  query: IdeaQuery,
+  boundary: Boundary | null,
+  batchSize: number,
+  excludeMigrated: boolean
+): Promise<SourceBatch> {
+  let batch: { rows: GeneratedIdeaRow[]; edge: string | null }
+  try {
+    batch = await readBatch<GeneratedIdeaRow>(
+      () => applyLegacyFilters(supabase.from('generated_ideas').select(GENERATED_IDEA_COLUMNS), query.filters),
+      boundary,
+      query.sort,
+      batchSize
+    )
+  } catch (error) {
+    throw new Error(`Database error: ${(error as Error).message}`)
+  }
+
+  let rows = batch.rows
+  if (excludeMigrated && rows.length > 0) {
+    const { data, error } = await supabase
+      .from('trading_ideas')
+      .select('source_idea_id')
+      .in('source_idea_id', rows.map(row => row.id))
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    const migratedIds = new Set((data || []).map(row => row.source_idea_id as number))
+    rows = rows.filter(row => !migratedIds.has(row.id))
+  }
+
+  return {
+    ideas: structureLegacyRows(rows).filter(idea => matchesLegacyFilters(idea, query.filters)),
+    edge: batch.edge
+  }
+}
+
+async function countRows(query: FilterableQuery): Promise<number> {
+  const { count, error } = await query
+  if (error) {
+    throw new Error(`Database error: ${error.message}`)
+  }
+  return count || 0
+}
+
+// Counted in SQL rather than by reading every row. Unmigrated legacy rows count once
+// each, narrowed only by the filters SQL can apply to them, so the total is an
+// estimate until the migration has run.
+async function countIdeas(supabase: SupabaseClient, query: IdeaQuery, structuredAvailable: boolean): Promise<number> {
+  const [structuredCount, legacyCount, migratedCount] = await Promise.all([
+    structuredAvailable
+      ? countRows(applyStructuredFilters(
+          supabase.from('trading_ideas').select('id', { count: 'exact', head: true }),
+          query.filters
+        ))
+      : 0,
+    countRows(applyLegacyFilters(
+      supabase.from('generated_ideas').select('id', { count: 'exact', head: true }),
+      query.filters
+    )),
+    // Legacy rows that already have structured counterparts
+    structuredAvailable
+      ? countRows(applyLegacyFilters(
+          supabase.from('generated_ideas').select('id, trading_ideas!inner(id)', { count: 'exact', head: true }),
+          query.filters
+        ))
+      : 0
+  ])
+
+  return structuredCount + Math.max(0, legacyCount - migratedCount)
+}
+
+export async function queryIdeas(supabase: SupabaseClient, query: IdeaQuery): Promise<IdeaPage> {
+  const { sort, limit, cursor } = query
+  // One extra row tells whether another page exists
+  const batchSize = limit + 1
+
+  let boundary: Boundary | null = cursor ? { created_at: cursor.created_at, inclusive: true } : null
+  let structuredAvailable = true
+  const collected: StructuredTradingIdea[] = []
+
+  for (;;) {
+    const structured = structuredAvailable ? await readStructuredBatch(supabase, query, boundary, batchSize) : null
+    if (!structured) structuredAvailable = false
+
+    const legacy = await readLegacyBatch(supabase, query, boundary, batchSize, structuredAvailable)
+
+    // Only the range both sources have fully read is complete; anything past the
+    // nearest edge is read again in the next round
+    const edges = [structured?.edge, legacy.edge].filter((edge): edge is string => !!edge)
+    const edge = edges.length === 0
+      ? null
+      : edges.reduce((nearest, candidate) => {
+          const diff = new Date(candidate).getTime() - new Date(nearest).getTime()
+          return (sort === 'newest' ? diff > 0 : diff < 0) ? candidate : nearest
+        })
+
+    for (const idea of [...(structured?.ideas || []), ...legacy.ideas]) {
+      if (edge) {
+        const diff = new Date(idea.created_at).getTime() - new Date(edge).getTime()
+        if (sort === 'newest' ? diff < 0 : diff > 0) continue
+      }
+      if (cursor && compareIdeas(idea, cursor, sort) <= 0) continue
+      collected.push(idea)
+    }
+
+    if (collected.length > limit || !edge) break
+    boundary = { created_at: edge, inclusive: false }
+  }
+
+  collected.sort((a, b) => compareIdeas(a, b, sort))
+  const ideas = collected.slice(0, limit)
+  const nextCursor = collected.length > limit ? encodeCursor(ideas[ideas.length - 1]) : null
+  const total = await countIdeas(supabase, query, structuredAvailable)
+
+  return { ideas, nextCursor, total }
+}
+
@@ -0,0 +1,237 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { StructuredTradingIdea } from '@/types/api'
+import { GeneratedIdeaRow, parseIdeaKey, parseIdeaRow } from '@/lib/idea-parser'
+import { fromParsedIdea, fromTradingIdeaRow } from '@/lib/idea-structure'
+import { isWellFormedSymbol, normalizeSymbol } from '@/lib/symbols'
+
+// PostgREST codes for a relation that does not exist (migration not applied yet)
+const MISSING_TABLE_CODES = ['42P01', 'PGRST205']
+
+// Everything fromTradingIdeaRow reads; avoids pulling the search vector
+export const TRADING_IDEA_COLUMNS =
+  'id, created_at, theme, analysis, tickers, direction, time_horizon, conviction, entry_price, target_price, stop_price, risk_notes, source_idea_id, source_position'
+
+export const GENERATED_IDEA_COLUMNS = 'id, created_at, theme, analysis, tickers'
+
+export function isMissingTableError(error: { code: string }): boolean {
+  return MISSING_TABLE_CODES.includes(error.code)
+}
+
+interface LoadIdeasOptions {
+  // Maximum number of rows read from each source table
+  limit?: number
+  // Only ideas created at or after this ISO timestamp
+  since?: string
+}
+
+// Parses legacy generated_ideas rows into structured ideas, logging anything the parser had to guess
+export function structureLegacyRows(rows: GeneratedIdeaRow[]): StructuredTradingIdea[] {
+  return rows.flatMap(row => {
+    const { format, ideas, warnings } = parseIdeaRow(row)
+    for (const warning of warnings) {
+      console.warn(`[IDEA PARSER] ${warning.code} (${format}): ${warning.message}`)
+    }
+    return ideas.map(fromParsedIdea)
+  })
+}
+
+export function sortIdeasNewestFirst(ideas: StructuredTradingIdea[]): StructuredTradingIdea[] {
+  return [...ideas].sort((a, b) => {
+    const byDate = new Date(b.created_at).getTime() - new Date(a.created_at).getTime()
+    // Ideas generated in the same run keep their original order
+    return byDate !== 0 ? byDate : a.key.localeCompare(b.key, undefined, { numeric: true })
+  })
+}
+
+// Loads ideas from the normalized trading_ideas table plus any generated_ideas rows
+// that have not been migrated yet, returned newest first in the structured form
+export async function loadIdeas(
+  supabase: SupabaseClient,
+  options: LoadIdeasOptions = {}
+): Promise<StructuredTradingIdea[]> {
+  const { limit, since } = options
+
+  let structuredQuery = supabase
+    .from('trading_ideas')
+    .select(TRADING_IDEA_COLUMNS)
+    .order('created_at', { ascending: false })
+  if (since) structuredQuery = structuredQuery.gte('created_at', since)
+  if (limit) structuredQuery = structuredQuery.limit(limit)
+
+  let legacyQuery = supabase
+    .from('generated_ideas')
+    .select(GENERATED_IDEA_COLUMNS)
+    .order('created_at', { ascending: false })
+  if (since) legacyQuery = legacyQuery.gte('created_at', since)
+  if (limit) legacyQuery = legacyQuery.limit(limit)
+
+  const [structuredResult, legacyResult] = await Promise.all([structuredQuery, legacyQuery])
+
+  let structuredAvailable = true
+  if (structuredResult.error) {
+    if (!isMissingTableError(structuredResult.error)) {
+      throw new Error(`Database error: ${structuredResult.error.message}`)
+    }
+    console.warn('trading_ideas table not found, serving legacy ideas only')
+    structuredAvailable = false
+  }
+
+  if (legacyResult.error) {
+    throw new Error(`Database error: ${legacyResult.error.message}`)
+  }
+
+  const structuredIdeas = (structuredResult.data || []).map(fromTradingIdeaRow)
+  const legacyRows = (legacyResult.data || []) as GeneratedIdeaRow[]
+
+  // Skip legacy rows that already have structured counterparts
+  const migratedIds = new Set<number>()
+  if (structuredAvailable && legacyRows.length > 0) {
+    const { data, error } = await supabase
+      .from('trading_ideas')
+      .select('source_idea_id')
+      .in('source_idea_id', legacyRows.map(row => row.id))
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    for (const row of data || []) {
+      if (row.source_idea_id !== null) migratedIds.add(row.source_idea_id)
+    }
+  }
+
+  const legacyIdeas = structureLegacyRows(legacyRows.filter(row => !migratedIds.has(row.id)))
+
+  return sortIdeasNewestFirst([...structuredIdeas, ...legacyIdeas])
+}
+
+// Resolves idea keys to ideas regardless of whether they have been migrated to
+// trading_ideas yet. Keys that no longer resolve are left out of the map.
+export async function findIdeasByKeys(
+  supabase: SupabaseClient,
+  keys: string[]
+): Promise<Map<string, StructuredTradingIdea>> {
+  const found = new Map<string, StructuredTradingIdea>()
+  const wanted = new Set(keys)
+
+  const rowIds = new Set<number>()
+  const tradingIds = new Set<number>()
+  for (const key of wanted) {
+    const parts = parseIdeaKey(key)
+    if (parts?.source === 'generated') rowIds.add(parts.rowId)
+    if (parts?.source === 'trading') tradingIds.add(parts.id)
+  }
+
+  const collect = (ideas: StructuredTradingIdea[]) => {
+    for (const idea of ideas) {
+      if (wanted.has(idea.key) && !found.has(idea.key)) found.set(idea.key, idea)
+    }
+  }
+
+  if (tradingIds.size > 0 || rowIds.size > 0) {
+    const filters = []
+    if (tradingIds.size > 0) filters.push(`id.in.(${Array.from(tradingIds).join(',')})`)
+    if (rowIds.size > 0) filters.push(`source_idea_id.in.(${Array.from(rowIds).join(',')})`)
+
+    const { data, error } = await supabase
+      .from('trading_ideas')
+      .select(TRADING_IDEA_COLUMNS)
+      .or(filters.join(','))
+
+    if (error && !isMissingTableError(error)) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    collect((data || []).map(fromTradingIdeaRow))
+  }
+
+  // Anything still missing comes from rows that have not been migrated
+  const pendingRowIds = new Set<number>()
+  for (const key of wanted) {
+    const parts = parseIdeaKey(key)
+    if (parts?.source === 'generated' && !found.has(key)) pendingRowIds.add(parts.rowId)
+  }
+
+  if (pendingRowIds.size > 0) {
+    const { data, error } = await supabase
+      .from('generated_ideas')
+      .select(GENERATED_IDEA_COLUMNS)
+      .in('id', Array.from(pendingRowIds))
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    collect(structureLegacyRows((data || []) as GeneratedIdeaRow[]))
+  }
+
+  return found
+}
+
+// Other ideas mentioning at least one of the idea's tickers, most shared tickers first
+export async function findRelatedIdeas(
+  supabase: SupabaseClient,
+  idea: StructuredTradingIdea,
+  limit: number = 4
+): Promise<StructuredTradingIdea[]> {
+  // Tickers parsed from free text can hold anything; only well-formed symbols are safe
+  // to put into a PostgREST filter
+  const tickers = Array.from(new Set(idea.tickers.map(normalizeSymbol))).filter(isWellFormedSymbol)
+  if (tickers.length === 0) return []
+
+  const { data: structuredRows, error: structuredError } = await supabase
+    .from('trading_ideas')
+    .select(TRADING_IDEA_COLUMNS)
+    .overlaps('tickers', tickers)
+    .order('created_at', { ascending: false })
+    .limit(limit * 3)
+
+  let structuredAvailable = true
+  if (structuredError) {
+    if (!isMissingTableError(structuredError)) {
+      throw new Error(`Database error: ${structuredError.message}`)
+    }
+    structuredAvailable = false
+  }
+
+  // Legacy rows store tickers as text, so narrow them down before parsing
+  const { data: legacyRows, error: legacyError } = await supabase
+    .from('generated_ideas')
+    .select(GENERATED_IDEA_COLUMNS)
+    .or(tickers.map(ticker => `tickers.ilike.%${ticker}%`).join(','))
+    .order('created_at', { ascending: false })
+    .limit(limit * 3)
+
+  if (legacyError) {
+    throw new Error(`Database error: ${legacyError.message}`)
+  }
+
+  const rows = (legacyRows || []) as GeneratedIdeaRow[]
+  const migratedIds = new Set<number>()
+  if (structuredAvailable && rows.length > 0) {
+    const { data, error } = await supabase
+      .from('trading_ideas')
+      .select('source_idea_id')
+      .in('source_idea_id', rows.map(row => row.id))
+
+    if (error) {
+      throw new Error(`Database error: ${error.message}`)
+    }
+
+    for (const row of data || []) {
+      if (row.source_idea_id !== null) migratedIds.add(row.source_idea_id)
+    }
+  }
+
+  const sharedTickers = (candidate: StructuredTradingIdea) =>
+    candidate.tickers.filter(ticker => idea.tickers.includes(ticker)).length
+
+  const candidates = [
+    ...(structuredRows || []).map(fromTradingIdeaRow),
+    ...structureLegacyRows(rows.filter(row => !migratedIds.has(row.id)))
+  ].filter(candidate => candidate.key !== idea.key && sharedTickers(candidate) > 0)
+
+  return sortIdeasNewestFirst(candidates)
+    .sort((a, b) => sharedTickers(b) - sharedTickers(a))
+    .slice(0, limit)
+}
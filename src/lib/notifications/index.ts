@@ -0,0 +1,159 @@
+/**
+ * Notifications
+ *
+ * Every notification is stored in user_notifications, which is what the dashboard
+ * shows (the in_app channel). Users who enabled email or push notifications in their
+ * preferences also get it through the configured sender, selected with the
+ * NOTIFICATION_SENDER environment variable.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { config } from '@/lib/config'
+import { Database } from '@/types/database'
+import { NotificationChannel, UserNotification, UserProfile } from '@/types/user'
+import { NotificationSender } from './types'
+import { createLogNotificationSender } from './log-sender'
+import { createWebhookNotificationSender } from './webhook-sender'
+
+export type { NotificationSender, OutgoingNotification } from './types'
+export { createLogNotificationSender } from './log-sender'
+export { createWebhookNotificationSender } from './webhook-sender'
+
+export type NotificationDraft = Omit<Database['public']['Tables']['user_notifications']['Insert'], 'channels'>
+
+export const NOTIFICATION_COLUMNS = 'id, user_id, alert_id, kind, title, body, link, channels, metadata, read_at, created_at'
+
+export const DEFAULT_NOTIFICATION_PAGE_SIZE = 20
+export const MAX_NOTIFICATION_PAGE_SIZE = 100
+
+// Registered senders for the email and push channels
+const senderFactories: Record<string, () => NotificationSender> = {
+  log: () => createLogNotificationSender(),
+  webhook: () => createWebhookNotificationSender(config.notifications.webhookUrl, config.notifications.webhookSecret),
+}
+
+let cachedSender: NotificationSender | null = null
+
+export function getNotificationSender(): NotificationSender {
+  if (cachedSender) return cachedSender
+
+  const factory = senderFactories[config.notifications.sender]
+  if (!factory) {
+    throw new Error(
+      `Unknown NOTIFICATION_SENDER "${config.notifications.sender}". ` +
+      `Expected one of: ${Object.keys(senderFactories).join(', ')}`
+    )
+  }
+
+  cachedSender = factory()
+  return cachedSender
+}
+
+export function notificationChannels(preferences: Partial<UserProfile['preferences']> | null | undefined): NotificationChannel[] {
+  const channels: NotificationChannel[] = ['in_app']
+  if (preferences?.email_notifications) channels.push('email')
+  if (preferences?.push_notifications) channels.push('push')
+  return channels
+}
+
+// Stores the notifications with channels taken from each user's preferences, then hands
+// the ones with email or push to the sender. A sender failure is logged, not thrown:
+// the notifications are already visible in the app.
+// Needs a service role client, since users cannot insert notifications.
+export async function deliverNotifications(
+  supabase: SupabaseClient,
+  sender: NotificationSender,
+  drafts: NotificationDraft[]
+): Promise<UserNotification[]> {
+  if (drafts.length === 0) return []
+
+  const userIds = Array.from(new Set(drafts.map(draft => draft.user_id)))
+  const { data: profiles, error: profilesError } = await supabase
+    .from('user_profiles')
+    .select('id, email, preferences')
+    .in('id', userIds)
+
+  if (profilesError) {
+    throw new Error(`Database error fetching notification preferences: ${profilesError.message}`)
+  }
+
+  const profileById = new Map(
+    ((profiles || []) as Pick<UserProfile, 'id' | 'email' | 'preferences'>[]).map(profile => [profile.id, profile])
+  )
+
+  const { data, error } = await supabase
+    .from('user_notifications')
+    .insert(drafts.map(draft => ({ ...draft, channels: notificationChannels(profileById.get(draft.user_id)?.preferences) })))
+    .select(NOTIFICATION_COLUMNS)
+
+  if (error) {
+    throw new Error(`Database error storing notifications: ${error.message}`)
+  }
+
+  const notifications = (data || []) as UserNotification[]
+  const outgoing = notifications
+    .filter(notification => notification.channels.some(channel => channel !== 'in_app'))
+    .map(notification => ({ notification, email: profileById.get(notification.user_id)?.email || '' }))
+
+  if (outgoing.length > 0) {
+    try {
+      await sender.send(outgoing)
+    } catch (sendError) {
+      console.error(`Notification sender "${sender.name}" failed:`, sendError)
+    }
+  }
+
+  return notifications
+}
+
+export async function listNotifications(
+  supabase: SupabaseClient,
+  userId: string,
+  { limit = DEFAULT_NOTIFICATION_PAGE_SIZE, unreadOnly = false }: { limit?: number; unreadOnly?: boolean } = {}
+): Promise<{ notifications: UserNotification[]; unread: number }> {
+  let query = supabase
+    .from('user_notifications')
+    .select(NOTIFICATION_COLUMNS)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit)
+  if (unreadOnly) query = query.is('read_at', null)
+
+  const [listResult, unreadResult] = await Promise.all([
+    query,
+    supabase
+      .from('user_notifications')
+      .select('id', { count: 'exact', head: true })
+      .eq('user_id', userId)
+      .is('read_at', null)
+  ])
+
+  if (listResult.error) {
+    throw new Error(`Database error fetching notifications: ${listResult.error.message}`)
+  }
+
+  if (unreadResult.error) {
+    throw new Error(`Database error counting notifications: ${unreadResult.error.message}`)
+  }
+
+  return { notifications: (listResult.data || []) as UserNotification[], unread: unreadResult.count || 0 }
+}
+
+// Marks the given notifications read, or all of the user's unread ones when ids is omitted;
+// returns how many changed
+export async function markNotificationsRead(supabase: SupabaseClient, userId: string, ids?: string[]): Promise<number> {
+  let query = supabase
+    .from('user_notifications')
+    .update({ read_at: new Date().toISOString() })
+    .eq('user_id', userId)
+    .is('read_at', null)
+  if (ids) query = query.in('id', ids)
+
+  const { data, error } = await query.select('id')
+
+  if (error) {
+    throw new Error(`Database error updating notifications: ${error.message}`)
+  }
+
+  return (data || []).length
+}
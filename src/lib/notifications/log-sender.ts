@@ -0,0 +1,14 @@
+import { NotificationSender } from './types'
+
+// Writes notifications to the server log instead of sending them, for local development
+export function createLogNotificationSender(): NotificationSender {
+  return {
+    name: 'log',
+    async send(notifications) {
+      for (const { notification, email } of notifications) {
+        const channels = notification.channels.filter(channel => channel !== 'in_app')
+        console.info(`[notifications] ${channels.join('+')} to ${email}: ${notification.title} - ${notification.body}`)
+      }
+    }
+  }
+}
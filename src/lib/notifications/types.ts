@@ -0,0 +1,14 @@
+import { UserNotification } from '@/types/user'
+
+export interface OutgoingNotification {
+  notification: UserNotification
+  // Recipient address for the email channel
+  email: string
+}
+
+export interface NotificationSender {
+  name: string
+  // Delivers on the email and push channels listed on each notification; in-app
+  // delivery is the stored user_notifications row itself
+  send(notifications: OutgoingNotification[]): Promise<void>
+}
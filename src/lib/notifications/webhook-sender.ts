@@ -0,0 +1,39 @@
+import { NotificationSender } from './types'
+
+// Hands notifications to an automation workflow (e.g. n8n) that owns the email and
+// push integrations. One POST per batch.
+export function createWebhookNotificationSender(url: string, secret: string): NotificationSender {
+  if (!url) {
+    throw new Error('NOTIFICATION_WEBHOOK_URL must be set when NOTIFICATION_SENDER is "webhook"')
+  }
+
+  return {
+    name: 'webhook',
+    async send(notifications) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(secret ? { Authorization: `Bearer ${secret}` } : {})
+        },
+        body: JSON.stringify({
+          notifications: notifications.map(({ notification, email }) => ({
+            id: notification.id,
+            user_id: notification.user_id,
+            email,
+            channels: notification.channels.filter(channel => channel !== 'in_app'),
+            kind: notification.kind,
+            title: notification.title,
+            body: notification.body,
+            link: notification.link,
+            created_at: notification.created_at
+          }))
+        })
+      })
+
+      if (!response.ok) {
+        throw new Error(`Notification webhook responded with ${response.status}`)
+      }
+    }
+  }
+}
@@ -0,0 +1,34 @@
+/**
+ * Paged Reads
+ *
+ * PostgREST stops every response at its max-rows setting (1000 rows on Supabase by
+ * default) without saying that rows were left out. Reads that need every matching
+ * row go through fetchAllRows, which pages with .range() until a page comes back
+ * empty, so a lower max-rows setting cannot end the read early either.
+ */
+
+// Rows requested per page
+export const READ_PAGE_SIZE = 1000
+
+type PageResult<Row> = PromiseLike<{ data: Row[] | null; error: { message: string } | null }>
+
+// Every row of a query. `readPage` must apply a stable order (ending in a unique column)
+// and .range(from, to); `description` completes "Database error <description>".
+export async function fetchAllRows<Row>(
+  readPage: (from: number, to: number) => PageResult<Row>,
+  description: string,
+  pageSize: number = READ_PAGE_SIZE
+): Promise<Row[]> {
+  const rows: Row[] = []
+
+  for (;;) {
+    const { data, error } = await readPage(rows.length, rows.length + pageSize - 1)
+    if (error) {
+      throw new Error(`Database error ${description}: ${error.message}`)
+    }
+
+    const page = data || []
+    if (page.length === 0) return rows
+    rows.push(...page)
+  }
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest'
+import { findLedgerWarnings, summarizePortfolio } from '@/lib/portfolio-ledger'
+
+type Side = 'buy' | 'sell'
+
+function tx(side: Side, shares: number, price: number, executed_at: string, extra: { fees?: number; id?: string } = {}) {
+  return { ticker: 'AAPL', side, shares, price, fees: extra.fees ?? 0, executed_at, id: extra.id }
+}
+
+const quotes = { AAPL: { ticker: 'AAPL', price: 140, asOf: '2025-03-01T00:00:00Z' } }
+
+describe('summarizePortfolio', () => {
+  it('matches a sell against the oldest lots first and keeps the rest of a partly sold lot', () => {
+    const { positions, warnings } = summarizePortfolio([
+      tx('buy', 10, 100, '2025-01-01T00:00:00Z'),
+      tx('buy', 10, 120, '2025-01-02T00:00:00Z'),
+      tx('sell', 15, 130, '2025-01-03T00:00:00Z')
+    ], quotes, 'fifo')
+
+    const [position] = positions
+    expect(warnings).toEqual([])
+    expect(position.shares).toBeCloseTo(5)
+    expect(position.costBasis).toBeCloseTo(600)
+    expect(position.realizedGain).toBeCloseTo(1950 - 1600)
+    expect(position.lots).toEqual([{ shares: 5, costPerShare: 120, acquiredAt: '2025-01-02T00:00:00Z' }])
+    expect(position.marketValue).toBeCloseTo(700)
+    expect(position.unrealizedGain).toBeCloseTo(100)
+  })
+
+  it('adds buy fees to the cost and takes sell fees off the proceeds', () => {
+    const { positions } = summarizePortfolio([
+      tx('buy', 10, 100, '2025-01-01T00:00:00Z', { fees: 10 }),
+      tx('sell', 10, 110, '2025-01-02T00:00:00Z', { fees: 5 })
+    ], quotes, 'fifo')
+
+    expect(positions[0].shares).toBeCloseTo(0)
+    expect(positions[0].realizedGain).toBeCloseTo(1100 - 5 - 1010)
+    expect(positions[0].marketValue).toBe(0)
+  })
+
+  it('blends lots into one at the average cost', () => {
+    const { positions } = summarizePortfolio([
+      tx('buy', 10, 100, '2025-01-01T00:00:00Z'),
+      tx('buy', 10, 120, '2025-01-02T00:00:00Z'),
+      tx('sell', 15, 130, '2025-01-03T00:00:00Z')
+    ], quotes, 'average')
+
+    const [position] = positions
+    expect(position.avgCost).toBeCloseTo(110)
+    expect(position.costBasis).toBeCloseTo(550)
+    expect(position.realizedGain).toBeCloseTo(1950 - 1650)
+    expect(position.lots).toHaveLength(1)
+    expect(position.lots[0].acquiredAt).toBe('2025-01-01T00:00:00Z')
+  })
+
+  it('warns about a sell larger than the shares held and ignores the excess', () => {
+    const ledger = [
+      tx('buy', 5, 10, '2025-01-01T00:00:00Z'),
+      tx('sell', 8, 12, '2025-01-02T00:00:00Z')
+    ]
+    const { positions, warnings } = summarizePortfolio(ledger, {}, 'fifo')
+
+    expect(warnings).toHaveLength(1)
+    expect(warnings[0]).toContain('exceeds the 5 shares held')
+    expect(positions[0].shares).toBeCloseTo(0)
+    expect(positions[0].realizedGain).toBeCloseTo(5 * 12 - 5 * 10)
+    expect(findLedgerWarnings(ledger)).toEqual(warnings)
+  })
+
+  it('replays a buy before a sell with the same timestamp', () => {
+    const at = '2025-01-01T15:30:00Z'
+    const ledger = [
+      tx('sell', 10, 105, at, { id: '00000000-0000-0000-0000-000000000001' }),
+      tx('buy', 10, 100, at, { id: '00000000-0000-0000-0000-000000000002' })
+    ]
+
+    expect(findLedgerWarnings(ledger)).toEqual([])
+    expect(summarizePortfolio(ledger, {}, 'fifo').positions[0].realizedGain).toBeCloseTo(50)
+  })
+
+  it('lists open positions without a quote as unpriced', () => {
+    const { unpricedTickers, totals } = summarizePortfolio([tx('buy', 2, 50, '2025-01-01T00:00:00Z')], {}, 'fifo')
+
+    expect(unpricedTickers).toEqual(['AAPL'])
+    expect(totals.costBasis).toBeCloseTo(100)
+    expect(totals.marketValue).toBe(0)
+  })
+})
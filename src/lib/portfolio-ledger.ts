@@ -0,0 +1,194 @@
+import { PortfolioTransaction } from '@/types/user'
+import { Quote } from '@/lib/quotes'
+
+export type CostBasisMethod = 'fifo' | 'average'
+
+export const COST_BASIS_METHODS: CostBasisMethod[] = ['fifo', 'average']
+
+type LedgerTransaction = Pick<PortfolioTransaction, 'ticker' | 'side' | 'shares' | 'price' | 'fees' | 'executed_at'> &
+  Partial<Pick<PortfolioTransaction, 'id'>>
+
+interface Lot {
+  shares: number
+  costPerShare: number
+  acquiredAt: string
+}
+
+export interface TickerPosition {
+  ticker: string
+  shares: number
+  avgCost: number
+  costBasis: number
+  realizedGain: number
+  marketPrice: number | null
+  marketValue: number | null
+  unrealizedGain: number | null
+  unrealizedGainPercent: number | null
+  lots: Lot[]
+}
+
+export interface PortfolioSummary {
+  method: CostBasisMethod
+  positions: TickerPosition[]
+  totals: {
+    costBasis: number
+    marketValue: number
+    realizedGain: number
+    unrealizedGain: number
+  }
+  // Tickers with open shares but no quote; excluded from market value totals
+  unpricedTickers: string[]
+  warnings: string[]
+}
+
+// Share quantities are stored with six decimals, so anything smaller is rounding noise
+const SHARE_EPSILON = 1e-6
+
+// Entries with the same timestamp replay buys first, then by id, so a buy and a sell
+// recorded together never read as an oversell (portfolio_ledger_short_at does the same)
+function sortChronologically(transactions: LedgerTransaction[]): LedgerTransaction[] {
+  return [...transactions].sort((a, b) =>
+    new Date(a.executed_at).getTime() - new Date(b.executed_at).getTime() ||
+    (a.side === b.side ? 0 : a.side === 'buy' ? -1 : 1) ||
+    (a.id || '').localeCompare(b.id || '')
+  )
+}
+
+// Replays one ticker's transactions and returns the remaining lots plus realized gain.
+// Buy fees are capitalised into the lot cost; sell fees reduce proceeds.
+function replayTicker(
+  ticker: string,
+  transactions: LedgerTransaction[],
+  method: CostBasisMethod,
+  warnings: string[]
+): { lots: Lot[]; realizedGain: number } {
+  let lots: Lot[] = []
+  let realizedGain = 0
+
+  for (const tx of sortChronologically(transactions)) {
+    const fees = tx.fees || 0
+
+    if (tx.side === 'buy') {
+      lots.push({
+        shares: tx.shares,
+        costPerShare: (tx.shares * tx.price + fees) / tx.shares,
+        acquiredAt: tx.executed_at
+      })
+      continue
+    }
+
+    const heldShares = lots.reduce((sum, lot) => sum + lot.shares, 0)
+    let sharesToSell = tx.shares
+
+    if (sharesToSell > heldShares + SHARE_EPSILON) {
+      warnings.push(
+        `${ticker}: sell of ${tx.shares} on ${tx.executed_at} exceeds the ${heldShares} shares held; excess ignored`
+      )
+      sharesToSell = heldShares
+    }
+
+    if (sharesToSell <= SHARE_EPSILON) continue
+
+    // Attribute the full sell fee to the shares actually matched against lots
+    const proceeds = sharesToSell * tx.price - fees
+
+    if (method === 'average') {
+      const totalCost = lots.reduce((sum, lot) => sum + lot.shares * lot.costPerShare, 0)
+      const avgCost = totalCost / heldShares
+      const remaining = heldShares - sharesToSell
+
+      realizedGain += proceeds - sharesToSell * avgCost
+      // Average cost collapses all lots into one blended lot
+      lots = remaining > SHARE_EPSILON
+        ? [{ shares: remaining, costPerShare: avgCost, acquiredAt: lots[0].acquiredAt }]
+        : []
+      continue
+    }
+
+    let matchedCost = 0
+    while (sharesToSell > SHARE_EPSILON && lots.length > 0) {
+      const lot = lots[0]
+      const matched = Math.min(lot.shares, sharesToSell)
+
+      matchedCost += matched * lot.costPerShare
+      lot.shares -= matched
+      sharesToSell -= matched
+
+      if (lot.shares <= SHARE_EPSILON) {
+        lots.shift()
+      }
+    }
+
+    realizedGain += proceeds - matchedCost
+  }
+
+  return { lots, realizedGain }
+}
+
+// Builds per-ticker positions and portfolio totals from a transaction ledger
+export function summarizePortfolio(
+  transactions: LedgerTransaction[],
+  quotes: Record<string, Quote>,
+  method: CostBasisMethod = 'fifo'
+): PortfolioSummary {
+  const warnings: string[] = []
+  const unpricedTickers: string[] = []
+  const byTicker = new Map<string, LedgerTransaction[]>()
+
+  for (const tx of transactions) {
+    const ticker = tx.ticker.toUpperCase()
+    const list = byTicker.get(ticker) || []
+    list.push(tx)
+    byTicker.set(ticker, list)
+  }
+
+  const positions: TickerPosition[] = []
+
+  for (const [ticker, tickerTransactions] of byTicker) {
+    const { lots, realizedGain } = replayTicker(ticker, tickerTransactions, method, warnings)
+
+    const shares = lots.reduce((sum, lot) => sum + lot.shares, 0)
+    const costBasis = lots.reduce((sum, lot) => sum + lot.shares * lot.costPerShare, 0)
+    const quote = quotes[ticker]
+    const isOpen = shares > SHARE_EPSILON
+
+    if (isOpen && !quote) {
+      unpricedTickers.push(ticker)
+    }
+
+    const marketValue = isOpen && quote ? shares * quote.price : isOpen ? null : 0
+    const unrealizedGain = marketValue !== null ? marketValue - costBasis : null
+
+    positions.push({
+      ticker,
+      shares,
+      avgCost: isOpen ? costBasis / shares : 0,
+      costBasis,
+      realizedGain,
+      marketPrice: quote ? quote.price : null,
+      marketValue,
+      unrealizedGain,
+      unrealizedGainPercent: unrealizedGain !== null && costBasis > 0 ? (unrealizedGain / costBasis) * 100 : null,
+      lots
+    })
+  }
+
+  positions.sort((a, b) => a.ticker.localeCompare(b.ticker))
+
+  const totals = positions.reduce(
+    (acc, position) => ({
+      costBasis: acc.costBasis + position.costBasis,
+      marketValue: acc.marketValue + (position.marketValue || 0),
+      realizedGain: acc.realizedGain + position.realizedGain,
+      unrealizedGain: acc.unrealizedGain + (position.unrealizedGain || 0)
+    }),
+    { costBasis: 0, marketValue: 0, realizedGain: 0, unrealizedGain: 0 }
+  )
+
+  return { method, positions, totals, unpricedTickers, warnings }
+}
+
+// Consistency problems (such as sells exceeding the shares held at that time) in a ledger
+export function findLedgerWarnings(transactions: LedgerTransaction[]): string[] {
+  return summarizePortfolio(transactions, {}, 'fifo').warnings
+}
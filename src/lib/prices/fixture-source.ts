@@ -0,0 +1,44 @@
+import { PricePoint, PriceSource } from './types'
+import priceFixtures from './fixtures/prices.json'
+
+interface PriceFixtureFile {
+  asOf: string
+  // Daily closes per ticker, keyed by trading day
+  closes: Record<string, Record<string, number>>
+}
+
+// Serves historical closes from a bundled JSON file so performance tracking can be
+// exercised offline and produces the same numbers on every run
+export function createFixturePriceSource(
+  fixtures: PriceFixtureFile = priceFixtures as PriceFixtureFile
+): PriceSource {
+  // Trading days per ticker, oldest first
+  const days: Record<string, string[]> = {}
+  for (const [ticker, closes] of Object.entries(fixtures.closes)) {
+    days[ticker] = Object.keys(closes).sort()
+  }
+
+  return {
+    name: 'fixture',
+    async getClosingPrices(tickers: string[], date: string) {
+      const prices: Record<string, PricePoint> = {}
+
+      for (const rawTicker of tickers) {
+        const ticker = rawTicker.toUpperCase().trim()
+        const tradingDays = days[ticker]
+        if (!tradingDays) continue
+
+        let day: string | undefined
+        for (const candidate of tradingDays) {
+          if (candidate > date) break
+          day = candidate
+        }
+        if (!day) continue
+
+        prices[ticker] = { ticker, date: day, close: fixtures.closes[ticker][day] }
+      }
+
+      return prices
+    }
+  }
+}
@@ -0,0 +1,28 @@
+import { config } from '@/lib/config'
+import { PriceSource } from './types'
+import { createFixturePriceSource } from './fixture-source'
+
+export type { PricePoint, PriceSource } from './types'
+export { createFixturePriceSource } from './fixture-source'
+
+// Registered historical price sources, selected with the PRICE_SOURCE environment variable
+const sourceFactories: Record<string, () => PriceSource> = {
+  fixture: () => createFixturePriceSource(),
+}
+
+let cachedSource: PriceSource | null = null
+
+export function getPriceSource(): PriceSource {
+  if (cachedSource) return cachedSource
+
+  const factory = sourceFactories[config.prices.source]
+  if (!factory) {
+    throw new Error(
+      `Unknown PRICE_SOURCE "${config.prices.source}". ` +
+      `Expected one of: ${Object.keys(sourceFactories).join(', ')}`
+    )
+  }
+
+  cachedSource = factory()
+  return cachedSource
+}
@@ -0,0 +1,13 @@
+export interface PricePoint {
+  ticker: string
+  // Trading day the close belongs to (YYYY-MM-DD)
+  date: string
+  close: number
+}
+
+export interface PriceSource {
+  name: string
+  // Returns the last close on or before date for each ticker, keyed by upper-case
+  // ticker; tickers with no close by then are omitted
+  getClosingPrices(tickers: string[], date: string): Promise<Record<string, PricePoint>>
+}
@@ -0,0 +1,42 @@
+import { Quote, QuoteProvider } from './types'
+import quoteFixtures from './fixtures/quotes.json'
+
+interface QuoteFixtureFile {
+  asOf: string
+  quotes: Record<string, { price: number; previousClose?: number; volume?: number }>
+}
+
+// Serves quotes from a bundled JSON snapshot so local development and tests
+// never depend on a market data vendor
+export function createFixtureQuoteProvider(
+  fixtures: QuoteFixtureFile = quoteFixtures as QuoteFixtureFile
+): QuoteProvider {
+  return {
+    name: 'fixture',
+    async getQuotes(tickers: string[]) {
+      const quotes: Record<string, Quote> = {}
+
+      for (const rawTicker of tickers) {
+        const ticker = rawTicker.toUpperCase().trim()
+        const fixture = fixtures.quotes[ticker]
+        if (!fixture) continue
+
+        const change = fixture.previousClose !== undefined ? fixture.price - fixture.previousClose : undefined
+
+        quotes[ticker] = {
+          ticker,
+          price: fixture.price,
+          previousClose: fixture.previousClose,
+          change,
+          changePercent: change !== undefined && fixture.previousClose
+            ? (change / fixture.previousClose) * 100
+            : undefined,
+          volume: fixture.volume,
+          asOf: fixtures.asOf
+        }
+      }
+
+      return quotes
+    }
+  }
+}
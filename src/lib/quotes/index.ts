@@ -0,0 +1,31 @@
+import { config } from '@/lib/config'
+import { QuoteProvider } from './types'
+import { createFixtureQuoteProvider } from './fixture-provider'
+import { createMockQuoteProvider } from './mock-provider'
+
+export type { Quote, QuoteProvider } from './types'
+export { createFixtureQuoteProvider } from './fixture-provider'
+export { createMockQuoteProvider } from './mock-provider'
+
+// Registered quote providers, selected with the QUOTE_PROVIDER environment variable
+const providerFactories: Record<string, () => QuoteProvider> = {
+  fixture: () => createFixtureQuoteProvider(),
+  mock: () => createMockQuoteProvider(),
+}
+
+let cachedProvider: QuoteProvider | null = null
+
+export function getQuoteProvider(): QuoteProvider {
+  if (cachedProvider) return cachedProvider
+
+  const factory = providerFactories[config.quotes.provider]
+  if (!factory) {
+    throw new Error(
+      `Unknown QUOTE_PROVIDER "${config.quotes.provider}". ` +
+      `Expected one of: ${Object.keys(providerFactories).join(', ')}`
+    )
+  }
+
+  cachedProvider = factory()
+  return cachedProvider
+}
@@ -0,0 +1,57 @@
+import { Quote, QuoteProvider } from './types'
+
+// 32-bit FNV-1a; stable across runtimes so the same input always yields the same quote
+function hash(value: string): number {
+  let result = 0x811c9dc5
+  for (let i = 0; i < value.length; i++) {
+    result ^= value.charCodeAt(i)
+    result = Math.imul(result, 0x01000193)
+  }
+  return result >>> 0
+}
+
+// Maps a hash onto [0, 1)
+function unit(value: string): number {
+  return hash(value) / 0x100000000
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals
+  return Math.round(value * factor) / factor
+}
+
+// Quotes for any symbol, derived from the ticker and the UTC day: stable within a day,
+// different the next. Lets watchlists and alerts be exercised for symbols the fixture
+// snapshot does not cover.
+export function createMockQuoteProvider({ now = () => new Date() }: { now?: () => Date } = {}): QuoteProvider {
+  return {
+    name: 'mock',
+    async getQuotes(tickers: string[]) {
+      const day = now().toISOString().slice(0, 10)
+      const quotes: Record<string, Quote> = {}
+
+      for (const rawTicker of tickers) {
+        const ticker = rawTicker.toUpperCase().trim()
+        if (!ticker) continue
+
+        // Base price between 5 and 505; daily move within ±6%
+        const previousClose = round(5 + unit(ticker) * 500, 2)
+        const changePercent = (unit(`${ticker}:${day}`) - 0.5) * 12
+        const price = round(previousClose * (1 + changePercent / 100), 2)
+        const change = round(price - previousClose, 2)
+
+        quotes[ticker] = {
+          ticker,
+          price,
+          previousClose,
+          change,
+          changePercent: (change / previousClose) * 100,
+          volume: Math.round(100_000 + unit(`${ticker}:${day}:volume`) * 50_000_000),
+          asOf: `${day}T20:00:00.000Z`
+        }
+      }
+
+      return quotes
+    }
+  }
+}
@@ -0,0 +1,15 @@
+export interface Quote {
+  ticker: string
+  price: number
+  previousClose?: number
+  change?: number
+  changePercent?: number
+  volume?: number
+  asOf: string
+}
+
+export interface QuoteProvider {
+  name: string
+  // Returns quotes keyed by upper-case ticker; unknown tickers are omitted
+  getQuotes(tickers: string[]): Promise<Record<string, Quote>>
+}
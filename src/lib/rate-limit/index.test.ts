@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vitest'
+import {
+  consumeRateLimit,
+  createMemoryRateLimitStore,
+  peekRateLimit,
+  rateLimitHeaders,
+  RateLimitPolicy
+} from '@/lib/rate-limit'
+
+const policies: RateLimitPolicy[] = [
+  { period: 'minute', limit: 2 },
+  { period: 'day', limit: 3 }
+]
+
+// A memory store whose expiry clock follows the `now` passed to consumeRateLimit
+function clockedStore(start: string) {
+  let time = new Date(start).getTime()
+  const store = createMemoryRateLimitStore({ now: () => time })
+  return {
+    store,
+    now: () => new Date(time),
+    advance: (ms: number) => { time += ms }
+  }
+}
+
+describe('consumeRateLimit', () => {
+  it('starts a new minute window once the previous one ends', async () => {
+    const { store, now, advance } = clockedStore('2025-06-01T10:00:30Z')
+
+    await consumeRateLimit(store, 'user-1', 'chat', policies, now())
+    await consumeRateLimit(store, 'user-1', 'chat', policies, now())
+    expect((await consumeRateLimit(store, 'user-1', 'chat', policies, now())).allowed).toBe(false)
+
+    advance(30 * 1000)
+    const result = await consumeRateLimit(store, 'user-1', 'chat', policies, now())
+
+    expect(result.allowed).toBe(true)
+    expect(result.windows.map(window => window.remaining)).toEqual([1, 0])
+    expect(result.windows[0].resetAt.toISOString()).toBe('2025-06-01T10:02:00.000Z')
+  })
+
+  it('counts nothing in any window when one of them is exhausted', async () => {
+    const { store, now } = clockedStore('2025-06-01T10:00:00Z')
+    const tight: RateLimitPolicy[] = [{ period: 'minute', limit: 5 }, { period: 'day', limit: 1 }]
+
+    await consumeRateLimit(store, 'user-1', 'chat', tight, now())
+    const refused = await consumeRateLimit(store, 'user-1', 'chat', tight, now())
+
+    expect(refused.allowed).toBe(false)
+    expect((await peekRateLimit(store, 'user-1', 'chat', tight, now())).map(window => window.remaining))
+      .toEqual([4, 0])
+  })
+
+  it('keeps subjects and scopes apart', async () => {
+    const { store, now } = clockedStore('2025-06-01T10:00:00Z')
+    const single: RateLimitPolicy[] = [{ period: 'day', limit: 1 }]
+
+    await consumeRateLimit(store, 'user-1', 'chat', single, now())
+
+    expect((await consumeRateLimit(store, 'user-2', 'chat', single, now())).allowed).toBe(true)
+    expect((await consumeRateLimit(store, 'user-1', 'agent', single, now())).allowed).toBe(true)
+  })
+
+  it('reports the window with the fewest requests left while allowed', async () => {
+    const { store, now } = clockedStore('2025-06-01T10:00:00Z')
+    const result = await consumeRateLimit(store, 'user-1', 'chat', [
+      { period: 'minute', limit: 10 },
+      { period: 'day', limit: 2 }
+    ], now())
+
+    expect(result.binding).toMatchObject({ period: 'day', remaining: 1 })
+  })
+
+  it('reports the exhausted window that resets last when refused', async () => {
+    const { store, now } = clockedStore('2025-06-01T10:00:00Z')
+    const even: RateLimitPolicy[] = [{ period: 'minute', limit: 1 }, { period: 'day', limit: 1 }]
+
+    await consumeRateLimit(store, 'user-1', 'chat', even, now())
+    const refused = await consumeRateLimit(store, 'user-1', 'chat', even, now())
+
+    expect(refused.allowed).toBe(false)
+    expect(refused.binding).toMatchObject({ period: 'day', remaining: 0 })
+  })
+})
+
+describe('rateLimitHeaders', () => {
+  it('describes the binding window and every policy', async () => {
+    const { store, now } = clockedStore('2025-06-01T10:00:15Z')
+    const result = await consumeRateLimit(store, 'user-1', 'chat', policies, now())
+
+    expect(rateLimitHeaders(result, now())).toEqual({
+      'RateLimit-Limit': '2',
+      'RateLimit-Remaining': '1',
+      'RateLimit-Reset': '45',
+      'RateLimit-Policy': '2;w=60, 3;w=86400'
+    })
+  })
+
+  it('adds Retry-After when refused, counting down to the binding reset', async () => {
+    const { store, now } = clockedStore('2025-06-01T10:00:15Z')
+    const perMinute: RateLimitPolicy[] = [{ period: 'minute', limit: 1 }, { period: 'day', limit: 5 }]
+
+    const allowed = await consumeRateLimit(store, 'user-1', 'chat', perMinute, now())
+    const refused = await consumeRateLimit(store, 'user-1', 'chat', perMinute, now())
+
+    expect(rateLimitHeaders(allowed, now())['Retry-After']).toBeUndefined()
+    expect(rateLimitHeaders(refused, now())).toMatchObject({
+      'RateLimit-Limit': '1',
+      'RateLimit-Remaining': '0',
+      'RateLimit-Reset': '45',
+      'Retry-After': '45'
+    })
+  })
+})
+
+describe('createMemoryRateLimitStore', () => {
+  it('drops counters once they expire and keeps the first expiry of a running counter', async () => {
+    const { store, advance } = clockedStore('2025-06-01T10:00:00Z')
+    const counter = { key: 'user-1:chat:minute:x', limit: 5, expiresAt: new Date('2025-06-01T10:01:00Z') }
+
+    await store.consume([counter])
+    await store.consume([{ ...counter, expiresAt: new Date('2025-06-01T10:05:00Z') }])
+    expect(await store.counts([counter.key, 'user-1:chat:minute:y'])).toEqual([2, 0])
+
+    advance(60 * 1000)
+    expect(await store.counts([counter.key])).toEqual([0])
+  })
+})
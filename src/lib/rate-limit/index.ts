@@ -0,0 +1,152 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { config } from '@/lib/config'
+import { RateLimitStore } from './types'
+import { createMemoryRateLimitStore } from './memory-store'
+import { createPostgresRateLimitStore } from './postgres-store'
+
+export type { RateLimitConsumeResult, RateLimitCounter, RateLimitStore } from './types'
+export { createMemoryRateLimitStore } from './memory-store'
+export { createPostgresRateLimitStore } from './postgres-store'
+
+let memoryStore: RateLimitStore | null = null
+
+// Registered counter stores, selected with RATE_LIMIT_STORE. The memory store is kept
+// for the life of the process; Postgres counters are read with the caller's client.
+const storeFactories: Record<string, (supabase: SupabaseClient) => RateLimitStore> = {
+  postgres: supabase => createPostgresRateLimitStore(supabase),
+  memory: () => {
+    if (!memoryStore) memoryStore = createMemoryRateLimitStore()
+    return memoryStore
+  },
+}
+
+export function getRateLimitStore(supabase: SupabaseClient): RateLimitStore {
+  const factory = storeFactories[config.rateLimits.store]
+  if (!factory) {
+    throw new Error(
+      `Unknown RATE_LIMIT_STORE "${config.rateLimits.store}". ` +
+      `Expected one of: ${Object.keys(storeFactories).join(', ')}`
+    )
+  }
+
+  return factory(supabase)
+}
+
+export type RateLimitPeriod = 'minute' | 'day' | 'month'
+
+export interface RateLimitPolicy {
+  period: RateLimitPeriod
+  limit: number
+}
+
+export interface RateLimitWindowStatus extends RateLimitPolicy {
+  remaining: number
+  resetAt: Date
+}
+
+export interface RateLimitResult {
+  allowed: boolean
+  windows: RateLimitWindowStatus[]
+  // The window reported in the RateLimit headers: the exhausted one when the request
+  // was refused, otherwise the one with the fewest requests left
+  binding: RateLimitWindowStatus
+}
+
+// Nominal window lengths for RateLimit-Policy; days and months follow the UTC calendar
+const PERIOD_SECONDS: Record<RateLimitPeriod, number> = {
+  minute: 60,
+  day: 24 * 60 * 60,
+  month: 30 * 24 * 60 * 60
+}
+
+// The window `now` falls in: an id that names it in counter keys, and when it ends
+export function rateLimitWindow(period: RateLimitPeriod, now: Date): { id: string; resetAt: Date } {
+  const year = now.getUTCFullYear()
+  const month = now.getUTCMonth()
+
+  if (period === 'minute') {
+    const start = Math.floor(now.getTime() / 60000) * 60000
+    return { id: new Date(start).toISOString().slice(0, 16), resetAt: new Date(start + 60000) }
+  }
+  if (period === 'day') {
+    const start = Date.UTC(year, month, now.getUTCDate())
+    return { id: new Date(start).toISOString().slice(0, 10), resetAt: new Date(start + PERIOD_SECONDS.day * 1000) }
+  }
+  return { id: new Date(Date.UTC(year, month, 1)).toISOString().slice(0, 7), resetAt: new Date(Date.UTC(year, month + 1, 1)) }
+}
+
+function currentWindows(subject: string, scope: string, policies: RateLimitPolicy[], now: Date) {
+  return policies.map(policy => {
+    const { id, resetAt } = rateLimitWindow(policy.period, now)
+    return { policy, key: `${subject}:${scope}:${policy.period}:${id}`, resetAt }
+  })
+}
+
+function windowStatuses(windows: ReturnType<typeof currentWindows>, counts: number[]): RateLimitWindowStatus[] {
+  return windows.map(({ policy, resetAt }, i) => ({
+    ...policy,
+    remaining: Math.max(policy.limit - (counts[i] || 0), 0),
+    resetAt
+  }))
+}
+
+// Counts one request by `subject` (a user id) against every policy of `scope`
+export async function consumeRateLimit(
+  store: RateLimitStore,
+  subject: string,
+  scope: string,
+  policies: RateLimitPolicy[],
+  now: Date = new Date()
+): Promise<RateLimitResult> {
+  const windows = currentWindows(subject, scope, policies, now)
+  const { allowed, counts } = await store.consume(windows.map(({ policy, key, resetAt }) => ({
+    key,
+    limit: policy.limit,
+    expiresAt: resetAt
+  })))
+
+  const statuses = windowStatuses(windows, counts)
+
+  const binding = statuses.reduce((tightest, status) => {
+    if (status.remaining !== tightest.remaining) return status.remaining < tightest.remaining ? status : tightest
+    // Ties go to the window that resets first; among exhausted windows, though, the one
+    // that resets last decides when a retry can succeed
+    const resetsFirst = status.resetAt < tightest.resetAt
+    return (allowed ? resetsFirst : !resetsFirst) ? status : tightest
+  })
+
+  return { allowed, windows: statuses, binding }
+}
+
+// Where `subject` stands in each window of `scope`, without counting a request
+export async function peekRateLimit(
+  store: RateLimitStore,
+  subject: string,
+  scope: string,
+  policies: RateLimitPolicy[],
+  now: Date = new Date()
+): Promise<RateLimitWindowStatus[]> {
+  const windows = currentWindows(subject, scope, policies, now)
+  return windowStatuses(windows, await store.counts(windows.map(window => window.key)))
+}
+
+function secondsUntil(date: Date, now: Date): number {
+  return Math.max(Math.ceil((date.getTime() - now.getTime()) / 1000), 0)
+}
+
+// RateLimit-Limit/-Remaining/-Reset and RateLimit-Policy as in the IETF RateLimit header
+// fields draft, plus Retry-After when the request was refused
+export function rateLimitHeaders(result: RateLimitResult, now: Date = new Date()): Record<string, string> {
+  const headers: Record<string, string> = {
+    'RateLimit-Limit': String(result.binding.limit),
+    'RateLimit-Remaining': String(result.binding.remaining),
+    'RateLimit-Reset': String(secondsUntil(result.binding.resetAt, now)),
+    'RateLimit-Policy': result.windows.map(window => `${window.limit};w=${PERIOD_SECONDS[window.period]}`).join(', ')
+  }
+
+  if (!result.allowed) {
+    headers['Retry-After'] = headers['RateLimit-Reset']
+  }
+
+  return headers
+}
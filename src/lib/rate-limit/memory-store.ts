@@ -0,0 +1,33 @@
+import { RateLimitStore } from './types'
+
+// Counters in this process only; for tests and single-instance development. Limits
+// reset on restart and are not shared between serverless instances.
+export function createMemoryRateLimitStore({ now = () => Date.now() }: { now?: () => number } = {}): RateLimitStore {
+  const counters = new Map<string, { count: number; expiresAt: number }>()
+  const dropExpired = () => {
+    const time = now()
+    for (const [key, counter] of counters) {
+      if (counter.expiresAt <= time) counters.delete(key)
+    }
+  }
+
+  return {
+    name: 'memory',
+    async consume(requested) {
+      dropExpired()
+
+      const current = requested.map(({ key }) => counters.get(key)?.count || 0)
+      const allowed = requested.every((counter, i) => current[i] < counter.limit)
+      if (!allowed) return { allowed, counts: current }
+
+      requested.forEach(({ key, expiresAt }, i) => {
+        counters.set(key, { count: current[i] + 1, expiresAt: counters.get(key)?.expiresAt ?? expiresAt.getTime() })
+      })
+      return { allowed, counts: current.map(count => count + 1) }
+    },
+    async counts(keys) {
+      dropExpired()
+      return keys.map(key => counters.get(key)?.count || 0)
+    }
+  }
+}
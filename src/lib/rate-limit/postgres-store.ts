@@ -0,0 +1,33 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { RateLimitStore } from './types'
+
+// Counters in the rate_limit_counters table, shared by every instance. Called with the
+// user's client, keys must start with that user's id.
+export function createPostgresRateLimitStore(supabase: SupabaseClient): RateLimitStore {
+  return {
+    name: 'postgres',
+    async consume(counters) {
+      const { data, error } = await supabase.rpc('consume_rate_limit', {
+        counter_keys: counters.map(counter => counter.key),
+        counter_limits: counters.map(counter => counter.limit),
+        counter_expires_at: counters.map(counter => counter.expiresAt.toISOString())
+      })
+
+      if (error) {
+        throw new Error(`Database error checking rate limit: ${error.message}`)
+      }
+
+      const rows = (data || []) as { counter_key: string; hits: number; allowed: boolean }[]
+      return { allowed: rows.every(row => row.allowed), counts: rows.map(row => row.hits) }
+    },
+    async counts(keys) {
+      const { data, error } = await supabase.rpc('rate_limit_counts', { counter_keys: keys })
+
+      if (error) {
+        throw new Error(`Database error reading rate limit counters: ${error.message}`)
+      }
+
+      return ((data || []) as { counter_key: string; hits: number }[]).map(row => row.hits)
+    }
+  }
+}
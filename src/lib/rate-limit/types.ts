@@ -0,0 +1,26 @@
+// One counter to check and count a request against
+export interface RateLimitCounter {
+  key: string
+  limit: number
+  // When the window ends and the counter starts over
+  expiresAt: Date
+}
+
+export interface RateLimitConsumeResult {
+  // False when any counter had reached its limit; nothing was counted then
+  allowed: boolean
+  // Counts after the attempt, in the order of the counters given
+  counts: number[]
+}
+
+// Shared request counters. The contract maps onto Redis (a Lua script doing GET, then
+// INCR and PEXPIREAT on each key; MGET for counts) as well as onto the Postgres
+// functions used by default.
+export interface RateLimitStore {
+  name: string
+  // Atomically counts one request against every counter, but only when all of them
+  // are below their limits
+  consume(counters: RateLimitCounter[]): Promise<RateLimitConsumeResult>
+  // Current counts without counting a request; 0 for windows not started
+  counts(keys: string[]): Promise<number[]>
+}
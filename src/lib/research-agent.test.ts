@@ -0,0 +1,132 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { SupabaseClient } from '@supabase/supabase-js'
+import { AgentTool, AgentToolContext } from '@/lib/agent-tools'
+import { ChatCompletionRequest, ChatStep, ChatToolRound, ChatToolSpec, createMockChatProvider } from '@/lib/chat-providers'
+import { createMockQuoteProvider } from '@/lib/quotes'
+import { runResearchAgent } from '@/lib/research-agent'
+import { createMockSearchProvider } from '@/lib/search'
+
+function request(message: string): ChatCompletionRequest {
+  return {
+    message,
+    context: {},
+    systemPrompt: 'You are a research assistant.',
+    history: [],
+    historySummary: null,
+    maxTokens: 500,
+    temperature: 0.2
+  }
+}
+
+// The tools below never touch the database, so the client is only there for the type
+const context: AgentToolContext = {
+  supabase: {} as SupabaseClient,
+  userId: 'user-1',
+  search: createMockSearchProvider({ now: () => new Date('2025-06-01T12:00:00Z') }),
+  quotes: createMockQuoteProvider()
+}
+
+function tool(name: string, run: AgentTool['run']): AgentTool {
+  return { name, description: `Test tool ${name}`, parameters: { type: 'object', properties: {} }, run }
+}
+
+// The mock provider with its step replaced, recording what each step was offered
+function scriptedProvider(script: (rounds: ChatToolRound[], tools: ChatToolSpec[]) => ChatStep) {
+  const offered: string[][] = []
+  const received: ChatToolRound[][] = []
+  const provider = {
+    ...createMockChatProvider(),
+    async step(_request: ChatCompletionRequest, rounds: ChatToolRound[], tools: ChatToolSpec[]) {
+      offered.push(tools.map(spec => spec.name))
+      received.push([...rounds])
+      return script(rounds, tools)
+    }
+  }
+  return { provider, offered, received }
+}
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('runResearchAgent', () => {
+  it('runs the tools the mock provider asks for and answers with their results', async () => {
+    const provider = createMockChatProvider()
+    const steps: ChatStep[] = []
+    const step = provider.step!.bind(provider)
+    provider.step = async (...args) => {
+      const result = await step(...args)
+      steps.push(result)
+      return result
+    }
+
+    const result = await runResearchAgent(provider, request('What is the news on AAPL?'), context)
+
+    expect(result.toolCalls.map(call => call.name)).toEqual(['get_quotes', 'news_search'])
+    expect(result.toolCalls.every(call => !call.error)).toBe(true)
+    expect(result.content).toContain('Used 2 tool calls: get_quotes, news_search.')
+    expect(steps).toHaveLength(2)
+    expect(result.usage).toEqual({
+      promptTokens: steps[0].usage!.promptTokens + steps[1].usage!.promptTokens,
+      completionTokens: steps[0].usage!.completionTokens + steps[1].usage!.completionTokens
+    })
+  })
+
+  it('withholds the tools and forces an answer once the steps are used up', async () => {
+    const lookup = tool('lookup', async () => ({ ok: true }))
+    const { provider, offered } = scriptedProvider((rounds, tools) => tools.length > 0
+      ? { type: 'tool_calls', calls: [{ id: `call_${rounds.length}`, name: 'lookup', arguments: {} }], usage: { promptTokens: 10, completionTokens: 2 } }
+      : { type: 'answer', content: 'Done.', usage: { promptTokens: 30, completionTokens: 5 } })
+
+    const result = await runResearchAgent(provider, request('Keep looking'), context, { tools: [lookup], maxSteps: 2 })
+
+    expect(offered).toEqual([['lookup'], ['lookup'], []])
+    expect(result.content).toBe('Done.')
+    expect(result.toolCalls.map(call => call.id)).toEqual(['call_0', 'call_1'])
+    expect(result.usage).toEqual({ promptTokens: 50, completionTokens: 9 })
+  })
+
+  it('records failed and unknown tool calls and reports their errors to the model', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const broken = tool('broken', async () => { throw new Error('upstream timeout') })
+    const { provider, received } = scriptedProvider(rounds => rounds.length === 0
+      ? {
+          type: 'tool_calls',
+          calls: [
+            { id: 'call_1', name: 'broken', arguments: {} },
+            { id: 'call_2', name: 'missing', arguments: {} }
+          ]
+        }
+      : { type: 'answer', content: 'Could not look that up.' })
+
+    const result = await runResearchAgent(provider, request('Check it'), context, { tools: [broken] })
+
+    expect(result.toolCalls.map(call => call.error)).toEqual(['upstream timeout', 'Unknown tool "missing"'])
+    expect(received[1][0].map(({ result }) => JSON.parse(result))).toEqual([
+      { error: 'upstream timeout' },
+      { error: 'Unknown tool "missing"' }
+    ])
+    expect(result.usage).toBeUndefined()
+  })
+
+  it('cites the sources the model named first, then the pages the search tools returned', async () => {
+    const { provider } = scriptedProvider(rounds => rounds.length === 0
+      ? { type: 'tool_calls', calls: [{ id: 'call_1', name: 'web_search', arguments: { query: 'chip demand', limit: 2 } }] }
+      : {
+          type: 'answer',
+          content: 'Demand is strong.',
+          sources: [
+            { title: 'Filing', url: 'https://example.org/10-k' },
+            { title: 'Again', url: 'https://example.com/web/chip-demand/1' }
+          ]
+        })
+
+    const result = await runResearchAgent(provider, request('Chip demand?'), context)
+
+    expect(result.sources).toEqual([
+      { title: 'Filing', url: 'https://example.org/10-k' },
+      { title: 'Again', url: 'https://example.com/web/chip-demand/1' },
+      { title: 'Result 2 for "chip demand"', url: 'https://example.com/web/chip-demand/2' }
+    ])
+  })
+})
@@ -0,0 +1,89 @@
+/**
+ * Research Agent
+ *
+ * The in-app tool loop for chat providers that can call tools. Each step the provider
+ * either asks for tool calls, which run against the user's data, quotes and search,
+ * or answers. Every call is traced so the chat can show what the answer is based on,
+ * and the pages the search tools returned are cited alongside any the model named.
+ * After CHAT_MAX_TOOL_STEPS rounds the provider is asked to answer without tools.
+ */
+
+import { config } from '@/lib/config'
+import { ChatCompletionRequest, ChatProvider, ChatReply, ChatToolRound, ChatToolSpec } from '@/lib/chat-providers'
+import { normalizeSources, toolSources } from '@/lib/chat-sources'
+import { addUsage } from '@/lib/chat-usage'
+import { AGENT_TOOLS, AgentTool, AgentToolContext, ToolTraceEntry, runToolCall } from '@/lib/agent-tools'
+
+// Longest tool result passed back to the model; the trace keeps the full result
+const MAX_TOOL_RESULT_CHARS = 6000
+
+export interface ResearchAgentResult extends ChatReply {
+  toolCalls: ToolTraceEntry[]
+}
+
+export interface ResearchAgentOptions {
+  tools?: AgentTool[]
+  maxSteps?: number
+  signal?: AbortSignal
+  onToolCall?: (call: Pick<ToolTraceEntry, 'id' | 'name' | 'arguments'>) => void
+  onToolResult?: (entry: ToolTraceEntry) => void
+}
+
+export function supportsTools(provider: ChatProvider): boolean {
+  return config.chat.tools && typeof provider.step === 'function'
+}
+
+function toolSpec({ name, description, parameters }: AgentTool): ChatToolSpec {
+  return { name, description, parameters }
+}
+
+function resultForModel(entry: ToolTraceEntry): string {
+  const text = JSON.stringify(entry.error ? { error: entry.error } : entry.result ?? null)
+  return text.length > MAX_TOOL_RESULT_CHARS ? `${text.slice(0, MAX_TOOL_RESULT_CHARS)}… (truncated)` : text
+}
+
+export async function runResearchAgent(
+  provider: ChatProvider,
+  request: ChatCompletionRequest,
+  context: AgentToolContext,
+  { tools = AGENT_TOOLS, maxSteps = config.chat.maxToolSteps, signal, onToolCall, onToolResult }: ResearchAgentOptions = {}
+): Promise<ResearchAgentResult> {
+  if (!provider.step) {
+    throw new Error(`Chat provider "${provider.name}" does not support tool calling`)
+  }
+
+  const specs = tools.map(toolSpec)
+  const rounds: ChatToolRound[] = []
+  const toolCalls: ToolTraceEntry[] = []
+  let usage: ChatReply['usage']
+
+  // One extra step without tools forces an answer once the rounds are used up
+  for (let step = 0; step <= maxSteps; step++) {
+    const result = await provider.step(request, rounds, step < maxSteps ? specs : [], { signal })
+    // Every step is a model call, so token counts add up across them
+    usage = addUsage(usage, result.usage)
+
+    if (result.type === 'answer') {
+      return {
+        content: result.content,
+        sources: normalizeSources(result.sources, toolSources(toolCalls)),
+        confidence: result.confidence ?? null,
+        usage,
+        toolCalls
+      }
+    }
+
+    const round: ChatToolRound = []
+    for (const call of result.calls) {
+      if (signal?.aborted) throw new Error('Research agent cancelled')
+      onToolCall?.(call)
+      const entry = await runToolCall(call, context, tools)
+      onToolResult?.(entry)
+      toolCalls.push(entry)
+      round.push({ call, result: resultForModel(entry) })
+    }
+    rounds.push(round)
+  }
+
+  throw new Error(`Chat provider "${provider.name}" kept calling tools after ${maxSteps} rounds`)
+}
@@ -0,0 +1,31 @@
+import { config } from '@/lib/config'
+import { SearchProvider } from './types'
+import { createSerpApiSearchProvider } from './serpapi-provider'
+import { createMockSearchProvider } from './mock-provider'
+
+export type { SearchKind, SearchProvider, SearchResult } from './types'
+export { createSerpApiSearchProvider } from './serpapi-provider'
+export { createMockSearchProvider } from './mock-provider'
+
+// Registered search providers for the research agent, selected with SEARCH_PROVIDER
+const providerFactories: Record<string, () => SearchProvider> = {
+  serpapi: () => createSerpApiSearchProvider(config.search.serpApiKey),
+  mock: () => createMockSearchProvider(),
+}
+
+let cachedProvider: SearchProvider | null = null
+
+export function getSearchProvider(): SearchProvider {
+  if (cachedProvider) return cachedProvider
+
+  const factory = providerFactories[config.search.provider]
+  if (!factory) {
+    throw new Error(
+      `Unknown SEARCH_PROVIDER "${config.search.provider}". ` +
+      `Expected one of: ${Object.keys(providerFactories).join(', ')}`
+    )
+  }
+
+  cachedProvider = factory()
+  return cachedProvider
+}
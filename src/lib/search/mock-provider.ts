@@ -0,0 +1,17 @@
+import { SearchProvider, SearchResult } from './types'
+
+// Canned results that echo the query, so the research agent can be exercised offline
+export function createMockSearchProvider({ now = () => new Date() }: { now?: () => Date } = {}): SearchProvider {
+  return {
+    name: 'mock',
+    async search(query, { kind, limit }) {
+      const slug = encodeURIComponent(query.toLowerCase().replace(/\s+/g, '-'))
+      return Array.from({ length: Math.min(limit, 3) }, (_, i): SearchResult => ({
+        title: `${kind === 'news' ? 'News' : 'Result'} ${i + 1} for "${query}"`,
+        url: `https://example.com/${kind}/${slug}/${i + 1}`,
+        snippet: `Mock ${kind} result ${i + 1} about ${query}.`,
+        ...(kind === 'news' ? { source: 'Example News', publishedAt: now().toISOString() } : {})
+      }))
+    }
+  }
+}
@@ -0,0 +1,51 @@
+import { getJson } from 'serpapi'
+import { SearchProvider, SearchResult } from './types'
+
+// How long SerpAPI may take before the request is abandoned
+const SEARCH_TIMEOUT_MS = 10000
+
+interface SerpOrganicResult {
+  title?: string
+  link?: string
+  snippet?: string
+}
+
+interface SerpNewsResult {
+  title?: string
+  link?: string
+  snippet?: string
+  source?: string | { name?: string }
+  date?: string
+}
+
+// Google web and news results through SerpAPI
+export function createSerpApiSearchProvider(apiKey: string): SearchProvider {
+  return {
+    name: 'serpapi',
+    async search(query, { kind, limit }) {
+      if (!apiKey) {
+        throw new Error('SERPAPI_API_KEY must be set when SEARCH_PROVIDER is "serpapi"')
+      }
+
+      if (kind === 'news') {
+        const json = await getJson({ engine: 'google_news', q: query, api_key: apiKey, timeout: SEARCH_TIMEOUT_MS })
+        return ((json.news_results || []) as SerpNewsResult[])
+          .filter(result => result.title && result.link)
+          .slice(0, limit)
+          .map((result): SearchResult => ({
+            title: result.title!,
+            url: result.link!,
+            snippet: result.snippet || '',
+            source: typeof result.source === 'string' ? result.source : result.source?.name,
+            publishedAt: result.date
+          }))
+      }
+
+      const json = await getJson({ engine: 'google', q: query, num: limit, api_key: apiKey, timeout: SEARCH_TIMEOUT_MS })
+      return ((json.organic_results || []) as SerpOrganicResult[])
+        .filter(result => result.title && result.link)
+        .slice(0, limit)
+        .map((result): SearchResult => ({ title: result.title!, url: result.link!, snippet: result.snippet || '' }))
+    }
+  }
+}
@@ -0,0 +1,15 @@
+export type SearchKind = 'web' | 'news'
+
+export interface SearchResult {
+  title: string
+  url: string
+  snippet: string
+  // Publisher for news results
+  source?: string
+  publishedAt?: string
+}
+
+export interface SearchProvider {
+  name: string
+  search(query: string, options: { kind: SearchKind; limit: number }): Promise<SearchResult[]>
+}
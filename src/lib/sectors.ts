@@ -0,0 +1,88 @@
+/**
+ * Sector Classification
+ *
+ * Maps large, frequently discussed tickers to their GICS sector so ideas can be
+ * filtered by sector. Ideas only store tickers, so an idea belongs to every sector
+ * one of its tickers is listed under.
+ */
+
+export type SectorId =
+  | 'technology'
+  | 'communication_services'
+  | 'consumer_discretionary'
+  | 'consumer_staples'
+  | 'energy'
+  | 'financials'
+  | 'health_care'
+  | 'industrials'
+  | 'materials'
+  | 'real_estate'
+  | 'utilities'
+
+export interface Sector {
+  id: SectorId
+  name: string
+  tickers: string[]
+}
+
+export const SECTORS: Sector[] = [
+  {
+    id: 'technology',
+    name: 'Technology',
+    tickers: ['AAPL', 'MSFT', 'NVDA', 'AMD', 'AVGO', 'INTC', 'QCOM', 'TSM', 'MU', 'ORCL', 'CRM', 'ADBE', 'CSCO', 'IBM', 'NOW', 'PLTR', 'SHOP', 'SMCI', 'ARM', 'ASML']
+  },
+  {
+    id: 'communication_services',
+    name: 'Communication Services',
+    tickers: ['GOOGL', 'GOOG', 'META', 'NFLX', 'DIS', 'T', 'VZ', 'TMUS', 'CMCSA', 'SPOT', 'RDDT']
+  },
+  {
+    id: 'consumer_discretionary',
+    name: 'Consumer Discretionary',
+    tickers: ['AMZN', 'TSLA', 'RIVN', 'LCID', 'HD', 'LOW', 'NKE', 'MCD', 'SBUX', 'TGT', 'BKNG', 'LVMUY', 'F', 'GM', 'NIO']
+  },
+  {
+    id: 'consumer_staples',
+    name: 'Consumer Staples',
+    tickers: ['WMT', 'COST', 'PG', 'KO', 'PEP', 'PM', 'MO', 'CL', 'MDLZ']
+  },
+  {
+    id: 'energy',
+    name: 'Energy',
+    tickers: ['XOM', 'CVX', 'COP', 'OXY', 'SLB', 'EOG', 'PSX', 'MPC', 'ENPH', 'FSLR', 'SEDG']
+  },
+  {
+    id: 'financials',
+    name: 'Financials',
+    tickers: ['JPM', 'BAC', 'GS', 'WFC', 'MS', 'C', 'SCHW', 'BLK', 'V', 'MA', 'PYPL', 'AXP', 'COIN', 'BRK.B', 'HOOD']
+  },
+  {
+    id: 'health_care',
+    name: 'Health Care',
+    tickers: ['JNJ', 'PFE', 'MRNA', 'GILD', 'LLY', 'UNH', 'ABBV', 'MRK', 'AMGN', 'BMY', 'TMO', 'ISRG', 'NVO', 'VRTX', 'REGN']
+  },
+  {
+    id: 'industrials',
+    name: 'Industrials',
+    tickers: ['BA', 'CAT', 'DE', 'GE', 'HON', 'LMT', 'RTX', 'UPS', 'FDX', 'UNP', 'NOC']
+  },
+  {
+    id: 'materials',
+    name: 'Materials',
+    tickers: ['LIN', 'FCX', 'NEM', 'DOW', 'NUE', 'ALB', 'MP']
+  },
+  {
+    id: 'real_estate',
+    name: 'Real Estate',
+    tickers: ['PLD', 'AMT', 'O', 'SPG', 'EQIX', 'CCI', 'VNQ']
+  },
+  {
+    id: 'utilities',
+    name: 'Utilities',
+    tickers: ['NEE', 'DUK', 'SO', 'D', 'AEP', 'CEG', 'VST']
+  }
+]
+
+export function findSector(id: string): Sector | undefined {
+  return SECTORS.find(sector => sector.id === id)
+}
@@ -1,4 +1,5 @@
 import { createServerClient } from '@supabase/ssr'
+import { createClient as createSupabaseClient } from '@supabase/supabase-js'
 import { cookies } from 'next/headers'
 import { config } from './config'
 
@@ -38,4 +39,28 @@ export async function createClient() {
       },
     },
   })
-}
\ No newline at end of file
+}
+
+// Service-role client for trusted server jobs; bypasses row level security
+export function createServiceClient() {
+  if (!config.supabase.url) {
+    throw new Error(
+      'Missing NEXT_PUBLIC_SUPABASE_URL environment variable. ' +
+      'Please add it to your .env.local file or environment configuration.'
+    )
+  }
+
+  if (!config.supabase.serviceRoleKey) {
+    throw new Error(
+      'Missing SUPABASE_SERVICE_ROLE_KEY environment variable. ' +
+      'Please add it to your .env.local file or environment configuration.'
+    )
+  }
+
+  return createSupabaseClient(config.supabase.url, config.supabase.serviceRoleKey, {
+    auth: {
+      persistSession: false,
+      autoRefreshToken: false,
+    },
+  })
+}
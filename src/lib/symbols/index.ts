@@ -0,0 +1,76 @@
+/**
+ * Symbol Directory
+ *
+ * Reference list of tradable symbols bundled with the app (data/symbols.json), used to
+ * validate and normalize user-entered tickers, attach company names and exchanges, and
+ * power /api/symbols/search. The directory is not exhaustive: well-formed symbols it
+ * does not list are still accepted unless SYMBOL_DIRECTORY_STRICT is set.
+ */
+
+import { config } from '@/lib/config'
+import { SymbolInfo } from './types'
+import directory from './data/symbols.json'
+
+export type { SymbolInfo, SymbolType } from './types'
+
+// Root of 1-10 letters/digits plus up to two ".X" / "-X" parts: BRK.B, RDS-A, BTC-USD, SHOP.TO, 7203.T
+const SYMBOL_FORMAT = /^[A-Z0-9]{1,10}(?:[.-][A-Z0-9]{1,5}){0,2}$/
+
+const symbols = (directory as { symbols: SymbolInfo[] }).symbols
+const bySymbol = new Map(symbols.map(entry => [entry.symbol, entry]))
+
+// Upper-cases and strips "$" cashtags, then maps share-class spellings other tools use
+// (BRK-B, BRK/B, "BRK B") onto the directory's spelling when it lists the symbol
+export function normalizeSymbol(value: string): string {
+  const symbol = value.trim().toUpperCase().replace(/^\$/, '').replace(/\s*\/\s*|\s+/g, '.')
+  if (bySymbol.has(symbol)) return symbol
+
+  const alternate = symbol.includes('.') ? symbol.replace('.', '-') : symbol.replace('-', '.')
+  return bySymbol.has(alternate) ? alternate : symbol
+}
+
+export function findSymbol(value: string): SymbolInfo | null {
+  return bySymbol.get(normalizeSymbol(value)) || null
+}
+
+// Shape check only; needs at least one letter so bare numbers are not taken for tickers
+export function isWellFormedSymbol(value: string): boolean {
+  const symbol = normalizeSymbol(value)
+  return SYMBOL_FORMAT.test(symbol) && /[A-Z]/.test(symbol)
+}
+
+export function isValidSymbol(value: string): boolean {
+  if (findSymbol(value)) return true
+  return !config.symbols.strict && isWellFormedSymbol(value)
+}
+
+// Ranks exact symbol matches first, then symbol prefixes (SHOP before SHOP.TO), then
+// company names starting with or containing the query
+export function searchSymbols(query: string, limit: number): SymbolInfo[] {
+  const symbolQuery = normalizeSymbol(query)
+  const nameQuery = query.trim().toLowerCase()
+  if (!nameQuery) return []
+
+  const rank = (entry: SymbolInfo): number | null => {
+    if (entry.symbol === symbolQuery) return 0
+    if (entry.symbol.startsWith(symbolQuery)) return 1
+    const name = entry.name.toLowerCase()
+    if (name.startsWith(nameQuery)) return 2
+    if (name.split(/[\s,.&-]+/).some(word => word.startsWith(nameQuery))) return 3
+    if (name.includes(nameQuery)) return 4
+    return null
+  }
+
+  return symbols
+    .flatMap(entry => {
+      const score = rank(entry)
+      return score === null ? [] : [{ entry, score }]
+    })
+    .sort((a, b) =>
+      a.score - b.score ||
+      a.entry.symbol.length - b.entry.symbol.length ||
+      a.entry.symbol.localeCompare(b.entry.symbol)
+    )
+    .slice(0, limit)
+    .map(({ entry }) => entry)
+}
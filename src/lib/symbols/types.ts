@@ -0,0 +1,10 @@
+export type SymbolType = 'stock' | 'etf' | 'fund' | 'crypto'
+
+export interface SymbolInfo {
+  // Canonical form: class shares use ".", crypto pairs and legacy ADR classes use "-",
+  // non-US listings carry the exchange suffix (SHOP.TO, VOD.L)
+  symbol: string
+  name: string
+  exchange: string
+  type: SymbolType
+}
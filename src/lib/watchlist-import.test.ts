@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vitest'
+import { parseTickerList } from '@/lib/watchlist-import'
+
+describe('parseTickerList', () => {
+  it('takes the leading symbol of each plain-text line and ignores what follows it', () => {
+    const result = parseTickerList([
+      'Symbol',
+      'AAPL Apple Inc.',
+      'msft, Microsoft Corporation',
+      'NVDA\tNVIDIA  # chips',
+      '',
+      'aapl'
+    ].join('\n'))
+
+    expect(result).toEqual({ format: 'plain', tickers: ['AAPL', 'MSFT', 'NVDA'], rejected: [] })
+  })
+
+  it('reports a line whose leading value is not a symbol', () => {
+    const { tickers, rejected } = parseTickerList('TSLA\n$$$ not a ticker\n')
+
+    expect(tickers).toEqual(['TSLA'])
+    expect(rejected).toEqual([{ line: 2, value: '$$$', reason: 'Not a valid ticker symbol' }])
+  })
+
+  it('reads the symbol column of a broker export below its preamble', () => {
+    const result = parseTickerList([
+      'Positions for account Individual ...123',
+      '',
+      'Symbol,Description,Quantity',
+      'SPAXX**,Money Market,100',
+      '"BRK.B","Berkshire Hathaway, Class B",5',
+      'Account Total,,',
+      'Data as of market close.'
+    ].join('\r\n'))
+
+    expect(result).toEqual({ format: 'csv', tickers: ['SPAXX', 'BRK.B'], rejected: [] })
+  })
+})
@@ -0,0 +1,160 @@
+/**
+ * Watchlist Import/Export
+ *
+ * Reads symbol lists pasted or uploaded by users: one symbol per line (anything after
+ * it, such as a company name, is ignored), or CSV exports from brokers and screeners where
+ * the symbol sits in a "Symbol", "Ticker" or "Financial Instrument" column below
+ * any number of preamble lines (Schwab, Fidelity, IBKR, thinkorswim, Yahoo Finance).
+ */
+
+import { isValidSymbol, normalizeSymbol } from '@/lib/symbols'
+import { UserWatchlist } from '@/types/user'
+
+export const MAX_IMPORT_BYTES = 100 * 1024
+
+export type ImportFormat = 'plain' | 'csv'
+
+export interface ImportRejection {
+  // 1-based line number in the uploaded text
+  line: number
+  value: string
+  reason: string
+}
+
+export interface ParsedTickerList {
+  format: ImportFormat
+  // Upper-cased, de-duplicated, in file order
+  tickers: string[]
+  rejected: ImportRejection[]
+}
+
+const SYMBOL_HEADERS = ['symbol', 'ticker', 'ticker symbol', 'financial instrument', 'instrument', 'security', 'code']
+
+// Summary rows brokers append to position exports
+const SUMMARY_ROWS = ['cash & cash investments', 'account total', 'pending activity', 'total', 'cash']
+
+function splitCsvLine(line: string, delimiter: string): string[] {
+  const fields: string[] = []
+  let field = ''
+  let quoted = false
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (quoted) {
+      if (char === '"' && line[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"') {
+      quoted = true
+    } else if (char === delimiter) {
+      fields.push(field.trim())
+      field = ''
+    } else {
+      field += char
+    }
+  }
+
+  fields.push(field.trim())
+  return fields
+}
+
+function detectDelimiter(line: string): string {
+  const candidates = [',', '\t', ';']
+  return candidates.reduce((best, candidate) =>
+    line.split(candidate).length > line.split(best).length ? candidate : best
+  )
+}
+
+function findHeader(lines: string[]): { index: number; column: number; delimiter: string } | null {
+  for (let index = 0; index < lines.length; index++) {
+    const delimiter = detectDelimiter(lines[index])
+    const fields = splitCsvLine(lines[index], delimiter).map(field => field.toLowerCase())
+    if (fields.length < 2) continue
+
+    const column = fields.findIndex(field => SYMBOL_HEADERS.includes(field))
+    if (column !== -1) return { index, column, delimiter }
+  }
+  return null
+}
+
+// Strips decorations brokers add to symbols, e.g. Fidelity's "SPAXX**" money market marker
+function cleanSymbol(value: string): string {
+  return normalizeSymbol(value.replace(/\*+$/, ''))
+}
+
+export function parseTickerList(content: string): ParsedTickerList {
+  const lines = content.replace(/^\uFEFF/, '').split(/\r?\n/)
+  const header = findHeader(lines)
+  const tickers: string[] = []
+  const seen = new Set<string>()
+  const rejected: ImportRejection[] = []
+
+  const accept = (raw: string, line: number) => {
+    if (!raw.trim() || SUMMARY_ROWS.includes(raw.trim().toLowerCase())) return
+    const symbol = cleanSymbol(raw)
+    if (!isValidSymbol(symbol)) {
+      rejected.push({ line, value: raw, reason: 'Not a valid ticker symbol' })
+      return
+    }
+    if (seen.has(symbol)) return
+    seen.add(symbol)
+    tickers.push(symbol)
+  }
+
+  if (header) {
+    for (let index = header.index + 1; index < lines.length; index++) {
+      if (!lines[index].trim()) continue
+      const fields = splitCsvLine(lines[index], header.delimiter)
+      // Footnotes and disclaimers are single-field lines
+      if (fields.length < 2) continue
+      accept(fields[header.column] || '', index + 1)
+    }
+    return { format: 'csv', tickers, rejected }
+  }
+
+  lines.forEach((line, index) => {
+    const text = line.replace(/#.*$/, '').trim()
+    if (!text) return
+    // The symbol leads the line; names and notes after it are not symbols
+    const value = text.split(/[\s,;]+/)[0].replace(/^"|"$/g, '')
+    // Single-column files, including our own CSV export, start with a header
+    if (SYMBOL_HEADERS.includes(value.toLowerCase())) return
+    accept(value, index + 1)
+  })
+
+  return { format: 'plain', tickers, rejected }
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+// "Symbol" column first so the file re-imports here and into most broker tools
+export function watchlistToCsv(watchlist: UserWatchlist): string {
+  const rows = [
+    ['Symbol', 'Notes', 'Added'],
+    ...watchlist.items.map(item => [item.ticker, item.notes || '', item.added_at.slice(0, 10)])
+  ]
+  return rows.map(row => row.map(csvField).join(',')).join('\r\n') + '\r\n'
+}
+
+export function watchlistToJson(watchlist: UserWatchlist) {
+  return {
+    name: watchlist.name,
+    description: watchlist.description || null,
+    tickers: watchlist.tickers,
+    items: watchlist.items.map(({ ticker, notes, added_at }) => ({ ticker, notes, added_at })),
+    exported_at: new Date().toISOString()
+  }
+}
+
+// Safe file name for Content-Disposition
+export function exportFileName(watchlist: UserWatchlist, extension: string): string {
+  const base = watchlist.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'watchlist'
+  return `${base}.${extension}`
+}
@@ -0,0 +1,163 @@
+/**
+ * Watchlist Matching
+ *
+ * Finds newly published ideas whose tickers overlap the tickers on a user's watchlists.
+ * findWatchlistMatches serves the dashboard banner and GET /api/ideas?matchesWatchlist=true;
+ * notifyWatchlistMatches runs with the alert evaluation job and notifies users who
+ * enabled email notifications, once per idea.
+ */
+
+import { SupabaseClient } from '@supabase/supabase-js'
+import { StructuredTradingIdea, WatchlistMatchedIdea, WatchlistMatches } from '@/types/api'
+import { UserProfile } from '@/types/user'
+import { listWatchlists } from '@/lib/watchlists'
+import { MAX_PAGE_SIZE, queryIdeas } from '@/lib/ideas-query'
+import { loadIdeas } from '@/lib/ideas-repository'
+import { NotificationDraft, NotificationSender, deliverNotifications } from '@/lib/notifications'
+import { normalizeSymbol } from '@/lib/symbols'
+import { fetchAllRows } from '@/lib/paged-reads'
+
+export const DEFAULT_MATCH_DAYS = 1
+export const MAX_MATCH_DAYS = 30
+
+// How far back the notification job looks for ideas it has not notified about yet
+const NOTIFY_LOOKBACK_HOURS = 24
+
+// Values per .in() filter; keeps request URLs well under PostgREST limits
+const CHUNK_SIZE = 100
+
+const HOUR_MS = 60 * 60 * 1000
+
+export function matchedTickers(idea: Pick<StructuredTradingIdea, 'tickers'>, watched: Set<string>): string[] {
+  return Array.from(new Set(idea.tickers.map(normalizeSymbol))).filter(ticker => watched.has(ticker))
+}
+
+// Ideas from the last `days` days mentioning any ticker on any of the user's lists, newest first
+export async function findWatchlistMatches(
+  supabase: SupabaseClient,
+  userId: string,
+  { days = DEFAULT_MATCH_DAYS, limit = MAX_PAGE_SIZE, now = new Date() }: { days?: number; limit?: number; now?: Date } = {}
+): Promise<WatchlistMatches> {
+  const since = new Date(now.getTime() - days * 24 * HOUR_MS).toISOString()
+  const watched = new Set((await listWatchlists(supabase, userId)).flatMap(watchlist => watchlist.tickers))
+
+  if (watched.size === 0) {
+    return { ideas: [], matchedTickers: [], since, total: 0 }
+  }
+
+  const page = await queryIdeas(supabase, {
+    filters: { from: since, anyTicker: Array.from(watched) },
+    sort: 'newest',
+    limit,
+    cursor: null
+  })
+
+  const ideas: WatchlistMatchedIdea[] = page.ideas
+    .map(idea => ({ ...idea, matchedTickers: matchedTickers(idea, watched) }))
+    .filter(idea => idea.matchedTickers.length > 0)
+
+  return {
+    ideas,
+    matchedTickers: Array.from(new Set(ideas.flatMap(idea => idea.matchedTickers))).sort(),
+    since,
+    total: page.total
+  }
+}
+
+async function inChunks<T>(values: string[], fetch: (chunk: string[]) => Promise<T[]>): Promise<T[]> {
+  const rows: T[] = []
+  for (let i = 0; i < values.length; i += CHUNK_SIZE) {
+    rows.push(...(await fetch(values.slice(i, i + CHUNK_SIZE))))
+  }
+  return rows
+}
+
+export interface NotifyWatchlistMatchesResult {
+  ideasScanned: number
+  notifications: NotificationDraft[]
+  notificationsSent: number
+}
+
+// Notifies users with email_notifications enabled about recent ideas mentioning their
+// watched tickers. Skips users already notified about an idea, including through an
+// idea_mention alert, so it is safe to run repeatedly. Needs a service role client.
+export async function notifyWatchlistMatches(
+  supabase: SupabaseClient,
+  { sender, now = new Date(), dryRun = false }: { sender: NotificationSender; now?: Date; dryRun?: boolean }
+): Promise<NotifyWatchlistMatchesResult> {
+  const windowStart = now.getTime() - NOTIFY_LOOKBACK_HOURS * HOUR_MS
+  const ideas = (await loadIdeas(supabase, { since: new Date(windowStart).toISOString() })).filter(idea => {
+    const published = new Date(idea.created_at).getTime()
+    return published >= windowStart && published <= now.getTime()
+  })
+  const tickers = Array.from(new Set(ideas.flatMap(idea => idea.tickers.map(normalizeSymbol))))
+
+  if (tickers.length === 0) {
+    return { ideasScanned: ideas.length, notifications: [], notificationsSent: 0 }
+  }
+
+  // One row per user and ticker, so each chunk is paged as well
+  const items = await inChunks(tickers, chunk => fetchAllRows<{ user_id: string; ticker: string }>(
+    (from, to) => supabase
+      .from('watchlist_items')
+      .select('user_id, ticker')
+      .in('ticker', chunk)
+      .order('id', { ascending: true })
+      .range(from, to),
+    'fetching watched tickers'
+  ))
+
+  const watchedByUser = new Map<string, Set<string>>()
+  for (const item of items) {
+    if (!watchedByUser.has(item.user_id)) watchedByUser.set(item.user_id, new Set())
+    watchedByUser.get(item.user_id)!.add(item.ticker)
+  }
+
+  const profiles = await inChunks(Array.from(watchedByUser.keys()), async chunk => {
+    const { data, error } = await supabase.from('user_profiles').select('id, preferences').in('id', chunk)
+    if (error) throw new Error(`Database error fetching notification preferences: ${error.message}`)
+    return (data || []) as Pick<UserProfile, 'id' | 'preferences'>[]
+  })
+  const recipients = profiles.filter(profile => profile.preferences?.email_notifications).map(profile => profile.id)
+
+  const notified = new Set(
+    (await inChunks(recipients, chunk => fetchAllRows<{ user_id: string; idea_key: string }>(
+      (from, to) => supabase
+        .from('user_notifications')
+        .select('user_id, idea_key:metadata->>idea_key')
+        .in('user_id', chunk)
+        .in('metadata->>idea_key', ideas.map(idea => idea.key))
+        .order('id', { ascending: true })
+        .range(from, to),
+      'fetching sent notifications'
+    ))).map(row => `${row.user_id}|${row.idea_key}`)
+  )
+
+  const notifications: NotificationDraft[] = []
+  for (const userId of recipients) {
+    const watched = watchedByUser.get(userId)!
+    for (const idea of ideas) {
+      if (notified.has(`${userId}|${idea.key}`)) continue
+      const matched = matchedTickers(idea, watched)
+      if (matched.length === 0) continue
+
+      notifications.push({
+        user_id: userId,
+        kind: 'watchlist_match',
+        title: matched.length === 1
+          ? `${matched[0]} from your watchlist is in a new idea`
+          : `${matched.length} of your watched tickers are in a new idea`,
+        body: `${idea.theme} (${matched.join(', ')})`,
+        link: `/ideas/${idea.key}`,
+        metadata: { idea_key: idea.key, tickers: matched }
+      })
+    }
+  }
+
+  if (dryRun) {
+    return { ideasScanned: ideas.length, notifications, notificationsSent: 0 }
+  }
+
+  const sent = await deliverNotifications(supabase, sender, notifications)
+  return { ideasScanned: ideas.length, notifications, notificationsSent: sent.length }
+}
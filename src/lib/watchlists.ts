@@ -0,0 +1,313 @@
+import { SupabaseClient } from '@supabase/supabase-js'
+import { UserWatchlist, WatchlistItem } from '@/types/user'
+import { WatchlistTickerResult } from '@/types/api'
+import { CreateWatchlistRequest, UpdateWatchlistRequest } from '@/lib/api-helpers'
+import { findSymbol, isValidSymbol, normalizeSymbol } from '@/lib/symbols'
+
+export const WATCHLIST_ITEM_COLUMNS = 'ticker, position, notes, added_at'
+
+// Membership comes from watchlist_items; user_watchlists.tickers is only a trigger-maintained mirror
+export const WATCHLIST_COLUMNS =
+  'id, user_id, name, description, is_default, position, created_at, updated_at, watchlist_items(ticker, position, notes, added_at)'
+
+export const DEFAULT_WATCHLIST_NAME = 'Default Watchlist'
+
+// Postgres unique_violation, raised by the per-user name index
+const UNIQUE_VIOLATION = '23505'
+
+// Raised by the watchlist functions when the list is not the caller's
+const NO_DATA_FOUND = 'P0002'
+
+type WatchlistItemRow = Omit<WatchlistItem, 'name' | 'exchange'>
+
+type WatchlistRow = Omit<UserWatchlist, 'tickers' | 'items'> & { watchlist_items: WatchlistItemRow[] | null }
+
+function toWatchlistItem(row: WatchlistItemRow): WatchlistItem {
+  const symbol = findSymbol(row.ticker)
+  return { ...row, name: symbol?.name || null, exchange: symbol?.exchange || null }
+}
+
+function toWatchlist({ watchlist_items, ...row }: WatchlistRow): UserWatchlist {
+  const items = [...(watchlist_items || [])]
+    .sort((a, b) => a.position - b.position || a.added_at.localeCompare(b.added_at))
+    .map(toWatchlistItem)
+  return { ...row, items, tickers: items.map(item => item.ticker) }
+}
+
+export type WatchlistWriteResult =
+  | { type: 'ok'; watchlist: UserWatchlist }
+  | { type: 'not_found' }
+  | { type: 'name_taken' }
+
+// The user's lists in display order
+export async function listWatchlists(supabase: SupabaseClient, userId: string): Promise<UserWatchlist[]> {
+  const { data, error } = await supabase
+    .from('user_watchlists')
+    .select(WATCHLIST_COLUMNS)
+    .eq('user_id', userId)
+    .order('position', { ascending: true })
+    .order('created_at', { ascending: true })
+
+  if (error) {
+    throw new Error(`Database error fetching watchlists: ${error.message}`)
+  }
+
+  return ((data || []) as WatchlistRow[]).map(toWatchlist)
+}
+
+export async function findWatchlist(supabase: SupabaseClient, userId: string, id: string): Promise<UserWatchlist | null> {
+  const { data, error } = await supabase
+    .from('user_watchlists')
+    .select(WATCHLIST_COLUMNS)
+    .eq('user_id', userId)
+    .eq('id', id)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Database error fetching watchlist: ${error.message}`)
+  }
+
+  return data ? toWatchlist(data as WatchlistRow) : null
+}
+
+// Picks the list a single-ticker request targets: by id, by name (case-insensitive),
+// otherwise the user's default list
+export async function resolveWatchlist(
+  supabase: SupabaseClient,
+  userId: string,
+  { id, name }: { id?: string | null; name?: string | null }
+): Promise<UserWatchlist | null> {
+  if (id) return findWatchlist(supabase, userId, id)
+
+  const watchlists = await listWatchlists(supabase, userId)
+  if (name) {
+    return watchlists.find(watchlist => watchlist.name.toLowerCase() === name.trim().toLowerCase()) || null
+  }
+
+  return watchlists.find(watchlist => watchlist.is_default) || watchlists[0] || null
+}
+
+export async function setDefaultWatchlist(supabase: SupabaseClient, id: string): Promise<void> {
+  const { error } = await supabase.rpc('set_default_watchlist', { watchlist_id: id })
+
+  if (error) {
+    throw new Error(`Database error setting default watchlist: ${error.message}`)
+  }
+}
+
+// New lists go to the end; a user's first list is always their default
+export async function createWatchlist(
+  supabase: SupabaseClient,
+  userId: string,
+  request: CreateWatchlistRequest
+): Promise<WatchlistWriteResult> {
+  const existing = await listWatchlists(supabase, userId)
+  const name = request.name.trim()
+
+  if (existing.some(watchlist => watchlist.name.toLowerCase() === name.toLowerCase())) {
+    return { type: 'name_taken' }
+  }
+
+  const makeDefault = existing.length === 0 || request.is_default === true
+  const { data, error } = await supabase
+    .from('user_watchlists')
+    .insert([
+      {
+        user_id: userId,
+        name,
+        description: request.description?.trim() || undefined,
+        // Set afterwards through set_default_watchlist so the old default is cleared first
+        is_default: existing.length === 0,
+        position: existing.reduce((max, watchlist) => Math.max(max, watchlist.position + 1), 0)
+      }
+    ])
+    .select(WATCHLIST_COLUMNS)
+    .single()
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) return { type: 'name_taken' }
+    throw new Error(`Database error creating watchlist: ${error.message}`)
+  }
+
+  let watchlist = toWatchlist(data as WatchlistRow)
+  if (makeDefault && !watchlist.is_default) {
+    await setDefaultWatchlist(supabase, watchlist.id)
+    watchlist.is_default = true
+  }
+
+  if (request.tickers && request.tickers.length > 0) {
+    const updated = await updateWatchlistTickers(supabase, userId, watchlist.id, { add: request.tickers })
+    if (updated) watchlist = updated.watchlist
+  }
+
+  return { type: 'ok', watchlist }
+}
+
+export async function updateWatchlist(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  updates: UpdateWatchlistRequest
+): Promise<WatchlistWriteResult> {
+  const watchlist = await findWatchlist(supabase, userId, id)
+  if (!watchlist) return { type: 'not_found' }
+
+  if (updates.is_default && !watchlist.is_default) {
+    await setDefaultWatchlist(supabase, id)
+  }
+
+  const changes: { name?: string; description?: string | null } = {}
+  if (updates.name !== undefined && updates.name.trim() !== watchlist.name) changes.name = updates.name.trim()
+  if (updates.description !== undefined) changes.description = updates.description?.trim() || null
+
+  if (Object.keys(changes).length === 0) {
+    return { type: 'ok', watchlist: { ...watchlist, is_default: watchlist.is_default || !!updates.is_default } }
+  }
+
+  const { data, error } = await supabase
+    .from('user_watchlists')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select(WATCHLIST_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    if (error.code === UNIQUE_VIOLATION) return { type: 'name_taken' }
+    throw new Error(`Database error updating watchlist: ${error.message}`)
+  }
+
+  if (!data) return { type: 'not_found' }
+  return { type: 'ok', watchlist: toWatchlist(data as WatchlistRow) }
+}
+
+// Deleting the default list hands the default to the first remaining list
+export async function deleteWatchlist(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string
+): Promise<Pick<UserWatchlist, 'id' | 'name' | 'is_default'> | null> {
+  const { data, error } = await supabase
+    .from('user_watchlists')
+    .delete()
+    .eq('id', id)
+    .eq('user_id', userId)
+    .select('id, name, is_default')
+
+  if (error) {
+    throw new Error(`Database error deleting watchlist: ${error.message}`)
+  }
+
+  const deleted = (data || [])[0]
+  if (!deleted) return null
+
+  if (deleted.is_default) {
+    const [next] = await listWatchlists(supabase, userId)
+    if (next) await setDefaultWatchlist(supabase, next.id)
+  }
+
+  return deleted
+}
+
+// Returns null when an id does not belong to the user
+export async function reorderWatchlists(
+  supabase: SupabaseClient,
+  userId: string,
+  order: string[]
+): Promise<UserWatchlist[] | null> {
+  const owned = new Set((await listWatchlists(supabase, userId)).map(watchlist => watchlist.id))
+  if (order.some(id => !owned.has(id))) return null
+
+  const { error } = await supabase.rpc('reorder_watchlists', { watchlist_ids: order })
+
+  if (error) {
+    throw new Error(`Database error reordering watchlists: ${error.message}`)
+  }
+
+  return listWatchlists(supabase, userId)
+}
+
+// Applies removals, then additions, in one transaction (apply_watchlist_ticker_changes)
+// and reports what happened to each ticker. Safe to retry: adding a listed ticker or
+// removing an absent one only changes its status. Returns null when the list does not
+// belong to the user.
+export async function updateWatchlistTickers(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  { add = [], remove = [] }: { add?: string[]; remove?: string[] }
+): Promise<{ watchlist: UserWatchlist; results: WatchlistTickerResult[] } | null> {
+  const invalid: WatchlistTickerResult[] = []
+  const normalize = (tickers: string[], action: WatchlistTickerResult['action']) => {
+    const valid: string[] = []
+    for (const raw of tickers) {
+      const ticker = normalizeSymbol(raw)
+      if (isValidSymbol(ticker)) valid.push(ticker)
+      else invalid.push({ ticker: raw, action, status: 'invalid' })
+    }
+    return valid
+  }
+
+  const removeTickers = normalize(remove, 'remove')
+  const addTickers = normalize(add, 'add')
+
+  const { data, error } = await supabase.rpc('apply_watchlist_ticker_changes', {
+    target_watchlist_id: id,
+    add_tickers: addTickers,
+    remove_tickers: removeTickers
+  })
+
+  if (error) {
+    if (error.code === NO_DATA_FOUND) return null
+    throw new Error(`Database error updating watchlist tickers: ${error.message}`)
+  }
+
+  const watchlist = await findWatchlist(supabase, userId, id)
+  if (!watchlist) return null
+
+  return { watchlist, results: [...((data || []) as WatchlistTickerResult[]), ...invalid] }
+}
+
+// Returns null when the list does not belong to the user or does not hold the ticker
+export async function updateWatchlistItemNotes(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  ticker: string,
+  notes: string | null
+): Promise<WatchlistItem | null> {
+  const { data, error } = await supabase
+    .from('watchlist_items')
+    .update({ notes: notes?.trim() || null })
+    .eq('watchlist_id', id)
+    .eq('user_id', userId)
+    .eq('ticker', normalizeSymbol(ticker))
+    .select(WATCHLIST_ITEM_COLUMNS)
+    .maybeSingle()
+
+  if (error) {
+    throw new Error(`Database error updating watchlist item: ${error.message}`)
+  }
+
+  return data ? toWatchlistItem(data as WatchlistItemRow) : null
+}
+
+// Orders a list's tickers; returns null when the list does not belong to the user
+export async function reorderWatchlistTickers(
+  supabase: SupabaseClient,
+  userId: string,
+  id: string,
+  order: string[]
+): Promise<UserWatchlist | null> {
+  const { error } = await supabase.rpc('reorder_watchlist_items', {
+    target_watchlist_id: id,
+    tickers: order.map(normalizeSymbol)
+  })
+
+  if (error) {
+    if (error.code === NO_DATA_FOUND) return null
+    throw new Error(`Database error reordering watchlist tickers: ${error.message}`)
+  }
+
+  return findWatchlist(supabase, userId, id)
+}
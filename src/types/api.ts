@@ -14,6 +14,174 @@ export interface TradingIdea {
   tickers: string
 }
 
+// Structured trading idea (normalized trading_ideas table)
+export type IdeaDirection = 'long' | 'short' | 'neutral'
+export type IdeaTimeHorizon = 'intraday' | 'swing' | 'position' | 'long_term'
+export type IdeaConviction = 'low' | 'medium' | 'high'
+
+export interface StructuredTradingIdea {
+  // Stable identity: "gi-<row>-<position>" for ideas parsed from generated_ideas, "ti-<id>" otherwise
+  key: string
+  created_at: string
+  theme: string
+  analysis: string
+  tickers: string[]
+  direction: IdeaDirection
+  time_horizon: IdeaTimeHorizon | null
+  conviction: IdeaConviction | null
+  entry_price: number | null
+  target_price: number | null
+  stop_price: number | null
+  risk_notes: string | null
+  // 'legacy' ideas were parsed on the fly from a generated_ideas row not yet migrated
+  source: 'structured' | 'legacy'
+}
+
+// A saved interaction with the idea it points at; idea is null when the key no longer resolves
+export interface SavedIdea {
+  id: string
+  idea_key: string | null
+  notes: string | null
+  created_at: string
+  idea: StructuredTradingIdea | null
+}
+
+export type IdeaInteractionType = 'viewed' | 'liked' | 'saved' | 'traded'
+
+// Number of users with each interaction on an idea
+export type IdeaInteractionCounts = Record<IdeaInteractionType, number>
+
+// A user's interaction with the idea it points at, as listed by GET /api/ideas/interactions
+export interface IdeaInteractionEntry {
+  id: string
+  idea_key: string
+  interaction_type: IdeaInteractionType
+  notes: string | null
+  portfolio_transaction_id: string | null
+  created_at: string
+  idea: StructuredTradingIdea | null
+}
+
+// Everything the idea detail page shows; userState is null for signed-out visitors
+export interface IdeaDetail {
+  idea: StructuredTradingIdea
+  related: StructuredTradingIdea[]
+  counts: IdeaInteractionCounts
+  userState: {
+    saved: boolean
+    notes: string | null
+    liked: boolean
+    traded: boolean
+    portfolio_transaction_id: string | null
+  } | null
+  shareUrl: string
+}
+
+export type ActivityType =
+  | 'idea_saved'
+  | 'watchlist_added'
+  | 'watchlist_removed'
+  | 'chat_session'
+  | 'portfolio_transaction'
+  | 'portfolio_position'
+  | 'profile_updated'
+
+// One entry in the dashboard activity stream; link is an in-app path to the related page
+export interface ActivityItem {
+  id: string
+  type: ActivityType
+  title: string
+  description: string | null
+  link: string
+  created_at: string
+  metadata: Record<string, unknown>
+}
+
+export interface ActivityPage {
+  items: ActivityItem[]
+  nextCursor: string | null
+}
+
+// An idea with the tickers it shares with the user's watchlists
+export type WatchlistMatchedIdea = StructuredTradingIdea & { matchedTickers: string[] }
+
+export interface WatchlistMatches {
+  ideas: WatchlistMatchedIdea[]
+  // Distinct watched tickers mentioned by any matched idea
+  matchedTickers: string[]
+  // Ideas published since this time were checked
+  since: string
+  total: number
+}
+
+// A page or article a chat answer is based on
+export interface ChatSource {
+  title: string
+  url: string
+}
+
+// One research tool call made while answering
+export interface ToolTraceEntry {
+  id: string
+  name: string
+  arguments: Record<string, unknown>
+  result?: unknown
+  error?: string
+  durationMs: number
+}
+
+// An answer from POST /api/chat
+export interface ChatReplyMessage {
+  role: 'assistant'
+  content: string
+  // Pages the answer is based on, in citation order
+  sources: ChatSource[]
+  // 0 to 1 as reported by the agent; null when it did not say
+  confidence: number | null
+  toolCalls: ToolTraceEntry[]
+  timestamp: string
+}
+
+export type PerformanceHorizon = '1d' | '1w' | '1m'
+
+export interface HorizonPerformance {
+  horizon: PerformanceHorizon
+  // Day the horizon closes on (YYYY-MM-DD)
+  targetDate: string
+  // pending: the horizon has not elapsed; unavailable: elapsed but no prices were recorded
+  status: 'pending' | 'complete' | 'unavailable'
+  // Percent returns; the idea return is the equal-weighted average across its tickers,
+  // sign-flipped for short ideas
+  ideaReturn: number | null
+  benchmarkReturn: number | null
+  excessReturn: number | null
+  tickers: { ticker: string; return: number }[]
+}
+
+export interface IdeaPerformance {
+  ideaKey: string
+  benchmark: string
+  reference: { ticker: string; close: number; date: string }[]
+  horizons: HorizonPerformance[]
+}
+
+export interface ThemeLeaderboardEntry {
+  theme: string
+  ideas: number
+  // Average excess return (percent) over ideas whose horizon is complete
+  averageExcessReturn: number
+  averageReturn: number
+  // Share of ideas that beat the benchmark, 0-1
+  hitRate: number
+}
+
+// Outcome for one ticker in a bulk watchlist update or import
+export interface WatchlistTickerResult {
+  ticker: string
+  action: 'add' | 'remove'
+  status: 'added' | 'already_present' | 'removed' | 'not_present' | 'invalid'
+}
+
 // Subscriber Types
 export interface Subscriber {
   id: string
@@ -64,6 +64,7 @@ export interface Database {
             description?: string
             tickers: string[]
             is_default: boolean
+            position: number
             created_at: string
             updated_at: string
           }
@@ -73,15 +74,39 @@ export interface Database {
             description?: string
             tickers?: string[]
             is_default?: boolean
+            position?: number
           }
           Update: {
             name?: string
-            description?: string
+            description?: string | null
             tickers?: string[]
             is_default?: boolean
+            position?: number
             updated_at?: string
           }
         }
+        watchlist_items: {
+          Row: {
+            id: string
+            watchlist_id: string
+            user_id: string
+            ticker: string
+            position: number
+            notes: string | null
+            added_at: string
+          }
+          Insert: {
+            watchlist_id: string
+            user_id: string
+            ticker: string
+            position?: number
+            notes?: string | null
+          }
+          Update: {
+            position?: number
+            notes?: string | null
+          }
+        }
         user_portfolios: {
           Row: {
             id: string
@@ -111,24 +136,62 @@ export interface Database {
             updated_at?: string
           }
         }
+        portfolio_transactions: {
+          Row: {
+            id: string
+            user_id: string
+            ticker: string
+            side: 'buy' | 'sell'
+            shares: number
+            price: number
+            fees: number
+            executed_at: string
+            notes?: string
+            created_at: string
+          }
+          Insert: {
+            user_id: string
+            ticker: string
+            side: 'buy' | 'sell'
+            shares: number
+            price: number
+            fees?: number
+            executed_at?: string
+            notes?: string
+          }
+          Update: {
+            ticker?: string
+            side?: 'buy' | 'sell'
+            shares?: number
+            price?: number
+            fees?: number
+            executed_at?: string
+            notes?: string
+          }
+        }
         user_idea_interactions: {
           Row: {
             id: string
             user_id: string
-            idea_id: number
+            idea_id: number | null
+            idea_key: string | null
             interaction_type: 'viewed' | 'liked' | 'saved' | 'traded'
             notes?: string
+            portfolio_transaction_id: string | null
             created_at: string
           }
           Insert: {
             user_id: string
-            idea_id: number
+            idea_id?: number | null
+            idea_key: string
             interaction_type: 'viewed' | 'liked' | 'saved' | 'traded'
             notes?: string
+            portfolio_transaction_id?: string | null
           }
           Update: {
             interaction_type?: 'viewed' | 'liked' | 'saved' | 'traded'
             notes?: string
+            portfolio_transaction_id?: string | null
           }
         }
         generated_ideas: {
@@ -150,6 +213,235 @@ export interface Database {
             tickers?: string
           }
         }
+        trading_ideas: {
+          Row: {
+            id: number
+            created_at: string
+            theme: string
+            analysis: string
+            tickers: string[]
+            direction: 'long' | 'short' | 'neutral'
+            time_horizon: 'intraday' | 'swing' | 'position' | 'long_term' | null
+            conviction: 'low' | 'medium' | 'high' | null
+            entry_price: number | null
+            target_price: number | null
+            stop_price: number | null
+            risk_notes: string | null
+            source_idea_id: number | null
+            source_position: number | null
+          }
+          Insert: {
+            created_at?: string
+            theme: string
+            analysis: string
+            tickers?: string[]
+            direction?: 'long' | 'short' | 'neutral'
+            time_horizon?: 'intraday' | 'swing' | 'position' | 'long_term' | null
+            conviction?: 'low' | 'medium' | 'high' | null
+            entry_price?: number | null
+            target_price?: number | null
+            stop_price?: number | null
+            risk_notes?: string | null
+            source_idea_id?: number | null
+            source_position?: number | null
+          }
+          Update: {
+            theme?: string
+            analysis?: string
+            tickers?: string[]
+            direction?: 'long' | 'short' | 'neutral'
+            time_horizon?: 'intraday' | 'swing' | 'position' | 'long_term' | null
+            conviction?: 'low' | 'medium' | 'high' | null
+            entry_price?: number | null
+            target_price?: number | null
+            stop_price?: number | null
+            risk_notes?: string | null
+          }
+        }
+        user_activity: {
+          Row: {
+            id: string
+            user_id: string
+            activity_type: 'idea_saved' | 'watchlist_added' | 'watchlist_removed' | 'chat_session' | 'portfolio_transaction' | 'portfolio_position' | 'profile_updated'
+            metadata: Record<string, unknown>
+            created_at: string
+          }
+          Insert: {
+            user_id: string
+            activity_type: 'idea_saved' | 'watchlist_added' | 'watchlist_removed' | 'chat_session' | 'portfolio_transaction' | 'portfolio_position' | 'profile_updated'
+            metadata?: Record<string, unknown>
+            created_at?: string
+          }
+          Update: {
+            metadata?: Record<string, unknown>
+          }
+        }
+        idea_price_snapshots: {
+          Row: {
+            idea_key: string
+            ticker: string
+            horizon: 'reference' | '1d' | '1w' | '1m'
+            target_date: string
+            price_date: string
+            close: number
+            source: string
+            recorded_at: string
+          }
+          Insert: {
+            idea_key: string
+            ticker: string
+            horizon: 'reference' | '1d' | '1w' | '1m'
+            target_date: string
+            price_date: string
+            close: number
+            source: string
+          }
+          Update: {
+            price_date?: string
+            close?: number
+            source?: string
+          }
+        }
+        watchlist_alerts: {
+          Row: {
+            id: string
+            user_id: string
+            ticker: string
+            alert_type: 'price_above' | 'price_below' | 'percent_move' | 'idea_mention'
+            threshold: number | null
+            is_active: boolean
+            last_triggered_at: string | null
+            last_evaluated_at: string | null
+            created_at: string
+            updated_at: string
+          }
+          Insert: {
+            user_id: string
+            ticker: string
+            alert_type: 'price_above' | 'price_below' | 'percent_move' | 'idea_mention'
+            threshold?: number | null
+            is_active?: boolean
+            last_evaluated_at?: string | null
+          }
+          Update: {
+            threshold?: number | null
+            is_active?: boolean
+            last_triggered_at?: string | null
+            last_evaluated_at?: string | null
+            updated_at?: string
+          }
+        }
+        user_notifications: {
+          Row: {
+            id: string
+            user_id: string
+            alert_id: string | null
+            kind: 'price_alert' | 'idea_alert' | 'watchlist_match'
+            title: string
+            body: string
+            link: string | null
+            channels: ('in_app' | 'email' | 'push')[]
+            metadata: Record<string, unknown>
+            read_at: string | null
+            created_at: string
+          }
+          Insert: {
+            user_id: string
+            alert_id?: string | null
+            kind: 'price_alert' | 'idea_alert' | 'watchlist_match'
+            title: string
+            body: string
+            link?: string | null
+            channels?: ('in_app' | 'email' | 'push')[]
+            metadata?: Record<string, unknown>
+          }
+          Update: {
+            read_at?: string | null
+          }
+        }
+        chat_conversations: {
+          Row: {
+            id: string
+            user_id: string
+            title: string
+            idea_key: string | null
+            idea_context: Record<string, unknown> | null
+            model: string | null
+            message_count: number
+            last_message_at: string
+            created_at: string
+            updated_at: string
+          }
+          Insert: {
+            user_id: string
+            title: string
+            idea_key?: string | null
+            idea_context?: Record<string, unknown> | null
+            model?: string | null
+          }
+          Update: {
+            title?: string
+            updated_at?: string
+          }
+        }
+        chat_messages: {
+          Row: {
+            id: string
+            conversation_id: string
+            user_id: string
+            role: 'user' | 'assistant' | 'system'
+            content: string
+            model: string | null
+            metadata: Record<string, unknown>
+            created_at: string
+          }
+          Insert: {
+            conversation_id: string
+            user_id: string
+            role: 'user' | 'assistant' | 'system'
+            content: string
+            model?: string | null
+            metadata?: Record<string, unknown>
+          }
+          Update: {
+            metadata?: Record<string, unknown>
+          }
+        }
+        chat_usage_events: {
+          Row: {
+            id: string
+            user_id: string
+            conversation_id: string | null
+            provider: string
+            model: string | null
+            status: 'success' | 'error' | 'rejected' | 'cancelled'
+            error_code: string | null
+            streamed: boolean
+            latency_ms: number
+            prompt_tokens: number | null
+            completion_tokens: number | null
+            tool_calls: number
+            cost_usd: number | null
+            created_at: string
+          }
+          Insert: {
+            user_id: string
+            conversation_id?: string | null
+            provider: string
+            model?: string | null
+            status: 'success' | 'error' | 'rejected' | 'cancelled'
+            error_code?: string | null
+            streamed?: boolean
+            latency_ms: number
+            prompt_tokens?: number | null
+            completion_tokens?: number | null
+            tool_calls?: number
+            cost_usd?: number | null
+          }
+          Update: {
+            conversation_id?: string | null
+          }
+        }
         subscribers: {
           Row: {
             id: string
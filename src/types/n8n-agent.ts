@@ -1,8 +1,15 @@
+export interface N8NAgentMessage {
+  role: 'user' | 'assistant' | 'system'
+  content: string
+}
+
 export interface N8NAgentRequest {
+  // The question being asked
   message: string
   context: {
     idea?: {
-      id: number
+      // Idea key, e.g. "ti-42" or "gi-412-0"
+      key: string
       theme: string
       analysis: string
       tickers: string
@@ -13,11 +20,26 @@ export interface N8NAgentRequest {
       investmentGoals?: string
     }
   }
+  // Instructions for the agent, from CHAT_SYSTEM_PROMPT or the built-in default
+  systemPrompt: string
+  // Prior turns of the conversation, oldest first, not including `message`
+  history: N8NAgentMessage[]
+  // Digest of turns older than `history` that did not fit the token budget
+  historySummary: string | null
+  // Generation settings from the chat request
+  maxTokens: number
+  temperature: number
+  // Set when the client is waiting on a streamed reply; the agent may still answer in one piece
+  stream?: boolean
 }
 
 export interface N8NAgentResponse {
   response: string
-  confidence: number
-  sources?: string[]
+  // 0 to 1; percentages are accepted too
+  confidence?: number
+  // URLs, or { title, url } objects
+  sources?: (string | { title?: string; url: string })[]
+  // Token counts, when the workflow reports them
+  usage?: { prompt_tokens?: number; completion_tokens?: number }
   timestamp: string
 }
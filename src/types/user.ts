@@ -25,9 +25,23 @@ export interface UserProfile {
     description?: string
     tickers: string[]
     is_default: boolean
+    // Display order among the user's lists, starting at 0
+    position: number
+    // Membership rows in list order; tickers mirrors them
+    items: WatchlistItem[]
     created_at: string
     updated_at: string
   }
+
+  export interface WatchlistItem {
+    ticker: string
+    position: number
+    notes: string | null
+    added_at: string
+    // From the symbol directory; null for symbols it does not list
+    name: string | null
+    exchange: string | null
+  }
   
   export interface UserPortfolio {
     id: string
@@ -41,11 +55,86 @@ export interface UserProfile {
     updated_at: string
   }
   
+  export interface PortfolioTransaction {
+    id: string
+    user_id: string
+    ticker: string
+    side: 'buy' | 'sell'
+    shares: number
+    price: number
+    fees: number
+    executed_at: string
+    notes?: string
+    created_at: string
+  }
+  
+  export type IdeaInteractionType = 'viewed' | 'liked' | 'saved' | 'traded'
+
   export interface UserIdeaInteraction {
     id: string
     user_id: string
-    idea_id: number
-    interaction_type: 'viewed' | 'liked' | 'saved' | 'traded'
+    idea_id: number | null
+    idea_key: string | null
+    interaction_type: IdeaInteractionType
     notes?: string
+    portfolio_transaction_id: string | null
+    created_at: string
+  }
+
+  export type AlertType = 'price_above' | 'price_below' | 'percent_move' | 'idea_mention'
+
+  export interface WatchlistAlert {
+    id: string
+    user_id: string
+    ticker: string
+    alert_type: AlertType
+    // Price for price_above/price_below, absolute daily change in percent for percent_move
+    threshold: number | null
+    is_active: boolean
+    last_triggered_at: string | null
+    last_evaluated_at: string | null
     created_at: string
-  }
\ No newline at end of file
+    updated_at: string
+  }
+
+  export type NotificationChannel = 'in_app' | 'email' | 'push'
+
+  export interface UserNotification {
+    id: string
+    user_id: string
+    alert_id: string | null
+    kind: 'price_alert' | 'idea_alert' | 'watchlist_match'
+    title: string
+    body: string
+    link: string | null
+    channels: NotificationChannel[]
+    metadata: Record<string, unknown>
+    read_at: string | null
+    created_at: string
+  }
+
+  export type ChatRole = 'user' | 'assistant' | 'system'
+
+  export interface ChatConversation {
+    id: string
+    user_id: string
+    title: string
+    idea_key: string | null
+    // The idea the conversation was started from: { id, key, theme, analysis, tickers }
+    idea_context: Record<string, unknown> | null
+    model: string | null
+    message_count: number
+    last_message_at: string
+    created_at: string
+    updated_at: string
+  }
+
+  export interface StoredChatMessage {
+    id: string
+    conversation_id: string
+    role: ChatRole
+    content: string
+    model: string | null
+    metadata: Record<string, unknown>
+    created_at: string
+  }
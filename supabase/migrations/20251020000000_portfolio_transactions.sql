@@ -0,0 +1,24 @@
+-- Buy/sell ledger used to derive cost basis and realized/unrealized P&L
+create table if not exists public.portfolio_transactions (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  ticker text not null,
+  side text not null check (side in ('buy', 'sell')),
+  shares numeric(20, 6) not null check (shares > 0),
+  price numeric(20, 6) not null check (price >= 0),
+  fees numeric(20, 6) not null default 0 check (fees >= 0),
+  executed_at timestamptz not null default now(),
+  notes text,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists portfolio_transactions_user_ticker_idx
+  on public.portfolio_transactions (user_id, ticker, executed_at);
+
+alter table public.portfolio_transactions enable row level security;
+
+create policy "Users manage their own transactions"
+  on public.portfolio_transactions
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
@@ -0,0 +1,31 @@
+-- Normalized trading ideas. Replaces the free-text generated_ideas.analysis/tickers
+-- blobs; legacy rows are converted by POST /api/ideas/migrate.
+create table if not exists public.trading_ideas (
+  id bigint generated by default as identity primary key,
+  created_at timestamptz not null default now(),
+  theme text not null,
+  analysis text not null,
+  tickers text[] not null default '{}',
+  direction text not null default 'neutral' check (direction in ('long', 'short', 'neutral')),
+  time_horizon text check (time_horizon in ('intraday', 'swing', 'position', 'long_term')),
+  conviction text check (conviction in ('low', 'medium', 'high')),
+  entry_price numeric(20, 4),
+  target_price numeric(20, 4),
+  stop_price numeric(20, 4),
+  risk_notes text,
+  -- Origin of ideas converted from generated_ideas; null for ideas written natively
+  source_idea_id bigint references public.generated_ideas (id) on delete set null,
+  source_position integer,
+  unique (source_idea_id, source_position)
+);
+
+create index if not exists trading_ideas_created_at_idx on public.trading_ideas (created_at desc);
+create index if not exists trading_ideas_tickers_idx on public.trading_ideas using gin (tickers);
+
+alter table public.trading_ideas enable row level security;
+
+-- Ideas are public content like generated_ideas; writes go through the service role
+create policy "Trading ideas are readable by everyone"
+  on public.trading_ideas
+  for select
+  using (true);
@@ -0,0 +1,17 @@
+-- Interactions point at individual ideas by their stable key ("gi-<row>-<position>"
+-- for ideas parsed from generated_ideas, "ti-<id>" for native trading_ideas).
+-- idea_id used to hold the synthetic "row id + position" number, which collides
+-- across split rows; it now holds the generated_ideas row id (null for native ideas).
+-- Existing rows are backfilled by POST /api/ideas/migrate.
+alter table public.user_idea_interactions
+  add column if not exists idea_key text;
+
+alter table public.user_idea_interactions
+  alter column idea_id drop not null;
+
+create unique index if not exists user_idea_interactions_user_key_type_idx
+  on public.user_idea_interactions (user_id, idea_key, interaction_type)
+  where idea_key is not null;
+
+create index if not exists user_idea_interactions_idea_key_idx
+  on public.user_idea_interactions (idea_key);
@@ -0,0 +1,7 @@
+-- Full-text search over idea themes and analysis for GET /api/ideas/all?q=...
+alter table public.trading_ideas
+  add column if not exists search tsvector
+  generated always as (to_tsvector('english', coalesce(theme, '') || ' ' || coalesce(analysis, ''))) stored;
+
+create index if not exists trading_ideas_search_idx on public.trading_ideas using gin (search);
+
@@ -0,0 +1,21 @@
+-- 'traded' interactions can point at the ledger entry that executed the idea
+alter table public.user_idea_interactions
+  add column if not exists portfolio_transaction_id uuid
+  references public.portfolio_transactions (id) on delete set null;
+
+-- Aggregate counts per idea across all users. Interactions are private under RLS,
+-- so this runs as the table owner and only ever returns counts.
+create or replace function public.idea_interaction_counts(idea_keys text[])
+returns table (idea_key text, interaction_type text, total bigint)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select i.idea_key, i.interaction_type, count(*)::bigint
+  from public.user_idea_interactions i
+  where i.idea_key = any(idea_keys)
+  group by i.idea_key, i.interaction_type
+$$;
+
+grant execute on function public.idea_interaction_counts(text[]) to anon, authenticated;
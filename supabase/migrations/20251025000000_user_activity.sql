@@ -0,0 +1,192 @@
+-- Per-user activity stream shown in the dashboard Activity panel. Rows are written by
+-- triggers on the tables users change, so every write path (API routes, the migrate
+-- endpoint, the Supabase dashboard) is captured. Chat sessions have no table yet and
+-- are recorded by POST /api/chat.
+create table if not exists public.user_activity (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  activity_type text not null check (activity_type in (
+    'idea_saved',
+    'watchlist_added',
+    'watchlist_removed',
+    'chat_session',
+    'portfolio_transaction',
+    'portfolio_position',
+    'profile_updated'
+  )),
+  metadata jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists user_activity_user_created_idx
+  on public.user_activity (user_id, created_at desc, id desc);
+
+alter table public.user_activity enable row level security;
+
+create policy "Users read their own activity"
+  on public.user_activity
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Users record their own activity"
+  on public.user_activity
+  for insert
+  with check (auth.uid() = user_id);
+
+-- Saved ideas
+create or replace function public.record_idea_saved_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.interaction_type = 'saved' and new.idea_key is not null then
+    insert into public.user_activity (user_id, activity_type, metadata)
+    values (new.user_id, 'idea_saved', jsonb_build_object('idea_key', new.idea_key));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists user_idea_interactions_activity on public.user_idea_interactions;
+create trigger user_idea_interactions_activity
+  after insert on public.user_idea_interactions
+  for each row execute function public.record_idea_saved_activity();
+
+-- Watchlist adds and removes, one row per ticker
+create or replace function public.record_watchlist_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  previous text[] := case when tg_op = 'UPDATE' then old.tickers else '{}'::text[] end;
+  ticker text;
+begin
+  foreach ticker in array coalesce(new.tickers, '{}'::text[]) loop
+    if not ticker = any(previous) then
+      insert into public.user_activity (user_id, activity_type, metadata)
+      values (new.user_id, 'watchlist_added', jsonb_build_object(
+        'ticker', ticker, 'watchlist_id', new.id, 'watchlist_name', new.name
+      ));
+    end if;
+  end loop;
+
+  foreach ticker in array previous loop
+    if not ticker = any(coalesce(new.tickers, '{}'::text[])) then
+      insert into public.user_activity (user_id, activity_type, metadata)
+      values (new.user_id, 'watchlist_removed', jsonb_build_object(
+        'ticker', ticker, 'watchlist_id', new.id, 'watchlist_name', new.name
+      ));
+    end if;
+  end loop;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists user_watchlists_activity on public.user_watchlists;
+create trigger user_watchlists_activity
+  after insert or update of tickers on public.user_watchlists
+  for each row execute function public.record_watchlist_activity();
+
+-- Ledger entries
+create or replace function public.record_portfolio_transaction_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  insert into public.user_activity (user_id, activity_type, metadata, created_at)
+  values (new.user_id, 'portfolio_transaction', jsonb_build_object(
+    'transaction_id', new.id,
+    'ticker', new.ticker,
+    'side', new.side,
+    'shares', new.shares,
+    'price', new.price
+  ), new.created_at);
+  return new;
+end;
+$$;
+
+drop trigger if exists portfolio_transactions_activity on public.portfolio_transactions;
+create trigger portfolio_transactions_activity
+  after insert on public.portfolio_transactions
+  for each row execute function public.record_portfolio_transaction_activity();
+
+-- Manually managed positions
+create or replace function public.record_portfolio_position_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  position_row public.user_portfolios := case when tg_op = 'DELETE' then old else new end;
+begin
+  insert into public.user_activity (user_id, activity_type, metadata)
+  values (position_row.user_id, 'portfolio_position', jsonb_build_object(
+    'position_id', position_row.id,
+    'ticker', position_row.ticker,
+    'shares', position_row.shares,
+    'action', case tg_op when 'INSERT' then 'added' when 'UPDATE' then 'updated' else 'removed' end
+  ));
+  return position_row;
+end;
+$$;
+
+drop trigger if exists user_portfolios_activity on public.user_portfolios;
+create trigger user_portfolios_activity
+  after insert or update or delete on public.user_portfolios
+  for each row execute function public.record_portfolio_position_activity();
+
+-- Profile edits; subscription and bookkeeping columns are not user activity
+create or replace function public.record_profile_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  changed text[] := '{}'::text[];
+begin
+  if new.first_name is distinct from old.first_name then changed := changed || 'first_name'; end if;
+  if new.last_name is distinct from old.last_name then changed := changed || 'last_name'; end if;
+  if new.display_name is distinct from old.display_name then changed := changed || 'display_name'; end if;
+  if new.avatar_url is distinct from old.avatar_url then changed := changed || 'avatar_url'; end if;
+  if new.is_newsletter_subscribed is distinct from old.is_newsletter_subscribed then
+    changed := changed || 'is_newsletter_subscribed';
+  end if;
+  if new.preferences is distinct from old.preferences then changed := changed || 'preferences'; end if;
+
+  if array_length(changed, 1) > 0 then
+    insert into public.user_activity (user_id, activity_type, metadata)
+    values (new.id, 'profile_updated', jsonb_build_object('fields', to_jsonb(changed)));
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists user_profiles_activity on public.user_profiles;
+create trigger user_profiles_activity
+  after update on public.user_profiles
+  for each row execute function public.record_profile_activity();
+
+-- Seed the stream with history that already exists
+insert into public.user_activity (user_id, activity_type, metadata, created_at)
+select i.user_id, 'idea_saved', jsonb_build_object('idea_key', i.idea_key), i.created_at
+from public.user_idea_interactions i
+where i.interaction_type = 'saved' and i.idea_key is not null;
+
+insert into public.user_activity (user_id, activity_type, metadata, created_at)
+select t.user_id, 'portfolio_transaction', jsonb_build_object(
+  'transaction_id', t.id,
+  'ticker', t.ticker,
+  'side', t.side,
+  'shares', t.shares,
+  'price', t.price
+), t.created_at
+from public.portfolio_transactions t;
@@ -0,0 +1,26 @@
+-- Closing prices captured for each idea ticker (and the benchmark) at publication and
+-- at each performance horizon. Written by POST /api/ideas/performance/record, which a
+-- scheduled job calls daily; returns are computed from these rows on read.
+create table if not exists public.idea_price_snapshots (
+  idea_key text not null,
+  ticker text not null,
+  horizon text not null check (horizon in ('reference', '1d', '1w', '1m')),
+  -- Day the snapshot was taken for, and the trading day the close actually belongs to
+  target_date date not null,
+  price_date date not null,
+  close numeric(20, 6) not null check (close > 0),
+  source text not null,
+  recorded_at timestamptz not null default now(),
+  primary key (idea_key, ticker, horizon)
+);
+
+create index if not exists idea_price_snapshots_recorded_idx
+  on public.idea_price_snapshots (recorded_at desc);
+
+alter table public.idea_price_snapshots enable row level security;
+
+-- Performance is public like the ideas themselves; writes go through the service role
+create policy "Idea price snapshots are readable by everyone"
+  on public.idea_price_snapshots
+  for select
+  using (true);
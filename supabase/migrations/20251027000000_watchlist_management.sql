@@ -0,0 +1,98 @@
+-- Named watchlists managed through /api/watchlists: user-defined order, names unique
+-- per user (case-insensitive) and exactly one default list per user.
+alter table public.user_watchlists
+  add column if not exists position integer not null default 0;
+
+-- Lists that collided on name before uniqueness was enforced get a numeric suffix
+with duplicates as (
+  select id, row_number() over (partition by user_id, lower(btrim(name)) order by created_at, id) as rn
+  from public.user_watchlists
+)
+update public.user_watchlists w
+set name = btrim(w.name) || ' (' || d.rn || ')'
+from duplicates d
+where w.id = d.id and d.rn > 1;
+
+create unique index if not exists user_watchlists_user_name_idx
+  on public.user_watchlists (user_id, lower(name));
+
+-- Keep the oldest default per user, then promote the oldest list for users without one
+with ranked as (
+  select id, row_number() over (partition by user_id order by created_at, id) as rn
+  from public.user_watchlists
+  where is_default
+)
+update public.user_watchlists w
+set is_default = false
+from ranked r
+where w.id = r.id and r.rn > 1;
+
+update public.user_watchlists w
+set is_default = true
+where w.id in (
+  select distinct on (user_id) id
+  from public.user_watchlists
+  where user_id not in (select user_id from public.user_watchlists where is_default)
+  order by user_id, created_at, id
+);
+
+create unique index if not exists user_watchlists_one_default_idx
+  on public.user_watchlists (user_id)
+  where is_default;
+
+with ordered as (
+  select id, row_number() over (partition by user_id order by is_default desc, created_at, id) - 1 as pos
+  from public.user_watchlists
+)
+update public.user_watchlists w
+set position = o.pos
+from ordered o
+where w.id = o.id;
+
+-- Moves the default flag in one transaction; the partial unique index rejects two
+-- defaults even momentarily, so the old one is cleared first
+create or replace function public.set_default_watchlist(watchlist_id uuid)
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  if not exists (select 1 from public.user_watchlists where id = watchlist_id and user_id = auth.uid()) then
+    raise exception 'Watchlist not found' using errcode = 'P0002';
+  end if;
+
+  update public.user_watchlists
+  set is_default = false, updated_at = now()
+  where user_id = auth.uid() and is_default and id <> watchlist_id;
+
+  update public.user_watchlists
+  set is_default = true, updated_at = now()
+  where id = watchlist_id and not is_default;
+end;
+$$;
+
+-- Assigns positions from the order of the ids given; lists left out keep their
+-- relative order after the ones listed
+create or replace function public.reorder_watchlists(watchlist_ids uuid[])
+returns void
+language sql
+security invoker
+set search_path = public
+as $$
+  with ordered as (
+    select w.id,
+      row_number() over (
+        order by array_position(watchlist_ids, w.id) nulls last, w.position, w.created_at
+      ) - 1 as pos
+    from public.user_watchlists w
+    where w.user_id = auth.uid()
+  )
+  update public.user_watchlists w
+  set position = o.pos
+  from ordered o
+  where w.id = o.id and w.position <> o.pos
+$$;
+
+grant execute on function public.set_default_watchlist(uuid) to authenticated;
+grant execute on function public.reorder_watchlists(uuid[]) to authenticated;
@@ -0,0 +1,194 @@
+-- Watchlist membership as rows. Tickers used to live in user_watchlists.tickers and
+-- were rewritten wholesale by the API, so concurrent adds from two tabs lost updates.
+-- Membership is now changed through apply_watchlist_ticker_changes, which locks the
+-- list and inserts/deletes rows in one transaction. user_watchlists.tickers is kept
+-- in sync by trigger for existing readers; nothing should write it directly.
+create table if not exists public.watchlist_items (
+  id uuid primary key default gen_random_uuid(),
+  watchlist_id uuid not null references public.user_watchlists (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  ticker text not null,
+  position integer not null default 0,
+  notes text,
+  added_at timestamptz not null default now(),
+  constraint watchlist_items_watchlist_ticker_key unique (watchlist_id, ticker)
+);
+
+create index if not exists watchlist_items_watchlist_position_idx
+  on public.watchlist_items (watchlist_id, position);
+
+alter table public.watchlist_items enable row level security;
+
+create policy "Users manage their own watchlist items"
+  on public.watchlist_items
+  for all
+  using (auth.uid() = user_id)
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.user_watchlists w where w.id = watchlist_id and w.user_id = auth.uid())
+  );
+
+-- The array trigger from user_activity would fire on every sync below
+drop trigger if exists user_watchlists_activity on public.user_watchlists;
+drop function if exists public.record_watchlist_activity();
+
+insert into public.watchlist_items (watchlist_id, user_id, ticker, position, added_at)
+select w.id, w.user_id, upper(btrim(t.ticker)), (t.ordinality - 1)::integer, w.created_at
+from public.user_watchlists w
+cross join lateral unnest(w.tickers) with ordinality as t (ticker, ordinality)
+where btrim(t.ticker) <> ''
+on conflict on constraint watchlist_items_watchlist_ticker_key do nothing;
+
+create or replace function public.sync_watchlist_tickers()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  target uuid := coalesce(new.watchlist_id, old.watchlist_id);
+begin
+  update public.user_watchlists w
+  set tickers = coalesce(
+    (select array_agg(i.ticker order by i.position, i.added_at) from public.watchlist_items i where i.watchlist_id = target),
+    '{}'::text[]
+  ),
+  updated_at = now()
+  where w.id = target;
+  return null;
+end;
+$$;
+
+drop trigger if exists watchlist_items_sync_tickers on public.watchlist_items;
+create trigger watchlist_items_sync_tickers
+  after insert or delete or update of position on public.watchlist_items
+  for each row execute function public.sync_watchlist_tickers();
+
+-- Normalize arrays that held duplicates or lower-case symbols
+update public.user_watchlists w
+set tickers = coalesce(
+  (select array_agg(i.ticker order by i.position) from public.watchlist_items i where i.watchlist_id = w.id),
+  '{}'::text[]
+);
+
+-- Activity now comes from membership rows; removals caused by deleting the whole
+-- list are not recorded one ticker at a time
+create or replace function public.record_watchlist_item_activity()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  item public.watchlist_items := case when tg_op = 'DELETE' then old else new end;
+  list_name text;
+begin
+  select w.name into list_name from public.user_watchlists w where w.id = item.watchlist_id;
+  if list_name is null then
+    return null;
+  end if;
+
+  insert into public.user_activity (user_id, activity_type, metadata)
+  values (
+    item.user_id,
+    case when tg_op = 'DELETE' then 'watchlist_removed' else 'watchlist_added' end,
+    jsonb_build_object('ticker', item.ticker, 'watchlist_id', item.watchlist_id, 'watchlist_name', list_name)
+  );
+  return null;
+end;
+$$;
+
+drop trigger if exists watchlist_items_activity on public.watchlist_items;
+create trigger watchlist_items_activity
+  after insert or delete on public.watchlist_items
+  for each row execute function public.record_watchlist_item_activity();
+
+-- Removes, then adds, tickers on one list and reports the outcome per ticker.
+-- Idempotent: adding a listed ticker or removing an absent one is not an error.
+create or replace function public.apply_watchlist_ticker_changes(
+  target_watchlist_id uuid,
+  add_tickers text[] default '{}',
+  remove_tickers text[] default '{}'
+)
+returns table (ticker text, action text, status text)
+language plpgsql
+security invoker
+set search_path = public
+as $$
+#variable_conflict use_column
+declare
+  next_position integer;
+  symbol text;
+begin
+  -- Serializes concurrent changes to the same list so positions stay in order
+  perform 1 from public.user_watchlists w
+  where w.id = target_watchlist_id and w.user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Watchlist not found' using errcode = 'P0002';
+  end if;
+
+  foreach symbol in array coalesce(remove_tickers, '{}'::text[]) loop
+    delete from public.watchlist_items i
+    where i.watchlist_id = target_watchlist_id and i.ticker = symbol;
+
+    ticker := symbol;
+    action := 'remove';
+    status := case when found then 'removed' else 'not_present' end;
+    return next;
+  end loop;
+
+  select coalesce(max(i.position) + 1, 0) into next_position
+  from public.watchlist_items i
+  where i.watchlist_id = target_watchlist_id;
+
+  foreach symbol in array coalesce(add_tickers, '{}'::text[]) loop
+    insert into public.watchlist_items (watchlist_id, user_id, ticker, position)
+    values (target_watchlist_id, auth.uid(), symbol, next_position)
+    on conflict on constraint watchlist_items_watchlist_ticker_key do nothing;
+
+    ticker := symbol;
+    action := 'add';
+    if found then
+      status := 'added';
+      next_position := next_position + 1;
+    else
+      status := 'already_present';
+    end if;
+    return next;
+  end loop;
+end;
+$$;
+
+-- Orders tickers by the array given; unlisted tickers follow in their current order
+create or replace function public.reorder_watchlist_items(target_watchlist_id uuid, tickers text[])
+returns void
+language plpgsql
+security invoker
+set search_path = public
+as $$
+begin
+  perform 1 from public.user_watchlists w
+  where w.id = target_watchlist_id and w.user_id = auth.uid()
+  for update;
+
+  if not found then
+    raise exception 'Watchlist not found' using errcode = 'P0002';
+  end if;
+
+  with ordered as (
+    select i.id,
+      row_number() over (order by array_position(tickers, i.ticker) nulls last, i.position, i.added_at) - 1 as pos
+    from public.watchlist_items i
+    where i.watchlist_id = target_watchlist_id
+  )
+  update public.watchlist_items i
+  set position = o.pos
+  from ordered o
+  where i.id = o.id and i.position <> o.pos;
+end;
+$$;
+
+grant execute on function public.apply_watchlist_ticker_changes(uuid, text[], text[]) to authenticated;
+grant execute on function public.reorder_watchlist_items(uuid, text[]) to authenticated;
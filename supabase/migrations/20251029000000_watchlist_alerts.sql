@@ -0,0 +1,69 @@
+-- User-defined ticker alerts and the notifications they produce. Alerts are evaluated by
+-- POST /api/alerts/evaluate (scheduled, service role); each trigger writes one
+-- user_notifications row listing the channels it was delivered on, chosen from the
+-- user's notification preferences.
+create table if not exists public.watchlist_alerts (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  ticker text not null,
+  alert_type text not null check (alert_type in ('price_above', 'price_below', 'percent_move', 'idea_mention')),
+  -- Price for price_above/price_below, absolute daily change in percent for percent_move
+  threshold numeric,
+  is_active boolean not null default true,
+  last_triggered_at timestamptz,
+  -- idea_mention alerts only look at ideas published after this point
+  last_evaluated_at timestamptz,
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now(),
+  constraint watchlist_alerts_threshold_check check (
+    (alert_type = 'idea_mention' and threshold is null)
+    or (alert_type <> 'idea_mention' and threshold is not null and threshold > 0)
+  )
+);
+
+create index if not exists watchlist_alerts_user_idx
+  on public.watchlist_alerts (user_id, created_at);
+
+create index if not exists watchlist_alerts_active_idx
+  on public.watchlist_alerts (alert_type)
+  where is_active;
+
+alter table public.watchlist_alerts enable row level security;
+
+create policy "Users manage their own alerts"
+  on public.watchlist_alerts
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create table if not exists public.user_notifications (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  alert_id uuid references public.watchlist_alerts (id) on delete set null,
+  kind text not null check (kind in ('price_alert', 'idea_alert')),
+  title text not null,
+  body text not null,
+  link text,
+  -- Always includes in_app; email and push follow the user's preferences
+  channels text[] not null default '{in_app}',
+  metadata jsonb not null default '{}'::jsonb,
+  read_at timestamptz,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists user_notifications_user_created_idx
+  on public.user_notifications (user_id, created_at desc);
+
+alter table public.user_notifications enable row level security;
+
+-- Written by the evaluation job with the service role; users only read and mark read
+create policy "Users read their own notifications"
+  on public.user_notifications
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Users mark their own notifications read"
+  on public.user_notifications
+  for update
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
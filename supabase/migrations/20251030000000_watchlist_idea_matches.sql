@@ -0,0 +1,16 @@
+-- Notifications for new ideas that mention tickers on a user's watchlists. Sent by the
+-- alert evaluation job to users with email_notifications enabled; matching looks up
+-- watchlist_items by ticker, and earlier notifications by idea key to avoid repeats.
+alter table public.user_notifications
+  drop constraint if exists user_notifications_kind_check;
+
+alter table public.user_notifications
+  add constraint user_notifications_kind_check
+  check (kind in ('price_alert', 'idea_alert', 'watchlist_match'));
+
+create index if not exists watchlist_items_ticker_idx
+  on public.watchlist_items (ticker);
+
+create index if not exists user_notifications_idea_key_idx
+  on public.user_notifications ((metadata ->> 'idea_key'))
+  where metadata ? 'idea_key';
@@ -0,0 +1,80 @@
+-- Chat history stored per user so research threads survive reloads and follow the user
+-- across devices. The chat route creates a conversation on the first message and
+-- appends every user and assistant message to it.
+create table if not exists public.chat_conversations (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  title text not null check (char_length(btrim(title)) between 1 and 120),
+  -- The trading idea the conversation was started from, as sent by the client
+  idea_key text,
+  idea_context jsonb,
+  -- Model that answered most recently
+  model text,
+  message_count integer not null default 0,
+  last_message_at timestamptz not null default now(),
+  created_at timestamptz not null default now(),
+  updated_at timestamptz not null default now()
+);
+
+create index if not exists chat_conversations_user_recent_idx
+  on public.chat_conversations (user_id, last_message_at desc, id desc);
+
+alter table public.chat_conversations enable row level security;
+
+create policy "Users manage their own conversations"
+  on public.chat_conversations
+  for all
+  using (auth.uid() = user_id)
+  with check (auth.uid() = user_id);
+
+create table if not exists public.chat_messages (
+  id uuid primary key default gen_random_uuid(),
+  conversation_id uuid not null references public.chat_conversations (id) on delete cascade,
+  user_id uuid not null references auth.users (id) on delete cascade,
+  role text not null check (role in ('user', 'assistant', 'system')),
+  content text not null,
+  -- Set on assistant messages
+  model text,
+  metadata jsonb not null default '{}'::jsonb,
+  created_at timestamptz not null default now()
+);
+
+create index if not exists chat_messages_conversation_created_idx
+  on public.chat_messages (conversation_id, created_at, id);
+
+alter table public.chat_messages enable row level security;
+
+create policy "Users read their own chat messages"
+  on public.chat_messages
+  for select
+  using (auth.uid() = user_id);
+
+create policy "Users add messages to their own conversations"
+  on public.chat_messages
+  for insert
+  with check (
+    auth.uid() = user_id
+    and exists (select 1 from public.chat_conversations c where c.id = conversation_id and c.user_id = auth.uid())
+  );
+
+-- Keeps the sidebar ordering and counts current without a second write from the API
+create or replace function public.touch_chat_conversation()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  update public.chat_conversations c
+  set message_count = c.message_count + 1,
+      last_message_at = greatest(c.last_message_at, new.created_at),
+      model = coalesce(new.model, c.model)
+  where c.id = new.conversation_id;
+  return null;
+end;
+$$;
+
+drop trigger if exists chat_messages_touch_conversation on public.chat_messages;
+create trigger chat_messages_touch_conversation
+  after insert on public.chat_messages
+  for each row execute function public.touch_chat_conversation();
@@ -0,0 +1,70 @@
+-- Request counters shared by every server instance, so chat rate limits and quotas
+-- survive deploys and apply across serverless functions. Each row counts one window
+-- (a minute, a UTC day or a UTC month) for one user; keys start with the user id.
+create table if not exists public.rate_limit_counters (
+  key text primary key,
+  count integer not null default 0,
+  expires_at timestamptz not null
+);
+
+create index if not exists rate_limit_counters_expires_idx
+  on public.rate_limit_counters (expires_at);
+
+-- No policies: counters are only reachable through consume_rate_limit
+alter table public.rate_limit_counters enable row level security;
+
+-- Counts one request against every given window, but only when all of them are below
+-- their limits, so a rejected request does not use up the longer quotas. Returns the
+-- counts after the attempt in the order given.
+create or replace function public.consume_rate_limit(
+  counter_keys text[],
+  counter_limits integer[],
+  counter_expires_at timestamptz[]
+)
+returns table (counter_key text, hits integer, allowed boolean)
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  consumed boolean;
+begin
+  if coalesce(auth.role(), '') <> 'service_role' then
+    if auth.uid() is null then
+      raise exception 'Not authenticated' using errcode = '42501';
+    end if;
+    if exists (select 1 from unnest(counter_keys) k where k not like auth.uid()::text || ':%') then
+      raise exception 'Rate limit keys must belong to the current user' using errcode = '42501';
+    end if;
+  end if;
+
+  insert into public.rate_limit_counters (key, count, expires_at)
+  select k, 0, e from unnest(counter_keys, counter_expires_at) as t (k, e)
+  on conflict (key) do nothing;
+
+  -- Locked in key order so concurrent requests for the same user count one at a time
+  perform 1 from public.rate_limit_counters c where c.key = any (counter_keys) order by c.key for update;
+
+  select coalesce(bool_and(c.count < t.l), true) into consumed
+  from unnest(counter_keys, counter_limits) as t (k, l)
+  join public.rate_limit_counters c on c.key = t.k;
+
+  if consumed then
+    update public.rate_limit_counters c set count = c.count + 1 where c.key = any (counter_keys);
+  end if;
+
+  -- Finished windows are cleared out now and then rather than by a scheduled job
+  if random() < 0.01 then
+    delete from public.rate_limit_counters c where c.expires_at < now();
+  end if;
+
+  return query
+    select t.k, c.count, consumed
+    from unnest(counter_keys) with ordinality as t (k, i)
+    join public.rate_limit_counters c on c.key = t.k
+    order by t.i;
+end;
+$$;
+
+revoke execute on function public.consume_rate_limit(text[], integer[], timestamptz[]) from public;
+grant execute on function public.consume_rate_limit(text[], integer[], timestamptz[]) to authenticated, service_role;
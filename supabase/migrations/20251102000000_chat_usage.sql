@@ -0,0 +1,136 @@
+-- One row per chat request: who asked, which provider answered, how long it took,
+-- the tokens it used when the provider reports them, and how it ended. Users read
+-- their own usage; only the service role writes it (the chat route) or reads
+-- everyone's (the admin usage route).
+create table if not exists public.chat_usage_events (
+  id uuid primary key default gen_random_uuid(),
+  user_id uuid not null references auth.users (id) on delete cascade,
+  conversation_id uuid references public.chat_conversations (id) on delete set null,
+  provider text not null,
+  model text,
+  -- success: answered; error: the agent timed out, was unavailable, stopped mid-answer
+  -- or answered with nothing; rejected: over a rate limit or quota; cancelled: the
+  -- client went away
+  status text not null check (status in ('success', 'error', 'rejected', 'cancelled')),
+  error_code text,
+  streamed boolean not null default false,
+  latency_ms integer not null check (latency_ms >= 0),
+  prompt_tokens integer check (prompt_tokens >= 0),
+  completion_tokens integer check (completion_tokens >= 0),
+  tool_calls integer not null default 0,
+  cost_usd numeric(12, 6),
+  created_at timestamptz not null default now()
+);
+
+create index if not exists chat_usage_events_user_created_idx
+  on public.chat_usage_events (user_id, created_at desc);
+
+create index if not exists chat_usage_events_created_idx
+  on public.chat_usage_events (created_at);
+
+alter table public.chat_usage_events enable row level security;
+
+create policy "Users read their own chat usage"
+  on public.chat_usage_events
+  for select
+  using (auth.uid() = user_id);
+
+-- Usage per UTC day, provider, model and status. Runs as the caller, so users only
+-- see their own rows; with the service role it covers everyone.
+create or replace function public.chat_usage_summary(from_time timestamptz, to_time timestamptz)
+returns table (
+  day date,
+  provider text,
+  model text,
+  status text,
+  requests bigint,
+  users bigint,
+  prompt_tokens bigint,
+  completion_tokens bigint,
+  cost_usd numeric,
+  avg_latency_ms numeric
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    (e.created_at at time zone 'utc')::date,
+    e.provider,
+    e.model,
+    e.status,
+    count(*)::bigint,
+    count(distinct e.user_id)::bigint,
+    coalesce(sum(e.prompt_tokens), 0)::bigint,
+    coalesce(sum(e.completion_tokens), 0)::bigint,
+    coalesce(sum(e.cost_usd), 0),
+    round(avg(e.latency_ms))
+  from public.chat_usage_events e
+  where e.created_at >= from_time and e.created_at < to_time
+  group by 1, 2, 3, 4
+  order by 1, 2, 3, 4
+$$;
+
+-- Heaviest users in a period, for the admin view
+create or replace function public.chat_usage_top_users(from_time timestamptz, to_time timestamptz, max_users integer)
+returns table (
+  user_id uuid,
+  requests bigint,
+  errors bigint,
+  prompt_tokens bigint,
+  completion_tokens bigint,
+  cost_usd numeric
+)
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select
+    e.user_id,
+    count(*)::bigint,
+    count(*) filter (where e.status = 'error')::bigint,
+    coalesce(sum(e.prompt_tokens), 0)::bigint,
+    coalesce(sum(e.completion_tokens), 0)::bigint,
+    coalesce(sum(e.cost_usd), 0)
+  from public.chat_usage_events e
+  where e.created_at >= from_time and e.created_at < to_time
+  group by e.user_id
+  order by 2 desc, 6 desc
+  limit max_users
+$$;
+
+grant execute on function public.chat_usage_summary(timestamptz, timestamptz) to authenticated, service_role;
+revoke execute on function public.chat_usage_top_users(timestamptz, timestamptz, integer) from public;
+grant execute on function public.chat_usage_top_users(timestamptz, timestamptz, integer) to service_role;
+
+-- Current counts of rate limit windows without counting a request, for showing users
+-- their consumption against quota. Same key ownership rule as consume_rate_limit.
+create or replace function public.rate_limit_counts(counter_keys text[])
+returns table (counter_key text, hits integer)
+language plpgsql
+stable
+security definer
+set search_path = public
+as $$
+begin
+  if coalesce(auth.role(), '') <> 'service_role' then
+    if auth.uid() is null then
+      raise exception 'Not authenticated' using errcode = '42501';
+    end if;
+    if exists (select 1 from unnest(counter_keys) k where k not like auth.uid()::text || ':%') then
+      raise exception 'Rate limit keys must belong to the current user' using errcode = '42501';
+    end if;
+  end if;
+
+  return query
+    select t.k, coalesce(c.count, 0)
+    from unnest(counter_keys) with ordinality as t (k, i)
+    left join public.rate_limit_counters c on c.key = t.k and c.expires_at > now()
+    order by t.i;
+end;
+$$;
+
+revoke execute on function public.rate_limit_counts(text[]) from public;
+grant execute on function public.rate_limit_counts(text[]) to authenticated, service_role;
@@ -0,0 +1,111 @@
+-- Keeps a ticker's ledger from going short. Recording a sell and removing an entry
+-- both lock the user's rows for that ticker, apply the change and replay the ledger in
+-- the same transaction, so concurrent requests cannot each pass the check on their own.
+
+-- When the user's holdings of the ticker first drop below zero, or null if they never
+-- do. Same-timestamp entries replay buys first, then by id, like the API's replay.
+create or replace function public.portfolio_ledger_short_at(ledger_user_id uuid, ledger_ticker text)
+returns timestamptz
+language sql
+stable
+security invoker
+set search_path = public
+as $$
+  select l.executed_at
+  from (
+    select
+      t.executed_at,
+      sum(case when t.side = 'buy' then t.shares else -t.shares end)
+        over (order by t.executed_at, t.side = 'sell', t.id) as held
+    from public.portfolio_transactions t
+    where t.user_id = ledger_user_id and t.ticker = ledger_ticker
+  ) l
+  -- Share quantities have six decimals; anything smaller is rounding noise
+  where l.held < -0.000001
+  order by l.executed_at
+  limit 1
+$$;
+
+create or replace function public.record_portfolio_transaction(
+  tx_ticker text,
+  tx_side text,
+  tx_shares numeric,
+  tx_price numeric,
+  tx_fees numeric default 0,
+  tx_executed_at timestamptz default now(),
+  tx_notes text default null
+)
+returns public.portfolio_transactions
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  created public.portfolio_transactions;
+  short_at timestamptz;
+begin
+  if auth.uid() is null then
+    raise exception 'Not authenticated' using errcode = '42501';
+  end if;
+
+  perform 1 from public.portfolio_transactions t
+  where t.user_id = auth.uid() and t.ticker = tx_ticker
+  for update;
+
+  insert into public.portfolio_transactions (user_id, ticker, side, shares, price, fees, executed_at, notes)
+  values (auth.uid(), tx_ticker, tx_side, tx_shares, tx_price, coalesce(tx_fees, 0), tx_executed_at, tx_notes)
+  returning * into created;
+
+  if tx_side = 'sell' then
+    short_at := public.portfolio_ledger_short_at(auth.uid(), tx_ticker);
+    if short_at is not null then
+      raise exception 'Insufficient shares: % would be short from %', tx_ticker, short_at using errcode = 'P0001';
+    end if;
+  end if;
+
+  return created;
+end;
+$$;
+
+-- Returns the removed id, or null when the user has no such entry
+create or replace function public.delete_portfolio_transaction(transaction_id uuid)
+returns uuid
+language plpgsql
+security invoker
+set search_path = public
+as $$
+declare
+  target public.portfolio_transactions;
+  short_at timestamptz;
+begin
+  select * into target
+  from public.portfolio_transactions t
+  where t.id = transaction_id and t.user_id = auth.uid();
+
+  if not found then
+    return null;
+  end if;
+
+  perform 1 from public.portfolio_transactions t
+  where t.user_id = target.user_id and t.ticker = target.ticker
+  for update;
+
+  delete from public.portfolio_transactions t where t.id = target.id;
+  if not found then
+    return null;
+  end if;
+
+  -- Removing a buy must leave enough shares for the sells after it
+  short_at := public.portfolio_ledger_short_at(target.user_id, target.ticker);
+  if short_at is not null then
+    raise exception 'Insufficient shares: removing it would leave % short from %', target.ticker, short_at
+      using errcode = 'P0001';
+  end if;
+
+  return target.id;
+end;
+$$;
+
+grant execute on function public.portfolio_ledger_short_at(uuid, text) to authenticated;
+grant execute on function public.record_portfolio_transaction(text, text, numeric, numeric, numeric, timestamptz, text) to authenticated;
+grant execute on function public.delete_portfolio_transaction(uuid) to authenticated;